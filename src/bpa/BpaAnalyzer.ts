@@ -0,0 +1,349 @@
+import { ModelStructure, TableNode, ColumnNode, RelationshipNode } from '../views/explorer/ModelTreeItem';
+import { DependencyGraph } from '../dax/DependencyGraph';
+import { BpaScope } from './BpaExpression';
+import { BpaRule, BpaScopeName } from './BpaRule';
+
+/**
+ * Annotation Tabular Editor uses to suppress rules on an object, e.g. `{"RuleIDs":["RULE_ID"]}`.
+ */
+const IGNORE_ANNOTATION = 'BestPracticeAnalyzer_IgnoreRules';
+
+/**
+ * A rule violation on a model object.
+ */
+export interface BpaFinding {
+    rule: BpaRule;
+    objectType: BpaScopeName;
+    /** Display name, e.g. `'Sales'[Amount]`. */
+    objectName: string;
+    /** Source file relative to the definition folder. */
+    file: string;
+    lineNumber?: number;
+}
+
+/**
+ * Result of running rules against a model. Rules whose expression fails on some object
+ * are reported once in `errors` and stop being evaluated.
+ */
+export interface BpaResult {
+    findings: BpaFinding[];
+    errors: string[];
+}
+
+/**
+ * A model object paired with the scope object rule expressions are evaluated against.
+ */
+interface BpaObject {
+    type: BpaScopeName;
+    name: string;
+    file: string;
+    lineNumber?: number;
+    annotations?: Record<string, string>;
+    scope: BpaScope;
+}
+
+/**
+ * Runs Best Practice Analyzer rules against a loaded model.
+ */
+export class BpaAnalyzer {
+    private objects: BpaObject[] = [];
+    private tableScopes = new Map<string, BpaScope>();
+    private columnScopes = new Map<string, BpaScope>();
+
+    private constructor(private model: ModelStructure, private graph: DependencyGraph) {}
+
+    /**
+     * Evaluates rules against every object in their scope.
+     * @param model - The model structure.
+     * @param rules - The rules to run.
+     * @returns The findings, minus those suppressed by annotations.
+     */
+    static analyze(model: ModelStructure, rules: BpaRule[]): BpaResult {
+        const analyzer = new BpaAnalyzer(model, DependencyGraph.build(model));
+        analyzer.collectObjects();
+        return analyzer.run(rules);
+    }
+
+    private run(rules: BpaRule[]): BpaResult {
+        const findings: BpaFinding[] = [];
+        const errors: string[] = [];
+        const modelIgnored = getIgnoredRules(this.model.model.annotations);
+
+        for (const rule of rules) {
+            if (modelIgnored.has(rule.id)) {
+                continue;
+            }
+
+            for (const object of this.objects) {
+                if (!rule.scope.includes(object.type) || getIgnoredRules(object.annotations).has(rule.id)) {
+                    continue;
+                }
+
+                let violated: boolean;
+                try {
+                    violated = rule.expression.test(object.scope);
+                } catch (error) {
+                    errors.push(`Rule ${rule.id} failed on ${object.name}: ${error instanceof Error ? error.message : error}`);
+                    break;
+                }
+
+                if (violated) {
+                    findings.push({
+                        rule,
+                        objectType: object.type,
+                        objectName: object.name,
+                        file: object.file,
+                        lineNumber: object.lineNumber
+                    });
+                }
+            }
+        }
+
+        return { findings, errors };
+    }
+
+    /**
+     * Builds the scope objects for everything in the model. Properties that point at other
+     * objects are getters so the object graph can be cyclic (a table lists its columns and
+     * each column points back to its table).
+     */
+    private collectObjects(): void {
+        const model = this.model;
+        const self = this;
+        const modelScope: BpaScope = {
+            Name: model.model.name,
+            ObjectTypeName: 'Model',
+            get Tables() { return model.tables.map(t => self.getTableScope(t)); },
+            get Relationships() { return model.relationships.map(r => self.getRelationshipScope(r)); },
+            ...annotationMethods(model.model.annotations)
+        };
+
+        this.add('Model', model.model.name, model.model.file, undefined, model.model.annotations, modelScope);
+
+        for (const table of model.tables) {
+            const tableScope = this.getTableScope(table);
+            const isCalculated = table.columns.length > 0 && table.columns.every(c => c.type === 'CalculatedTableColumn');
+            this.add(isCalculated ? 'CalculatedTable' : 'Table', `'${table.name}'`, table.file, table.lineNumber, table.annotations, tableScope);
+
+            for (const column of table.columns) {
+                this.add(getColumnScopeName(column), `'${table.name}'[${column.name}]`, table.file, column.lineNumber,
+                    column.annotations, this.getColumnScope(table, column));
+            }
+
+            for (const measure of table.measures) {
+                const id = DependencyGraph.measureId(table.name, measure.name);
+                this.add('Measure', `'${table.name}'[${measure.name}]`, table.file, measure.lineNumber, measure.annotations, {
+                    Name: measure.name,
+                    ObjectTypeName: 'Measure',
+                    Description: measure.description ?? '',
+                    IsHidden: !!measure.isHidden,
+                    IsVisible: !measure.isHidden,
+                    Expression: measure.expression ?? '',
+                    FormatString: measure.formatString ?? '',
+                    DisplayFolder: measure.displayFolder ?? '',
+                    DaxObjectName: `[${measure.name}]`,
+                    DaxObjectFullName: `'${table.name}'[${measure.name}]`,
+                    get Table() { return self.getTableScope(table); },
+                    get ReferencedBy() { return self.getReferencedBy(id); },
+                    get DependsOn() { return self.getDependsOn(id); },
+                    ...annotationMethods(measure.annotations)
+                });
+            }
+
+            for (const partition of table.partitions) {
+                this.add('Partition', `'${table.name}'.${partition.name}`, table.file, partition.lineNumber, undefined, {
+                    Name: partition.name,
+                    ObjectTypeName: 'Partition',
+                    Mode: partition.mode ?? '',
+                    get Table() { return self.getTableScope(table); },
+                    ...annotationMethods(undefined)
+                });
+            }
+        }
+
+        for (const relationship of model.relationships) {
+            this.add('Relationship', relationship.name, relationship.file, relationship.lineNumber, undefined,
+                this.getRelationshipScope(relationship));
+        }
+
+        for (const expression of model.expressions) {
+            this.add('NamedExpression', expression.name, expression.file, expression.lineNumber, undefined, {
+                Name: expression.name,
+                ObjectTypeName: 'NamedExpression',
+                Kind: expression.kind,
+                Expression: expression.expression ?? '',
+                ...annotationMethods(undefined)
+            });
+        }
+
+        for (const culture of model.cultures) {
+            this.add('Culture', culture.name, culture.file, culture.lineNumber, undefined, {
+                Name: culture.name,
+                ObjectTypeName: 'Culture',
+                ...annotationMethods(undefined)
+            });
+        }
+    }
+
+    private add(
+        type: BpaScopeName,
+        name: string,
+        file: string,
+        lineNumber: number | undefined,
+        annotations: Record<string, string> | undefined,
+        scope: BpaScope
+    ): void {
+        this.objects.push({ type, name, file, lineNumber, annotations, scope });
+    }
+
+    private getTableScope(table: TableNode): BpaScope {
+        let scope = this.tableScopes.get(table.name);
+        if (scope) {
+            return scope;
+        }
+
+        const self = this;
+        const id = DependencyGraph.tableId(table.name);
+        scope = {
+            Name: table.name,
+            ObjectTypeName: 'Table',
+            Description: table.description ?? '',
+            IsHidden: !!table.isHidden,
+            IsVisible: !table.isHidden,
+            DaxObjectName: `'${table.name}'`,
+            DaxObjectFullName: `'${table.name}'`,
+            get Columns() { return table.columns.map(c => self.getColumnScope(table, c)); },
+            get Measures() { return table.measures.map(m => ({ Name: m.name, IsHidden: !!m.isHidden, Expression: m.expression ?? '' })); },
+            get Partitions() { return table.partitions.map(p => ({ Name: p.name, Mode: p.mode ?? '' })); },
+            get UsedInRelationships() {
+                return self.model.relationships
+                    .filter(r => r.fromTable === table.name || r.toTable === table.name)
+                    .map(r => self.getRelationshipScope(r));
+            },
+            get ReferencedBy() { return self.getReferencedBy(id); },
+            ...annotationMethods(table.annotations)
+        };
+        this.tableScopes.set(table.name, scope);
+        return scope;
+    }
+
+    private getColumnScope(table: TableNode, column: ColumnNode): BpaScope {
+        const id = DependencyGraph.columnId(table.name, column.name);
+        let scope = this.columnScopes.get(id);
+        if (scope) {
+            return scope;
+        }
+
+        const self = this;
+        scope = {
+            Name: column.name,
+            ObjectTypeName: 'Column',
+            Type: column.type ?? 'Data',
+            DataType: column.dataType ?? '',
+            Description: column.description ?? '',
+            IsHidden: !!column.isHidden,
+            IsVisible: !column.isHidden,
+            Expression: column.expression ?? '',
+            DisplayFolder: column.displayFolder ?? '',
+            DaxObjectName: `[${column.name}]`,
+            DaxObjectFullName: `'${table.name}'[${column.name}]`,
+            get Table() { return self.getTableScope(table); },
+            get UsedInRelationships() {
+                return self.model.relationships
+                    .filter(r => (r.fromTable === table.name && r.fromColumn === column.name) ||
+                        (r.toTable === table.name && r.toColumn === column.name))
+                    .map(r => self.getRelationshipScope(r));
+            },
+            get ReferencedBy() { return self.getReferencedBy(id); },
+            get DependsOn() { return self.getDependsOn(id); },
+            ...annotationMethods(column.annotations)
+        };
+        this.columnScopes.set(id, scope);
+        return scope;
+    }
+
+    private getRelationshipScope(relationship: RelationshipNode): BpaScope {
+        return {
+            Name: relationship.name,
+            ObjectTypeName: 'Relationship',
+            IsActive: relationship.isActive !== false,
+            FromTable: this.findTableScope(relationship.fromTable),
+            ToTable: this.findTableScope(relationship.toTable),
+            FromColumn: { Name: relationship.fromColumn },
+            ToColumn: { Name: relationship.toColumn },
+            ...annotationMethods(undefined)
+        };
+    }
+
+    private findTableScope(name: string): BpaScope {
+        const table = this.model.tables.find(t => t.name === name);
+        return table ? this.getTableScope(table) : { Name: name };
+    }
+
+    /**
+     * Gets the objects whose expressions reference a node.
+     * @param id - The dependency graph node id.
+     * @returns Minimal scopes for the referencing measures and columns.
+     */
+    private getReferencedBy(id: string): BpaScope[] {
+        return this.graph.getDependents(id).map(d => this.toReferenceScope(d));
+    }
+
+    /**
+     * Gets the objects a node's expression references.
+     * @param id - The dependency graph node id.
+     * @returns Minimal scopes for the referenced objects.
+     */
+    private getDependsOn(id: string): BpaScope[] {
+        return this.graph.getPrecedents(id).map(p => this.toReferenceScope(p));
+    }
+
+    private toReferenceScope(id: string): BpaScope {
+        const node = this.graph.getNode(id);
+        return {
+            Name: node?.name ?? id,
+            ObjectTypeName: node ? node.kind.charAt(0).toUpperCase() + node.kind.slice(1) : 'Missing',
+            TableName: node?.table ?? ''
+        };
+    }
+}
+
+/**
+ * Maps a column type reported by the CLI to its BPA scope name.
+ */
+function getColumnScopeName(column: ColumnNode): BpaScopeName {
+    switch (column.type) {
+        case 'Calculated': return 'CalculatedColumn';
+        case 'CalculatedTableColumn': return 'CalculatedTableColumn';
+        default: return 'DataColumn';
+    }
+}
+
+/**
+ * Builds the annotation accessors Tabular Editor exposes on every object.
+ */
+function annotationMethods(annotations: Record<string, string> | undefined): BpaScope {
+    return {
+        GetAnnotation: (name: unknown) => annotations?.[String(name)] ?? null,
+        HasAnnotation: (name: unknown) => annotations?.[String(name)] !== undefined
+    };
+}
+
+/**
+ * Reads the rule IDs suppressed on an object.
+ * @param annotations - The object's annotations.
+ * @returns The suppressed rule IDs; empty if the annotation is missing or malformed.
+ */
+function getIgnoredRules(annotations: Record<string, string> | undefined): Set<string> {
+    const value = annotations?.[IGNORE_ANNOTATION];
+    if (!value) {
+        return new Set();
+    }
+
+    try {
+        const parsed = JSON.parse(value) as { RuleIDs?: unknown };
+        return new Set(Array.isArray(parsed.RuleIDs) ? parsed.RuleIDs.map(String) : []);
+    } catch {
+        return new Set();
+    }
+}
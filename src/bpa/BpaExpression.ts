@@ -0,0 +1,455 @@
+/**
+ * Evaluator for the subset of Dynamic LINQ used by Tabular Editor Best Practice Analyzer rules.
+ *
+ * Supported syntax:
+ * - Literals: "strings", numbers, true, false, null
+ * - Operators: and/&&, or/||, not/!, =, ==, !=, <>, <, <=, >, >=, +, -
+ * - Member access on the current object (`Description`, `Table.Name`), case-insensitive
+ * - Methods: string.IsNullOrEmpty/IsNullOrWhitespace, RegEx.IsMatch, string Contains/StartsWith/
+ *   EndsWith/IndexOf/ToUpper/ToLower/Trim, collection Any/All/Count with an optional predicate
+ *   evaluated against each element, and functions exposed on objects such as `GetAnnotation(name)`
+ */
+
+type Node =
+    | { kind: 'literal'; value: unknown }
+    | { kind: 'identifier'; name: string }
+    | { kind: 'member'; target: Node; name: string }
+    | { kind: 'call'; target: Node | undefined; name: string; args: Node[] }
+    | { kind: 'unary'; operator: 'not' | '-'; operand: Node }
+    | { kind: 'binary'; operator: string; left: Node; right: Node };
+
+interface Token {
+    type: 'string' | 'number' | 'identifier' | 'operator' | 'end';
+    value: string;
+    position: number;
+}
+
+/**
+ * Object that rule expressions are evaluated against. Property names are matched case-insensitively.
+ */
+export type BpaScope = Record<string, unknown>;
+
+/**
+ * A compiled BPA rule expression.
+ */
+export class BpaExpression {
+    private constructor(readonly source: string, private root: Node) {}
+
+    /**
+     * Parses a rule expression.
+     * @param source - The expression text.
+     * @returns The compiled expression.
+     * @throws Error if the expression uses unsupported or invalid syntax.
+     */
+    static parse(source: string): BpaExpression {
+        const parser = new Parser(tokenize(source));
+        return new BpaExpression(source, parser.parseExpression());
+    }
+
+    /**
+     * Evaluates the expression against an object.
+     * @param scope - The object the rule applies to.
+     * @returns True if the expression evaluates to a truthy value.
+     */
+    test(scope: BpaScope): boolean {
+        return !!evaluate(this.root, scope);
+    }
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<>', '<=', '>=', '=', '<', '>', '!', '(', ')', ',', '.', '+', '-'];
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const ch = source[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (ch === '"') {
+            let value = '';
+            let j = i + 1;
+            while (j < source.length && source[j] !== '"') {
+                if (source[j] === '\\' && j + 1 < source.length) {
+                    value += source[j + 1];
+                    j += 2;
+                } else {
+                    value += source[j++];
+                }
+            }
+            if (j >= source.length) {
+                throw new Error(`Unterminated string at position ${i}`);
+            }
+            tokens.push({ type: 'string', value, position: i });
+            i = j + 1;
+        } else if (/[0-9]/.test(ch)) {
+            const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i))!;
+            tokens.push({ type: 'number', value: match[0], position: i });
+            i += match[0].length;
+        } else if (/[A-Za-z_]/.test(ch)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+            tokens.push({ type: 'identifier', value: match[0], position: i });
+            i += match[0].length;
+        } else {
+            const operator = OPERATORS.find(op => source.startsWith(op, i));
+            if (!operator) {
+                throw new Error(`Unexpected character '${ch}' at position ${i}`);
+            }
+            tokens.push({ type: 'operator', value: operator, position: i });
+            i += operator.length;
+        }
+    }
+
+    tokens.push({ type: 'end', value: '', position: source.length });
+    return tokens;
+}
+
+/**
+ * Recursive descent parser: or > and > not > comparison > additive > unary minus > postfix > primary.
+ */
+class Parser {
+    private index = 0;
+
+    constructor(private tokens: Token[]) {}
+
+    parseExpression(): Node {
+        const node = this.parseOr();
+        const token = this.peek();
+        if (token.type !== 'end') {
+            throw new Error(`Unexpected '${token.value}' at position ${token.position}`);
+        }
+        return node;
+    }
+
+    private parseOr(): Node {
+        let left = this.parseAnd();
+        while (this.acceptKeyword('or') || this.acceptOperator('||')) {
+            left = { kind: 'binary', operator: 'or', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    private parseAnd(): Node {
+        let left = this.parseNot();
+        while (this.acceptKeyword('and') || this.acceptOperator('&&')) {
+            left = { kind: 'binary', operator: 'and', left, right: this.parseNot() };
+        }
+        return left;
+    }
+
+    private parseNot(): Node {
+        if (this.acceptKeyword('not') || this.acceptOperator('!')) {
+            return { kind: 'unary', operator: 'not', operand: this.parseNot() };
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): Node {
+        const left = this.parseAdditive();
+        const token = this.peek();
+        if (token.type === 'operator' && ['=', '==', '!=', '<>', '<', '<=', '>', '>='].includes(token.value)) {
+            this.index++;
+            const operator = token.value === '==' ? '=' : token.value === '<>' ? '!=' : token.value;
+            return { kind: 'binary', operator, left, right: this.parseAdditive() };
+        }
+        return left;
+    }
+
+    private parseAdditive(): Node {
+        let left = this.parseUnary();
+        let token = this.peek();
+        while (token.type === 'operator' && (token.value === '+' || token.value === '-')) {
+            this.index++;
+            left = { kind: 'binary', operator: token.value, left, right: this.parseUnary() };
+            token = this.peek();
+        }
+        return left;
+    }
+
+    private parseUnary(): Node {
+        if (this.acceptOperator('-')) {
+            return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+        }
+        return this.parsePostfix();
+    }
+
+    private parsePostfix(): Node {
+        let node = this.parsePrimary();
+        while (this.acceptOperator('.')) {
+            const name = this.expect('identifier').value;
+            node = this.acceptOperator('(')
+                ? { kind: 'call', target: node, name, args: this.parseArguments() }
+                : { kind: 'member', target: node, name };
+        }
+        return node;
+    }
+
+    private parsePrimary(): Node {
+        const token = this.next();
+
+        switch (token.type) {
+            case 'string':
+                return { kind: 'literal', value: token.value };
+            case 'number':
+                return { kind: 'literal', value: Number(token.value) };
+            case 'identifier': {
+                const lower = token.value.toLowerCase();
+                if (lower === 'true' || lower === 'false') {
+                    return { kind: 'literal', value: lower === 'true' };
+                }
+                if (lower === 'null') {
+                    return { kind: 'literal', value: null };
+                }
+                if (this.acceptOperator('(')) {
+                    return { kind: 'call', target: undefined, name: token.value, args: this.parseArguments() };
+                }
+                return { kind: 'identifier', name: token.value };
+            }
+            case 'operator':
+                if (token.value === '(') {
+                    const node = this.parseOr();
+                    this.expectOperator(')');
+                    return node;
+                }
+                break;
+        }
+
+        throw new Error(`Unexpected '${token.value || 'end of expression'}' at position ${token.position}`);
+    }
+
+    private parseArguments(): Node[] {
+        const args: Node[] = [];
+        if (this.acceptOperator(')')) {
+            return args;
+        }
+        do {
+            args.push(this.parseOr());
+        } while (this.acceptOperator(','));
+        this.expectOperator(')');
+        return args;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.index];
+        if (token.type !== 'end') {
+            this.index++;
+        }
+        return token;
+    }
+
+    private acceptOperator(value: string): boolean {
+        const token = this.peek();
+        if (token.type === 'operator' && token.value === value) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private acceptKeyword(value: string): boolean {
+        const token = this.peek();
+        if (token.type === 'identifier' && token.value.toLowerCase() === value) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(type: Token['type']): Token {
+        const token = this.next();
+        if (token.type !== type) {
+            throw new Error(`Expected ${type} at position ${token.position}`);
+        }
+        return token;
+    }
+
+    private expectOperator(value: string): void {
+        if (!this.acceptOperator(value)) {
+            throw new Error(`Expected '${value}' at position ${this.peek().position}`);
+        }
+    }
+}
+
+/**
+ * Static type names that may prefix a method call, e.g. `string.IsNullOrWhitespace(x)`.
+ */
+const STATIC_TYPES = new Set(['string', 'regex']);
+
+function evaluate(node: Node, scope: BpaScope): unknown {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+        case 'identifier':
+            if (node.name.toLowerCase() === 'it') {
+                return scope;
+            }
+            return getProperty(scope, node.name);
+        case 'member':
+            return getProperty(evaluate(node.target, scope), node.name);
+        case 'unary':
+            return node.operator === 'not' ? !evaluate(node.operand, scope) : -(evaluate(node.operand, scope) as number);
+        case 'binary':
+            return evaluateBinary(node.operator, node.left, node.right, scope);
+        case 'call':
+            return evaluateCall(node, scope);
+    }
+}
+
+function evaluateBinary(operator: string, leftNode: Node, rightNode: Node, scope: BpaScope): unknown {
+    if (operator === 'and') {
+        return !!evaluate(leftNode, scope) && !!evaluate(rightNode, scope);
+    }
+    if (operator === 'or') {
+        return !!evaluate(leftNode, scope) || !!evaluate(rightNode, scope);
+    }
+
+    const left = evaluate(leftNode, scope);
+    const right = evaluate(rightNode, scope);
+
+    switch (operator) {
+        case '=': return looseEquals(left, right);
+        case '!=': return !looseEquals(left, right);
+        case '<': return (left as number) < (right as number);
+        case '<=': return (left as number) <= (right as number);
+        case '>': return (left as number) > (right as number);
+        case '>=': return (left as number) >= (right as number);
+        case '+': return typeof left === 'string' || typeof right === 'string'
+            ? `${left ?? ''}${right ?? ''}`
+            : (left as number) + (right as number);
+        case '-': return (left as number) - (right as number);
+        default: throw new Error(`Unsupported operator '${operator}'`);
+    }
+}
+
+/**
+ * Compares values the way Dynamic LINQ compares enums to strings: case-insensitively for strings,
+ * and treating a missing string property as equal to null.
+ */
+function looseEquals(left: unknown, right: unknown): boolean {
+    if (typeof left === 'string' && typeof right === 'string') {
+        return left.toLowerCase() === right.toLowerCase();
+    }
+    return (left ?? null) === (right ?? null);
+}
+
+function evaluateCall(node: Extract<Node, { kind: 'call' }>, scope: BpaScope): unknown {
+    const name = node.name.toLowerCase();
+
+    if (node.target?.kind === 'identifier' && STATIC_TYPES.has(node.target.name.toLowerCase()) &&
+        getProperty(scope, node.target.name) === undefined) {
+        const args = node.args.map(arg => evaluate(arg, scope));
+        return callStatic(node.target.name.toLowerCase(), name, args);
+    }
+
+    const target = node.target ? evaluate(node.target, scope) : scope;
+
+    if (Array.isArray(target)) {
+        return callCollection(target, name, node.args);
+    }
+
+    const args = node.args.map(arg => evaluate(arg, scope));
+
+    if (typeof target === 'string') {
+        return callString(target, name, args);
+    }
+
+    if (target && typeof target === 'object') {
+        const method = getProperty(target, node.name);
+        if (typeof method === 'function') {
+            return method(...args);
+        }
+    }
+
+    if (target === null || target === undefined) {
+        return undefined;
+    }
+
+    throw new Error(`Unsupported method '${node.name}'`);
+}
+
+function callStatic(type: string, name: string, args: unknown[]): unknown {
+    const value = args[0];
+    if (type === 'string' && name === 'isnullorempty') {
+        return value === null || value === undefined || value === '';
+    }
+    if (type === 'string' && name === 'isnullorwhitespace') {
+        return value === null || value === undefined || String(value).trim() === '';
+    }
+    if (type === 'regex' && name === 'ismatch') {
+        return compileRegex(String(args[1] ?? '')).test(String(value ?? ''));
+    }
+    throw new Error(`Unsupported method '${type}.${name}'`);
+}
+
+const REGEX_CACHE = new Map<string, RegExp>();
+
+/**
+ * Compiles a .NET regular expression once per pattern. A leading inline options group such as
+ * `(?i)`, which JavaScript does not support, becomes the matching flags.
+ */
+function compileRegex(pattern: string): RegExp {
+    let regex = REGEX_CACHE.get(pattern);
+    if (!regex) {
+        const options = /^\(\?([ims]+)\)/.exec(pattern);
+        regex = options
+            ? new RegExp(pattern.slice(options[0].length), [...new Set(options[1])].join(''))
+            : new RegExp(pattern);
+        REGEX_CACHE.set(pattern, regex);
+    }
+    return regex;
+}
+
+function callString(value: string, name: string, args: unknown[]): unknown {
+    const arg = String(args[0] ?? '');
+    switch (name) {
+        case 'contains': return value.includes(arg);
+        case 'startswith': return value.startsWith(arg);
+        case 'endswith': return value.endsWith(arg);
+        case 'indexof': return value.indexOf(arg);
+        case 'toupper': return value.toUpperCase();
+        case 'tolower': return value.toLowerCase();
+        case 'trim': return value.trim();
+        default: throw new Error(`Unsupported string method '${name}'`);
+    }
+}
+
+function callCollection(items: unknown[], name: string, args: Node[]): unknown {
+    const predicate = args[0];
+    const test = (item: unknown) => !predicate || !!evaluate(predicate, item as BpaScope);
+
+    switch (name) {
+        case 'any': return items.some(test);
+        case 'all': return items.every(test);
+        case 'count': return items.filter(test).length;
+        default: throw new Error(`Unsupported collection method '${name}'`);
+    }
+}
+
+function getProperty(target: unknown, name: string): unknown {
+    if (target === null || target === undefined) {
+        return undefined;
+    }
+
+    if (typeof target === 'string' && name.toLowerCase() === 'length') {
+        return target.length;
+    }
+    if (Array.isArray(target) && name.toLowerCase() === 'count') {
+        return target.length;
+    }
+    if (typeof target !== 'object') {
+        return undefined;
+    }
+
+    const record = target as Record<string, unknown>;
+    if (name in record) {
+        return record[name];
+    }
+    const lower = name.toLowerCase();
+    const key = Object.keys(record).find(k => k.toLowerCase() === lower);
+    return key === undefined ? undefined : record[key];
+}
@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import { BpaExpression } from './BpaExpression';
+
+/**
+ * Object types a rule can apply to, named as in Tabular Editor rule files.
+ */
+export const BPA_SCOPES = [
+    'Model',
+    'Table',
+    'CalculatedTable',
+    'Measure',
+    'DataColumn',
+    'CalculatedColumn',
+    'CalculatedTableColumn',
+    'Partition',
+    'Relationship',
+    'NamedExpression',
+    'Culture'
+] as const;
+
+export type BpaScopeName = typeof BPA_SCOPES[number];
+
+export type BpaSeverity = 'info' | 'warning' | 'error';
+
+/**
+ * A Best Practice Analyzer rule.
+ */
+export interface BpaRule {
+    id: string;
+    name: string;
+    category?: string;
+    description?: string;
+    severity: BpaSeverity;
+    scope: BpaScopeName[];
+    expression: BpaExpression;
+}
+
+/**
+ * Result of loading a rule file. Rules that fail to parse are reported in `errors` and skipped.
+ */
+export interface BpaRuleLoadResult {
+    rules: BpaRule[];
+    errors: string[];
+}
+
+/**
+ * Rule as stored in a Tabular Editor BPA rule file.
+ */
+interface BpaRuleJson {
+    ID?: string;
+    Name?: string;
+    Category?: string;
+    Description?: string;
+    Severity?: number | string;
+    Scope?: string;
+    Expression?: string;
+}
+
+/**
+ * Rules used when the workspace has no rule file.
+ */
+const DEFAULT_RULES: BpaRuleJson[] = [
+    {
+        ID: 'META_VISIBLE_TABLE_DESCRIPTION',
+        Name: 'Visible tables should have a description',
+        Category: 'Maintenance',
+        Severity: 1,
+        Scope: 'Table, CalculatedTable',
+        Expression: 'not IsHidden and string.IsNullOrWhitespace(Description)'
+    },
+    {
+        ID: 'META_VISIBLE_MEASURE_DESCRIPTION',
+        Name: 'Visible measures should have a description',
+        Category: 'Maintenance',
+        Severity: 1,
+        Scope: 'Measure',
+        Expression: 'not IsHidden and not Table.IsHidden and string.IsNullOrWhitespace(Description)'
+    },
+    {
+        ID: 'FORMAT_VISIBLE_MEASURE_FORMAT_STRING',
+        Name: 'Visible measures should have a format string',
+        Category: 'Formatting',
+        Severity: 1,
+        Scope: 'Measure',
+        Expression: 'not IsHidden and not Table.IsHidden and string.IsNullOrWhitespace(FormatString)'
+    },
+    {
+        ID: 'PERF_UNUSED_HIDDEN_COLUMNS',
+        Name: 'Remove hidden columns that are not used',
+        Category: 'Performance',
+        Description: 'Hidden columns that are not referenced by any DAX expression or relationship only add to model size.',
+        Severity: 2,
+        Scope: 'DataColumn, CalculatedColumn, CalculatedTableColumn',
+        Expression: '(IsHidden or Table.IsHidden) and ReferencedBy.Count = 0 and not UsedInRelationships.Any()'
+    },
+    {
+        ID: 'MAINT_UNUSED_HIDDEN_MEASURES',
+        Name: 'Remove hidden measures that are not used',
+        Category: 'Maintenance',
+        Severity: 2,
+        Scope: 'Measure',
+        Expression: '(IsHidden or Table.IsHidden) and ReferencedBy.Count = 0'
+    },
+    {
+        ID: 'MAINT_EMPTY_TABLES',
+        Name: 'Tables should contain at least one column',
+        Category: 'Maintenance',
+        Severity: 2,
+        Scope: 'Table',
+        Expression: 'Columns.Count = 0'
+    }
+];
+
+/**
+ * Loads Best Practice Analyzer rules in the Tabular Editor JSON format.
+ */
+export class BpaRuleLoader {
+    /**
+     * Loads rules from a rule file.
+     * @param filePath - Path to a JSON file holding an array of rules.
+     * @returns The parsed rules and any per-rule errors.
+     * @throws Error if the file cannot be read or is not a JSON array.
+     */
+    static loadFile(filePath: string): BpaRuleLoadResult {
+        const content = fs.readFileSync(filePath, 'utf8').replace(/^\uFEFF/, '');
+        const json: unknown = JSON.parse(content);
+        if (!Array.isArray(json)) {
+            throw new Error(`${filePath} must contain a JSON array of rules`);
+        }
+        return BpaRuleLoader.parse(json as BpaRuleJson[]);
+    }
+
+    /**
+     * Gets the built-in rules.
+     * @returns The default rules.
+     */
+    static loadDefaults(): BpaRuleLoadResult {
+        return BpaRuleLoader.parse(DEFAULT_RULES);
+    }
+
+    /**
+     * Parses raw rule objects.
+     * @param items - The rules as read from JSON.
+     * @returns The parsed rules and any per-rule errors.
+     */
+    private static parse(items: BpaRuleJson[]): BpaRuleLoadResult {
+        const rules: BpaRule[] = [];
+        const errors: string[] = [];
+
+        items.forEach((item, index) => {
+            const id = item.ID ?? `#${index + 1}`;
+            try {
+                rules.push(BpaRuleLoader.parseRule(item));
+            } catch (error) {
+                errors.push(`Rule ${id}: ${error instanceof Error ? error.message : error}`);
+            }
+        });
+
+        return { rules, errors };
+    }
+
+    private static parseRule(item: BpaRuleJson): BpaRule {
+        if (!item.ID) {
+            throw new Error('missing ID');
+        }
+        if (!item.Expression) {
+            throw new Error('missing Expression');
+        }
+
+        const scope = (item.Scope ?? '')
+            .split(',')
+            .map(s => s.trim())
+            .filter((s): s is BpaScopeName => (BPA_SCOPES as readonly string[]).includes(s));
+        if (scope.length === 0) {
+            throw new Error(`no supported object types in Scope '${item.Scope ?? ''}'`);
+        }
+
+        return {
+            id: item.ID,
+            name: item.Name ?? item.ID,
+            category: item.Category,
+            description: item.Description,
+            severity: BpaRuleLoader.parseSeverity(item.Severity),
+            scope,
+            expression: BpaExpression.parse(item.Expression)
+        };
+    }
+
+    /**
+     * Maps a rule severity to a diagnostic level.
+     * Tabular Editor uses 1 (low), 2 (medium) and 3 (high); names are accepted too.
+     */
+    private static parseSeverity(severity: number | string | undefined): BpaSeverity {
+        if (typeof severity === 'string') {
+            const lower = severity.toLowerCase();
+            if (lower === 'error' || lower === 'warning' || lower === 'info') {
+                return lower;
+            }
+            severity = Number(severity);
+        }
+
+        if (severity !== undefined && severity >= 3) {
+            return 'error';
+        }
+        return severity === 2 ? 'warning' : 'info';
+    }
+}
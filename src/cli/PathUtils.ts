@@ -1,4 +1,4 @@
-import * as vscode from 'vscode';
+import type * as vscode from 'vscode';
 import * as path from 'path';
 
 /**
@@ -11,12 +11,19 @@ export class PathUtils {
      * @returns The absolute path to the CLI executable.
      */
     static getCliPath(context: vscode.ExtensionContext): string {
+        return PathUtils.getCliPathIn(context.extensionPath);
+    }
+
+    /**
+     * Gets the absolute path to the TMDL CLI executable shipped in a package folder.
+     * @param packageRoot - The folder of the extension or npm package.
+     * @returns The absolute path to the CLI executable.
+     */
+    static getCliPathIn(packageRoot: string): string {
         const executableName = PathUtils.getExecutableName();
         const rid = PathUtils.getRuntimeId();
 
-        return context.asAbsolutePath(path.join(
-            'timdle-core', 'bin', 'Debug', 'net8.0', rid, executableName
-        ));
+        return path.join(packageRoot, 'timdle-core', 'bin', 'Debug', 'net8.0', rid, executableName);
     }
 
     /**
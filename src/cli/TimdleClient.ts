@@ -1,39 +1,33 @@
-import * as vscode from 'vscode';
-import * as cp from 'child_process';
-import { PathUtils } from './PathUtils';
-import { ModelStructure } from '../views/explorer/ModelTreeItem';
+import type * as vscode from 'vscode';
+import { RequestOptions, ServerLog, TimdleServer } from './TimdleServer';
+import { ModelStructure, TableNode } from '../views/explorer/ModelTreeItem';
 import { AuthConfig } from '../types/auth';
 
 /**
  * Client service for interacting with the TMDL CLI (timdle).
- * Wraps all CLI execution and output parsing logic.
+ * Talks to a single long-lived `timdle serve` process over JSON-RPC so the .NET
+ * runtime is started once per session rather than once per call.
+ * Used by the extension and by the headless `tmdl-studio` CLI.
  */
-export class TimdleClient {
-    private cliPath: string;
+export class TimdleClient implements vscode.Disposable {
+    private server: TimdleServer;
 
     /**
      * Creates a new TimdleClient instance.
-     * @param context - The VS Code extension context for CLI path resolution.
+     * @param cliPath - The absolute path to the timdle executable, see PathUtils.
+     * @param outputChannel - Channel that receives the CLI's stderr and lifecycle messages.
      */
-    constructor(private context: vscode.ExtensionContext) {
-        this.cliPath = PathUtils.getCliPath(context);
+    constructor(cliPath: string, outputChannel: ServerLog) {
+        this.server = new TimdleServer(cliPath, outputChannel);
     }
 
     /**
      * Validates the TMDL model at the specified path.
      * @param tmdlPath - The file system path to the TMDL folder.
-     * @returns A promise that resolves to the validation output.
+     * @returns A promise that resolves to the validation result.
      */
-    async validate(tmdlPath: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            cp.exec(`"${this.cliPath}" validate "${tmdlPath}"`, (err, stdout, stderr) => {
-                if (err) {
-                    reject(err);
-                    return;
-                }
-                resolve(stdout);
-            });
-        });
+    async validate(tmdlPath: string): Promise<ValidationResult> {
+        return this.server.request<ValidationResult>('validate', { path: tmdlPath });
     }
 
     /**
@@ -42,73 +36,100 @@ export class TimdleClient {
      * @returns A promise that resolves to the model structure.
      */
     async getModelStructure(tmdlPath: string): Promise<ModelStructure> {
-        return new Promise((resolve, reject) => {
-            const command = `"${this.cliPath}" get-model-structure "${tmdlPath}"`;
-
-            cp.exec(command, (err, stdout, stderr) => {
-                if (err) {
-                    reject(err);
-                    return;
-                }
-
-                try {
-                    const structure = JSON.parse(stdout) as ModelStructure;
-                    resolve(structure);
-                } catch (parseError) {
-                    reject(parseError);
-                }
-            });
-        });
+        return this.server.request<ModelStructure>('getModelStructure', { path: tmdlPath });
+    }
+
+    /**
+     * Parses a single table file of the TMDL model.
+     * @param tmdlPath - The file system path to the TMDL folder.
+     * @param tableFile - The table file, relative to the TMDL folder.
+     * @returns A promise that resolves to the table.
+     */
+    async getTableStructure(tmdlPath: string, tableFile: string): Promise<TableNode> {
+        return this.server.request<TableNode>('getTableStructure', { path: tmdlPath, file: tableFile });
     }
 
     /**
      * Lists tables in the TMDL model.
      * @param tmdlPath - The file system path to the TMDL folder.
-     * @returns A promise that resolves to the table list output.
+     * @returns A promise that resolves to the table names.
      */
-    async listTables(tmdlPath: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            cp.exec(`"${this.cliPath}" list-tables "${tmdlPath}"`, (err, stdout, stderr) => {
-                if (err) {
-                    reject(err);
-                    return;
-                }
-                resolve(stdout);
-            });
-        });
+    async listTables(tmdlPath: string): Promise<string[]> {
+        return this.server.request<string[]>('listTables', { path: tmdlPath });
     }
 
     /**
      * Deploys the TMDL model to the specified workspace.
      * @param tmdlPath - The file system path to the TMDL folder.
      * @param authConfig - Authentication configuration including workspace URL and credentials.
+     * @param overrides - Optional environment-specific parameter and expression values.
+     * @param options - Receives stage updates; cancelling stops the deploy at its next step.
      * @returns A promise that resolves to the deploy result.
      */
-    async deploy(tmdlPath: string, authConfig: AuthConfig): Promise<DeployResult> {
-        return new Promise((resolve, reject) => {
-            // Pass auth config via environment variables to avoid exposing credentials in command line
-            const authJson = JSON.stringify(authConfig);
-            const env = {
-                ...process.env,
-                TMDL_AUTH_CONFIG: authJson
-            };
-            const command = `"${this.cliPath}" deploy "${tmdlPath}"`;
-
-            cp.exec(command, { env }, (err, stdout, stderr) => {
-                if (err) {
-                    reject(err);
-                    return;
-                }
-
-                try {
-                    const result = JSON.parse(stdout) as DeployResult;
-                    resolve(result);
-                } catch (parseError) {
-                    reject(parseError);
-                }
-            });
-        });
+    async deploy(
+        tmdlPath: string,
+        authConfig: AuthConfig,
+        overrides?: DeploymentOverrides,
+        options: DeployOptions = {}
+    ): Promise<DeployResult> {
+        // Credentials travel over the server's stdin, never on a command line
+        return this.server.request<DeployResult, DeployProgress>('deploy', {
+            path: tmdlPath,
+            authConfig,
+            overrides,
+            refresh: options.refresh ?? false
+        }, options);
     }
+
+    /**
+     * Downloads the semantic model that deploying the TMDL model would overwrite.
+     * @param tmdlPath - The file system path to the TMDL folder.
+     * @param authConfig - Authentication configuration including workspace URL and credentials.
+     * @returns A promise that resolves to the deployed model, if any.
+     */
+    async getDeployedModel(tmdlPath: string, authConfig: AuthConfig): Promise<DeployedModel> {
+        return this.server.request<DeployedModel>('getDeployedModel', { path: tmdlPath, authConfig });
+    }
+
+    /**
+     * Shuts down the timdle server, letting in-flight requests finish first.
+     * @returns A promise that resolves once the server has exited.
+     */
+    shutdown(): Promise<void> {
+        return this.server.shutdown();
+    }
+
+    /**
+     * Kills the timdle server immediately.
+     */
+    dispose(): void {
+        this.server.dispose();
+    }
+}
+
+/**
+ * Result of a validation operation.
+ */
+export interface ValidationResult {
+    isSuccess: boolean;
+    isWarning: boolean;
+    message: string;
+    diagnostics: ValidationDiagnostic[];
+}
+
+/**
+ * A validation finding tied to a location in a TMDL file.
+ */
+export interface ValidationDiagnostic {
+    /** Path relative to the validated folder, e.g. `tables/Sales.tmdl`. */
+    file: string;
+    /** 1-based line number. */
+    line?: number;
+    /** 1-based column number. */
+    column?: number;
+    severity: 'error' | 'warning' | 'info';
+    code: string;
+    message: string;
 }
 
 /**
@@ -119,5 +140,50 @@ export interface DeployResult {
     message: string;
 }
 
+/**
+ * Stages a deploy goes through, in order. Creating a new semantic model skips renaming;
+ * refreshing only happens when the deploy asked for it.
+ */
+export type DeployStage = 'authenticating' | 'resolvingWorkspace' | 'renamingItem' | 'uploadingDefinition' | 'waitingForOperation' | 'refreshing';
+
+/**
+ * Options for a deploy.
+ */
+export interface DeployOptions extends RequestOptions<DeployProgress> {
+    /** Refreshes the semantic model's data once the definition is deployed. */
+    refresh?: boolean;
+}
+
+/**
+ * Stage update reported while a deploy runs.
+ */
+export interface DeployProgress {
+    stage: DeployStage;
+    message: string;
+    /** Fabric long-running operation id, once the definition upload was accepted. */
+    operationId?: string;
+}
+
+/**
+ * Values applied to a copy of the model before it is deployed.
+ */
+export interface DeploymentOverrides {
+    /** Power Query parameter values as M literals, keyed by parameter name. */
+    parameters?: Record<string, string>;
+    /** Full replacement M expressions, keyed by shared expression name. */
+    expressions?: Record<string, string>;
+}
+
+/**
+ * The semantic model currently deployed to a workspace.
+ */
+export interface DeployedModel {
+    /** False when deploy would create a new semantic model. */
+    exists: boolean;
+    itemId?: string;
+    itemName?: string;
+    model?: ModelStructure;
+}
+
 // Re-export auth types for convenience
 export { AuthConfig, AuthMode, ServicePrincipalCredentials } from '../types/auth';
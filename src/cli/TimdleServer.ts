@@ -0,0 +1,359 @@
+import type * as vscode from 'vscode';
+import * as cp from 'child_process';
+
+/**
+ * Pending JSON-RPC request awaiting a response from the server.
+ */
+interface PendingRequest {
+    method: string;
+    resolve: (value: unknown) => void;
+    reject: (reason: Error) => void;
+    onProgress?: (params: unknown) => void;
+}
+
+/**
+ * JSON-RPC 2.0 message as written by `timdle serve`: a response, or a notification
+ * such as the progress of a running request.
+ */
+interface RpcResponseMessage {
+    jsonrpc: '2.0';
+    id?: number | null;
+    method?: string;
+    params?: { requestId?: number };
+    result?: unknown;
+    error?: { code: number; message: string };
+}
+
+/**
+ * Where the server's stderr and lifecycle messages go: an output channel in VS Code, stderr in the
+ * headless CLI.
+ */
+export type ServerLog = Pick<vscode.OutputChannel, 'append' | 'appendLine'>;
+
+/**
+ * Starts a `timdle serve` process. Tests pass one that returns a fake process.
+ */
+export type ServerSpawner = (cliPath: string) => cp.ChildProcessWithoutNullStreams;
+
+/**
+ * Error a request rejects with when it is cancelled.
+ */
+export class RequestCancelledError extends Error {
+    /**
+     * @param method - The JSON-RPC method of the cancelled request.
+     */
+    constructor(method: string) {
+        super(`'${method}' was cancelled`);
+        this.name = 'RequestCancelledError';
+    }
+}
+
+/**
+ * Options for a single request.
+ */
+export interface RequestOptions<P> {
+    /** Receives the server's progress notifications for the request. */
+    onProgress?: (progress: P) => void;
+    /**
+     * Cancels the request. The request fails at once and the server is asked to stop it;
+     * the process is killed only if the server does not stop it in time.
+     */
+    token?: vscode.CancellationToken;
+}
+
+/**
+ * Manages a long-lived `timdle serve` process and exchanges line-delimited
+ * JSON-RPC messages with it over stdio.
+ *
+ * The process is started lazily on the first request and restarted on the next
+ * request after it exits unexpectedly. Repeated crashes in a short window stop the
+ * restarts so a broken binary does not spin.
+ *
+ * Only VS Code types are used here, so the headless CLI can run the server outside the editor.
+ */
+export class TimdleServer implements vscode.Disposable {
+    private static readonly MAX_RESTARTS = 3;
+    private static readonly RESTART_WINDOW_MS = 60 * 1000;
+    private static readonly SHUTDOWN_TIMEOUT_MS = 2000;
+    private static readonly CANCEL_TIMEOUT_MS = 10 * 1000;
+
+    private process: cp.ChildProcessWithoutNullStreams | undefined;
+    private pending = new Map<number, PendingRequest>();
+    private nextId = 1;
+    private buffer = '';
+    private crashTimes: number[] = [];
+    private isShuttingDown = false;
+    private killedForCancel: cp.ChildProcess | undefined;
+    /** Kill timers of cancelled requests the server has not answered yet, by request id. */
+    private cancelling = new Map<number, NodeJS.Timeout>();
+
+    /**
+     * Creates a new TimdleServer instance.
+     * @param cliPath - The absolute path to the timdle executable.
+     * @param outputChannel - Channel that receives the server's stderr and lifecycle messages.
+     * @param spawn - Starts the server process; defaults to running `<cliPath> serve`.
+     */
+    constructor(
+        private cliPath: string,
+        private outputChannel: ServerLog,
+        private spawn: ServerSpawner = path => cp.spawn(path, ['serve'], { stdio: 'pipe' })
+    ) {}
+
+    /**
+     * Sends a request to the server and waits for its response.
+     * @param method - The JSON-RPC method name.
+     * @param params - The method parameters.
+     * @param options - Progress and cancellation for the request.
+     * @returns A promise that resolves to the method result, or rejects with a
+     * RequestCancelledError when the request is cancelled.
+     */
+    request<T, P = unknown>(method: string, params: object, options: RequestOptions<P> = {}): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            if (options.token?.isCancellationRequested) {
+                reject(new RequestCancelledError(method));
+                return;
+            }
+
+            let child: cp.ChildProcessWithoutNullStreams;
+            try {
+                child = this.ensureStarted();
+            } catch (error) {
+                reject(error instanceof Error ? error : new Error(String(error)));
+                return;
+            }
+
+            const id = this.nextId++;
+            const cancellation = options.token?.onCancellationRequested(() => this.cancel(child, id));
+            this.pending.set(id, {
+                method,
+                resolve: (value) => {
+                    cancellation?.dispose();
+                    resolve(value as T);
+                },
+                reject: (reason) => {
+                    cancellation?.dispose();
+                    reject(reason);
+                },
+                onProgress: options.onProgress && (params => options.onProgress!(params as P))
+            });
+
+            const message = JSON.stringify({ jsonrpc: '2.0', id, method, params });
+            child.stdin.write(`${message}\n`, (err) => {
+                if (err && this.pending.delete(id)) {
+                    cancellation?.dispose();
+                    reject(new Error(`Failed to send '${method}' to timdle: ${err.message}`));
+                }
+            });
+        });
+    }
+
+    /**
+     * Fails a cancelled request and asks the server to stop it with a `$/cancelRequest`
+     * notification. Other requests on the same process keep running. If the server has not
+     * answered the request in time, the process is killed; the kill does not count as a crash.
+     * @param child - The process the request was sent to.
+     * @param id - The id of the cancelled request.
+     */
+    private cancel(child: cp.ChildProcessWithoutNullStreams, id: number): void {
+        const request = this.pending.get(id);
+        if (!request) {
+            return;
+        }
+        this.pending.delete(id);
+        request.reject(new RequestCancelledError(request.method));
+
+        if (this.process !== child) {
+            return;
+        }
+
+        const notification = JSON.stringify({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id } });
+        child.stdin.write(`${notification}\n`, () => { /* a failed write ends with the process */ });
+
+        this.cancelling.set(id, setTimeout(() => {
+            this.cancelling.delete(id);
+            if (this.process === child) {
+                this.outputChannel.appendLine(`Stopping timdle server: '${request.method}' did not stop after it was cancelled`);
+                this.killedForCancel = child;
+                child.kill();
+            }
+        }, TimdleServer.CANCEL_TIMEOUT_MS));
+    }
+
+    /**
+     * Asks the server to finish in-flight work and exit, killing it if it does not
+     * exit in time.
+     * @returns A promise that resolves once the process has exited.
+     */
+    async shutdown(): Promise<void> {
+        const child = this.process;
+        if (!child) {
+            return;
+        }
+
+        this.isShuttingDown = true;
+
+        let timer: NodeJS.Timeout | undefined;
+        const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+        const timeout = new Promise<void>(resolve => { timer = setTimeout(resolve, TimdleServer.SHUTDOWN_TIMEOUT_MS); });
+
+        this.request('shutdown', {}).catch(() => { /* exit handler rejects pending requests */ });
+        child.stdin.end();
+
+        // A pending timer would keep the headless CLI alive after the server has exited
+        await Promise.race([exited, timeout]);
+        clearTimeout(timer);
+
+        if (this.process === child) {
+            child.kill();
+        }
+    }
+
+    /**
+     * Kills the server process without waiting for in-flight requests.
+     */
+    dispose(): void {
+        this.isShuttingDown = true;
+        this.process?.kill();
+        this.clearCancelTimers();
+    }
+
+    /**
+     * Stops waiting for the server to answer cancelled requests.
+     */
+    private clearCancelTimers(): void {
+        this.cancelling.forEach(timer => clearTimeout(timer));
+        this.cancelling.clear();
+    }
+
+    /**
+     * Returns the running server process, starting one if needed.
+     * @returns The server process.
+     */
+    private ensureStarted(): cp.ChildProcessWithoutNullStreams {
+        if (this.process) {
+            return this.process;
+        }
+
+        if (this.isShuttingDown) {
+            throw new Error('timdle server is shutting down');
+        }
+
+        const now = Date.now();
+        this.crashTimes = this.crashTimes.filter(t => now - t < TimdleServer.RESTART_WINDOW_MS);
+        if (this.crashTimes.length >= TimdleServer.MAX_RESTARTS) {
+            throw new Error(`timdle server crashed ${this.crashTimes.length} times in the last minute; not restarting`);
+        }
+
+        this.outputChannel.appendLine(`Starting timdle server: ${this.cliPath} serve`);
+
+        const child = this.spawn(this.cliPath);
+        this.process = child;
+        this.buffer = '';
+
+        child.stdout.setEncoding('utf8');
+        child.stdout.on('data', (chunk: string) => this.onData(chunk));
+
+        // Writes to a process that is exiting, e.g. after a cancel, fail through the write callback
+        child.stdin.on('error', () => { /* reported by the write callback */ });
+
+        child.stderr.setEncoding('utf8');
+        child.stderr.on('data', (chunk: string) => this.outputChannel.append(chunk));
+
+        child.on('error', (error) => {
+            this.outputChannel.appendLine(`timdle server error: ${error.message}`);
+            this.onExit(child, null, error.message);
+        });
+
+        child.on('exit', (code, signal) => {
+            this.onExit(child, code, signal ?? undefined);
+        });
+
+        return child;
+    }
+
+    /**
+     * Splits stdout into lines and dispatches each complete message.
+     * @param chunk - The stdout chunk.
+     */
+    private onData(chunk: string): void {
+        this.buffer += chunk;
+
+        let newlineIndex: number;
+        while ((newlineIndex = this.buffer.indexOf('\n')) >= 0) {
+            const line = this.buffer.slice(0, newlineIndex).trim();
+            this.buffer = this.buffer.slice(newlineIndex + 1);
+            if (line) {
+                this.onMessage(line);
+            }
+        }
+    }
+
+    /**
+     * Resolves or rejects the pending request that matches a response line, or passes a
+     * progress notification to the request it belongs to.
+     * @param line - A single line of JSON from the server.
+     */
+    private onMessage(line: string): void {
+        let message: RpcResponseMessage;
+        try {
+            message = JSON.parse(line) as RpcResponseMessage;
+        } catch {
+            this.outputChannel.appendLine(`Ignoring non-JSON output from timdle: ${line}`);
+            return;
+        }
+
+        if (message.id === null || message.id === undefined) {
+            if (message.method === 'progress' && message.params?.requestId !== undefined) {
+                this.pending.get(message.params.requestId)?.onProgress?.(message.params);
+            } else if (message.error) {
+                this.outputChannel.appendLine(`timdle server error: ${message.error.message}`);
+            }
+            return;
+        }
+
+        // The server stopped a cancelled request, or finished it first
+        const cancelTimer = this.cancelling.get(message.id);
+        if (cancelTimer) {
+            clearTimeout(cancelTimer);
+            this.cancelling.delete(message.id);
+        }
+
+        const request = this.pending.get(message.id);
+        if (!request) {
+            return;
+        }
+        this.pending.delete(message.id);
+
+        if (message.error) {
+            request.reject(new Error(message.error.message));
+        } else {
+            request.resolve(message.result);
+        }
+    }
+
+    /**
+     * Cleans up after the process exits and fails any requests still waiting on it.
+     * @param child - The process that exited.
+     * @param code - The exit code, if any.
+     * @param reason - The signal or error that ended the process, if any.
+     */
+    private onExit(child: cp.ChildProcess, code: number | null, reason?: string): void {
+        if (this.process !== child) {
+            return;
+        }
+        this.process = undefined;
+        this.clearCancelTimers();
+
+        if (this.killedForCancel === child) {
+            this.killedForCancel = undefined;
+        } else if (!this.isShuttingDown) {
+            this.crashTimes.push(Date.now());
+            this.outputChannel.appendLine(`timdle server exited unexpectedly (code: ${code ?? 'none'}${reason ? `, ${reason}` : ''})`);
+        }
+
+        for (const [, request] of this.pending) {
+            request.reject(new Error(`timdle server exited before answering '${request.method}'`));
+        }
+        this.pending.clear();
+    }
+}
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { AuthService } from '../services/AuthService';
+import { Config } from '../config';
+import { MSAL_CONFIG, StoredAccount } from '../types/auth';
+
+/**
+ * Command handlers for the account store: switching the active account, signing in another
+ * account and signing out.
+ */
+export class AccountCommand {
+    /**
+     * Registers the account commands with VS Code.
+     * @param context - The extension context.
+     * @param authService - The authentication service holding the account store.
+     * @returns The disposable command registrations.
+     */
+    static register(context: vscode.ExtensionContext, authService: AuthService): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.commands.registerCommand('tmdl-studio.switch-account', () => AccountCommand.switchAccount(authService)),
+            vscode.commands.registerCommand('tmdl-studio.sign-out', () => AccountCommand.signOut(authService))
+        );
+    }
+
+    /**
+     * Picks the active account among the signed-in accounts, or signs in another one.
+     * @param authService - The authentication service.
+     */
+    private static async switchAccount(authService: AuthService): Promise<void> {
+        const accounts = await authService.getAccounts();
+        const active = await authService.getActiveAccount();
+
+        interface AccountItem extends vscode.QuickPickItem {
+            account?: StoredAccount;
+            action?: 'sign-in' | 'sign-out';
+        }
+
+        const items: AccountItem[] = accounts.map(account => ({
+            label: `${account.id === active?.id ? '$(check)' : '$(account)'} ${account.account.username}`,
+            description: account.account.name,
+            detail: `Tenant ${account.tenantId}`,
+            account
+        }));
+        items.push({ label: '$(add) Sign in with another account...', action: 'sign-in' });
+        if (accounts.length > 0) {
+            items.push({ label: '$(sign-out) Sign out...', action: 'sign-out' });
+        }
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: active ? `Deploying as ${active.account.username}` : 'No account is signed in'
+        });
+        if (selection?.account) {
+            await authService.setActiveAccount(selection.account.id);
+        } else if (selection?.action === 'sign-in') {
+            await AccountCommand.signIn(authService);
+        } else if (selection?.action === 'sign-out') {
+            await AccountCommand.signOut(authService);
+        }
+    }
+
+    /**
+     * Asks for a tenant and signs in a new account with the sign-in flow chosen in the settings.
+     * @param authService - The authentication service.
+     */
+    private static async signIn(authService: AuthService): Promise<void> {
+        const defaultTenant = Config.getValue<string>('auth.defaultTenant') || MSAL_CONFIG.defaultTenant;
+        const tenant = await vscode.window.showInputBox({
+            prompt: 'Tenant ID or domain to sign in to',
+            placeHolder: `${MSAL_CONFIG.defaultTenant} (any tenant)`,
+            value: defaultTenant,
+            ignoreFocusOut: true
+        });
+        if (tenant === undefined) {
+            return;
+        }
+
+        try {
+            const account = await authService.signIn(tenant.trim());
+            vscode.window.showInformationMessage(`Signed in as ${account.account.username}.`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Sign in failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Picks a signed-in account and signs it out.
+     * @param authService - The authentication service.
+     */
+    private static async signOut(authService: AuthService): Promise<void> {
+        const accounts = await authService.getAccounts();
+        if (accounts.length === 0) {
+            vscode.window.showInformationMessage('No account is signed in.');
+            return;
+        }
+
+        const selection = accounts.length === 1
+            ? { account: accounts[0] }
+            : await vscode.window.showQuickPick(
+                accounts.map(account => ({
+                    label: account.account.username,
+                    description: `Tenant ${account.tenantId}`,
+                    account
+                })),
+                { placeHolder: 'Account to sign out' }
+            );
+        if (selection) {
+            await authService.signOut(selection.account.id);
+            vscode.window.showInformationMessage(`Signed out ${selection.account.account.username}.`);
+        }
+    }
+}
@@ -1,19 +1,51 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { LoadedModel, TreeNode } from '../views/explorer/ModelTreeItem';
+import { ValidationDiagnostics } from '../diagnostics/ValidationDiagnostics';
 
 /**
- * Command handler for closing the currently open TMDL model.
+ * Command handler for closing an open TMDL model.
  */
 export class CloseModelCommand {
     /**
      * Registers the close model command with VS Code.
      * @param context - The extension context.
      * @param treeProvider - The tabular tree provider instance.
+     * @param diagnostics - The validation diagnostics publisher.
      * @returns The disposable command registration.
      */
-    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
-        return vscode.commands.registerCommand('tmdl-studio.close-model', async () => {
-            await treeProvider.closeTmdlFolder();
+    static register(
+        context: vscode.ExtensionContext,
+        treeProvider: TabularTreeProvider,
+        diagnostics: ValidationDiagnostics
+    ): vscode.Disposable {
+        return vscode.commands.registerCommand('tmdl-studio.close-model', async (element?: TreeNode) => {
+            const model = element ? treeProvider.getModelForNode(element) : await CloseModelCommand.pickModel(treeProvider);
+            if (!model) {
+                return;
+            }
+
+            await treeProvider.closeModel(model.projectRoot);
+            diagnostics.clear(model.definitionFolder);
         });
     }
+
+    /**
+     * Picks the model to close when the command is not run from a project node.
+     * @param treeProvider - The tabular tree provider instance.
+     * @returns The model, or undefined if none is open or the pick was cancelled.
+     */
+    private static async pickModel(treeProvider: TabularTreeProvider): Promise<LoadedModel | undefined> {
+        const open = treeProvider.getModels().filter(m => m.isOpen);
+        if (open.length <= 1) {
+            return open[0];
+        }
+
+        const selection = await vscode.window.showQuickPick(
+            open.map(model => ({ label: model.data?.name ?? path.basename(model.projectRoot), description: model.projectRoot, model })),
+            { placeHolder: 'Model to close' }
+        );
+        return selection?.model;
+    }
 }
@@ -0,0 +1,472 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { ModelStructure, TableNode, TreeNode } from '../views/explorer/ModelTreeItem';
+import { DaxReferenceResolver } from '../dax/DaxReferenceResolver';
+import { quoteTmdlName } from '../refactor/ModelRename';
+import { TmdlText } from '../refactor/TmdlText';
+
+/**
+ * Text to insert into a TMDL file, and where the cursor goes afterwards.
+ */
+interface TmdlInsertion {
+    position: vscode.Position;
+    text: string;
+    /** Cursor position once the text is inserted. */
+    cursor: vscode.Position;
+}
+
+const DATA_TYPES = ['string', 'int64', 'double', 'decimal', 'dateTime', 'boolean'];
+
+const FORMAT_STRINGS: vscode.QuickPickItem[] = [
+    { label: 'None', description: 'Inherit the default format' },
+    { label: '#,0', description: 'Whole number' },
+    { label: '#,0.00', description: 'Decimal number' },
+    { label: '0.0%', description: 'Percentage' },
+    { label: '\\$#,0.00;(\\$#,0.00);\\$#,0.00', description: 'Currency' },
+    { label: 'Custom...', description: 'Enter a format string' }
+];
+
+const CARDINALITIES: (vscode.QuickPickItem & { properties: string[] })[] = [
+    { label: 'Many to one (*:1)', description: 'Default', properties: [] },
+    { label: 'One to one (1:1)', properties: ['fromCardinality: one'] },
+    { label: 'Many to many (*:*)', properties: ['toCardinality: many'] }
+];
+
+/**
+ * Command handlers for creating measures, calculated columns, tables and relationships from the
+ * Tabular Model explorer. Each writes TMDL into the right file and reveals the new object.
+ */
+export class CreateObjectCommand {
+    /**
+     * @param treeProvider - The tabular tree provider instance.
+     */
+    private constructor(private treeProvider: TabularTreeProvider) {}
+
+    /**
+     * Registers the create commands with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @returns The disposable command registrations.
+     */
+    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
+        const command = new CreateObjectCommand(treeProvider);
+        return vscode.Disposable.from(
+            vscode.commands.registerCommand('tmdl-studio.new-measure', (element?: TreeNode) =>
+                command.run(element, (m, folder) => command.newMeasure(m, folder, element))),
+            vscode.commands.registerCommand('tmdl-studio.new-column', (element?: TreeNode) =>
+                command.run(element, (m, folder) => command.newColumn(m, folder, element))),
+            vscode.commands.registerCommand('tmdl-studio.new-table', (element?: TreeNode) =>
+                command.run(element, (m, folder) => command.newTable(m, folder))),
+            vscode.commands.registerCommand('tmdl-studio.new-relationship', (element?: TreeNode) =>
+                command.run(element, (m, folder) => command.newRelationship(m, folder)))
+        );
+    }
+
+    /**
+     * Runs a create step against the model of an explorer node, or the active model, and reports failures.
+     * @param element - The explorer node the command was run on, if any.
+     * @param create - The create step, given the model and its definition folder.
+     */
+    private async run(element: TreeNode | undefined, create: (model: ModelStructure, folder: string) => Promise<void>): Promise<void> {
+        const model = element ? this.treeProvider.getModelForNode(element) : this.treeProvider.getActiveModel();
+        if (!model?.data) {
+            vscode.window.showInformationMessage('Open a TMDL model before creating objects.');
+            return;
+        }
+
+        try {
+            await create(model.data, model.definitionFolder);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to create object: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Creates a measure in a table.
+     * @param model - The loaded model.
+     * @param folder - The model's definition folder.
+     * @param element - The explorer node the command was run on.
+     */
+    private async newMeasure(model: ModelStructure, folder: string, element?: TreeNode): Promise<void> {
+        const table = await this.pickTable(model, element, 'Table to add the measure to');
+        if (!table) {
+            return;
+        }
+
+        const name = await vscode.window.showInputBox({
+            title: `New measure in '${table.name}'`,
+            prompt: 'Measure name',
+            validateInput: value => validateName(value) ??
+                (model.tables.some(t => t.measures.some(m => same(m.name, value))) || table.columns.some(c => same(c.name, value))
+                    ? `A measure or column named '${value}' already exists.`
+                    : undefined)
+        });
+        if (name === undefined) {
+            return;
+        }
+
+        const expression = await vscode.window.showInputBox({
+            title: `New measure '${name}'`,
+            prompt: 'DAX expression',
+            value: 'BLANK()',
+            validateInput: value => value.trim() ? undefined : 'Enter an expression.'
+        });
+        if (expression === undefined) {
+            return;
+        }
+
+        const formatString = await this.pickFormatString();
+        if (formatString === undefined) {
+            return;
+        }
+
+        const properties = [
+            ...(formatString ? [`formatString: ${formatString}`] : []),
+            `lineageTag: ${crypto.randomUUID()}`
+        ];
+        await this.insertIntoTable(folder, table, 'measure', `measure ${quoteTmdlName(name)} = `, expression.trim(), properties);
+    }
+
+    /**
+     * Creates a calculated column in a table.
+     * @param model - The loaded model.
+     * @param folder - The model's definition folder.
+     * @param element - The explorer node the command was run on.
+     */
+    private async newColumn(model: ModelStructure, folder: string, element?: TreeNode): Promise<void> {
+        const table = await this.pickTable(model, element, 'Table to add the calculated column to');
+        if (!table) {
+            return;
+        }
+
+        const name = await vscode.window.showInputBox({
+            title: `New calculated column in '${table.name}'`,
+            prompt: 'Column name',
+            validateInput: value => validateName(value) ??
+                (table.columns.some(c => same(c.name, value)) || table.measures.some(m => same(m.name, value))
+                    ? `Table '${table.name}' already has a column or measure named '${value}'.`
+                    : undefined)
+        });
+        if (name === undefined) {
+            return;
+        }
+
+        const expression = await vscode.window.showInputBox({
+            title: `New calculated column '${name}'`,
+            prompt: 'DAX expression, evaluated for each row',
+            validateInput: value => value.trim() ? undefined : 'Enter an expression.'
+        });
+        if (expression === undefined) {
+            return;
+        }
+
+        const dataType = await vscode.window.showQuickPick(DATA_TYPES, { placeHolder: 'Data type of the column' });
+        if (!dataType) {
+            return;
+        }
+
+        const properties = [
+            `dataType: ${dataType}`,
+            `lineageTag: ${crypto.randomUUID()}`,
+            'summarizeBy: none'
+        ];
+        await this.insertIntoTable(folder, table, 'column', `column ${quoteTmdlName(name)} = `, expression.trim(), properties);
+    }
+
+    /**
+     * Creates a calculated table in a new file under `tables/`.
+     * @param model - The loaded model.
+     * @param folder - The model's definition folder.
+     */
+    private async newTable(model: ModelStructure, folder: string): Promise<void> {
+        const name = await vscode.window.showInputBox({
+            title: 'New calculated table',
+            prompt: 'Table name',
+            validateInput: value => validateName(value) ??
+                (model.tables.some(t => same(t.name, value)) ? `A table named '${value}' already exists.` : undefined)
+        });
+        if (name === undefined) {
+            return;
+        }
+
+        const expression = await vscode.window.showInputBox({
+            title: `New calculated table '${name}'`,
+            prompt: 'DAX table expression',
+            placeHolder: 'CALENDARAUTO()',
+            validateInput: value => value.trim() ? undefined : 'Enter an expression.'
+        });
+        if (expression === undefined) {
+            return;
+        }
+
+        const uri = vscode.Uri.file(path.join(folder, 'tables', `${name.replace(/[<>:"/\\|?*]/g, '_')}.tmdl`));
+        const quoted = quoteTmdlName(name);
+        const sourcePrefix = '\t\tsource = ';
+        const lines = [
+            `table ${quoted}`,
+            `\tlineageTag: ${crypto.randomUUID()}`,
+            '',
+            `\tpartition ${quoted} = calculated`,
+            '\t\tmode: import',
+            `${sourcePrefix}${expression.trim()}`,
+            ''
+        ];
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.createFile(uri, { ignoreIfExists: false });
+        edit.insert(uri, new vscode.Position(0, 0), lines.join('\n'));
+        await this.addTableRef(edit, folder, quoted);
+
+        await this.applyAndReveal(edit, uri, new vscode.Position(5, sourcePrefix.length));
+    }
+
+    /**
+     * Creates a relationship in `relationships.tmdl`.
+     * @param model - The loaded model.
+     * @param folder - The model's definition folder.
+     */
+    private async newRelationship(model: ModelStructure, folder: string): Promise<void> {
+        const fromTable = await this.pickTable(model, undefined, 'From table (the many side)');
+        const fromColumn = fromTable && await this.pickColumn(fromTable, 'From column');
+        if (!fromTable || !fromColumn) {
+            return;
+        }
+
+        const toTable = await this.pickTable(model, undefined, 'To table (the one side)');
+        const toColumn = toTable && await this.pickColumn(toTable, 'To column');
+        if (!toTable || !toColumn) {
+            return;
+        }
+
+        if (toTable === fromTable) {
+            vscode.window.showErrorMessage('A relationship must connect two different tables.');
+            return;
+        }
+
+        const exists = model.relationships.some(r =>
+            same(r.fromTable, fromTable.name) && same(r.fromColumn, fromColumn) &&
+            same(r.toTable, toTable.name) && same(r.toColumn, toColumn)
+        );
+        if (exists) {
+            vscode.window.showErrorMessage(`A relationship from '${fromTable.name}'[${fromColumn}] to '${toTable.name}'[${toColumn}] already exists.`);
+            return;
+        }
+
+        const cardinality = await vscode.window.showQuickPick(CARDINALITIES, { placeHolder: 'Cardinality' });
+        if (!cardinality) {
+            return;
+        }
+
+        const uri = vscode.Uri.file(path.join(folder, 'relationships.tmdl'));
+        const block = [
+            `relationship ${crypto.randomUUID()}`,
+            ...cardinality.properties.map(p => `\t${p}`),
+            `\tfromColumn: ${quoteTmdlName(fromTable.name)}.${quoteTmdlName(fromColumn)}`,
+            `\ttoColumn: ${quoteTmdlName(toTable.name)}.${quoteTmdlName(toColumn)}`
+        ];
+
+        const edit = new vscode.WorkspaceEdit();
+        let insertion: TmdlInsertion;
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            insertion = appendBlock(document, block);
+        } catch {
+            edit.createFile(uri, { ignoreIfExists: true });
+            insertion = { position: new vscode.Position(0, 0), text: block.join('\n') + '\n', cursor: new vscode.Position(0, 0) };
+        }
+        edit.insert(uri, insertion.position, insertion.text);
+
+        await this.applyAndReveal(edit, uri, insertion.cursor);
+    }
+
+    /**
+     * Inserts a measure or column after the last one of its kind in a table file.
+     * @param folder - The model's definition folder.
+     * @param table - The table.
+     * @param keyword - `measure` or `column`.
+     * @param declaration - The declaration up to the expression, e.g. `measure Name = `.
+     * @param expression - The expression.
+     * @param properties - The property lines, without indentation.
+     */
+    private async insertIntoTable(
+        folder: string,
+        table: TableNode,
+        keyword: string,
+        declaration: string,
+        expression: string,
+        properties: string[]
+    ): Promise<void> {
+        const uri = vscode.Uri.file(path.join(folder, table.file));
+        const document = await vscode.workspace.openTextDocument(uri);
+        const lines = TmdlText.lines(document.getText());
+
+        const tableLine = table.lineNumber ? table.lineNumber - 1 : lines.findIndex(l => /^table\s/.test(l));
+        if (tableLine < 0) {
+            throw new Error(`Could not find the declaration of table '${table.name}' in ${table.file}.`);
+        }
+
+        const unit = TmdlText.indentUnit(lines);
+        const indent = lines[tableLine].slice(0, TmdlText.indentOf(lines[tableLine])) + unit;
+        const block = [
+            `${indent}${declaration}${expression}`,
+            ...properties.map(p => `${indent}${unit}${p}`)
+        ];
+
+        const target = TmdlText.childInsertion(lines, tableLine, keyword);
+
+        let insertion: TmdlInsertion;
+        if (target && !target.before) {
+            insertion = {
+                position: new vscode.Position(target.line, lines[target.line].length),
+                text: '\n\n' + block.join('\n'),
+                cursor: new vscode.Position(target.line + 2, indent.length + declaration.length)
+            };
+        } else if (target) {
+            insertion = {
+                position: new vscode.Position(target.line, 0),
+                text: block.join('\n') + '\n\n',
+                cursor: new vscode.Position(target.line, indent.length + declaration.length)
+            };
+        } else {
+            insertion = appendBlock(document, block);
+            insertion.cursor = insertion.cursor.translate(0, indent.length + declaration.length);
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(uri, insertion.position, insertion.text);
+        await this.applyAndReveal(edit, uri, insertion.cursor);
+    }
+
+    /**
+     * Adds a `ref table` line to `model.tmdl` when the model lists its tables there.
+     * @param edit - The edit to add to.
+     * @param folder - The definition folder.
+     * @param quotedName - The TMDL-quoted table name.
+     */
+    private async addTableRef(edit: vscode.WorkspaceEdit, folder: string, quotedName: string): Promise<void> {
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(folder, 'model.tmdl')));
+        } catch {
+            return;
+        }
+
+        const lines = TmdlText.lines(document.getText());
+        const lastRef = lines.map((line, i) => /^ref table\s/.test(line) ? i : -1).filter(i => i >= 0).pop();
+        if (lastRef !== undefined) {
+            edit.insert(document.uri, new vscode.Position(lastRef, lines[lastRef].length), `\nref table ${quotedName}`);
+        }
+    }
+
+    /**
+     * Applies an edit, saves the file so the model reloads, and reveals the new object.
+     * @param edit - The edit.
+     * @param uri - The file holding the new object.
+     * @param cursor - Where to place the cursor.
+     */
+    private async applyAndReveal(edit: vscode.WorkspaceEdit, uri: vscode.Uri, cursor: vscode.Position): Promise<void> {
+        if (!await vscode.workspace.applyEdit(edit)) {
+            throw new Error('The edit could not be applied.');
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        const editor = await vscode.window.showTextDocument(document);
+        const end = document.lineAt(cursor.line).range.end;
+        editor.selection = new vscode.Selection(cursor, end);
+        editor.revealRange(new vscode.Range(cursor, end), vscode.TextEditorRevealType.InCenter);
+
+        for (const changed of vscode.workspace.textDocuments.filter(d => d.isDirty)) {
+            if (edit.has(changed.uri)) {
+                await changed.save();
+            }
+        }
+    }
+
+    /**
+     * Gets the table for a command, from the explorer node or a quick pick.
+     * @param model - The loaded model.
+     * @param element - The explorer node, if the command was run from the explorer.
+     * @param placeHolder - The quick pick prompt.
+     * @returns The table, or undefined if cancelled.
+     */
+    private async pickTable(model: ModelStructure, element: TreeNode | undefined, placeHolder: string): Promise<TableNode | undefined> {
+        const name = element?.type === 'table' ? element.data.name
+            : element?.type === 'measures' || element?.type === 'columns' ? element.parentTable
+            : undefined;
+        if (name !== undefined) {
+            return DaxReferenceResolver.findTable(model, name);
+        }
+
+        const selection = await vscode.window.showQuickPick(
+            model.tables.map(table => ({ label: table.name, description: table.isHidden ? 'hidden' : undefined, table })),
+            { placeHolder }
+        );
+        return selection?.table;
+    }
+
+    /**
+     * Picks a column of a table.
+     * @param table - The table.
+     * @param placeHolder - The quick pick prompt.
+     * @returns The column name, or undefined if cancelled.
+     */
+    private async pickColumn(table: TableNode, placeHolder: string): Promise<string | undefined> {
+        const selection = await vscode.window.showQuickPick(
+            table.columns.map(column => ({ label: column.name, description: column.dataType })),
+            { placeHolder: `${placeHolder} in '${table.name}'` }
+        );
+        return selection?.label;
+    }
+
+    /**
+     * Picks a format string for a measure.
+     * @returns The format string, an empty string for none, or undefined if cancelled.
+     */
+    private async pickFormatString(): Promise<string | undefined> {
+        const selection = await vscode.window.showQuickPick(FORMAT_STRINGS, { placeHolder: 'Format string' });
+        if (!selection) {
+            return undefined;
+        }
+        if (selection.label === 'None') {
+            return '';
+        }
+        if (selection.label === 'Custom...') {
+            return vscode.window.showInputBox({ prompt: 'Format string', placeHolder: '#,0.00' });
+        }
+        return selection.label;
+    }
+}
+
+/**
+ * Builds an insertion that appends a block at the end of a document, separated by a blank line.
+ * @param document - The document.
+ * @param block - The block's lines.
+ * @returns The insertion, with the cursor at the start of the block.
+ */
+function appendBlock(document: vscode.TextDocument, block: string[]): TmdlInsertion {
+    const text = document.getText().replace(/\r\n/g, '\n');
+    const lastLine = document.lineAt(document.lineCount - 1);
+
+    // Leave exactly one blank line between the last object and the new one
+    const separator = !text.trim() || text.endsWith('\n\n') ? '' : text.endsWith('\n') ? '\n' : '\n\n';
+    const firstLine = !text.trim() ? lastLine.lineNumber : lastLine.lineNumber + separator.split('\n').length - 1;
+
+    return {
+        position: lastLine.range.end,
+        text: separator + block.join('\n') + '\n',
+        cursor: new vscode.Position(firstLine, 0)
+    };
+}
+
+function validateName(value: string): string | undefined {
+    if (!value.trim()) {
+        return 'The name cannot be empty.';
+    }
+    return value !== value.trim() ? 'The name cannot start or end with whitespace.' : undefined;
+}
+
+function same(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { ModelStructure, TreeNode } from '../views/explorer/ModelTreeItem';
+import { Dependent, ModelDelete, ModelObject, describeObject } from '../refactor/ModelDelete';
+
+/**
+ * Quick pick entry in the delete confirmation: an action or a dependent to open.
+ */
+interface DeleteItem extends vscode.QuickPickItem {
+    confirm?: boolean;
+    dependent?: Dependent;
+}
+
+/**
+ * Command handler for deleting measures, columns, partitions, relationships and expressions from
+ * the Tabular Model explorer. Dependents are listed before anything is deleted.
+ */
+export class DeleteObjectCommand {
+    /**
+     * Registers the delete command with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @returns The disposable command registration.
+     */
+    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
+        return vscode.commands.registerCommand('tmdl-studio.delete-object', (element?: TreeNode) =>
+            DeleteObjectCommand.execute(treeProvider, element)
+        );
+    }
+
+    /**
+     * Finds the object's dependents, asks for confirmation and deletes the object, with its
+     * dependents when the user accepts the cascade.
+     * @param treeProvider - The tabular tree provider instance.
+     * @param element - The explorer node to delete.
+     */
+    private static async execute(treeProvider: TabularTreeProvider, element?: TreeNode): Promise<void> {
+        const model = element ? treeProvider.getModelForNode(element) : treeProvider.getActiveModel();
+        const modelData = model?.data;
+        const folder = model?.definitionFolder;
+        const target = modelData && element ? DeleteObjectCommand.toTarget(modelData, element) : undefined;
+        if (!model || !modelData || !folder || !target) {
+            vscode.window.showInformationMessage('Select a measure, column, partition, relationship or expression in the Tabular Model explorer to delete it.');
+            return;
+        }
+
+        const reason = ModelDelete.validate(target);
+        if (reason) {
+            vscode.window.showErrorMessage(`Cannot delete ${describeObject(target)}: ${reason}`);
+            return;
+        }
+
+        try {
+            const plan = await ModelDelete.plan(target, modelData, folder);
+            const name = describeObject(target);
+
+            if (plan.blocking.length > 0) {
+                await DeleteObjectCommand.showDependents(
+                    `Cannot delete ${name}: it is used by ${plan.blocking.length} expression(s) that must be changed first`,
+                    [],
+                    plan.blocking,
+                    folder
+                );
+                return;
+            }
+
+            if (plan.dependents.length === 0) {
+                const choice = await vscode.window.showWarningMessage(`Delete ${name}?`, { modal: true }, 'Delete');
+                if (choice !== 'Delete') {
+                    return;
+                }
+            } else {
+                const confirmed = await DeleteObjectCommand.showDependents(
+                    `${name} is used by ${plan.dependents.length} object(s)`,
+                    [
+                        { label: `$(trash) Delete ${name} and ${plan.dependents.length} dependent(s)`, confirm: true },
+                        { label: '$(close) Cancel' }
+                    ],
+                    plan.dependents,
+                    folder
+                );
+                if (!confirmed) {
+                    return;
+                }
+            }
+
+            const edit = await ModelDelete.buildEdit(plan.objects, folder);
+            if (!await vscode.workspace.applyEdit(edit)) {
+                throw new Error('The edit could not be applied.');
+            }
+
+            for (const document of vscode.workspace.textDocuments) {
+                if (document.isDirty && edit.has(document.uri)) {
+                    await document.save();
+                }
+            }
+            await treeProvider.reload(model.projectRoot);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to delete object: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Shows dependents in a quick pick below optional actions. Picking a dependent opens it.
+     * @param title - The quick pick title.
+     * @param actions - The actions listed above the dependents.
+     * @param dependents - The dependents.
+     * @param folder - The definition folder, for relative paths.
+     * @returns True if the user picked the confirming action.
+     */
+    private static async showDependents(
+        title: string,
+        actions: DeleteItem[],
+        dependents: Dependent[],
+        folder: string
+    ): Promise<boolean> {
+        const items: DeleteItem[] = [
+            ...actions,
+            { label: 'Dependents', kind: vscode.QuickPickItemKind.Separator },
+            ...dependents.map(dependent => ({
+                label: dependent.label,
+                description: `${path.relative(folder, dependent.filePath)}:${dependent.lineNumber}`,
+                detail: dependent.object ? undefined : 'Cannot be deleted with it',
+                dependent
+            }))
+        ];
+
+        const selection = await vscode.window.showQuickPick(items, { title, placeHolder: 'Select a dependent to open it' });
+        if (selection?.dependent) {
+            await vscode.commands.executeCommand('tmdl-studio.open-file-at-line', selection.dependent.filePath, selection.dependent.lineNumber);
+        }
+        return selection?.confirm === true;
+    }
+
+    /**
+     * Finds the model object for an explorer node.
+     * @param modelData - The loaded model.
+     * @param element - The explorer node.
+     * @returns The object, or undefined if the node cannot be deleted.
+     */
+    private static toTarget(modelData: ModelStructure, element: TreeNode): ModelObject | undefined {
+        switch (element.type) {
+            case 'column': {
+                const table = modelData.tables.find(t => t.name === element.parentTable);
+                const column = table?.columns.find(c => c.name === element.data.name);
+                return table && column && { kind: 'column', table, column };
+            }
+            case 'measure': {
+                const table = modelData.tables.find(t => t.name === element.parentTable);
+                const measure = table?.measures.find(m => m.name === element.data.name);
+                return table && measure && { kind: 'measure', table, measure };
+            }
+            case 'partition': {
+                const table = modelData.tables.find(t => t.name === element.parentTable);
+                const partition = table?.partitions.find(p => p.name === element.data.name);
+                return table && partition && { kind: 'partition', table, partition };
+            }
+            case 'relationship': {
+                const relationship = modelData.relationships.find(r => r.id === element.data.id);
+                return relationship && { kind: 'relationship', relationship };
+            }
+            case 'expression': {
+                const expression = modelData.expressions.find(e => e.name === element.data.name);
+                return expression && { kind: 'expression', expression };
+            }
+            default:
+                return undefined;
+        }
+    }
+}
@@ -1,135 +1,346 @@
 import * as vscode from 'vscode';
-import { TimdleClient, DeployResult } from '../cli/TimdleClient';
+import { TimdleClient, DeploymentOverrides } from '../cli/TimdleClient';
 import { ProjectRootDetector } from '../utils/ProjectRootDetector';
 import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
-import { AuthService, WorkspaceInfo } from '../services/AuthService';
+import { AuthService } from '../services/AuthService';
+import { FabricService } from '../services/FabricService';
 import { DeployConfig } from '../config/DeployConfig';
-import { AuthMode, AuthConfig, AUTH_ENV_VARS } from '../types/auth';
+import { DeployEnvironment, EnvironmentConfig } from '../config/EnvironmentConfig';
+import { AccountBinding, AuthMode, AuthConfig, AUTH_ENV_VARS } from '../types/auth';
+import { ModelDiff, ModelDiffResult } from '../deploy/ModelDiff';
+import { DeployPreviewPanel } from '../views/deploy/DeployPreviewPanel';
+import { ModelStructure } from '../views/explorer/ModelTreeItem';
+import { DeploymentHistory, DeploymentRecord, DeploymentSnapshot } from '../deploy/DeploymentHistory';
+import { DeployOutcome, DeploymentService } from '../deploy/DeploymentService';
+
+/**
+ * A confirmed deploy: what is deployed, where to and as whom.
+ */
+interface DeployRun {
+    projectRoot: string;
+    /** The project folder the CLI deploys from: the project root, or a snapshot when redeploying. */
+    sourceFolder: string;
+    authConfig: AuthConfig;
+    identity?: string;
+    gitCommit?: string;
+    environmentName?: string;
+    overrides?: DeploymentOverrides;
+    /** Refreshes the semantic model once its definition is deployed. */
+    refresh?: boolean;
+    redeployOf?: string;
+}
+
+/**
+ * A workspace to deploy to without picking one, and optionally the semantic model to overwrite.
+ */
+export interface DeployTarget {
+    workspaceUrl: string;
+    modelName?: string;
+}
 
 /**
  * Command handler for deploying TMDL models to a workspace.
  * Supports interactive (browser), service principal, and environment variable authentication.
+ * Prompts, previews and reports here; the deploy itself runs through DeploymentService, like
+ * the headless CLI.
  */
 export class DeployCommand {
-    private cliClient: TimdleClient;
-    private authService: AuthService;
     private deployConfig: DeployConfig;
+    private deploymentService: DeploymentService;
     private outputChannel: vscode.OutputChannel;
+    /** Lines logged by the current deploy, kept with its history record. */
+    private log: string[] = [];
 
     /**
      * Creates a new DeployCommand instance.
      * @param context - The VS Code extension context.
+     * @param cliClient - The shared TMDL CLI client.
+     * @param history - The deployment history that records every deploy.
+     * @param authService - The shared authentication service and account store.
      * @param treeProvider - The tree provider to get the current model from.
      */
     constructor(
         private context: vscode.ExtensionContext,
+        private cliClient: TimdleClient,
+        private history: DeploymentHistory,
+        private authService: AuthService,
         private treeProvider?: TabularTreeProvider
     ) {
-        this.cliClient = new TimdleClient(context);
-        this.authService = new AuthService(context);
         this.deployConfig = new DeployConfig(context);
         this.outputChannel = vscode.window.createOutputChannel('TMDL Deploy');
+        this.deploymentService = new DeploymentService(cliClient, line => this.appendLog(line));
     }
 
     /**
      * Registers the deploy command with VS Code.
      * @param context - The VS Code extension context.
+     * @param cliClient - The shared TMDL CLI client.
+     * @param history - The deployment history that records every deploy.
+     * @param authService - The shared authentication service and account store.
      * @param treeProvider - The tree provider to get the current model from.
      * @returns The disposable command registration.
      */
-    static register(context: vscode.ExtensionContext, treeProvider?: TabularTreeProvider): vscode.Disposable {
-        const command = new DeployCommand(context, treeProvider);
-        return vscode.commands.registerCommand('tmdl-studio.deploy', () => command.execute());
+    static register(
+        context: vscode.ExtensionContext,
+        cliClient: TimdleClient,
+        history: DeploymentHistory,
+        authService: AuthService,
+        treeProvider?: TabularTreeProvider
+    ): vscode.Disposable {
+        const command = new DeployCommand(context, cliClient, history, authService, treeProvider);
+        return vscode.Disposable.from(
+            vscode.commands.registerCommand('tmdl-studio.deploy', () => command.execute(false)),
+            vscode.commands.registerCommand('tmdl-studio.deploy-to-environment', (name?: string) => command.execute(true, name)),
+            vscode.commands.registerCommand('tmdl-studio.deploy-to-workspace', (workspace?: DeployTarget) => command.execute(false, undefined, workspace)),
+            vscode.commands.registerCommand('tmdl-studio.redeploy', (record?: DeploymentRecord) => command.redeploy(record)),
+            vscode.commands.registerCommand('tmdl-studio.edit-environments', () => command.editEnvironments())
+        );
     }
 
     /**
      * Executes the deploy command.
+     * @param requireEnvironment - Whether the target must be a named environment rather than a workspace picked by hand.
+     * @param environmentName - The environment to deploy to; prompted for when not given.
+     * @param workspace - The workspace to deploy to, e.g. picked in the Fabric Workspaces view; no environment is used.
      */
-    private async execute(): Promise<void> {
+    private async execute(requireEnvironment: boolean, environmentName?: string, workspace?: DeployTarget): Promise<void> {
         const projectRoot = await this.getProjectRoot();
         if (!projectRoot) {
             return;
         }
+        this.log = [];
+
+        // Select the target environment, if the project defines any
+        const target = workspace ? {} : await this.selectEnvironment(projectRoot, requireEnvironment, environmentName);
+        if (!target) {
+            return;
+        }
+        const environment = target.environment;
 
         // Select authentication mode
-        const authMode = await this.selectAuthMode();
-        if (!authMode) {
+        const selected = environment?.authMode ? { mode: environment.authMode } : await this.selectAuthMode();
+        if (!selected) {
+            return;
+        }
+        const authMode = selected.mode;
+
+        const auth = await this.authenticate(authMode, workspace?.modelName ?? environment?.semanticModelName, {
+            account: environment?.account,
+            tenantId: environment?.tenantId,
+            servicePrincipal: selected.servicePrincipal ?? environment?.servicePrincipal
+        });
+        if (!auth) {
+            return;
+        }
+        const authConfig = auth.authConfig;
+
+        // Get workspace URL (with access token for interactive mode to enable workspace picker)
+        const accessTokenForWorkspaceList = authMode === 'interactive' ? auth.accessToken : undefined;
+        const workspaceUrl = workspace?.workspaceUrl ?? (environment
+            ? EnvironmentConfig.getWorkspaceUrl(environment)
+            : await this.getWorkspaceUrl(projectRoot, authMode, accessTokenForWorkspaceList));
+        if (!workspaceUrl) {
             return;
         }
 
+        authConfig.workspaceUrl = workspaceUrl;
+
+        // Show deployment preview
+        const overrides = environment ? EnvironmentConfig.getOverrides(environment) : undefined;
+        const shouldDeploy = await this.showDeployPreview(projectRoot, authConfig, environment?.name, overrides);
+        if (!shouldDeploy) {
+            return;
+        }
+
+        // Execute deployment
+        this.appendLog(environment
+            ? `\nDeploying to environment ${environment.name}: ${workspaceUrl}...`
+            : `\nDeploying to workspace: ${workspaceUrl}...`);
+        this.appendLog(`Project root: ${projectRoot}`);
+        this.appendLog(`Authentication: ${authMode}\n`);
+
+        await this.runDeploy({
+            projectRoot,
+            sourceFolder: projectRoot,
+            authConfig,
+            identity: auth.identity,
+            gitCommit: await DeploymentHistory.getGitCommit(projectRoot),
+            environmentName: environment?.name,
+            overrides,
+            refresh: environment?.refreshAfterDeploy
+        });
+    }
+
+    /**
+     * Deploys the snapshot of an earlier deploy again, to the same workspace and with the same
+     * overrides, e.g. to roll back a bad release.
+     * @param record - The deploy to repeat; picked from the history when not given.
+     */
+    private async redeploy(record?: DeploymentRecord): Promise<void> {
+        record = record ?? await this.pickDeployment();
+        if (!record) {
+            return;
+        }
+
+        const snapshot = this.history.getSnapshotFolder(record);
+        if (!snapshot) {
+            vscode.window.showErrorMessage('The snapshot of this deployment is no longer in the deployment history.');
+            return;
+        }
+
+        this.log = [];
+        // Redeploys use the account or service principal of the original deploy
+        const auth = await this.authenticate(
+            record.authMode,
+            record.semanticModelName,
+            record.authMode === 'interactive' ? { account: record.identity } : { servicePrincipal: record.identity }
+        );
+        if (!auth) {
+            return;
+        }
+        auth.authConfig.workspaceUrl = record.workspaceUrl;
+
+        const shouldDeploy = await this.showDeployPreview(snapshot, auth.authConfig, record.environmentName, record.overrides);
+        if (!shouldDeploy) {
+            return;
+        }
+
+        this.appendLog(`\nRedeploying the snapshot of ${new Date(record.timestamp).toLocaleString()} to ${record.workspaceUrl}...`);
+        this.appendLog(`Project root: ${record.projectRoot}`);
+        this.appendLog(`Authentication: ${record.authMode}\n`);
+
+        await this.runDeploy({
+            projectRoot: record.projectRoot,
+            sourceFolder: snapshot,
+            authConfig: auth.authConfig,
+            identity: auth.identity,
+            gitCommit: record.gitCommit,
+            environmentName: record.environmentName,
+            overrides: record.overrides,
+            redeployOf: record.id
+        });
+    }
+
+    /**
+     * Authenticates and builds the CLI auth config.
+     * @param authMode - The authentication mode.
+     * @param modelName - The semantic model name to deploy as, if not the one in .platform.
+     * @param binding - The account or service principal profile to use, e.g. the environment's.
+     * @returns The auth config without a workspace URL, the identity (username or client ID) and the access token,
+     * or undefined if authentication failed or was cancelled.
+     */
+    private async authenticate(
+        authMode: AuthMode,
+        modelName?: string,
+        binding?: AccountBinding
+    ): Promise<{ authConfig: AuthConfig; identity?: string; accessToken: string } | undefined> {
         // Authenticate
         let authResult;
         try {
             this.outputChannel.show();
-            this.outputChannel.appendLine(`Authenticating using ${authMode} mode...`);
-            authResult = await this.authService.authenticate(authMode);
-            this.outputChannel.appendLine(`Authenticated as: ${authResult.account?.username || 'Unknown'}`);
+            this.appendLog(`Authenticating using ${authMode} mode...`);
+            authResult = await this.authService.authenticate(authMode, binding);
+            this.appendLog(`Authenticated as: ${authResult.account?.username || 'Unknown'}`);
         } catch (error) {
             vscode.window.showErrorMessage(`Authentication failed: ${error instanceof Error ? error.message : String(error)}`);
-            return;
+            return undefined;
         }
 
-        // Build auth config for CLI
-        const authConfig: AuthConfig = {
-            mode: authMode,
-            workspaceUrl: '' // Will be set below
-        };
-
-        // Add token for interactive mode
-        if (authMode === 'interactive') {
-            authConfig.accessToken = authResult.accessToken;
-        }
+        // Build auth config for CLI; the workspace URL is set by the caller once the target is known
+        const authConfig = DeploymentService.createAuthConfig(
+            authMode,
+            '',
+            { accessToken: authResult.accessToken, credentials: authResult.credentials },
+            modelName
+        );
 
-        // Add service principal credentials for non-interactive modes
-        if (authMode === 'service-principal' || authMode === 'env') {
-            const credentials = authMode === 'env'
-                ? this.authService.loadCredentialsFromEnv()
-                : await this.promptForServicePrincipalCredentials();
+        const identity = authMode === 'interactive' ? authResult.account?.username : authConfig.clientId;
+        return { authConfig, identity, accessToken: authResult.accessToken };
+    }
 
-            if (!credentials) {
-                if (authMode === 'env') {
-                    vscode.window.showErrorMessage(
-                        `Environment variables not found. Required: ${AUTH_ENV_VARS.workspaceUrl}, ` +
-                        `${AUTH_ENV_VARS.clientId}, ${AUTH_ENV_VARS.clientSecret}, ${AUTH_ENV_VARS.tenantId}`
-                    );
-                } else {
-                    vscode.window.showErrorMessage('Service Principal credentials are required for deployment.');
-                }
-                return;
-            }
+    /**
+     * Deploys a project and records the deploy, with a snapshot of what was deployed, in the history.
+     * @param run - The deploy.
+     */
+    private async runDeploy(run: DeployRun): Promise<void> {
+        const timestamp = new Date().toISOString();
 
-            authConfig.clientId = credentials.clientId;
-            authConfig.clientSecret = credentials.clientSecret;
-            authConfig.tenantId = credentials.tenantId;
+        let snapshot: DeploymentSnapshot | undefined;
+        try {
+            snapshot = await this.history.createSnapshot(run.sourceFolder);
+        } catch (error) {
+            this.appendLog(`Could not save a snapshot for the deployment history: ${error}`);
         }
 
-        // Get workspace URL (with access token for interactive mode to enable workspace picker)
-        const accessTokenForWorkspaceList = authMode === 'interactive' ? authResult.accessToken : undefined;
-        const workspaceUrl = await this.getWorkspaceUrl(projectRoot, authMode, accessTokenForWorkspaceList);
-        if (!workspaceUrl) {
-            return;
+        // The token may have expired while the preview was open; refresh it silently
+        if (run.authConfig.mode === 'interactive') {
+            const accessToken = await this.authService.refreshTokenIfNeeded({ account: run.identity });
+            if (accessToken) {
+                run.authConfig.accessToken = accessToken;
+            }
         }
 
-        authConfig.workspaceUrl = workspaceUrl;
+        const deployment = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Deploying ${run.authConfig.modelName ?? 'semantic model'}`,
+                cancellable: true
+            },
+            (progress, token) => this.deploymentService.deploy(run.sourceFolder, run.authConfig, run.overrides, {
+                refresh: run.refresh,
+                token,
+                onProgress: update => progress.report({ message: update.message })
+            })
+        );
+        this.showOutcome(deployment);
 
-        // Show deployment preview
-        const shouldDeploy = await this.showDeployPreview(projectRoot, workspaceUrl, authMode);
-        if (!shouldDeploy) {
+        if (!snapshot) {
             return;
         }
 
-        // Execute deployment
-        this.outputChannel.appendLine(`\nDeploying to workspace: ${workspaceUrl}...`);
-        this.outputChannel.appendLine(`Project root: ${projectRoot}`);
-        this.outputChannel.appendLine(`Authentication: ${authMode}\n`);
-
         try {
-            const result = await this.cliClient.deploy(projectRoot, authConfig);
-            this.handleDeployResult(result);
+            await this.history.add({
+                id: snapshot.id,
+                timestamp,
+                projectRoot: run.projectRoot,
+                environmentName: run.environmentName,
+                workspaceUrl: run.authConfig.workspaceUrl,
+                semanticModelName: run.authConfig.modelName,
+                authMode: run.authConfig.mode,
+                identity: run.identity,
+                gitCommit: run.gitCommit,
+                modelHash: snapshot.modelHash,
+                outcome: deployment.outcome,
+                message: deployment.message,
+                overrides: run.overrides,
+                redeployOf: run.redeployOf
+            }, this.log);
         } catch (error) {
-            this.outputChannel.appendLine(`Error during deployment: ${error}`);
-            vscode.window.showErrorMessage(`Deployment failed: ${error}`);
+            console.error('Failed to record deployment:', error);
+        }
+    }
+
+    /**
+     * Picks a deploy from the history to redeploy.
+     * @returns The record, or undefined if the history is empty or the pick was cancelled.
+     */
+    private async pickDeployment(): Promise<DeploymentRecord | undefined> {
+        const records = this.history.list().filter(r => r.outcome === 'success');
+        if (records.length === 0) {
+            vscode.window.showInformationMessage('There are no successful deployments in the deployment history.');
+            return undefined;
         }
+
+        const selection = await vscode.window.showQuickPick(
+            records.map(record => ({
+                label: record.environmentName ?? record.workspaceUrl,
+                description: new Date(record.timestamp).toLocaleString(),
+                detail: record.projectRoot,
+                record
+            })),
+            { placeHolder: 'Deployment to redeploy', ignoreFocusOut: true }
+        );
+        return selection?.record;
     }
 
     /**
@@ -164,12 +375,100 @@ export class DeployCommand {
     }
 
     /**
-     * Shows a quick pick for selecting authentication mode.
-     * @returns The selected auth mode, or undefined if cancelled.
+     * Selects the environment to deploy to.
+     * When the project has no environments file, deploys target a workspace picked by hand unless
+     * an environment is required, in which case the user is offered to create the file.
+     * @param projectRoot - The project root path.
+     * @param requireEnvironment - Whether picking a workspace by hand is allowed.
+     * @param environmentName - The environment to use without prompting.
+     * @returns The selected environment (undefined for a hand-picked workspace), or undefined if cancelled.
+     */
+    private async selectEnvironment(
+        projectRoot: string,
+        requireEnvironment: boolean,
+        environmentName?: string
+    ): Promise<{ environment?: DeployEnvironment } | undefined> {
+        let environments: DeployEnvironment[];
+        try {
+            environments = EnvironmentConfig.load(projectRoot, DeployCommand.getWorkspaceFolders());
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load deployment environments: ${error instanceof Error ? error.message : error}`);
+            return undefined;
+        }
+
+        if (environmentName) {
+            const environment = EnvironmentConfig.find(environments, environmentName);
+            if (!environment) {
+                vscode.window.showErrorMessage(`Deployment environment '${environmentName}' is not defined.`);
+                return undefined;
+            }
+            return { environment };
+        }
+
+        if (environments.length === 0) {
+            if (!requireEnvironment) {
+                return {};
+            }
+
+            const selection = await vscode.window.showInformationMessage(
+                `No deployment environments are defined. Create .tmdlstudio/${EnvironmentConfig.FILE_NAME}?`,
+                'Create',
+                'Cancel'
+            );
+            if (selection === 'Create') {
+                await this.editEnvironments();
+            }
+            return undefined;
+        }
+
+        interface EnvironmentItem extends vscode.QuickPickItem {
+            environment?: DeployEnvironment;
+        }
+
+        const items: EnvironmentItem[] = environments.map(environment => ({
+            label: `$(server-environment) ${environment.name}`,
+            description: environment.semanticModelName,
+            detail: environment.description ?? EnvironmentConfig.getWorkspaceUrl(environment),
+            environment
+        }));
+
+        if (!requireEnvironment) {
+            items.push({
+                label: '$(edit) Other workspace...',
+                description: 'Pick a workspace that is not a named environment'
+            });
+        }
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the environment to deploy to',
+            ignoreFocusOut: true
+        });
+
+        return selection ? { environment: selection.environment } : undefined;
+    }
+
+    /**
+     * Opens the project's environments file, creating a Dev/Test/Prod template if it does not exist.
      */
-    private async selectAuthMode(): Promise<AuthMode | undefined> {
+    private async editEnvironments(): Promise<void> {
+        const projectRoot = await this.getProjectRoot();
+        if (!projectRoot) {
+            return;
+        }
+
+        const filePath = EnvironmentConfig.findFile(projectRoot, DeployCommand.getWorkspaceFolders()) ??
+            EnvironmentConfig.createTemplate(projectRoot);
+        await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+    }
+
+    /**
+     * Shows a quick pick for selecting authentication mode, listing the saved service principals.
+     * @returns The selected auth mode and service principal profile, or undefined if cancelled.
+     */
+    private async selectAuthMode(): Promise<{ mode: AuthMode; servicePrincipal?: string } | undefined> {
         interface AuthModeItem extends vscode.QuickPickItem {
             mode: AuthMode;
+            servicePrincipal?: string;
         }
 
         const items: AuthModeItem[] = [
@@ -181,10 +480,17 @@ export class DeployCommand {
             },
             {
                 label: '$(key) Service Principal',
-                description: 'Client ID and Secret authentication',
+                description: 'Pick a saved profile or enter a Client ID and Secret',
                 detail: 'Use service principal credentials for non-interactive scenarios',
                 mode: 'service-principal'
-            }
+            },
+            ...(await this.authService.getProfiles()).map((profile): AuthModeItem => ({
+                label: `$(key) ${profile.name}`,
+                description: 'Saved service principal',
+                detail: `Client ${profile.clientId}, tenant ${profile.tenantId}`,
+                mode: 'service-principal',
+                servicePrincipal: profile.id
+            }))
         ];
 
         // Add environment variable option if env vars are configured
@@ -202,7 +508,7 @@ export class DeployCommand {
             ignoreFocusOut: true
         });
 
-        return selection?.mode;
+        return selection && { mode: selection.mode, servicePrincipal: selection.servicePrincipal };
     }
 
     /**
@@ -229,8 +535,8 @@ export class DeployCommand {
         // If we have an access token, try to fetch workspaces and show a picker
         if (accessToken) {
             try {
-                this.outputChannel.appendLine('Fetching available workspaces...');
-                const workspaces = await this.authService.getWorkspaces(accessToken);
+                this.appendLog('Fetching available workspaces...');
+                const workspaces = await FabricService.listWorkspaces(accessToken);
 
                 if (workspaces.length > 0) {
                     // Sort workspaces by name
@@ -241,7 +547,7 @@ export class DeployCommand {
                         label: ws.name,
                         description: ws.type,
                         detail: ws.description || `ID: ${ws.id}`,
-                        url: `https://api.fabric.microsoft.com/v1/workspaces/${ws.id}`
+                        url: FabricService.getWorkspaceApiUrl(ws.id)
                     }));
 
                     // Add option for manual entry
@@ -264,14 +570,14 @@ export class DeployCommand {
                     if (selection.url) {
                         const workspaceUrl = selection.url;
                         await this.deployConfig.setWorkspaceUrl(projectRoot, workspaceUrl);
-                        this.outputChannel.appendLine(`Selected workspace: ${selection.label}`);
+                        this.appendLog(`Selected workspace: ${selection.label}`);
                         return workspaceUrl;
                     }
                 } else {
-                    this.outputChannel.appendLine('No workspaces found. Falling back to manual input.');
+                    this.appendLog('No workspaces found. Falling back to manual input.');
                 }
             } catch (error) {
-                this.outputChannel.appendLine(`Failed to fetch workspaces: ${error}. Falling back to manual input.`);
+                this.appendLog(`Failed to fetch workspaces: ${error}. Falling back to manual input.`);
             }
         }
 
@@ -294,11 +600,7 @@ export class DeployCommand {
         }
 
         // Normalize the URL if it's just an ID
-        let normalizedUrl = workspaceUrl.trim();
-        if (!normalizedUrl.startsWith('http')) {
-            // Assume it's a workspace ID
-            normalizedUrl = `https://api.fabric.microsoft.com/v1/workspaces/${normalizedUrl}`;
-        }
+        const normalizedUrl = EnvironmentConfig.normalizeWorkspaceUrl(workspaceUrl);
 
         // Cache the URL for this project
         await this.deployConfig.setWorkspaceUrl(projectRoot, normalizedUrl);
@@ -307,76 +609,103 @@ export class DeployCommand {
     }
 
     /**
-     * Prompts user for service principal credentials.
-     * @returns The service principal credentials, or undefined if cancelled.
-     */
-    private async promptForServicePrincipalCredentials(): Promise<{ clientId: string; clientSecret: string; tenantId: string } | undefined> {
-        const clientId = await vscode.window.showInputBox({
-            prompt: 'Enter the Service Principal Client ID',
-            placeHolder: 'Client ID',
-            ignoreFocusOut: true
-        });
-        if (!clientId) { return undefined; }
-
-        const clientSecret = await vscode.window.showInputBox({
-            prompt: 'Enter the Service Principal Client Secret',
-            placeHolder: 'Client Secret',
-            password: true,
-            ignoreFocusOut: true
-        });
-        if (!clientSecret) { return undefined; }
-
-        const tenantId = await vscode.window.showInputBox({
-            prompt: 'Enter the Tenant ID',
-            placeHolder: 'Tenant ID',
-            ignoreFocusOut: true
-        });
-        if (!tenantId) { return undefined; }
-
-        return { clientId, clientSecret, tenantId };
-    }
-
-    /**
-     * Shows a deployment preview and asks for confirmation.
+     * Compares the local model with the deployed one and asks for confirmation in a preview panel.
      * @param projectRoot - The project root path.
-     * @param workspaceUrl - The workspace URL.
-     * @param authMode - The authentication mode.
+     * @param authConfig - The resolved auth config, also used to read the deployed model.
+     * @param environmentName - The target environment, if any.
+     * @param overrides - The environment's overrides, applied to the local model.
      * @returns True if the user confirmed deployment.
      */
     private async showDeployPreview(
         projectRoot: string,
-        workspaceUrl: string,
-        authMode: AuthMode
+        authConfig: AuthConfig,
+        environmentName?: string,
+        overrides?: DeploymentOverrides
     ): Promise<boolean> {
+        const authMode = authConfig.mode;
         const authLabel = authMode === 'interactive' ? 'Microsoft Account' :
                          authMode === 'service-principal' ? 'Service Principal' :
                          'Environment Variables';
+        const definitionFolder = ProjectRootDetector.getDefinitionFolder(projectRoot);
 
-        const selection = await vscode.window.showInformationMessage(
-            `Deploy TMDL model to workspace?`,
-            {
-                modal: true,
-                detail: `Project: ${projectRoot}\nWorkspace: ${workspaceUrl}\nAuth: ${authLabel}`
-            },
-            'Deploy',
-            'Cancel'
-        );
+        let diff: ModelDiffResult | undefined;
+        let itemName: string | undefined;
+        let exists = false;
+        let compareError: string | undefined;
+
+        try {
+            await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Comparing with deployed model...' },
+                async () => {
+                    const [local, deployed] = await Promise.all([
+                        this.getLocalModel(projectRoot, definitionFolder),
+                        this.cliClient.getDeployedModel(projectRoot, authConfig)
+                    ]);
+                    diff = ModelDiff.compare(deployed.model, EnvironmentConfig.applyOverrides(local, overrides));
+                    itemName = deployed.itemName;
+                    exists = deployed.exists;
+                }
+            );
+            this.appendLog(`Deploy preview: ${diff!.summary}`);
+        } catch (error) {
+            compareError = error instanceof Error ? error.message : String(error);
+            this.appendLog(`Could not compare with deployed model: ${compareError}`);
+        }
+
+        return DeployPreviewPanel.show(diff, {
+            projectRoot,
+            definitionFolder,
+            workspaceUrl: authConfig.workspaceUrl,
+            environmentName,
+            authLabel,
+            itemName,
+            exists,
+            compareError
+        });
+    }
+
+    /**
+     * Gets the local model structure, reusing the explorer's copy when it shows the same project.
+     * @param projectRoot - The project root path.
+     * @param definitionFolder - The folder holding the project's TMDL files.
+     * @returns The local model structure.
+     */
+    private async getLocalModel(projectRoot: string, definitionFolder: string): Promise<ModelStructure> {
+        const loaded = this.treeProvider?.getModel(projectRoot)?.data;
+        return loaded ?? this.cliClient.getModelStructure(definitionFolder);
+    }
+
+    /**
+     * Writes a line to the deploy output channel and the current deploy's log.
+     * @param line - The line.
+     */
+    private appendLog(line: string): void {
+        this.outputChannel.appendLine(line);
+        this.log.push(line);
+    }
 
-        return selection === 'Deploy';
+    /**
+     * Gets the paths of the open workspace folders, searched for project settings after the project root.
+     * @returns The workspace folder paths.
+     */
+    private static getWorkspaceFolders(): string[] {
+        return vscode.workspace.workspaceFolders?.map(f => f.uri.fsPath) ?? [];
     }
 
     /**
-     * Handles the deployment result and displays appropriate messages.
-     * @param result - The deployment result.
+     * Shows how a deploy ended.
+     * @param deployment - The outcome of the deploy.
      */
-    private handleDeployResult(result: DeployResult): void {
-        if (result.isSuccess) {
-            this.outputChannel.appendLine(`\n✓ ${result.message}`);
-
-            vscode.window.showInformationMessage(result.message);
-        } else {
-            this.outputChannel.appendLine(`\n✗ ${result.message}`);
-            vscode.window.showErrorMessage(result.message);
+    private showOutcome(deployment: DeployOutcome): void {
+        switch (deployment.outcome) {
+            case 'success':
+                vscode.window.showInformationMessage(deployment.message);
+                break;
+            case 'cancelled':
+                vscode.window.showWarningMessage(deployment.message);
+                break;
+            default:
+                vscode.window.showErrorMessage(deployment.message);
         }
     }
 }
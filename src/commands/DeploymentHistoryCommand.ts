@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeploymentHistory, DeploymentRecord, findChanges } from '../deploy/DeploymentHistory';
+
+/**
+ * Command handlers for the Deployments view: opening a deploy's log, comparing the snapshots of
+ * two deploys and removing deploys from the history. Redeploying is handled by DeployCommand.
+ */
+export class DeploymentHistoryCommand {
+    /**
+     * Registers the deployment history commands with VS Code.
+     * @param context - The extension context.
+     * @param history - The deployment history.
+     * @returns The disposable command registrations.
+     */
+    static register(context: vscode.ExtensionContext, history: DeploymentHistory): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.commands.registerCommand('tmdl-studio.open-deployment-log', (record?: DeploymentRecord) =>
+                record && DeploymentHistoryCommand.openLog(history, record)
+            ),
+            vscode.commands.registerCommand('tmdl-studio.compare-deployments', (record?: DeploymentRecord) =>
+                record && DeploymentHistoryCommand.compare(history, record)
+            ),
+            vscode.commands.registerCommand('tmdl-studio.remove-deployment', (record?: DeploymentRecord) =>
+                record && DeploymentHistoryCommand.remove(history, record)
+            )
+        );
+    }
+
+    /**
+     * Opens the log of a deploy.
+     * @param history - The deployment history.
+     * @param record - The deploy.
+     */
+    private static async openLog(history: DeploymentHistory, record: DeploymentRecord): Promise<void> {
+        const logFile = history.getLogFile(record);
+        if (!fs.existsSync(logFile)) {
+            vscode.window.showErrorMessage('The log of this deployment is no longer in the deployment history.');
+            return;
+        }
+        await vscode.window.showTextDocument(vscode.Uri.file(logFile), { preview: true });
+    }
+
+    /**
+     * Removes a deploy, with its log and snapshot, from the history after confirmation.
+     * @param history - The deployment history.
+     * @param record - The deploy.
+     */
+    private static async remove(history: DeploymentHistory, record: DeploymentRecord): Promise<void> {
+        const choice = await vscode.window.showWarningMessage(
+            `Remove the deployment of ${new Date(record.timestamp).toLocaleString()} from the history? Its snapshot can no longer be redeployed.`,
+            { modal: true },
+            'Remove'
+        );
+        if (choice === 'Remove') {
+            await history.remove(record.id);
+        }
+    }
+
+    /**
+     * Asks for another deploy of the same project and shows the files that differ between the
+     * two snapshots. Picking a file opens it in a diff editor, older deploy on the left.
+     * @param history - The deployment history.
+     * @param record - The deploy to compare.
+     */
+    private static async compare(history: DeploymentHistory, record: DeploymentRecord): Promise<void> {
+        const snapshot = history.getSnapshotFolder(record);
+        const others = history.list().filter(r => r.id !== record.id && r.projectRoot === record.projectRoot && history.getSnapshotFolder(r));
+        if (!snapshot || others.length === 0) {
+            vscode.window.showInformationMessage('There is no other deployment of this project with a snapshot to compare with.');
+            return;
+        }
+
+        const selection = await vscode.window.showQuickPick(
+            others.map(other => ({
+                label: other.environmentName ?? other.workspaceUrl,
+                description: new Date(other.timestamp).toLocaleString(),
+                detail: other.modelHash === record.modelHash ? 'Same model files' : other.message,
+                other
+            })),
+            { placeHolder: 'Deployment to compare with' }
+        );
+        if (!selection) {
+            return;
+        }
+
+        const [before, after] = [record, selection.other].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+        const beforeFolder = history.getSnapshotFolder(before)!;
+        const afterFolder = history.getSnapshotFolder(after)!;
+        const changes = await findChanges(beforeFolder, afterFolder);
+        if (changes.length === 0) {
+            vscode.window.showInformationMessage('Both deployments deployed the same model files.');
+            return;
+        }
+
+        const beforeLabel = new Date(before.timestamp).toLocaleString();
+        const afterLabel = new Date(after.timestamp).toLocaleString();
+        const picked = await vscode.window.showQuickPick(
+            changes.map(change => ({ label: change.file, description: change.change, change })),
+            { title: `${beforeLabel} ↔ ${afterLabel}`, placeHolder: `${changes.length} changed file(s); select one to compare` }
+        );
+        if (!picked) {
+            return;
+        }
+
+        const { file, change } = picked.change;
+        if (change === 'modified') {
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                vscode.Uri.file(path.join(beforeFolder, file)),
+                vscode.Uri.file(path.join(afterFolder, file)),
+                `${path.basename(file)} (${beforeLabel} ↔ ${afterLabel})`
+            );
+        } else {
+            await vscode.window.showTextDocument(vscode.Uri.file(path.join(change === 'added' ? afterFolder : beforeFolder, file)));
+        }
+    }
+}
@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuthService } from '../services/AuthService';
+import { DefinitionPart, FabricService } from '../services/FabricService';
+import { FabricNode, FabricWorkspacesProvider, ItemNode, WorkspaceNode } from '../views/fabric/FabricWorkspacesProvider';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { DeployTarget } from './DeployCommand';
+
+/**
+ * Command handlers for the Fabric Workspaces view: refreshing it, deploying the current model
+ * to a workspace or over a semantic model, downloading a semantic model as TMDL and opening
+ * workspaces and items in the Fabric portal.
+ */
+export class FabricWorkspacesCommand {
+    /**
+     * Registers the Fabric Workspaces commands with VS Code.
+     * @param context - The extension context.
+     * @param provider - The Fabric Workspaces view's tree provider.
+     * @param authService - The authentication service whose active account browses Fabric.
+     * @param treeProvider - The explorer's tree provider, to open downloaded models in.
+     * @returns The disposable command registrations.
+     */
+    static register(
+        context: vscode.ExtensionContext,
+        provider: FabricWorkspacesProvider,
+        authService: AuthService,
+        treeProvider: TabularTreeProvider
+    ): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.commands.registerCommand('tmdl-studio.refresh-fabric-workspaces', () => provider.refresh()),
+            vscode.commands.registerCommand('tmdl-studio.deploy-here', (node?: WorkspaceNode | ItemNode) =>
+                node && FabricWorkspacesCommand.deployHere(node)
+            ),
+            vscode.commands.registerCommand('tmdl-studio.download-definition', (node?: ItemNode) =>
+                node && FabricWorkspacesCommand.downloadDefinition(authService, treeProvider, node)
+            ),
+            vscode.commands.registerCommand('tmdl-studio.open-in-fabric', (node?: FabricNode) =>
+                node && FabricWorkspacesCommand.openInBrowser(node)
+            )
+        );
+    }
+
+    /**
+     * Deploys the current model to a workspace, or over a semantic model in it.
+     * @param node - The workspace, or the semantic model to overwrite.
+     */
+    private static async deployHere(node: WorkspaceNode | ItemNode): Promise<void> {
+        const target: DeployTarget = {
+            workspaceUrl: FabricService.getWorkspaceApiUrl(node.workspace.id),
+            modelName: node.kind === 'item' ? node.item.name : undefined
+        };
+        await vscode.commands.executeCommand('tmdl-studio.deploy-to-workspace', target);
+    }
+
+    /**
+     * Downloads the definition of a semantic model as a TMDL project folder and offers to open it.
+     * @param authService - The authentication service.
+     * @param treeProvider - The explorer's tree provider.
+     * @param node - The semantic model.
+     */
+    private static async downloadDefinition(
+        authService: AuthService,
+        treeProvider: TabularTreeProvider,
+        node: ItemNode
+    ): Promise<void> {
+        const folder = await vscode.window.showOpenDialog({
+            canSelectFolders: true,
+            canSelectFiles: false,
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            openLabel: 'Download Here',
+            title: `Download ${node.item.name} as TMDL`
+        });
+        if (!folder?.[0]) {
+            return;
+        }
+
+        const projectRoot = path.join(folder[0].fsPath, `${node.item.name.replace(/[<>:"/\\|?*]/g, '_')}.SemanticModel`);
+        if (fs.existsSync(projectRoot)) {
+            const choice = await vscode.window.showWarningMessage(
+                `${projectRoot} already exists. Replace it with the downloaded definition? Its current files will be deleted.`,
+                { modal: true },
+                'Replace'
+            );
+            if (choice !== 'Replace') {
+                return;
+            }
+        }
+
+        try {
+            const fileCount = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Downloading ${node.item.name}...` },
+                async () => {
+                    const accessToken = await authService.refreshTokenIfNeeded();
+                    if (!accessToken) {
+                        throw new Error('Sign in to download semantic models.');
+                    }
+                    const parts = await FabricService.getSemanticModelDefinition(accessToken, node.item);
+                    return FabricWorkspacesCommand.writeDefinition(projectRoot, parts);
+                }
+            );
+
+            const choice = await vscode.window.showInformationMessage(
+                `Downloaded ${node.item.name} (${fileCount} files) to ${projectRoot}.`,
+                'Open Model'
+            );
+            if (choice === 'Open Model') {
+                await treeProvider.setTmdlFolder(projectRoot);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to download ${node.item.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Replaces a project folder with the files of a downloaded definition.
+     * @param projectRoot - The project folder.
+     * @param parts - The files of the definition.
+     * @returns The number of files written.
+     * @throws Error if a file would be written outside the project folder; nothing is changed then.
+     */
+    static writeDefinition(projectRoot: string, parts: DefinitionPart[]): number {
+        const files = parts.map(part => {
+            const filePath = path.resolve(projectRoot, part.path);
+            if (!filePath.startsWith(projectRoot + path.sep)) {
+                throw new Error(`The definition contains a file outside the project folder: ${part.path}`);
+            }
+            return { filePath, content: Buffer.from(part.payload, 'base64') };
+        });
+
+        // Only clear the folder once the download succeeded, so files deleted in Fabric
+        // do not linger in the local copy
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+        for (const { filePath, content } of files) {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, content);
+        }
+        return files.length;
+    }
+
+    /**
+     * Opens a workspace or item in the Fabric portal.
+     * @param node - The workspace or item.
+     */
+    private static async openInBrowser(node: FabricNode): Promise<void> {
+        if (node.kind === 'workspace' || node.kind === 'item') {
+            const url = FabricService.getPortalUrl(node.workspace.id, node.kind === 'item' ? node.item : undefined);
+            await vscode.env.openExternal(vscode.Uri.parse(url));
+        }
+    }
+}
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+
+/**
+ * Command handlers for filtering the Tabular Model explorer.
+ */
+export class FilterCommand {
+    /**
+     * Registers the filter and clear filter commands with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @returns The disposable command registrations.
+     */
+    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.commands.registerCommand('tmdl-studio.filter', () => FilterCommand.showFilterInput(treeProvider)),
+            vscode.commands.registerCommand('tmdl-studio.clear-filter', () => treeProvider.setFilter(''))
+        );
+    }
+
+    /**
+     * Shows an input box that filters the tree as the user types.
+     * Escape restores the filter that was active before the box opened.
+     * @param treeProvider - The tabular tree provider instance.
+     */
+    private static showFilterInput(treeProvider: TabularTreeProvider): void {
+        const previousQuery = treeProvider.getFilterQuery();
+        let accepted = false;
+
+        const input = vscode.window.createInputBox();
+        input.title = 'Filter Objects';
+        input.placeholder = 'Name, optionally with type:measure or table:Sales';
+        input.prompt = 'Qualifiers: type:table|column|measure|partition|relationship|expression|culture, table:<name>';
+        input.value = previousQuery;
+
+        input.onDidChangeValue(value => treeProvider.setFilter(value));
+        input.onDidAccept(() => {
+            accepted = true;
+            input.hide();
+        });
+        input.onDidHide(() => {
+            if (!accepted) {
+                treeProvider.setFilter(previousQuery);
+            }
+            input.dispose();
+        });
+
+        input.show();
+    }
+}
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { TreeNode } from '../views/explorer/ModelTreeItem';
+import { ModelMove } from '../refactor/ModelMove';
+
+/**
+ * Command handler for moving a measure to another table from the Tabular Model explorer.
+ */
+export class MoveMeasureCommand {
+    /**
+     * Registers the move command with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @returns The disposable command registration.
+     */
+    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
+        return vscode.commands.registerCommand('tmdl-studio.move-measure', (element?: TreeNode) =>
+            MoveMeasureCommand.execute(treeProvider, element)
+        );
+    }
+
+    /**
+     * Asks for the destination table and moves the measure there.
+     * @param treeProvider - The tabular tree provider instance.
+     * @param element - The measure node to move.
+     */
+    private static async execute(treeProvider: TabularTreeProvider, element?: TreeNode): Promise<void> {
+        const model = element ? treeProvider.getModelForNode(element) : treeProvider.getActiveModel();
+        const modelData = model?.data;
+        const folder = model?.definitionFolder;
+        const table = element?.type === 'measure' ? modelData?.tables.find(t => t.name === element.parentTable) : undefined;
+        const measure = element?.type === 'measure' ? table?.measures.find(m => m.name === element.data.name) : undefined;
+        if (!model || !modelData || !folder || !table || !measure) {
+            vscode.window.showInformationMessage('Select a measure in the Tabular Model explorer to move it.');
+            return;
+        }
+
+        const target = { kind: 'measure' as const, table, measure };
+        const selection = await vscode.window.showQuickPick(
+            modelData.tables
+                .filter(t => t !== table)
+                .map(t => ({ label: t.name, description: t.isHidden ? 'hidden' : undefined, table: t })),
+            { title: `Move measure '${measure.name}'`, placeHolder: 'Table to move the measure to' }
+        );
+        if (!selection) {
+            return;
+        }
+
+        const error = ModelMove.validate(target, selection.table);
+        if (error) {
+            vscode.window.showErrorMessage(error);
+            return;
+        }
+
+        try {
+            const edit = await ModelMove.buildEdit(target, selection.table, modelData, folder);
+            if (!await vscode.workspace.applyEdit(edit)) {
+                throw new Error('The edit could not be applied.');
+            }
+
+            for (const document of vscode.workspace.textDocuments) {
+                if (document.isDirty && edit.has(document.uri)) {
+                    await document.save();
+                }
+            }
+            await treeProvider.reload(model.projectRoot);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to move measure: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+}
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { ModelStructure, TreeNode } from '../views/explorer/ModelTreeItem';
+import { ResolvedObject } from '../dax/DaxReferenceResolver';
+import { ModelRename, getName } from '../refactor/ModelRename';
+
+/**
+ * Command handler for renaming a table, column or measure from the Tabular Model explorer.
+ */
+export class RenameObjectCommand {
+    /**
+     * Registers the rename command with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @returns The disposable command registration.
+     */
+    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
+        return vscode.commands.registerCommand('tmdl-studio.rename-object', (element?: TreeNode) =>
+            RenameObjectCommand.execute(treeProvider, element)
+        );
+    }
+
+    /**
+     * Prompts for a new name and applies the rename after the user reviews it in the refactor preview.
+     * @param treeProvider - The tabular tree provider instance.
+     * @param element - The explorer node to rename.
+     */
+    private static async execute(treeProvider: TabularTreeProvider, element?: TreeNode): Promise<void> {
+        const model = element ? treeProvider.getModelForNode(element) : treeProvider.getActiveModel();
+        const modelData = model?.data;
+        const folder = model?.definitionFolder;
+        const target = modelData && element ? RenameObjectCommand.toTarget(modelData, element) : undefined;
+        if (!modelData || !folder || !target) {
+            vscode.window.showInformationMessage('Select a table, column or measure in the Tabular Model explorer to rename it.');
+            return;
+        }
+
+        const oldName = getName(target);
+        const newName = await vscode.window.showInputBox({
+            title: `Rename ${target.kind} '${oldName}'`,
+            value: oldName,
+            validateInput: value => value === oldName ? undefined : ModelRename.validate(target, value, modelData)
+        });
+        if (newName === undefined || newName === oldName) {
+            return;
+        }
+
+        try {
+            const edit = await ModelRename.buildEdit(target, newName, modelData, folder, true);
+            const applied = await vscode.workspace.applyEdit(edit, { isRefactoring: true });
+            if (!applied) {
+                return;
+            }
+
+            // Saving lets the save listener reload the model with the new names
+            for (const document of vscode.workspace.textDocuments) {
+                if (document.isDirty && edit.has(document.uri)) {
+                    await document.save();
+                }
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to rename ${target.kind}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Finds the model object for an explorer node.
+     * @param modelData - The loaded model.
+     * @param element - The explorer node.
+     * @returns The object, or undefined if the node is not a table, column or measure.
+     */
+    private static toTarget(modelData: ModelStructure, element: TreeNode): ResolvedObject | undefined {
+        switch (element.type) {
+            case 'table': {
+                const table = modelData.tables.find(t => t.name === element.data.name);
+                return table && { kind: 'table', table };
+            }
+            case 'column': {
+                const table = modelData.tables.find(t => t.name === element.parentTable);
+                const column = table?.columns.find(c => c.name === element.data.name);
+                return table && column && { kind: 'column', table, column };
+            }
+            case 'measure': {
+                const table = modelData.tables.find(t => t.name === element.parentTable);
+                const measure = table?.measures.find(m => m.name === element.data.name);
+                return table && measure && { kind: 'measure', table, measure };
+            }
+            default:
+                return undefined;
+        }
+    }
+}
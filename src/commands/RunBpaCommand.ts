@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { BpaDiagnostics } from '../diagnostics/BpaDiagnostics';
+
+/**
+ * Command handler for running the Best Practice Analyzer on the open model.
+ */
+export class RunBpaCommand {
+    /**
+     * Registers the run BPA command with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @param bpa - The BPA diagnostics publisher.
+     * @returns The disposable command registration.
+     */
+    static register(
+        context: vscode.ExtensionContext,
+        treeProvider: TabularTreeProvider,
+        bpa: BpaDiagnostics
+    ): vscode.Disposable {
+        return vscode.commands.registerCommand('tmdl-studio.run-bpa', async () => {
+            const model = treeProvider.getModelData();
+            const projectRoot = treeProvider.getCurrentFolder();
+            const definitionFolder = treeProvider.getDefinitionFolder();
+
+            if (!model || !projectRoot || !definitionFolder) {
+                vscode.window.showErrorMessage('Open a TMDL model before running the Best Practice Analyzer.');
+                return;
+            }
+
+            const findings = bpa.refresh(model, projectRoot, definitionFolder);
+            if (findings.length === 0) {
+                vscode.window.showInformationMessage('Best Practice Analyzer found no issues.');
+                return;
+            }
+
+            const action = await vscode.window.showInformationMessage(
+                `Best Practice Analyzer found ${findings.length} issue(s).`,
+                'Show Problems'
+            );
+            if (action === 'Show Problems') {
+                await vscode.commands.executeCommand('workbench.actions.view.problems');
+            }
+        });
+    }
+}
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { AuthService } from '../services/AuthService';
+import { ServicePrincipalProfile } from '../types/auth';
+
+/**
+ * Command handlers for saved service principal profiles: creating, editing, deleting and
+ * testing them.
+ */
+export class ServicePrincipalCommand {
+    /**
+     * Registers the service principal commands with VS Code.
+     * @param context - The extension context.
+     * @param authService - The authentication service holding the profiles.
+     * @returns The disposable command registrations.
+     */
+    static register(context: vscode.ExtensionContext, authService: AuthService): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.commands.registerCommand('tmdl-studio.create-service-principal', () => ServicePrincipalCommand.create(authService)),
+            vscode.commands.registerCommand('tmdl-studio.edit-service-principal', () => ServicePrincipalCommand.edit(authService)),
+            vscode.commands.registerCommand('tmdl-studio.delete-service-principal', () => ServicePrincipalCommand.delete(authService)),
+            vscode.commands.registerCommand('tmdl-studio.test-service-principal', () => ServicePrincipalCommand.test(authService))
+        );
+    }
+
+    /**
+     * Prompts for a new profile and offers to test it.
+     * @param authService - The authentication service.
+     */
+    private static async create(authService: AuthService): Promise<void> {
+        const profile = await authService.promptForProfile();
+        if (!profile) {
+            return;
+        }
+
+        const choice = await vscode.window.showInformationMessage(`Saved service principal '${profile.name}'.`, 'Test');
+        if (choice === 'Test') {
+            await ServicePrincipalCommand.test(authService, profile);
+        }
+    }
+
+    /**
+     * Picks a profile and edits its name and credentials.
+     * @param authService - The authentication service.
+     */
+    private static async edit(authService: AuthService): Promise<void> {
+        const profile = await ServicePrincipalCommand.pickProfile(authService, 'Service principal to edit');
+        if (profile && await authService.promptForProfile(profile)) {
+            vscode.window.showInformationMessage(`Updated service principal '${profile.name}'.`);
+        }
+    }
+
+    /**
+     * Picks a profile and deletes it after confirmation.
+     * @param authService - The authentication service.
+     */
+    private static async delete(authService: AuthService): Promise<void> {
+        const profile = await ServicePrincipalCommand.pickProfile(authService, 'Service principal to delete');
+        if (!profile) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete service principal '${profile.name}' and its saved secret?`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm === 'Delete') {
+            await authService.deleteProfile(profile.id);
+            vscode.window.showInformationMessage(`Deleted service principal '${profile.name}'.`);
+        }
+    }
+
+    /**
+     * Signs in with a profile and lists the workspaces it can reach.
+     * @param authService - The authentication service.
+     * @param profile - The profile to test; picked when not given.
+     */
+    private static async test(authService: AuthService, profile?: ServicePrincipalProfile): Promise<void> {
+        profile = profile ?? await ServicePrincipalCommand.pickProfile(authService, 'Service principal to test');
+        if (!profile) {
+            return;
+        }
+
+        try {
+            const workspaces = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Testing service principal '${profile.name}'...` },
+                () => authService.testProfile(profile.id)
+            );
+
+            if (workspaces.length === 0) {
+                vscode.window.showWarningMessage(
+                    `Service principal '${profile.name}' signed in, but cannot reach any workspace. ` +
+                    'Add it to the workspaces it deploys to.'
+                );
+                return;
+            }
+
+            await vscode.window.showQuickPick(
+                workspaces.map(workspace => ({ label: workspace.name, description: workspace.id })),
+                { placeHolder: `Service principal '${profile.name}' can reach ${workspaces.length} workspace(s)` }
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Service principal '${profile.name}' failed: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+
+    /**
+     * Picks a saved profile.
+     * @param authService - The authentication service.
+     * @param placeHolder - The quick pick placeholder.
+     * @returns The profile, or undefined if none is saved or the pick was cancelled.
+     */
+    private static async pickProfile(authService: AuthService, placeHolder: string): Promise<ServicePrincipalProfile | undefined> {
+        const profiles = await authService.getProfiles();
+        if (profiles.length === 0) {
+            const choice = await vscode.window.showInformationMessage('No service principal is saved.', 'Create');
+            if (choice === 'Create') {
+                await ServicePrincipalCommand.create(authService);
+            }
+            return undefined;
+        }
+
+        const selection = await vscode.window.showQuickPick(
+            profiles.map(profile => ({
+                label: profile.name,
+                description: `Client ${profile.clientId}`,
+                detail: `Tenant ${profile.tenantId}`,
+                profile
+            })),
+            { placeHolder }
+        );
+        return selection?.profile;
+    }
+}
@@ -0,0 +1,29 @@
+import * as vscode from 'vscode';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { TreeNode } from '../views/explorer/ModelTreeItem';
+import { DependencyGraph } from '../dax/DependencyGraph';
+import { DependencyGraphPanel } from '../views/graph/DependencyGraphPanel';
+
+/**
+ * Command handler for opening the dependency graph of a measure or column.
+ */
+export class ShowDependenciesCommand {
+    /**
+     * Registers the show dependencies command with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @returns The disposable command registration.
+     */
+    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
+        return vscode.commands.registerCommand('tmdl-studio.show-dependencies', (element?: TreeNode) => {
+            const projectRoot = element && treeProvider.getModelForNode(element)?.projectRoot;
+            if (element?.type === 'measure' && projectRoot) {
+                DependencyGraphPanel.show(treeProvider, projectRoot, DependencyGraph.measureId(element.parentTable, element.data.name));
+            } else if (element?.type === 'column' && projectRoot) {
+                DependencyGraphPanel.show(treeProvider, projectRoot, DependencyGraph.columnId(element.parentTable, element.data.name));
+            } else {
+                vscode.window.showInformationMessage('Select a measure or column in the Tabular Model explorer to show its dependencies.');
+            }
+        });
+    }
+}
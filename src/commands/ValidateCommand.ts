@@ -1,28 +1,29 @@
 import * as vscode from 'vscode';
-import { TimdleClient } from '../cli/TimdleClient';
+import { ValidationDiagnostics } from '../diagnostics/ValidationDiagnostics';
 import { ProjectRootDetector } from '../utils/ProjectRootDetector';
 
 /**
  * Command handler for validating TMDL models.
  */
 export class ValidateCommand {
-    private cliClient: TimdleClient;
-
     /**
      * Creates a new ValidateCommand instance.
      * @param context - The VS Code extension context.
+     * @param diagnostics - The validation diagnostics publisher.
      */
-    constructor(private context: vscode.ExtensionContext) {
-        this.cliClient = new TimdleClient(context);
-    }
+    constructor(
+        private context: vscode.ExtensionContext,
+        private diagnostics: ValidationDiagnostics
+    ) {}
 
     /**
      * Registers the validate command with VS Code.
      * @param context - The VS Code extension context.
+     * @param diagnostics - The validation diagnostics publisher.
      * @returns The disposable command registration.
      */
-    static register(context: vscode.ExtensionContext): vscode.Disposable {
-        const command = new ValidateCommand(context);
+    static register(context: vscode.ExtensionContext, diagnostics: ValidationDiagnostics): vscode.Disposable {
+        const command = new ValidateCommand(context, diagnostics);
         return vscode.commands.registerCommand('tmdl-studio.validate', () => command.execute());
     }
 
@@ -49,8 +50,13 @@ export class ValidateCommand {
         outputChannel.appendLine(`Running validation on: ${projectRoot}...`);
 
         try {
-            const output = await this.cliClient.validate(projectRoot);
-            outputChannel.appendLine(output);
+            const result = await this.diagnostics.refresh(ProjectRootDetector.getDefinitionFolder(projectRoot));
+            const prefix = result.isWarning ? 'WARNING' : result.isSuccess ? 'SUCCESS' : 'ERROR';
+            outputChannel.appendLine(`${prefix}: ${result.message}`);
+
+            if (result.diagnostics.length > 0) {
+                outputChannel.appendLine(`${result.diagnostics.length} problem(s) reported in the Problems pane.`);
+            }
         } catch (error) {
             outputChannel.appendLine(`Error executing CLI: ${error}`);
         }
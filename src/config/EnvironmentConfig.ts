@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuthMode } from '../types/auth';
+import { DeploymentOverrides } from '../cli/TimdleClient';
+import { ModelStructure } from '../views/explorer/ModelTreeItem';
+import { ProjectRootDetector } from '../utils/ProjectRootDetector';
+
+/**
+ * A named deployment target, e.g. Dev, Test or Prod.
+ */
+export interface DeployEnvironment {
+    name: string;
+    description?: string;
+    /** Fabric workspace ID, or a full workspace URL. */
+    workspaceId: string;
+    /** Semantic model display name; defaults to the name in .platform. */
+    semanticModelName?: string;
+    /** Authentication mode; prompted for when not set. */
+    authMode?: AuthMode;
+    /** Username of the signed-in account to deploy with in interactive mode; the active account when not set. */
+    account?: string;
+    /** Tenant ID or domain to sign in to in interactive mode. */
+    tenantId?: string;
+    /** Name, ID or client ID of the saved service principal profile to deploy with in service-principal mode. */
+    servicePrincipal?: string;
+    /** Power Query parameter values keyed by parameter name. */
+    parameters?: Record<string, string | number | boolean>;
+    /** Full replacement M expressions keyed by shared expression name. */
+    expressions?: Record<string, string>;
+    /** Refreshes the semantic model's data after each deploy to this environment. */
+    refreshAfterDeploy?: boolean;
+}
+
+/**
+ * Shape of the environments file.
+ */
+interface EnvironmentsFile {
+    environments: DeployEnvironment[];
+}
+
+const AUTH_MODES: AuthMode[] = ['interactive', 'service-principal', 'env'];
+
+// A Power Query parameter is a literal followed by its meta record: "value" meta [IsParameterQuery=true, ...]
+const PARAMETER_PATTERN = /^\s*("(?:[^"]|"")*"|\S+)(\s+meta\s+\[[\s\S]*)$/i;
+
+/**
+ * Loads named deployment environments from `.tmdlstudio/environments.json`.
+ * The file is meant to be committed so environments are shared and reviewed with the model.
+ */
+export class EnvironmentConfig {
+    static readonly FILE_NAME = 'environments.json';
+
+    /**
+     * Finds the environments file for a project.
+     * @param projectRoot - The project root path.
+     * @param workspaceFolders - Workspace folder paths searched after the project root.
+     * @returns The file path, or undefined if the project has no environments file.
+     */
+    static findFile(projectRoot: string, workspaceFolders: string[] = []): string | undefined {
+        return ProjectRootDetector.findSettingsFile(projectRoot, EnvironmentConfig.FILE_NAME, workspaceFolders) ?? undefined;
+    }
+
+    /**
+     * Loads the environments defined for a project.
+     * @param projectRoot - The project root path.
+     * @param workspaceFolders - Workspace folder paths searched after the project root.
+     * @returns The environments; empty if the project has no environments file.
+     * @throws Error if the file is not valid JSON or an environment is incomplete.
+     */
+    static load(projectRoot: string, workspaceFolders: string[] = []): DeployEnvironment[] {
+        const filePath = EnvironmentConfig.findFile(projectRoot, workspaceFolders);
+        return filePath ? EnvironmentConfig.loadFile(filePath) : [];
+    }
+
+    /**
+     * Loads and validates an environments file.
+     * @param filePath - Path to the environments file.
+     * @returns The environments.
+     * @throws Error if the file is not valid JSON or an environment is incomplete.
+     */
+    static loadFile(filePath: string): DeployEnvironment[] {
+        let json: Partial<EnvironmentsFile>;
+        try {
+            json = JSON.parse(fs.readFileSync(filePath, 'utf8').replace(/^\uFEFF/, ''));
+        } catch (error) {
+            throw new Error(`${filePath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+        }
+
+        if (!Array.isArray(json.environments)) {
+            throw new Error(`${filePath} must contain an "environments" array.`);
+        }
+
+        const names = new Set<string>();
+        for (const environment of json.environments) {
+            if (!environment.name || !environment.workspaceId) {
+                throw new Error(`Every environment in ${filePath} needs a "name" and a "workspaceId".`);
+            }
+            if (environment.authMode && !AUTH_MODES.includes(environment.authMode)) {
+                throw new Error(`Environment '${environment.name}' has an invalid authMode '${environment.authMode}'. Use ${AUTH_MODES.join(', ')}.`);
+            }
+            if (environment.refreshAfterDeploy !== undefined && typeof environment.refreshAfterDeploy !== 'boolean') {
+                throw new Error(`Environment '${environment.name}' has an invalid refreshAfterDeploy; use true or false.`);
+            }
+            if (names.has(environment.name.toLowerCase())) {
+                throw new Error(`Environment '${environment.name}' is defined more than once in ${filePath}.`);
+            }
+            names.add(environment.name.toLowerCase());
+        }
+
+        return json.environments;
+    }
+
+    /**
+     * Finds an environment by name, ignoring case.
+     * @param environments - The environments of a project.
+     * @param name - The environment name.
+     * @returns The environment, or undefined if it is not defined.
+     */
+    static find(environments: DeployEnvironment[], name: string): DeployEnvironment | undefined {
+        return environments.find(e => e.name.toLowerCase() === name.toLowerCase());
+    }
+
+    /**
+     * Creates an environments file with a Dev, Test and Prod template.
+     * @param projectRoot - The project root path.
+     * @returns The path of the created file.
+     */
+    static createTemplate(projectRoot: string): string {
+        const filePath = path.join(projectRoot, ProjectRootDetector.SETTINGS_FOLDER, EnvironmentConfig.FILE_NAME);
+        const template: EnvironmentsFile = {
+            environments: ['Dev', 'Test', 'Prod'].map(name => ({
+                name,
+                workspaceId: '00000000-0000-0000-0000-000000000000',
+                authMode: name === 'Prod' ? 'service-principal' : 'interactive',
+                parameters: {},
+                expressions: {}
+            }))
+        };
+
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(template, null, 2) + '\n', 'utf8');
+        return filePath;
+    }
+
+    /**
+     * Gets the workspace URL for an environment.
+     * @param environment - The environment.
+     * @returns The Fabric workspace URL.
+     */
+    static getWorkspaceUrl(environment: DeployEnvironment): string {
+        return EnvironmentConfig.normalizeWorkspaceUrl(environment.workspaceId);
+    }
+
+    /**
+     * Turns a workspace ID or URL into the Fabric workspace URL the CLI deploys to.
+     * @param workspace - A workspace ID, or a full workspace URL.
+     * @returns The Fabric workspace URL.
+     */
+    static normalizeWorkspaceUrl(workspace: string): string {
+        const value = workspace.trim();
+        return value.startsWith('http') ? value : `https://api.fabric.microsoft.com/v1/workspaces/${value}`;
+    }
+
+    /**
+     * Gets the overrides to send with a deploy to an environment.
+     * @param environment - The environment.
+     * @returns The overrides, or undefined if the environment has none.
+     */
+    static getOverrides(environment: DeployEnvironment): DeploymentOverrides | undefined {
+        const parameters = Object.entries(environment.parameters ?? {});
+        const expressions = Object.entries(environment.expressions ?? {});
+        if (parameters.length === 0 && expressions.length === 0) {
+            return undefined;
+        }
+
+        return {
+            parameters: Object.fromEntries(parameters.map(([name, value]) => [name, toMLiteral(value)])),
+            expressions: Object.fromEntries(expressions)
+        };
+    }
+
+    /**
+     * Applies an environment's overrides to a copy of a model, so previews compare what is actually deployed.
+     * @param model - The local model.
+     * @param overrides - The environment's overrides, from getOverrides.
+     * @returns The model with overridden expressions.
+     */
+    static applyOverrides(model: ModelStructure, overrides: DeploymentOverrides | undefined): ModelStructure {
+        if (!overrides) {
+            return model;
+        }
+
+        const find = (values: Record<string, string> | undefined, name: string) =>
+            Object.entries(values ?? {}).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1];
+
+        return {
+            ...model,
+            expressions: model.expressions.map(expression => {
+                const replacement = find(overrides.expressions, expression.name);
+                const parameter = find(overrides.parameters, expression.name);
+                if (replacement !== undefined) {
+                    return { ...expression, expression: replacement };
+                }
+                if (parameter !== undefined) {
+                    const match = PARAMETER_PATTERN.exec(expression.expression ?? '');
+                    return { ...expression, expression: match ? parameter + match[2] : parameter };
+                }
+                return expression;
+            })
+        };
+    }
+}
+
+/**
+ * Converts a parameter value from the environments file to an M literal.
+ * @param value - The value.
+ * @returns Strings as quoted M text, numbers and booleans as-is.
+ */
+function toMLiteral(value: string | number | boolean): string {
+    return typeof value === 'string' ? `"${value.replace(/"/g, '""')}"` : String(value);
+}
@@ -0,0 +1,141 @@
+/**
+ * A DAX function offered by completion.
+ */
+export interface DaxFunction {
+    name: string;
+    /** Parameter list, e.g. `(<table>, <expression>)`. */
+    parameters: string;
+    description: string;
+}
+
+/**
+ * The DAX functions most used in measures and calculated columns.
+ */
+export const DAX_FUNCTIONS: DaxFunction[] = [
+    // Aggregation
+    { name: 'SUM', parameters: '(<column>)', description: 'Adds all the numbers in a column.' },
+    { name: 'SUMX', parameters: '(<table>, <expression>)', description: 'Returns the sum of an expression evaluated for each row in a table.' },
+    { name: 'AVERAGE', parameters: '(<column>)', description: 'Returns the arithmetic mean of all the numbers in a column.' },
+    { name: 'AVERAGEX', parameters: '(<table>, <expression>)', description: 'Returns the average of an expression evaluated for each row in a table.' },
+    { name: 'MIN', parameters: '(<column>)', description: 'Returns the smallest value in a column.' },
+    { name: 'MINX', parameters: '(<table>, <expression>)', description: 'Returns the smallest value of an expression evaluated for each row in a table.' },
+    { name: 'MAX', parameters: '(<column>)', description: 'Returns the largest value in a column.' },
+    { name: 'MAXX', parameters: '(<table>, <expression>)', description: 'Returns the largest value of an expression evaluated for each row in a table.' },
+    { name: 'COUNT', parameters: '(<column>)', description: 'Counts the non-blank numbers, dates or strings in a column.' },
+    { name: 'COUNTA', parameters: '(<column>)', description: 'Counts the non-blank values in a column.' },
+    { name: 'COUNTX', parameters: '(<table>, <expression>)', description: 'Counts the rows where an expression evaluates to a non-blank value.' },
+    { name: 'COUNTBLANK', parameters: '(<column>)', description: 'Counts the blank cells in a column.' },
+    { name: 'COUNTROWS', parameters: '([<table>])', description: 'Counts the rows in a table.' },
+    { name: 'DISTINCTCOUNT', parameters: '(<column>)', description: 'Counts the distinct values in a column.' },
+    { name: 'DISTINCTCOUNTNOBLANK', parameters: '(<column>)', description: 'Counts the distinct non-blank values in a column.' },
+    { name: 'PRODUCT', parameters: '(<column>)', description: 'Returns the product of the numbers in a column.' },
+    { name: 'PRODUCTX', parameters: '(<table>, <expression>)', description: 'Returns the product of an expression evaluated for each row in a table.' },
+    { name: 'MEDIAN', parameters: '(<column>)', description: 'Returns the median of the numbers in a column.' },
+    { name: 'RANKX', parameters: '(<table>, <expression>[, <value>[, <order>[, <ties>]]])', description: 'Returns the rank of a number in a list of numbers for each row in a table.' },
+
+    // Filter
+    { name: 'CALCULATE', parameters: '(<expression>[, <filter1>[, <filter2>[, ...]]])', description: 'Evaluates an expression in a modified filter context.' },
+    { name: 'CALCULATETABLE', parameters: '(<expression>[, <filter1>[, <filter2>[, ...]]])', description: 'Evaluates a table expression in a modified filter context.' },
+    { name: 'FILTER', parameters: '(<table>, <filter>)', description: 'Returns a table that represents a subset of another table or expression.' },
+    { name: 'ALL', parameters: '([<table> | <column>[, <column>[, ...]]])', description: 'Returns all rows in a table or all values in a column, ignoring filters.' },
+    { name: 'ALLEXCEPT', parameters: '(<table>, <column>[, <column>[, ...]])', description: 'Removes all filters from a table except filters on the specified columns.' },
+    { name: 'ALLSELECTED', parameters: '([<table> | <column>[, <column>[, ...]]])', description: 'Removes filters from the current query while keeping outside filters.' },
+    { name: 'ALLNOBLANKROW', parameters: '(<table> | <column>[, <column>[, ...]])', description: 'Returns all rows except the blank row, ignoring filters.' },
+    { name: 'REMOVEFILTERS', parameters: '([<table> | <column>[, <column>[, ...]]])', description: 'Clears filters from the specified tables or columns.' },
+    { name: 'KEEPFILTERS', parameters: '(<expression>)', description: 'Adds a filter without removing existing filters on the same columns.' },
+    { name: 'VALUES', parameters: '(<table> | <column>)', description: 'Returns the distinct values of a column or the rows of a table, including the blank row.' },
+    { name: 'DISTINCT', parameters: '(<table> | <column>)', description: 'Returns the distinct values of a column or the distinct rows of a table.' },
+    { name: 'SELECTEDVALUE', parameters: '(<column>[, <alternateResult>])', description: 'Returns the value when the column is filtered down to one distinct value.' },
+    { name: 'HASONEVALUE', parameters: '(<column>)', description: 'Returns TRUE when the column is filtered down to one distinct value.' },
+    { name: 'ISFILTERED', parameters: '(<table> | <column>)', description: 'Returns TRUE when the column or table is directly filtered.' },
+    { name: 'ISCROSSFILTERED', parameters: '(<table> | <column>)', description: 'Returns TRUE when the column or table is directly or indirectly filtered.' },
+    { name: 'USERELATIONSHIP', parameters: '(<column1>, <column2>)', description: 'Activates an inactive relationship for the calculation.' },
+    { name: 'CROSSFILTER', parameters: '(<column1>, <column2>, <direction>)', description: 'Sets the cross-filtering direction of a relationship for the calculation.' },
+    { name: 'TREATAS', parameters: '(<table expression>, <column>[, <column>[, ...]])', description: 'Applies the result of a table expression as filters to unrelated columns.' },
+    { name: 'EARLIER', parameters: '(<column>[, <number>])', description: 'Returns the value of a column in an outer row context.' },
+    { name: 'RELATED', parameters: '(<column>)', description: 'Returns a related value from another table.' },
+    { name: 'RELATEDTABLE', parameters: '(<table>)', description: 'Returns the related rows of another table.' },
+    { name: 'LOOKUPVALUE', parameters: '(<result column>, <search column>, <search value>[, ...][, <alternateResult>])', description: 'Returns the value in a row that meets all search conditions.' },
+
+    // Table manipulation
+    { name: 'ADDCOLUMNS', parameters: '(<table>, <name>, <expression>[, <name>, <expression>[, ...]])', description: 'Adds calculated columns to a table.' },
+    { name: 'SELECTCOLUMNS', parameters: '(<table>, <name>, <expression>[, <name>, <expression>[, ...]])', description: 'Returns a table with selected columns and expressions.' },
+    { name: 'SUMMARIZE', parameters: '(<table>, <groupBy column>[, <groupBy column>[, ...]][, <name>, <expression>[, ...]])', description: 'Returns a summary table grouped by the given columns.' },
+    { name: 'SUMMARIZECOLUMNS', parameters: '(<groupBy column>[, ...][, <filter table>[, ...]][, <name>, <expression>[, ...]])', description: 'Returns a summary table over a set of groups.' },
+    { name: 'GROUPBY', parameters: '(<table>[, <groupBy column>[, ...]][, <name>, <expression>[, ...]])', description: 'Groups a table using CURRENTGROUP for aggregations.' },
+    { name: 'TOPN', parameters: '(<n>, <table>[, <orderBy expression>[, <order>[, ...]]])', description: 'Returns the top N rows of a table.' },
+    { name: 'UNION', parameters: '(<table>, <table>[, <table>[, ...]])', description: 'Returns the union of tables with the same number of columns.' },
+    { name: 'INTERSECT', parameters: '(<table>, <table>)', description: 'Returns the rows of the first table that also appear in the second.' },
+    { name: 'EXCEPT', parameters: '(<table>, <table>)', description: 'Returns the rows of the first table that do not appear in the second.' },
+    { name: 'CROSSJOIN', parameters: '(<table>, <table>[, <table>[, ...]])', description: 'Returns the Cartesian product of the tables.' },
+    { name: 'GENERATESERIES', parameters: '(<start>, <end>[, <increment>])', description: 'Returns a single-column table of values in an arithmetic series.' },
+    { name: 'DATATABLE', parameters: '(<name>, <type>[, ...], <data>)', description: 'Returns a table declared inline.' },
+    { name: 'ROW', parameters: '(<name>, <expression>[, <name>, <expression>[, ...]])', description: 'Returns a single-row table.' },
+
+    // Logical and information
+    { name: 'IF', parameters: '(<condition>, <value if true>[, <value if false>])', description: 'Returns one value when the condition is TRUE and another when it is FALSE.' },
+    { name: 'SWITCH', parameters: '(<expression>, <value>, <result>[, <value>, <result>[, ...]][, <else>])', description: 'Returns the result for the first value that matches the expression.' },
+    { name: 'AND', parameters: '(<logical1>, <logical2>)', description: 'Returns TRUE when both arguments are TRUE.' },
+    { name: 'OR', parameters: '(<logical1>, <logical2>)', description: 'Returns TRUE when either argument is TRUE.' },
+    { name: 'NOT', parameters: '(<logical>)', description: 'Changes FALSE to TRUE and TRUE to FALSE.' },
+    { name: 'TRUE', parameters: '()', description: 'Returns the logical value TRUE.' },
+    { name: 'FALSE', parameters: '()', description: 'Returns the logical value FALSE.' },
+    { name: 'COALESCE', parameters: '(<expression>, <expression>[, <expression>[, ...]])', description: 'Returns the first expression that does not evaluate to BLANK.' },
+    { name: 'ISBLANK', parameters: '(<value>)', description: 'Returns TRUE when the value is BLANK.' },
+    { name: 'ISERROR', parameters: '(<value>)', description: 'Returns TRUE when the value is an error.' },
+    { name: 'IFERROR', parameters: '(<value>, <value if error>)', description: 'Returns an alternative value when an expression returns an error.' },
+    { name: 'BLANK', parameters: '()', description: 'Returns a BLANK.' },
+    { name: 'CONTAINS', parameters: '(<table>, <column>, <value>[, <column>, <value>[, ...]])', description: 'Returns TRUE when a row with the given values exists.' },
+    { name: 'USERPRINCIPALNAME', parameters: '()', description: 'Returns the user principal name of the current user.' },
+
+    // Math
+    { name: 'DIVIDE', parameters: '(<numerator>, <denominator>[, <alternateResult>])', description: 'Divides and returns an alternative result or BLANK on division by zero.' },
+    { name: 'ABS', parameters: '(<number>)', description: 'Returns the absolute value of a number.' },
+    { name: 'ROUND', parameters: '(<number>, <num_digits>)', description: 'Rounds a number to the given number of digits.' },
+    { name: 'ROUNDUP', parameters: '(<number>, <num_digits>)', description: 'Rounds a number up, away from zero.' },
+    { name: 'ROUNDDOWN', parameters: '(<number>, <num_digits>)', description: 'Rounds a number down, toward zero.' },
+    { name: 'INT', parameters: '(<number>)', description: 'Rounds a number down to the nearest integer.' },
+    { name: 'MOD', parameters: '(<number>, <divisor>)', description: 'Returns the remainder after division.' },
+    { name: 'POWER', parameters: '(<number>, <power>)', description: 'Returns a number raised to a power.' },
+    { name: 'SQRT', parameters: '(<number>)', description: 'Returns the square root of a number.' },
+
+    // Text
+    { name: 'FORMAT', parameters: '(<value>, <format string>[, <locale>])', description: 'Converts a value to text in the given format.' },
+    { name: 'CONCATENATE', parameters: '(<text1>, <text2>)', description: 'Joins two text strings.' },
+    { name: 'CONCATENATEX', parameters: '(<table>, <expression>[, <delimiter>[, <orderBy expression>[, <order>]]])', description: 'Joins the results of an expression evaluated for each row in a table.' },
+    { name: 'LEFT', parameters: '(<text>[, <num_chars>])', description: 'Returns characters from the start of a text string.' },
+    { name: 'RIGHT', parameters: '(<text>[, <num_chars>])', description: 'Returns characters from the end of a text string.' },
+    { name: 'MID', parameters: '(<text>, <start_num>, <num_chars>)', description: 'Returns characters from the middle of a text string.' },
+    { name: 'LEN', parameters: '(<text>)', description: 'Returns the number of characters in a text string.' },
+    { name: 'UPPER', parameters: '(<text>)', description: 'Converts a text string to upper case.' },
+    { name: 'LOWER', parameters: '(<text>)', description: 'Converts a text string to lower case.' },
+    { name: 'TRIM', parameters: '(<text>)', description: 'Removes leading, trailing and repeated spaces from text.' },
+    { name: 'SUBSTITUTE', parameters: '(<text>, <old_text>, <new_text>[, <instance_num>])', description: 'Replaces existing text with new text.' },
+    { name: 'SEARCH', parameters: '(<find_text>, <within_text>[, <start_num>[, <NotFoundValue>]])', description: 'Returns the position of text, ignoring case.' },
+    { name: 'VALUE', parameters: '(<text>)', description: 'Converts text that represents a number to a number.' },
+
+    // Date and time intelligence
+    { name: 'DATE', parameters: '(<year>, <month>, <day>)', description: 'Returns the given date.' },
+    { name: 'TODAY', parameters: '()', description: 'Returns the current date.' },
+    { name: 'NOW', parameters: '()', description: 'Returns the current date and time.' },
+    { name: 'YEAR', parameters: '(<date>)', description: 'Returns the year of a date.' },
+    { name: 'MONTH', parameters: '(<date>)', description: 'Returns the month of a date, from 1 to 12.' },
+    { name: 'DAY', parameters: '(<date>)', description: 'Returns the day of the month, from 1 to 31.' },
+    { name: 'EOMONTH', parameters: '(<start_date>, <months>)', description: 'Returns the last day of the month a number of months away.' },
+    { name: 'DATEDIFF', parameters: '(<date1>, <date2>, <interval>)', description: 'Returns the number of interval boundaries between two dates.' },
+    { name: 'CALENDAR', parameters: '(<start_date>, <end_date>)', description: 'Returns a table of contiguous dates.' },
+    { name: 'CALENDARAUTO', parameters: '([<fiscal_year_end_month>])', description: 'Returns a table of dates covering all dates in the model.' },
+    { name: 'DATEADD', parameters: '(<dates>, <number_of_intervals>, <interval>)', description: 'Shifts a set of dates by a number of intervals.' },
+    { name: 'DATESYTD', parameters: '(<dates>[, <year_end_date>])', description: 'Returns the dates from the start of the year to the current date.' },
+    { name: 'DATESMTD', parameters: '(<dates>)', description: 'Returns the dates from the start of the month to the current date.' },
+    { name: 'DATESQTD', parameters: '(<dates>)', description: 'Returns the dates from the start of the quarter to the current date.' },
+    { name: 'DATESBETWEEN', parameters: '(<dates>, <start_date>, <end_date>)', description: 'Returns the dates between two dates.' },
+    { name: 'DATESINPERIOD', parameters: '(<dates>, <start_date>, <number_of_intervals>, <interval>)', description: 'Returns the dates in a period starting at a date.' },
+    { name: 'TOTALYTD', parameters: '(<expression>, <dates>[, <filter>][, <year_end_date>])', description: 'Evaluates an expression year to date.' },
+    { name: 'TOTALMTD', parameters: '(<expression>, <dates>[, <filter>])', description: 'Evaluates an expression month to date.' },
+    { name: 'TOTALQTD', parameters: '(<expression>, <dates>[, <filter>])', description: 'Evaluates an expression quarter to date.' },
+    { name: 'SAMEPERIODLASTYEAR', parameters: '(<dates>)', description: 'Returns the dates shifted back one year.' },
+    { name: 'PREVIOUSMONTH', parameters: '(<dates>)', description: 'Returns all dates in the previous month.' },
+    { name: 'PREVIOUSYEAR', parameters: '(<dates>[, <year_end_date>])', description: 'Returns all dates in the previous year.' },
+    { name: 'PARALLELPERIOD', parameters: '(<dates>, <number_of_intervals>, <interval>)', description: 'Returns a parallel period of dates shifted by a number of intervals.' }
+];
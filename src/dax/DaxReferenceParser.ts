@@ -0,0 +1,169 @@
+/**
+ * Character offsets of a span within a DAX expression (end is exclusive).
+ */
+export interface OffsetRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * A reference to a model object found in a DAX expression.
+ *
+ * - `'Sales'[Amount]` and `Sales[Amount]` set both `table` and `name`.
+ * - `[Total Revenue]` sets only `name`.
+ * - `'Sales'` on its own sets only `table`.
+ */
+export interface DaxReference {
+    table?: string;
+    name?: string;
+    /** Span of the whole reference including quotes and brackets. */
+    range: OffsetRange;
+    /** Span of the table name without quotes. */
+    tableRange?: OffsetRange;
+    /** Span of the bracketed name without brackets. */
+    nameRange?: OffsetRange;
+}
+
+// Bare words DAX reserves; they are never table names
+const DAX_KEYWORDS = new Set([
+    'var', 'return', 'define', 'evaluate', 'measure', 'column', 'table', 'order', 'by', 'asc', 'desc',
+    'start', 'at', 'in', 'not', 'and', 'or', 'true', 'false',
+    'integer', 'double', 'string', 'boolean', 'currency', 'datetime'
+]);
+
+/**
+ * Utility class for extracting table, column and measure references from DAX text.
+ * String literals and comments are skipped; it does not validate DAX syntax.
+ */
+export class DaxReferenceParser {
+    /**
+     * Parses all object references in a DAX expression.
+     * @param text - The DAX expression.
+     * @param includeBareNames - Also report unquoted names such as `Sales` in `COUNTROWS(Sales)` as table
+     * references. DAX keywords and variables are skipped; other names must still be resolved by callers.
+     * @param variables - Lower-case names of the variables declared so far; `VAR` declarations found are
+     * added, so the lines of a multi-line expression can share one set.
+     * @returns The references in the order they appear.
+     */
+    static parse(text: string, includeBareNames = false, variables = new Set<string>()): DaxReference[] {
+        const references: DaxReference[] = [];
+        let declaringVariable = false;
+        let i = 0;
+
+        while (i < text.length) {
+            const ch = text[i];
+            const next = text[i + 1];
+
+            if (ch === '"') {
+                i = DaxReferenceParser.skipDelimited(text, i, '"');
+            } else if ((ch === '/' && next === '/') || (ch === '-' && next === '-')) {
+                const lineEnd = text.indexOf('\n', i);
+                i = lineEnd < 0 ? text.length : lineEnd;
+            } else if (ch === '/' && next === '*') {
+                const commentEnd = text.indexOf('*/', i + 2);
+                i = commentEnd < 0 ? text.length : commentEnd + 2;
+            } else if (ch === '\'') {
+                const end = DaxReferenceParser.skipDelimited(text, i, '\'');
+                const table = text.slice(i + 1, end - 1).replace(/''/g, '\'');
+                const tableRange = { start: i + 1, end: end - 1 };
+                i = DaxReferenceParser.readQualified(text, i, end, table, tableRange, references);
+            } else if (ch === '[') {
+                const end = DaxReferenceParser.skipDelimited(text, i, ']');
+                references.push({
+                    name: text.slice(i + 1, end - 1).replace(/]]/g, ']'),
+                    range: { start: i, end },
+                    nameRange: { start: i + 1, end: end - 1 }
+                });
+                i = end;
+            } else if (DaxReferenceParser.isIdentifierStart(ch) && !DaxReferenceParser.isIdentifierPart(text[i - 1])) {
+                let end = i + 1;
+                while (end < text.length && DaxReferenceParser.isIdentifierPart(text[end])) {
+                    end++;
+                }
+
+                // Unquoted identifiers are only table names when a column bracket follows
+                if (text[end] === '[') {
+                    const table = text.slice(i, end);
+                    i = DaxReferenceParser.readQualified(text, i, end, table, { start: i, end }, references);
+                } else {
+                    const name = text.slice(i, end);
+                    const word = name.toLowerCase();
+                    if (declaringVariable) {
+                        variables.add(word);
+                        declaringVariable = false;
+                    } else if (word === 'var') {
+                        declaringVariable = true;
+                    } else if (
+                        // A name directly followed by an opening parenthesis is a function call
+                        includeBareNames && !DAX_KEYWORDS.has(word) && !variables.has(word) && !/^\s*\(/.test(text.slice(end))
+                    ) {
+                        references.push({ table: name, range: { start: i, end }, tableRange: { start: i, end } });
+                    }
+                    i = end;
+                }
+            } else {
+                i++;
+            }
+        }
+
+        return references;
+    }
+
+    /**
+     * Reads an optional `[Name]` that directly follows a table name.
+     * @returns The offset after the reference.
+     */
+    private static readQualified(
+        text: string,
+        start: number,
+        tableEnd: number,
+        table: string,
+        tableRange: OffsetRange,
+        references: DaxReference[]
+    ): number {
+        if (text[tableEnd] !== '[') {
+            references.push({ table, range: { start, end: tableEnd }, tableRange });
+            return tableEnd;
+        }
+
+        const end = DaxReferenceParser.skipDelimited(text, tableEnd, ']');
+        references.push({
+            table,
+            name: text.slice(tableEnd + 1, end - 1).replace(/]]/g, ']'),
+            range: { start, end },
+            tableRange,
+            nameRange: { start: tableEnd + 1, end: end - 1 }
+        });
+        return end;
+    }
+
+    /**
+     * Skips a delimited token where a doubled closing delimiter is an escape.
+     * @param text - The DAX text.
+     * @param start - Offset of the opening delimiter.
+     * @param close - The closing delimiter.
+     * @returns The offset after the closing delimiter, or the text length if unterminated.
+     */
+    private static skipDelimited(text: string, start: number, close: string): number {
+        let i = start + 1;
+        while (i < text.length) {
+            if (text[i] === close) {
+                if (text[i + 1] === close) {
+                    i += 2;
+                    continue;
+                }
+                return i + 1;
+            }
+            i++;
+        }
+        return text.length;
+    }
+
+    private static isIdentifierStart(ch: string | undefined): boolean {
+        return ch !== undefined && /[A-Za-z_]/.test(ch);
+    }
+
+    private static isIdentifierPart(ch: string | undefined): boolean {
+        return ch !== undefined && /[A-Za-z0-9_.]/.test(ch);
+    }
+}
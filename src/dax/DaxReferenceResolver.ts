@@ -0,0 +1,91 @@
+import { ColumnNode, MeasureNode, ModelStructure, TableNode } from '../views/explorer/ModelTreeItem';
+import { DaxReference } from './DaxReferenceParser';
+
+/**
+ * The model object a DAX reference points to.
+ */
+export type ResolvedObject =
+    | { kind: 'table'; table: TableNode }
+    | { kind: 'column'; table: TableNode; column: ColumnNode }
+    | { kind: 'measure'; table: TableNode; measure: MeasureNode };
+
+/**
+ * Utility class for resolving DAX references to objects in a loaded model.
+ * Names are matched case-insensitively, as the engine does.
+ */
+export class DaxReferenceResolver {
+    /**
+     * Resolves a reference to a table, column or measure.
+     * Unqualified `[Name]` resolves to a measure anywhere in the model first, then to a
+     * column of the owning table (row context in calculated columns).
+     * @param reference - The parsed reference.
+     * @param model - The model structure.
+     * @param owner - The table whose expression contains the reference, if known.
+     * @returns The resolved object, or undefined if the reference does not resolve.
+     */
+    static resolve(reference: DaxReference, model: ModelStructure, owner?: TableNode): ResolvedObject | undefined {
+        if (reference.table !== undefined) {
+            const table = DaxReferenceResolver.findTable(model, reference.table);
+            if (!table) {
+                return undefined;
+            }
+            if (reference.name === undefined) {
+                return { kind: 'table', table };
+            }
+
+            const column = table.columns.find(c => same(c.name, reference.name!));
+            if (column) {
+                return { kind: 'column', table, column };
+            }
+            const measure = table.measures.find(m => same(m.name, reference.name!));
+            return measure ? { kind: 'measure', table, measure } : undefined;
+        }
+
+        const name = reference.name ?? '';
+        for (const table of model.tables) {
+            const measure = table.measures.find(m => same(m.name, name));
+            if (measure) {
+                return { kind: 'measure', table, measure };
+            }
+        }
+
+        const column = owner?.columns.find(c => same(c.name, name));
+        return owner && column ? { kind: 'column', table: owner, column } : undefined;
+    }
+
+    /**
+     * Finds a table by name.
+     * @param model - The model structure.
+     * @param name - The table name.
+     * @returns The table, or undefined if the model has no such table.
+     */
+    static findTable(model: ModelStructure, name: string): TableNode | undefined {
+        return model.tables.find(t => same(t.name, name));
+    }
+
+    /**
+     * Checks whether a reference points to an object. A table is also referenced by the table part
+     * of `'Sales'[Amount]`.
+     * @param reference - The parsed reference.
+     * @param target - The object.
+     * @param model - The model structure.
+     * @param owner - The table whose expression contains the reference, if known.
+     * @returns True if the reference names the object.
+     */
+    static refersTo(reference: DaxReference, target: ResolvedObject, model: ModelStructure, owner?: TableNode): boolean {
+        if (target.kind === 'table') {
+            return reference.table !== undefined && DaxReferenceResolver.findTable(model, reference.table) === target.table;
+        }
+
+        const resolved = DaxReferenceResolver.resolve(reference, model, owner);
+        switch (resolved?.kind) {
+            case 'column': return target.kind === 'column' && resolved.column === target.column;
+            case 'measure': return target.kind === 'measure' && resolved.measure === target.measure;
+            default: return false;
+        }
+    }
+}
+
+function same(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,321 @@
+import { ModelStructure, TableNode } from '../views/explorer/ModelTreeItem';
+import { DaxReference, DaxReferenceParser } from './DaxReferenceParser';
+import { DaxReferenceResolver } from './DaxReferenceResolver';
+
+/**
+ * Kind of object represented by a dependency graph node.
+ * `missing` marks a reference that does not resolve to any model object.
+ */
+export type DependencyNodeKind = 'measure' | 'column' | 'table' | 'missing';
+
+/**
+ * A model object in the dependency graph.
+ */
+export interface DependencyNode {
+    id: string;
+    kind: DependencyNodeKind;
+    name: string;
+    table?: string;
+    /** Source file relative to the definition folder. */
+    file?: string;
+    lineNumber?: number;
+}
+
+/**
+ * A "uses" edge: `from` references `to` in its expression.
+ */
+export interface DependencyEdge {
+    from: string;
+    to: string;
+}
+
+/**
+ * A node in a traced subgraph, positioned by distance from the root.
+ * Negative levels are precedents, positive levels are dependents.
+ */
+export interface TracedNode extends DependencyNode {
+    level: number;
+    isBroken: boolean;
+    isCyclic: boolean;
+}
+
+/**
+ * The subgraph around a root object, limited to a number of levels each way.
+ */
+export interface DependencyTrace {
+    rootId: string;
+    depth: number;
+    nodes: TracedNode[];
+    edges: (DependencyEdge & { isCyclic: boolean })[];
+}
+
+/**
+ * Directed graph of references between measures, columns and tables in a model.
+ */
+export class DependencyGraph {
+    private nodes = new Map<string, DependencyNode>();
+    private precedents = new Map<string, Set<string>>();
+    private dependents = new Map<string, Set<string>>();
+    private cyclicNodes = new Set<string>();
+    private componentOf = new Map<string, number>();
+
+    private constructor() {}
+
+    /**
+     * Builds the dependency graph for a model from its measure and calculated column expressions.
+     * @param model - The model structure.
+     * @returns The dependency graph.
+     */
+    static build(model: ModelStructure): DependencyGraph {
+        const graph = new DependencyGraph();
+
+        for (const table of model.tables) {
+            graph.addNode({ id: DependencyGraph.tableId(table.name), kind: 'table', name: table.name, file: table.file, lineNumber: table.lineNumber });
+            for (const column of table.columns) {
+                graph.addNode({
+                    id: DependencyGraph.columnId(table.name, column.name),
+                    kind: 'column',
+                    name: column.name,
+                    table: table.name,
+                    file: table.file,
+                    lineNumber: column.lineNumber
+                });
+            }
+            for (const measure of table.measures) {
+                graph.addNode({
+                    id: DependencyGraph.measureId(table.name, measure.name),
+                    kind: 'measure',
+                    name: measure.name,
+                    table: table.name,
+                    file: table.file,
+                    lineNumber: measure.lineNumber
+                });
+            }
+        }
+
+        for (const table of model.tables) {
+            for (const measure of table.measures) {
+                graph.addReferences(DependencyGraph.measureId(table.name, measure.name), table, measure.expression, model);
+            }
+            for (const column of table.columns) {
+                graph.addReferences(DependencyGraph.columnId(table.name, column.name), table, column.expression, model);
+            }
+        }
+
+        graph.findCycles();
+        return graph;
+    }
+
+    /** @returns The node id for a table. */
+    static tableId(table: string): string {
+        return `table:${table}`;
+    }
+
+    /** @returns The node id for a column. */
+    static columnId(table: string, column: string): string {
+        return `column:${table}[${column}]`;
+    }
+
+    /** @returns The node id for a measure. */
+    static measureId(table: string, measure: string): string {
+        return `measure:${table}[${measure}]`;
+    }
+
+    /**
+     * Gets a node by id.
+     * @param id - The node id.
+     * @returns The node, or undefined if it is not in the graph.
+     */
+    getNode(id: string): DependencyNode | undefined {
+        return this.nodes.get(id);
+    }
+
+    /**
+     * Gets the ids of the objects that a node references directly.
+     * @param id - The node id.
+     * @returns The precedent node ids.
+     */
+    getPrecedents(id: string): string[] {
+        return [...(this.precedents.get(id) ?? [])];
+    }
+
+    /**
+     * Gets the ids of the objects that reference a node directly.
+     * @param id - The node id.
+     * @returns The dependent node ids.
+     */
+    getDependents(id: string): string[] {
+        return [...(this.dependents.get(id) ?? [])];
+    }
+
+    /**
+     * Checks whether a node is part of a circular dependency.
+     * @param id - The node id.
+     * @returns True if the node can reach itself.
+     */
+    isCyclic(id: string): boolean {
+        return this.cyclicNodes.has(id);
+    }
+
+    /**
+     * Traces precedents and dependents of a node up to a number of levels each way.
+     * @param rootId - The node to trace from.
+     * @param depth - Maximum number of levels to follow in each direction.
+     * @returns The traced subgraph.
+     */
+    trace(rootId: string, depth: number): DependencyTrace {
+        const levels = new Map<string, number>([[rootId, 0]]);
+        const edges = new Map<string, DependencyEdge>();
+
+        const walk = (direction: -1 | 1) => {
+            let frontier = [rootId];
+            for (let level = 1; level <= depth && frontier.length > 0; level++) {
+                const nextFrontier: string[] = [];
+                for (const id of frontier) {
+                    const neighbours = direction < 0 ? this.getPrecedents(id) : this.getDependents(id);
+                    for (const neighbour of neighbours) {
+                        const edge = direction < 0 ? { from: id, to: neighbour } : { from: neighbour, to: id };
+                        edges.set(`${edge.from}->${edge.to}`, edge);
+                        if (!levels.has(neighbour)) {
+                            levels.set(neighbour, level * direction);
+                            nextFrontier.push(neighbour);
+                        }
+                    }
+                }
+                frontier = nextFrontier;
+            }
+        };
+
+        walk(-1);
+        walk(1);
+
+        const nodes: TracedNode[] = [];
+        for (const [id, level] of levels) {
+            const node = this.nodes.get(id);
+            if (node) {
+                nodes.push({ ...node, level, isBroken: node.kind === 'missing', isCyclic: this.cyclicNodes.has(id) });
+            }
+        }
+
+        return {
+            rootId,
+            depth,
+            nodes,
+            edges: [...edges.values()].map(edge => ({ ...edge, isCyclic: this.isCyclicEdge(edge) }))
+        };
+    }
+
+    private addNode(node: DependencyNode): void {
+        this.nodes.set(node.id, node);
+    }
+
+    private addEdge(from: string, to: string): void {
+        if (!this.precedents.has(from)) {
+            this.precedents.set(from, new Set());
+        }
+        if (!this.dependents.has(to)) {
+            this.dependents.set(to, new Set());
+        }
+        this.precedents.get(from)!.add(to);
+        this.dependents.get(to)!.add(from);
+    }
+
+    /**
+     * Parses an expression and adds an edge for each reference it contains. Unquoted names such as
+     * `Sales` in `COUNTROWS(Sales)` are only linked when they name a table.
+     */
+    private addReferences(fromId: string, owner: TableNode, expression: string | undefined, model: ModelStructure): void {
+        if (!expression) {
+            return;
+        }
+
+        for (const reference of DaxReferenceParser.parse(expression, true)) {
+            const isBareName = reference.name === undefined && expression[reference.range.start] !== '\'';
+            if (isBareName && !DaxReferenceResolver.resolve(reference, model, owner)) {
+                continue;
+            }
+            this.addEdge(fromId, this.resolve(reference, owner, model));
+        }
+    }
+
+    /**
+     * Resolves a reference to a node id, adding a `missing` node when it does not resolve.
+     */
+    private resolve(reference: DaxReference, owner: TableNode, model: ModelStructure): string {
+        const target = DaxReferenceResolver.resolve(reference, model, owner);
+        switch (target?.kind) {
+            case 'table': return DependencyGraph.tableId(target.table.name);
+            case 'column': return DependencyGraph.columnId(target.table.name, target.column.name);
+            case 'measure': return DependencyGraph.measureId(target.table.name, target.measure.name);
+            default: return this.addMissing(reference.table, reference.name);
+        }
+    }
+
+    private addMissing(table: string | undefined, name: string | undefined): string {
+        const label = name === undefined ? `'${table}'` : table === undefined ? `[${name}]` : `'${table}'[${name}]`;
+        const id = `missing:${label}`;
+        if (!this.nodes.has(id)) {
+            this.addNode({ id, kind: 'missing', name: label, table });
+        }
+        return id;
+    }
+
+    private isCyclicEdge(edge: DependencyEdge): boolean {
+        if (edge.from === edge.to) {
+            return true;
+        }
+        const component = this.componentOf.get(edge.from);
+        return component !== undefined && component === this.componentOf.get(edge.to) && this.cyclicNodes.has(edge.from);
+    }
+
+    /**
+     * Marks nodes that are part of a cycle using Tarjan's strongly connected components.
+     */
+    private findCycles(): void {
+        let index = 0;
+        let componentCount = 0;
+        const indices = new Map<string, number>();
+        const lowLinks = new Map<string, number>();
+        const stack: string[] = [];
+        const onStack = new Set<string>();
+
+        const connect = (id: string) => {
+            indices.set(id, index);
+            lowLinks.set(id, index);
+            index++;
+            stack.push(id);
+            onStack.add(id);
+
+            for (const next of this.precedents.get(id) ?? []) {
+                if (!indices.has(next)) {
+                    connect(next);
+                    lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(next)!));
+                } else if (onStack.has(next)) {
+                    lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(next)!));
+                }
+            }
+
+            if (lowLinks.get(id) === indices.get(id)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                    this.componentOf.set(member, componentCount);
+                } while (member !== id);
+                componentCount++;
+
+                if (component.length > 1 || this.precedents.get(id)?.has(id)) {
+                    component.forEach(m => this.cyclicNodes.add(m));
+                }
+            }
+        };
+
+        for (const id of this.nodes.keys()) {
+            if (!indices.has(id)) {
+                connect(id);
+            }
+        }
+    }
+}
@@ -0,0 +1,263 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuthMode } from '../types/auth';
+import { DeploymentOverrides } from '../cli/TimdleClient';
+import { Config } from '../config';
+
+/**
+ * A deploy run, with what was deployed where and how it ended.
+ */
+export interface DeploymentRecord {
+    id: string;
+    /** ISO 8601 time the deploy started. */
+    timestamp: string;
+    projectRoot: string;
+    environmentName?: string;
+    workspaceUrl: string;
+    /** Semantic model name the deploy targeted; defaults to the name in .platform. */
+    semanticModelName?: string;
+    authMode: AuthMode;
+    /** The signed-in user or service principal client ID. */
+    identity?: string;
+    /** HEAD of the project's git repository, if it is in one. */
+    gitCommit?: string;
+    /** SHA-256 of the deployed model files, so identical snapshots can be recognised. */
+    modelHash: string;
+    outcome: 'success' | 'failure' | 'cancelled';
+    message: string;
+    /** Environment overrides sent with the deploy, so a redeploy sends the same values. */
+    overrides?: DeploymentOverrides;
+    /** The record whose snapshot was redeployed, for rollbacks. */
+    redeployOf?: string;
+}
+
+/**
+ * A file that differs between two deployment snapshots.
+ */
+export interface ChangedFile {
+    file: string;
+    change: 'added' | 'removed' | 'modified';
+}
+
+/**
+ * A copy of the project taken right before a deploy.
+ */
+export interface DeploymentSnapshot {
+    id: string;
+    /** Project root of the copy, which the CLI deploys from. */
+    folder: string;
+    modelHash: string;
+}
+
+/**
+ * Local store of deploy runs. Each deploy gets a folder in the extension's global storage with
+ * its record, its log and a snapshot of the deployed project that can be diffed or redeployed.
+ */
+export class DeploymentHistory implements vscode.Disposable {
+    private static readonly RECORD_FILE = 'record.json';
+    private static readonly LOG_FILE = 'deploy.log';
+    private static readonly SNAPSHOT_FOLDER = 'snapshot';
+    /** Project folders that are local caches, not part of the deployed model. */
+    private static readonly SKIPPED_FOLDERS = ['.pbi', '.tmdlstudio'];
+
+    private readonly folder: string;
+    private records: DeploymentRecord[] | undefined;
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    /** Fires when a record is added or removed. */
+    readonly onDidChange = this._onDidChange.event;
+
+    /**
+     * @param storageFolder - The folder the history is kept in, e.g. the extension's global storage.
+     */
+    constructor(storageFolder: string) {
+        this.folder = path.join(storageFolder, 'deployments');
+    }
+
+    /**
+     * Gets the recorded deploys.
+     * @returns The records, newest first.
+     */
+    list(): DeploymentRecord[] {
+        if (!this.records) {
+            this.records = this.readRecords();
+        }
+        return this.records;
+    }
+
+    /**
+     * Gets a recorded deploy.
+     * @param id - The record ID.
+     * @returns The record, or undefined if it is not in the history.
+     */
+    get(id: string): DeploymentRecord | undefined {
+        return this.list().find(r => r.id === id);
+    }
+
+    /**
+     * Copies a project to a new history folder before it is deployed.
+     * Only the files the deploy reads are copied.
+     * @param projectRoot - The project root to copy; may itself be a snapshot when redeploying.
+     * @returns The snapshot.
+     */
+    async createSnapshot(projectRoot: string): Promise<DeploymentSnapshot> {
+        const id = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(3).toString('hex')}`;
+        const folder = path.join(this.folder, id, DeploymentHistory.SNAPSHOT_FOLDER, path.basename(projectRoot));
+
+        await fs.promises.cp(projectRoot, folder, {
+            recursive: true,
+            filter: source => path.dirname(source) !== projectRoot ||
+                !DeploymentHistory.SKIPPED_FOLDERS.includes(path.basename(source))
+        });
+
+        return { id, folder, modelHash: await hashFolder(folder) };
+    }
+
+    /**
+     * Adds a deploy to the history and drops the oldest records beyond the configured limit.
+     * @param record - The record; its ID is the snapshot's.
+     * @param log - The deploy's log lines.
+     */
+    async add(record: DeploymentRecord, log: string[]): Promise<void> {
+        const recordFolder = path.join(this.folder, record.id);
+        await fs.promises.mkdir(recordFolder, { recursive: true });
+        await fs.promises.writeFile(path.join(recordFolder, DeploymentHistory.RECORD_FILE), JSON.stringify(record, null, 2), 'utf8');
+        await fs.promises.writeFile(path.join(recordFolder, DeploymentHistory.LOG_FILE), log.join('\n') + '\n', 'utf8');
+
+        this.records = [record, ...this.list().filter(r => r.id !== record.id)];
+
+        const limit = Config.getValue<number>('deployments.maxHistory') ?? 50;
+        for (const old of this.records.splice(Math.max(limit, 1))) {
+            await fs.promises.rm(path.join(this.folder, old.id), { recursive: true, force: true });
+        }
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Removes a deploy and its snapshot from the history.
+     * @param id - The record ID.
+     */
+    async remove(id: string): Promise<void> {
+        await fs.promises.rm(path.join(this.folder, id), { recursive: true, force: true });
+        this.records = this.list().filter(r => r.id !== id);
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Gets the log file of a deploy.
+     * @param record - The record.
+     * @returns The log file path.
+     */
+    getLogFile(record: DeploymentRecord): string {
+        return path.join(this.folder, record.id, DeploymentHistory.LOG_FILE);
+    }
+
+    /**
+     * Gets the project snapshot of a deploy.
+     * @param record - The record.
+     * @returns The snapshot's project root, or undefined if it was not kept.
+     */
+    getSnapshotFolder(record: DeploymentRecord): string | undefined {
+        const folder = path.join(this.folder, record.id, DeploymentHistory.SNAPSHOT_FOLDER, path.basename(record.projectRoot));
+        return fs.existsSync(folder) ? folder : undefined;
+    }
+
+    /**
+     * Gets the git commit a project is checked out at.
+     * @param projectRoot - The project root.
+     * @returns The commit hash, or undefined if the project is not in a git repository.
+     */
+    static getGitCommit(projectRoot: string): Promise<string | undefined> {
+        return new Promise(resolve => {
+            cp.execFile('git', ['rev-parse', 'HEAD'], { cwd: projectRoot }, (error, stdout) =>
+                resolve(error ? undefined : stdout.trim() || undefined)
+            );
+        });
+    }
+
+    /**
+     * Disposes the change event.
+     */
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+
+    /**
+     * Reads the records from the history folder, skipping folders of deploys that never finished.
+     * @returns The records, newest first.
+     */
+    private readRecords(): DeploymentRecord[] {
+        if (!fs.existsSync(this.folder)) {
+            return [];
+        }
+
+        const records: DeploymentRecord[] = [];
+        for (const entry of fs.readdirSync(this.folder)) {
+            const recordFile = path.join(this.folder, entry, DeploymentHistory.RECORD_FILE);
+            try {
+                records.push(JSON.parse(fs.readFileSync(recordFile, 'utf8')));
+            } catch {
+                // No record: the window closed during the deploy
+            }
+        }
+        return records.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    }
+}
+
+/**
+ * Lists the files below a folder.
+ * @param folder - The folder.
+ * @returns The file paths relative to the folder, with forward slashes, sorted.
+ */
+export async function listFiles(folder: string): Promise<string[]> {
+    const entries = await fs.promises.readdir(folder, { recursive: true, withFileTypes: true });
+    return entries
+        .filter(entry => entry.isFile())
+        .map(entry => path.relative(folder, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+        .sort();
+}
+
+/**
+ * Finds the files that differ between two snapshots.
+ * @param beforeFolder - The older snapshot.
+ * @param afterFolder - The newer snapshot.
+ * @returns The changed files, sorted by path.
+ */
+export async function findChanges(beforeFolder: string, afterFolder: string): Promise<ChangedFile[]> {
+    const before = new Set(await listFiles(beforeFolder));
+    const after = new Set(await listFiles(afterFolder));
+    const changes: ChangedFile[] = [];
+
+    for (const file of [...new Set([...before, ...after])].sort()) {
+        if (!before.has(file)) {
+            changes.push({ file, change: 'added' });
+        } else if (!after.has(file)) {
+            changes.push({ file, change: 'removed' });
+        } else {
+            const [left, right] = await Promise.all([
+                fs.promises.readFile(path.join(beforeFolder, file)),
+                fs.promises.readFile(path.join(afterFolder, file))
+            ]);
+            if (!left.equals(right)) {
+                changes.push({ file, change: 'modified' });
+            }
+        }
+    }
+    return changes;
+}
+
+/**
+ * Hashes the paths and contents of the files below a folder.
+ * @param folder - The folder.
+ * @returns The SHA-256 hash as hex.
+ */
+async function hashFolder(folder: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    for (const file of await listFiles(folder)) {
+        hash.update(file).update('\0').update(await fs.promises.readFile(path.join(folder, file))).update('\0');
+    }
+    return hash.digest('hex');
+}
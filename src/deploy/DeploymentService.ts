@@ -0,0 +1,152 @@
+import { TimdleClient, DeployResult, DeploymentOverrides, DeployOptions, DeployProgress } from '../cli/TimdleClient';
+import { RequestCancelledError } from '../cli/TimdleServer';
+import { AuthConfig, AuthMode, AUTH_ENV_VARS, ServicePrincipalCredentials } from '../types/auth';
+
+/**
+ * How a deploy ended, as reported to the user or printed by the headless CLI.
+ */
+export interface DeployOutcome {
+    outcome: 'success' | 'failure' | 'cancelled';
+    message: string;
+    /** The CLI's result; missing when the deploy was cancelled or the CLI failed. */
+    result?: DeployResult;
+    /** The last stage update the deploy reported, if any. */
+    lastProgress?: DeployProgress;
+}
+
+/**
+ * Deploy orchestration shared by the Deploy command and the headless `tmdl-studio` CLI:
+ * environment variable credentials, building the CLI auth config, running the deploy and
+ * turning its result into an outcome. Has no UI; callers prompt, confirm and report.
+ */
+export class DeploymentService {
+    /**
+     * Creates a new DeploymentService instance.
+     * @param cliClient - The TMDL CLI client that runs the deploy.
+     * @param log - Receives the lines of the deploy log.
+     */
+    constructor(
+        private cliClient: TimdleClient,
+        private log: (line: string) => void
+    ) {}
+
+    /**
+     * Deploys a project folder.
+     * @param sourceFolder - The project folder to deploy.
+     * @param authConfig - The auth config, including the workspace URL.
+     * @param overrides - Environment-specific parameter and expression values.
+     * @param options - Whether to refresh after deploying; receives stage updates; cancelling stops the deploy.
+     * @returns The outcome. Failures and cancellation are outcomes, not errors.
+     */
+    async deploy(
+        sourceFolder: string,
+        authConfig: AuthConfig,
+        overrides?: DeploymentOverrides,
+        options: DeployOptions = {}
+    ): Promise<DeployOutcome> {
+        let lastProgress: DeployProgress | undefined;
+        const onProgress = (update: DeployProgress) => {
+            // Fabric operation polls repeat the same stage; log each status once
+            if (update.message !== lastProgress?.message) {
+                this.log(update.message);
+            }
+            lastProgress = update;
+            options.onProgress?.(update);
+        };
+
+        try {
+            const result = await this.cliClient.deploy(sourceFolder, authConfig, overrides, { refresh: options.refresh, token: options.token, onProgress });
+            this.log(`\n${result.isSuccess ? '✓' : '✗'} ${result.message}`);
+            return { outcome: result.isSuccess ? 'success' : 'failure', message: result.message, result, lastProgress };
+        } catch (error) {
+            if (error instanceof RequestCancelledError) {
+                const message = DeploymentService.describeCancelledDeploy(lastProgress);
+                this.log(`\n⊘ ${message}`);
+                return { outcome: 'cancelled', message, lastProgress };
+            }
+            this.log(`Error during deployment: ${error}`);
+            return { outcome: 'failure', message: `Deployment failed: ${error}`, lastProgress };
+        }
+    }
+
+    /**
+     * Builds the auth config the CLI deploys with.
+     * @param mode - The authentication mode.
+     * @param workspaceUrl - The workspace URL; may be empty until the target is known.
+     * @param secrets - The access token for interactive mode, the credentials for service principal modes.
+     * @param modelName - The semantic model name to deploy as, if not the one in .platform.
+     * @returns The auth config.
+     */
+    static createAuthConfig(
+        mode: AuthMode,
+        workspaceUrl: string,
+        secrets: { accessToken?: string; credentials?: ServicePrincipalCredentials | null },
+        modelName?: string
+    ): AuthConfig {
+        const authConfig: AuthConfig = { mode, workspaceUrl, modelName };
+
+        if (mode === 'interactive') {
+            authConfig.accessToken = secrets.accessToken;
+        } else if (secrets.credentials) {
+            authConfig.clientId = secrets.credentials.clientId;
+            authConfig.clientSecret = secrets.credentials.clientSecret;
+            authConfig.tenantId = secrets.credentials.tenantId;
+        }
+        return authConfig;
+    }
+
+    /**
+     * Loads service principal credentials from environment variables.
+     * @returns The credentials if all env vars are set, null otherwise.
+     */
+    static loadEnvCredentials(): ServicePrincipalCredentials | null {
+        const clientId = process.env[AUTH_ENV_VARS.clientId];
+        const clientSecret = process.env[AUTH_ENV_VARS.clientSecret];
+        const tenantId = process.env[AUTH_ENV_VARS.tenantId];
+
+        if (clientId && clientSecret && tenantId) {
+            return { clientId, clientSecret, tenantId };
+        }
+
+        return null;
+    }
+
+    /**
+     * Gets the workspace URL from environment variable.
+     * @returns The workspace URL if set, null otherwise.
+     */
+    static getEnvWorkspaceUrl(): string | null {
+        return process.env[AUTH_ENV_VARS.workspaceUrl] || null;
+    }
+
+    /**
+     * Describes the environment variables env mode needs.
+     * @returns The error message shown when they are missing.
+     */
+    static getMissingEnvCredentialsMessage(): string {
+        return `Environment variables not found. Required: ${AUTH_ENV_VARS.workspaceUrl}, ` +
+            `${AUTH_ENV_VARS.clientId}, ${AUTH_ENV_VARS.clientSecret}, ${AUTH_ENV_VARS.tenantId}`;
+    }
+
+    /**
+     * Describes the state a cancelled deploy left the workspace in, from the last stage it reached.
+     * @param lastProgress - The last stage update received before cancelling, if any.
+     * @returns The message to show and record.
+     */
+    static describeCancelledDeploy(lastProgress: DeployProgress | undefined): string {
+        switch (lastProgress?.stage) {
+            case undefined:
+            case 'authenticating':
+            case 'resolvingWorkspace':
+                return 'Deployment cancelled before anything was sent; the workspace was not changed.';
+            case 'renamingItem':
+                return 'Deployment cancelled while renaming the semantic model; it may have been renamed, but its definition was not changed.';
+            case 'uploadingDefinition':
+                return 'Deployment cancelled while uploading the model definition; the semantic model may have been created or updated. Check the workspace before deploying again.';
+            case 'waitingForOperation':
+                return `Deployment cancelled while Fabric was applying the definition; the update keeps running in the workspace and may still complete (operation ${lastProgress.operationId}).`;
+            case 'refreshing':
+                return 'Deployment cancelled while refreshing the semantic model; the definition was deployed, and the refresh keeps running in the workspace.';
+        }
+    }
+}
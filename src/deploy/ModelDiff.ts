@@ -0,0 +1,282 @@
+import { ModelStructure, TableNode } from '../views/explorer/ModelTreeItem';
+
+/**
+ * How an object changes when the local model is deployed.
+ * `none` marks a table that is unchanged itself but has changed columns, measures or partitions.
+ */
+export type ChangeKind = 'add' | 'update' | 'remove' | 'none';
+
+export type DiffObjectType = 'table' | 'column' | 'measure' | 'partition' | 'relationship' | 'expression' | 'culture';
+
+/**
+ * A property whose value differs between the deployed and local model.
+ */
+export interface PropertyChange {
+    property: string;
+    before?: string;
+    after?: string;
+}
+
+/**
+ * A change to one model object, with nested changes for the columns, measures and partitions of a table.
+ */
+export interface ObjectChange {
+    kind: ChangeKind;
+    objectType: DiffObjectType;
+    name: string;
+    table?: string;
+    properties: PropertyChange[];
+    /** True if deploying removes the object and any data it holds. */
+    isDestructive: boolean;
+    /** Local source file relative to the definition folder; unset for removed objects. */
+    file?: string;
+    lineNumber?: number;
+    children: ObjectChange[];
+}
+
+/**
+ * Differences between the deployed model and the local model.
+ */
+export interface ModelDiffResult {
+    changes: ObjectChange[];
+    /** One line summary, e.g. "Add 2 measures, update 1 table, remove 1 relationship". */
+    summary: string;
+    changeCount: number;
+    destructiveCount: number;
+}
+
+/**
+ * Named object with the properties compared for it.
+ */
+interface Comparable {
+    name: string;
+    file?: string;
+    lineNumber?: number;
+    values: Record<string, string | undefined>;
+}
+
+const KIND_ORDER: ChangeKind[] = ['add', 'update', 'remove'];
+const TYPE_ORDER: DiffObjectType[] = ['table', 'column', 'measure', 'partition', 'relationship', 'expression', 'culture'];
+
+/**
+ * Compares a local model with the deployed one to preview what a deploy changes.
+ */
+export class ModelDiff {
+    /**
+     * Compares two models.
+     * @param deployed - The model currently in the workspace, or undefined if deploy creates a new one.
+     * @param local - The local model.
+     * @returns The changes from deployed to local.
+     */
+    static compare(deployed: ModelStructure | undefined, local: ModelStructure): ModelDiffResult {
+        const before = deployed ?? { tables: [], relationships: [], expressions: [], cultures: [] };
+        const changes: ObjectChange[] = [
+            ...ModelDiff.compareTables(before.tables, local.tables),
+            ...ModelDiff.compareList('relationship', undefined,
+                before.relationships.map(r => ({
+                    name: r.name,
+                    values: {
+                        from: `'${r.fromTable}'[${r.fromColumn}]`,
+                        to: `'${r.toTable}'[${r.toColumn}]`,
+                        isActive: String(r.isActive !== false)
+                    }
+                })),
+                local.relationships.map(r => ({
+                    name: r.name,
+                    file: r.file,
+                    lineNumber: r.lineNumber,
+                    values: {
+                        from: `'${r.fromTable}'[${r.fromColumn}]`,
+                        to: `'${r.toTable}'[${r.toColumn}]`,
+                        isActive: String(r.isActive !== false)
+                    }
+                }))),
+            ...ModelDiff.compareList('expression', undefined,
+                before.expressions.map(e => ({ name: e.name, values: { kind: e.kind, expression: normalize(e.expression) } })),
+                local.expressions.map(e => ({
+                    name: e.name,
+                    file: e.file,
+                    lineNumber: e.lineNumber,
+                    values: { kind: e.kind, expression: normalize(e.expression) }
+                }))),
+            ...ModelDiff.compareList('culture', undefined,
+                before.cultures.map(c => ({ name: c.name, values: {} })),
+                local.cultures.map(c => ({ name: c.name, file: c.file, lineNumber: c.lineNumber, values: {} })))
+        ];
+
+        const flat = changes.flatMap(c => [c, ...c.children]).filter(c => c.kind !== 'none');
+        return {
+            changes,
+            summary: ModelDiff.summarize(flat),
+            changeCount: flat.length,
+            destructiveCount: flat.filter(c => c.isDestructive).length
+        };
+    }
+
+    private static compareTables(before: TableNode[], after: TableNode[]): ObjectChange[] {
+        const changes: ObjectChange[] = [];
+        const beforeByName = new Map(before.map(t => [t.name.toLowerCase(), t]));
+
+        for (const table of after) {
+            const old = beforeByName.get(table.name.toLowerCase());
+            beforeByName.delete(table.name.toLowerCase());
+
+            const tableValues = (t: TableNode) => ({ description: t.description, isHidden: String(!!t.isHidden) });
+            const properties = old ? diffValues(tableValues(old), tableValues(table)) : [];
+            const children = old ? ModelDiff.compareTableChildren(old, table) : [];
+
+            if (old && properties.length === 0 && children.length === 0) {
+                continue;
+            }
+
+            changes.push({
+                kind: !old ? 'add' : properties.length > 0 ? 'update' : 'none',
+                objectType: 'table',
+                name: table.name,
+                properties: old ? properties : [{ property: 'contents', after: describeContents(table) }],
+                isDestructive: false,
+                file: table.file,
+                lineNumber: table.lineNumber,
+                children
+            });
+        }
+
+        for (const table of beforeByName.values()) {
+            changes.push({
+                kind: 'remove',
+                objectType: 'table',
+                name: table.name,
+                properties: [{ property: 'contents', before: describeContents(table) }],
+                isDestructive: true,
+                children: []
+            });
+        }
+
+        return changes;
+    }
+
+    private static compareTableChildren(before: TableNode, after: TableNode): ObjectChange[] {
+        return [
+            ...ModelDiff.compareList('column', after.name,
+                before.columns.map(c => ({ name: c.name, values: columnValues(c) })),
+                after.columns.map(c => ({ name: c.name, file: after.file, lineNumber: c.lineNumber, values: columnValues(c) }))),
+            ...ModelDiff.compareList('measure', after.name,
+                before.measures.map(m => ({ name: m.name, values: measureValues(m) })),
+                after.measures.map(m => ({ name: m.name, file: after.file, lineNumber: m.lineNumber, values: measureValues(m) }))),
+            ...ModelDiff.compareList('partition', after.name,
+                before.partitions.map(p => ({ name: p.name, values: { mode: p.mode } })),
+                after.partitions.map(p => ({ name: p.name, file: after.file, lineNumber: p.lineNumber, values: { mode: p.mode } })))
+        ];
+    }
+
+    /**
+     * Matches objects by case-insensitive name and reports additions, updates and removals.
+     */
+    private static compareList(
+        objectType: DiffObjectType,
+        table: string | undefined,
+        before: Comparable[],
+        after: Comparable[]
+    ): ObjectChange[] {
+        const changes: ObjectChange[] = [];
+        const beforeByName = new Map(before.map(o => [o.name.toLowerCase(), o]));
+
+        for (const item of after) {
+            const old = beforeByName.get(item.name.toLowerCase());
+            beforeByName.delete(item.name.toLowerCase());
+
+            const properties = old ? diffValues(old.values, item.values) : [];
+            if (old && properties.length === 0) {
+                continue;
+            }
+
+            changes.push({
+                kind: old ? 'update' : 'add',
+                objectType,
+                name: item.name,
+                table,
+                properties,
+                isDestructive: false,
+                file: item.file,
+                lineNumber: item.lineNumber,
+                children: []
+            });
+        }
+
+        for (const item of beforeByName.values()) {
+            changes.push({ kind: 'remove', objectType, name: item.name, table, properties: [], isDestructive: true, children: [] });
+        }
+
+        return changes;
+    }
+
+    /**
+     * Builds the one line summary, grouped by change kind then object type.
+     */
+    private static summarize(changes: ObjectChange[]): string {
+        const parts: string[] = [];
+
+        for (const kind of KIND_ORDER) {
+            for (const type of TYPE_ORDER) {
+                const count = changes.filter(c => c.kind === kind && c.objectType === type).length;
+                if (count > 0) {
+                    parts.push(`${kind} ${count} ${type}${count === 1 ? '' : 's'}`);
+                }
+            }
+        }
+
+        if (parts.length === 0) {
+            return 'No changes';
+        }
+
+        const summary = parts.join(', ');
+        return summary.charAt(0).toUpperCase() + summary.slice(1);
+    }
+}
+
+function columnValues(column: TableNode['columns'][number]): Record<string, string | undefined> {
+    return {
+        dataType: column.dataType,
+        type: column.type,
+        expression: normalize(column.expression),
+        isHidden: String(!!column.isHidden),
+        description: column.description,
+        displayFolder: column.displayFolder
+    };
+}
+
+function measureValues(measure: TableNode['measures'][number]): Record<string, string | undefined> {
+    return {
+        expression: normalize(measure.expression),
+        formatString: measure.formatString,
+        isHidden: String(!!measure.isHidden),
+        description: measure.description,
+        displayFolder: measure.displayFolder
+    };
+}
+
+/**
+ * Lists properties whose values differ. Empty strings and undefined are treated as equal.
+ */
+function diffValues(before: Record<string, string | undefined>, after: Record<string, string | undefined>): PropertyChange[] {
+    const changes: PropertyChange[] = [];
+    for (const property of Object.keys(after)) {
+        const oldValue = before[property] || undefined;
+        const newValue = after[property] || undefined;
+        if (oldValue !== newValue) {
+            changes.push({ property, before: oldValue, after: newValue });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Normalizes line endings and surrounding whitespace so formatting-only round trips don't show as changes.
+ */
+function normalize(expression: string | undefined): string | undefined {
+    return expression?.replace(/\r\n/g, '\n').trim();
+}
+
+function describeContents(table: TableNode): string {
+    return `${table.columns.length} columns, ${table.measures.length} measures, ${table.partitions.length} partitions`;
+}
@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModelStructure } from '../views/explorer/ModelTreeItem';
+import { BpaAnalyzer, BpaFinding } from '../bpa/BpaAnalyzer';
+import { BpaRuleLoader, BpaRuleLoadResult, BpaSeverity } from '../bpa/BpaRule';
+import { Config } from '../config';
+import { ProjectRootDetector } from '../utils/ProjectRootDetector';
+
+/**
+ * Name of the rule file looked up in the `.tmdlstudio` folder of the project root or a workspace folder.
+ */
+const RULES_FILE_NAME = 'bpa-rules.json';
+
+/**
+ * Runs Best Practice Analyzer rules against the loaded model and publishes findings to the Problems pane.
+ */
+export class BpaDiagnostics implements vscode.Disposable {
+    private collection: vscode.DiagnosticCollection;
+    private outputChannel: vscode.OutputChannel;
+
+    /**
+     * Creates a new BpaDiagnostics instance.
+     */
+    constructor() {
+        this.collection = vscode.languages.createDiagnosticCollection('tmdl-bpa');
+        this.outputChannel = vscode.window.createOutputChannel('TMDL BPA');
+    }
+
+    /**
+     * Runs the rules against a model and replaces the findings previously published for it.
+     * @param model - The loaded model.
+     * @param projectRoot - The model's project root, searched for a rule file.
+     * @param definitionFolder - The folder the model's file paths are relative to.
+     * @returns The findings.
+     */
+    refresh(model: ModelStructure, projectRoot: string, definitionFolder: string): BpaFinding[] {
+        const rules = this.loadRules(projectRoot);
+        const result = BpaAnalyzer.analyze(model, rules.rules);
+
+        result.errors.forEach(error => this.outputChannel.appendLine(error));
+        this.publish(definitionFolder, result.findings);
+        return result.findings;
+    }
+
+    /**
+     * Removes BPA findings.
+     * @param folder - The model folder whose files are cleared; every model when omitted.
+     */
+    clear(folder?: string): void {
+        if (!folder) {
+            this.collection.clear();
+            return;
+        }
+
+        const stale: vscode.Uri[] = [];
+        this.collection.forEach(uri => {
+            if (!path.relative(folder, uri.fsPath).startsWith('..')) {
+                stale.push(uri);
+            }
+        });
+        stale.forEach(uri => this.collection.delete(uri));
+    }
+
+    /**
+     * Shows the BPA output channel.
+     */
+    showOutput(): void {
+        this.outputChannel.show();
+    }
+
+    /**
+     * Disposes the diagnostic collection and output channel.
+     */
+    dispose(): void {
+        this.collection.dispose();
+        this.outputChannel.dispose();
+    }
+
+    /**
+     * Checks whether a file is a BPA rule file, so saving it can re-run the analysis.
+     * @param filePath - The file path.
+     * @returns True if the file is the configured or default rule file.
+     */
+    static isRulesFile(filePath: string): boolean {
+        const configured = Config.getValue<string>('bpa.rulesFile');
+        if (configured) {
+            return path.normalize(filePath).endsWith(path.normalize(configured));
+        }
+        return filePath.endsWith(path.join(ProjectRootDetector.SETTINGS_FOLDER, RULES_FILE_NAME));
+    }
+
+    /**
+     * Loads rules from the configured rule file, the first `.tmdlstudio/bpa-rules.json`
+     * found in the project root or a workspace folder, or the built-in defaults.
+     * @param projectRoot - The model's project root.
+     * @returns The loaded rules.
+     */
+    private loadRules(projectRoot: string): BpaRuleLoadResult {
+        const rulesFile = this.findRulesFile(projectRoot);
+        if (!rulesFile) {
+            return BpaRuleLoader.loadDefaults();
+        }
+
+        this.outputChannel.appendLine(`Loading rules from ${rulesFile}`);
+        try {
+            const result = BpaRuleLoader.loadFile(rulesFile);
+            result.errors.forEach(error => this.outputChannel.appendLine(error));
+            this.outputChannel.appendLine(`Loaded ${result.rules.length} rule(s).`);
+            return result;
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to load rules: ${error}`);
+            vscode.window.showWarningMessage(`Failed to load BPA rules from ${rulesFile}. See the TMDL BPA output for details.`);
+            return { rules: [], errors: [] };
+        }
+    }
+
+    /**
+     * Finds the rule file to use.
+     * @param projectRoot - The model's project root.
+     * @returns The rule file path, or undefined to use the built-in rules.
+     */
+    private findRulesFile(projectRoot: string): string | undefined {
+        const workspaceFolders = vscode.workspace.workspaceFolders?.map(f => f.uri.fsPath) ?? [];
+        const configured = Config.getValue<string>('bpa.rulesFile');
+
+        if (configured) {
+            if (path.isAbsolute(configured)) {
+                return configured;
+            }
+            const bases = workspaceFolders.length > 0 ? workspaceFolders : [projectRoot];
+            return bases.map(base => path.join(base, configured)).find(p => fs.existsSync(p)) ??
+                path.join(bases[0], configured);
+        }
+
+        return ProjectRootDetector.findSettingsFile(projectRoot, RULES_FILE_NAME, workspaceFolders) ?? undefined;
+    }
+
+    /**
+     * Groups findings by file and publishes them.
+     * @param definitionFolder - The folder finding files are relative to.
+     * @param findings - The BPA findings.
+     */
+    private publish(definitionFolder: string, findings: BpaFinding[]): void {
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+
+        for (const finding of findings) {
+            const fullPath = path.join(definitionFolder, finding.file);
+            const entries = byFile.get(fullPath) ?? [];
+            entries.push(toVsCodeDiagnostic(finding));
+            byFile.set(fullPath, entries);
+        }
+
+        this.clear(definitionFolder);
+        for (const [fullPath, entries] of byFile) {
+            this.collection.set(vscode.Uri.file(fullPath), entries);
+        }
+    }
+}
+
+/**
+ * Converts a BPA finding into a VS Code diagnostic on the object's declaration line.
+ * @param finding - The BPA finding.
+ * @returns The VS Code diagnostic.
+ */
+function toVsCodeDiagnostic(finding: BpaFinding): vscode.Diagnostic {
+    const line = Math.max((finding.lineNumber ?? 1) - 1, 0);
+    const range = new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+
+    const message = `${finding.rule.name}: ${finding.objectName}` +
+        (finding.rule.description ? `\n${finding.rule.description}` : '');
+    const result = new vscode.Diagnostic(range, message, getSeverity(finding.rule.severity));
+    result.source = 'TMDL BPA';
+    result.code = finding.rule.id;
+    return result;
+}
+
+/**
+ * Maps a rule severity to a VS Code severity.
+ * @param severity - The rule severity.
+ * @returns The VS Code diagnostic severity.
+ */
+function getSeverity(severity: BpaSeverity): vscode.DiagnosticSeverity {
+    switch (severity) {
+        case 'error': return vscode.DiagnosticSeverity.Error;
+        case 'warning': return vscode.DiagnosticSeverity.Warning;
+        default: return vscode.DiagnosticSeverity.Information;
+    }
+}
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TimdleClient, ValidationDiagnostic, ValidationResult } from '../cli/TimdleClient';
+
+/**
+ * Publishes timdle validation results to the Problems pane.
+ */
+export class ValidationDiagnostics implements vscode.Disposable {
+    private collection: vscode.DiagnosticCollection;
+
+    /**
+     * Creates a new ValidationDiagnostics instance.
+     * @param cliClient - The shared TMDL CLI client.
+     */
+    constructor(private cliClient: TimdleClient) {
+        this.collection = vscode.languages.createDiagnosticCollection('tmdl-validation');
+    }
+
+    /**
+     * Validates the model and replaces the diagnostics previously published for it.
+     * @param tmdlPath - The TMDL folder that was validated; diagnostic files are relative to it.
+     * @returns The validation result.
+     */
+    async refresh(tmdlPath: string): Promise<ValidationResult> {
+        const result = await this.cliClient.validate(tmdlPath);
+        this.publish(tmdlPath, result.diagnostics ?? []);
+        return result;
+    }
+
+    /**
+     * Removes validation diagnostics.
+     * @param folder - The model folder whose files are cleared; every model when omitted.
+     */
+    clear(folder?: string): void {
+        if (!folder) {
+            this.collection.clear();
+            return;
+        }
+
+        const stale: vscode.Uri[] = [];
+        this.collection.forEach(uri => {
+            if (!path.relative(folder, uri.fsPath).startsWith('..')) {
+                stale.push(uri);
+            }
+        });
+        stale.forEach(uri => this.collection.delete(uri));
+    }
+
+    /**
+     * Disposes the underlying diagnostic collection.
+     */
+    dispose(): void {
+        this.collection.dispose();
+    }
+
+    /**
+     * Groups diagnostics by file and publishes them.
+     * @param tmdlPath - The TMDL folder the diagnostic files are relative to.
+     * @param diagnostics - The diagnostics reported by the CLI.
+     */
+    private publish(tmdlPath: string, diagnostics: ValidationDiagnostic[]): void {
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+
+        for (const diagnostic of diagnostics) {
+            const fullPath = path.join(tmdlPath, diagnostic.file);
+            const entries = byFile.get(fullPath) ?? [];
+            entries.push(toVsCodeDiagnostic(diagnostic));
+            byFile.set(fullPath, entries);
+        }
+
+        this.clear(tmdlPath);
+        for (const [fullPath, entries] of byFile) {
+            this.collection.set(vscode.Uri.file(fullPath), entries);
+        }
+    }
+}
+
+/**
+ * Converts a CLI diagnostic into a VS Code diagnostic.
+ * The range runs to the end of the reported line since the CLI reports no end column.
+ * @param diagnostic - The CLI diagnostic.
+ * @returns The VS Code diagnostic.
+ */
+function toVsCodeDiagnostic(diagnostic: ValidationDiagnostic): vscode.Diagnostic {
+    const line = Math.max((diagnostic.line ?? 1) - 1, 0);
+    const column = Math.max((diagnostic.column ?? 1) - 1, 0);
+    const range = new vscode.Range(line, column, line, Number.MAX_SAFE_INTEGER);
+
+    const result = new vscode.Diagnostic(range, diagnostic.message, getSeverity(diagnostic.severity));
+    result.source = 'TMDL Studio';
+    result.code = diagnostic.code;
+    return result;
+}
+
+/**
+ * Maps a CLI severity string to a VS Code severity.
+ * @param severity - The CLI severity.
+ * @returns The VS Code diagnostic severity.
+ */
+function getSeverity(severity: ValidationDiagnostic['severity']): vscode.DiagnosticSeverity {
+    switch (severity) {
+        case 'warning': return vscode.DiagnosticSeverity.Warning;
+        case 'info': return vscode.DiagnosticSeverity.Information;
+        default: return vscode.DiagnosticSeverity.Error;
+    }
+}
@@ -1,12 +1,42 @@
 import * as vscode from 'vscode';
+import { TimdleClient } from './cli/TimdleClient';
+import { PathUtils } from './cli/PathUtils';
 import { TabularTreeProvider } from './views/explorer/TabularTreeProvider';
 import { ValidateCommand } from './commands/ValidateCommand';
 import { CloseModelCommand } from './commands/CloseModelCommand';
 import { SelectFolderCommand } from './commands/SelectFolderCommand';
 import { OpenFileAtLineCommand } from './commands/OpenFileAtLineCommand';
 import { DeployCommand } from './commands/DeployCommand';
+import { ShowDependenciesCommand } from './commands/ShowDependenciesCommand';
+import { FilterCommand } from './commands/FilterCommand';
 import { FileOpenListener } from './listeners/FileOpenListener';
 import { FileSaveListener } from './listeners/FileSaveListener';
+import { FileWatcherListener } from './listeners/FileWatcherListener';
+import { ModelReloadQueue } from './listeners/ModelReloadQueue';
+import { ValidationDiagnostics } from './diagnostics/ValidationDiagnostics';
+import { BpaDiagnostics } from './diagnostics/BpaDiagnostics';
+import { RunBpaCommand } from './commands/RunBpaCommand';
+import { BpaListener } from './listeners/BpaListener';
+import { TmdlSymbolProvider } from './providers/TmdlSymbolProvider';
+import { TmdlHoverProvider } from './providers/TmdlHoverProvider';
+import { TmdlDefinitionProvider } from './providers/TmdlDefinitionProvider';
+import { TmdlRenameProvider } from './providers/TmdlRenameProvider';
+import { TmdlCompletionProvider } from './providers/TmdlCompletionProvider';
+import { RenameObjectCommand } from './commands/RenameObjectCommand';
+import { CreateObjectCommand } from './commands/CreateObjectCommand';
+import { DeleteObjectCommand } from './commands/DeleteObjectCommand';
+import { MoveMeasureCommand } from './commands/MoveMeasureCommand';
+import { DeploymentHistoryCommand } from './commands/DeploymentHistoryCommand';
+import { DeploymentHistory } from './deploy/DeploymentHistory';
+import { DeploymentHistoryProvider } from './views/deployments/DeploymentHistoryProvider';
+import { AuthService } from './services/AuthService';
+import { AccountCommand } from './commands/AccountCommand';
+import { ServicePrincipalCommand } from './commands/ServicePrincipalCommand';
+import { AccountStatusBar } from './views/status/AccountStatusBar';
+import { FabricWorkspacesProvider } from './views/fabric/FabricWorkspacesProvider';
+import { FabricWorkspacesCommand } from './commands/FabricWorkspacesCommand';
+
+let cliClient: TimdleClient | undefined;
 
 /**
  * Activates the TMDL Studio extension.
@@ -15,29 +45,99 @@ import { FileSaveListener } from './listeners/FileSaveListener';
 export function activate(context: vscode.ExtensionContext) {
     console.log('TMDL Studio is active!');
 
-    const treeProvider = new TabularTreeProvider(context);
+    const cliOutput = vscode.window.createOutputChannel('TMDL CLI');
+    cliClient = new TimdleClient(PathUtils.getCliPath(context), cliOutput);
+    context.subscriptions.push(cliClient, cliOutput);
+
+    const diagnostics = new ValidationDiagnostics(cliClient);
+    context.subscriptions.push(diagnostics);
+
+    const bpa = new BpaDiagnostics();
+    context.subscriptions.push(bpa);
+
+    const treeProvider = new TabularTreeProvider(context, cliClient);
     vscode.window.registerTreeDataProvider('tabular-model-explorer', treeProvider);
 
+    const deploymentHistory = new DeploymentHistory(context.globalStorageUri.fsPath);
+    const deploymentHistoryProvider = new DeploymentHistoryProvider(deploymentHistory);
+    context.subscriptions.push(deploymentHistory, deploymentHistoryProvider);
+    vscode.window.registerTreeDataProvider('deployment-history', deploymentHistoryProvider);
+
+    const authService = new AuthService(context);
+    context.subscriptions.push(authService, new AccountStatusBar(authService));
+
+    const fabricWorkspacesProvider = new FabricWorkspacesProvider(authService);
+    context.subscriptions.push(fabricWorkspacesProvider);
+    vscode.window.registerTreeDataProvider('fabric-workspaces', fabricWorkspacesProvider);
+
+    // Registered before the saved model loads so the first load is analyzed too
+    const bpaListener = BpaListener.register(context, treeProvider, bpa);
+    context.subscriptions.push(bpaListener);
+
+    // Saves and external changes share one queue so a save seen by both reloads once
+    const reloadQueue = new ModelReloadQueue(treeProvider, diagnostics);
+    context.subscriptions.push(reloadQueue);
+
     treeProvider.loadState();
 
     const selectFolderCommand = SelectFolderCommand.register(context, treeProvider);
-    const validateCommand = ValidateCommand.register(context);
-    const deployCommand = DeployCommand.register(context, treeProvider);
-    const closeModelCommand = CloseModelCommand.register(context, treeProvider);
+    const validateCommand = ValidateCommand.register(context, diagnostics);
+    const deployCommand = DeployCommand.register(context, cliClient, deploymentHistory, authService, treeProvider);
+    const accountCommand = AccountCommand.register(context, authService);
+    const servicePrincipalCommand = ServicePrincipalCommand.register(context, authService);
+    const fabricWorkspacesCommand = FabricWorkspacesCommand.register(context, fabricWorkspacesProvider, authService, treeProvider);
+    const deploymentHistoryCommand = DeploymentHistoryCommand.register(context, deploymentHistory);
+    const closeModelCommand = CloseModelCommand.register(context, treeProvider, diagnostics);
     const openFileAtLineCommand = OpenFileAtLineCommand.register();
+    const showDependenciesCommand = ShowDependenciesCommand.register(context, treeProvider);
+    const filterCommand = FilterCommand.register(context, treeProvider);
+    const runBpaCommand = RunBpaCommand.register(context, treeProvider, bpa);
+    const renameObjectCommand = RenameObjectCommand.register(context, treeProvider);
+    const createObjectCommand = CreateObjectCommand.register(context, treeProvider);
+    const deleteObjectCommand = DeleteObjectCommand.register(context, treeProvider);
+    const moveMeasureCommand = MoveMeasureCommand.register(context, treeProvider);
     const fileOpenListener = FileOpenListener.register(context, treeProvider);
-    const fileSaveListener = FileSaveListener.register(context, treeProvider);
+    const fileSaveListener = FileSaveListener.register(context, treeProvider, reloadQueue);
+    const fileWatcherListener = FileWatcherListener.register(context, treeProvider, reloadQueue, diagnostics, cliOutput);
+    const symbolProvider = TmdlSymbolProvider.register(context, treeProvider);
+    const hoverProvider = TmdlHoverProvider.register(context, treeProvider);
+    const definitionProvider = TmdlDefinitionProvider.register(context, treeProvider);
+    const renameProvider = TmdlRenameProvider.register(context, treeProvider);
+    const completionProvider = TmdlCompletionProvider.register(context, treeProvider);
 
     context.subscriptions.push(selectFolderCommand);
     context.subscriptions.push(validateCommand);
     context.subscriptions.push(deployCommand);
+    context.subscriptions.push(deploymentHistoryCommand);
+    context.subscriptions.push(accountCommand);
+    context.subscriptions.push(servicePrincipalCommand);
+    context.subscriptions.push(fabricWorkspacesCommand);
     context.subscriptions.push(closeModelCommand);
     context.subscriptions.push(openFileAtLineCommand);
+    context.subscriptions.push(showDependenciesCommand);
+    context.subscriptions.push(filterCommand);
+    context.subscriptions.push(runBpaCommand);
+    context.subscriptions.push(renameObjectCommand);
+    context.subscriptions.push(createObjectCommand);
+    context.subscriptions.push(deleteObjectCommand);
+    context.subscriptions.push(moveMeasureCommand);
     context.subscriptions.push(fileOpenListener);
     context.subscriptions.push(fileSaveListener);
+    context.subscriptions.push(fileWatcherListener);
+    context.subscriptions.push(symbolProvider);
+    context.subscriptions.push(hoverProvider);
+    context.subscriptions.push(definitionProvider);
+    context.subscriptions.push(renameProvider);
+    context.subscriptions.push(completionProvider);
 }
 
 /**
  * Deactivates the TMDL Studio extension.
+ * Gives the timdle server a chance to finish in-flight requests before exiting.
+ * @returns A promise that resolves once the server has shut down.
  */
-export function deactivate() {}
+export function deactivate(): Thenable<void> | undefined {
+    const client = cliClient;
+    cliClient = undefined;
+    return client?.shutdown();
+}
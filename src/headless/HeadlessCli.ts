@@ -0,0 +1,504 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { PublicClientApplication } from '@azure/msal-node';
+import { TimdleClient, DeploymentOverrides, DeployProgress } from '../cli/TimdleClient';
+import { PathUtils } from '../cli/PathUtils';
+import { RequestOptions } from '../cli/TimdleServer';
+import { DeployEnvironment, EnvironmentConfig } from '../config/EnvironmentConfig';
+import { DeployOutcome, DeploymentService } from '../deploy/DeploymentService';
+import { ModelDiff, ModelDiffResult, ObjectChange } from '../deploy/ModelDiff';
+import { ProjectRootDetector } from '../utils/ProjectRootDetector';
+import { AuthConfig, AuthMode, MSAL_CONFIG, getAuthority } from '../types/auth';
+
+/**
+ * Process exit codes of the headless CLI.
+ */
+export const EXIT_CODES = {
+    success: 0,
+    deployFailed: 1,
+    usage: 2,
+    configuration: 3,
+    destructiveChanges: 4,
+    cancelled: 130
+} as const;
+
+/**
+ * Error that ends the CLI with an exit code other than a failed deploy.
+ */
+export class CliError extends Error {
+    /**
+     * @param message - The message printed in the JSON output.
+     * @param exitCode - The process exit code.
+     */
+    constructor(message: string, readonly exitCode: number) {
+        super(message);
+    }
+}
+
+/**
+ * The parsed command line of the `deploy` command.
+ */
+export interface CliArguments {
+    help: boolean;
+    project?: string;
+    env?: string;
+    workspace?: string;
+    auth?: AuthMode;
+    modelName?: string;
+    tenant?: string;
+    nonInteractive: boolean;
+    allowDestructive: boolean;
+    timdle?: string;
+}
+
+/**
+ * What deploying changes in the deployed model, as printed in the JSON output.
+ */
+interface CliDiff {
+    summary: string;
+    changeCount: number;
+    destructiveCount: number;
+    /** The objects the deploy removes, e.g. `column Sales[Amount]`. */
+    destructiveChanges: string[];
+}
+
+/**
+ * The JSON document printed on stdout when the CLI finishes.
+ */
+interface CliOutput {
+    /** `blocked` when the deploy was not started because it would remove objects. */
+    outcome: DeployOutcome['outcome'] | 'blocked' | 'error';
+    exitCode: number;
+    message: string;
+    projectRoot?: string;
+    environment?: string;
+    workspaceUrl?: string;
+    semanticModelName?: string;
+    authMode?: AuthMode;
+    /** The last stage the deploy reached. */
+    stage?: DeployProgress['stage'];
+    /** Fabric long-running operation id, when the deploy got that far. */
+    operationId?: string;
+    /** What the deploy changes, when the deployed model could be compared. */
+    diff?: CliDiff;
+    /** Why the deployed model could not be compared, if it could not. */
+    compareError?: string;
+}
+
+const AUTH_MODES: AuthMode[] = ['interactive', 'service-principal', 'env'];
+
+const USAGE = `Usage: tmdl-studio deploy [project] [options]
+
+Deploys a TMDL project the same way the Deploy command does in VS Code.
+Prints one JSON document with the outcome on stdout; the deploy log goes to stderr.
+
+Options:
+  --env <name>           Environment from .tmdlstudio/environments.json
+  --workspace <id|url>   Workspace to deploy to when no environment is given
+                         (default: TMDL_WORKSPACE_URL)
+  --auth <mode>          env, service-principal or interactive
+                         (default: the environment's authMode, else env)
+  --model-name <name>    Semantic model name (default: the environment's, else .platform)
+  --tenant <id|domain>   Tenant to sign in to in interactive mode (default: the environment's,
+                         else common)
+  --non-interactive      Fail instead of prompting for a device code sign-in
+  --allow-destructive    Deploy even if it removes tables, columns, measures or other
+                         objects, or the deployed model cannot be compared
+  --timdle <path>        Path of the timdle executable (default: the one in this package)
+  -h, --help             Show this help
+
+Service principal modes read TMDL_CLIENT_ID, TMDL_CLIENT_SECRET and TMDL_TENANT_ID.
+
+Exit codes: 0 deployed, 1 deploy failed, 2 invalid arguments, 3 configuration error,
+4 destructive changes not allowed, 130 cancelled.`;
+
+/**
+ * Headless entry point for CI pipelines: `tmdl-studio deploy --env prod --non-interactive`.
+ * Resolves the project, environment and credentials without any UI and deploys through
+ * DeploymentService, so pipelines and the editor deploy the same way.
+ */
+export class HeadlessCli {
+    /**
+     * Runs the CLI.
+     * @param args - The command line arguments, without the node and script paths.
+     * @returns The process exit code.
+     */
+    static async run(args: string[]): Promise<number> {
+        const output = await HeadlessCli.execute(args).catch((error): CliOutput => ({
+            outcome: 'error',
+            exitCode: error instanceof CliError ? error.exitCode : EXIT_CODES.configuration,
+            message: error instanceof Error ? error.message : String(error)
+        }));
+
+        if (output.exitCode === EXIT_CODES.usage) {
+            HeadlessCli.log(USAGE);
+        }
+        process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+        return output.exitCode;
+    }
+
+    /**
+     * Parses the command line of the `deploy` command.
+     * @param args - The command line arguments, without the node and script paths.
+     * @returns The parsed arguments.
+     * @throws CliError with the usage exit code for invalid arguments.
+     */
+    static parseArguments(args: string[]): CliArguments {
+        let parsed;
+        try {
+            parsed = parseArgs({
+                args,
+                allowPositionals: true,
+                options: {
+                    'env': { type: 'string' },
+                    'workspace': { type: 'string' },
+                    'auth': { type: 'string' },
+                    'model-name': { type: 'string' },
+                    'tenant': { type: 'string' },
+                    'non-interactive': { type: 'boolean', default: false },
+                    'allow-destructive': { type: 'boolean', default: false },
+                    'timdle': { type: 'string' },
+                    'help': { type: 'boolean', short: 'h', default: false }
+                }
+            });
+        } catch (error) {
+            throw new CliError(error instanceof Error ? error.message : String(error), EXIT_CODES.usage);
+        }
+
+        const { values, positionals } = parsed;
+        const [command, project, ...extra] = positionals;
+        if (values.help) {
+            return { help: true, nonInteractive: false, allowDestructive: false };
+        }
+        if (command !== 'deploy' || extra.length > 0) {
+            throw new CliError(command ? `Unknown command or argument: ${[command, ...extra].join(' ')}` : 'Missing command', EXIT_CODES.usage);
+        }
+        if (values.auth && !AUTH_MODES.includes(values.auth as AuthMode)) {
+            throw new CliError(`Invalid --auth '${values.auth}'. Use ${AUTH_MODES.join(', ')}.`, EXIT_CODES.usage);
+        }
+        if (values.env && values.workspace) {
+            throw new CliError('Use either --env or --workspace, not both.', EXIT_CODES.usage);
+        }
+
+        return {
+            help: false,
+            project,
+            env: values.env,
+            workspace: values.workspace,
+            auth: values.auth as AuthMode | undefined,
+            modelName: values['model-name'],
+            tenant: values.tenant,
+            nonInteractive: values['non-interactive'],
+            allowDestructive: values['allow-destructive'],
+            timdle: values.timdle
+        };
+    }
+
+    /**
+     * Checks whether a deploy may go ahead given what it changes. Without --allow-destructive,
+     * deploys that remove objects are blocked, and so are deploys whose changes are unknown.
+     * @param diff - What the deploy changes, if the deployed model could be compared.
+     * @param allowDestructive - Whether --allow-destructive was passed.
+     * @returns Why the deploy is blocked, or undefined if it may go ahead.
+     */
+    static checkDestructiveChanges(diff: ModelDiffResult | undefined, allowDestructive: boolean): string | undefined {
+        if (allowDestructive) {
+            return undefined;
+        }
+        if (!diff) {
+            return 'Could not compare with the deployed model, so the deploy may remove objects. Pass --allow-destructive to deploy anyway.';
+        }
+        if (diff.destructiveCount > 0) {
+            return `The deploy removes ${diff.destructiveCount} object${diff.destructiveCount === 1 ? '' : 's'} and any data ${diff.destructiveCount === 1 ? 'it holds' : 'they hold'}. ` +
+                'Pass --allow-destructive to deploy anyway.';
+        }
+        return undefined;
+    }
+
+    /**
+     * Gets the exit code of a finished deploy.
+     * @param outcome - How the deploy ended.
+     * @returns The exit code.
+     */
+    static getExitCode(outcome: DeployOutcome['outcome']): number {
+        switch (outcome) {
+            case 'success': return EXIT_CODES.success;
+            case 'cancelled': return EXIT_CODES.cancelled;
+            default: return EXIT_CODES.deployFailed;
+        }
+    }
+
+    /**
+     * Parses the arguments, compares with the deployed model and runs the deploy.
+     * @param args - The command line arguments.
+     * @returns The output to print.
+     * @throws CliError for invalid arguments or configuration.
+     */
+    private static async execute(args: string[]): Promise<CliOutput> {
+        const options = HeadlessCli.parseArguments(args);
+        if (options.help) {
+            HeadlessCli.log(USAGE);
+            return { outcome: 'success', exitCode: EXIT_CODES.success, message: 'Help shown' };
+        }
+
+        const projectRoot = ProjectRootDetector.detectProjectRoot(path.resolve(options.project ?? process.cwd()));
+        if (!projectRoot) {
+            throw new CliError(`Could not detect a TMDL project root in ${options.project ?? process.cwd()}.`, EXIT_CODES.configuration);
+        }
+
+        const environment = options.env ? HeadlessCli.findEnvironment(projectRoot, options.env) : undefined;
+        const workspace = environment ? EnvironmentConfig.getWorkspaceUrl(environment) : options.workspace ?? DeploymentService.getEnvWorkspaceUrl();
+        if (!workspace) {
+            throw new CliError('No target workspace. Pass --env or --workspace, or set TMDL_WORKSPACE_URL.', EXIT_CODES.configuration);
+        }
+
+        const authMode = options.auth ?? environment?.authMode ?? 'env';
+        const authConfig = await HeadlessCli.createAuthConfig(
+            authMode,
+            EnvironmentConfig.normalizeWorkspaceUrl(workspace),
+            options.modelName ?? environment?.semanticModelName,
+            options.nonInteractive,
+            options.tenant ?? environment?.tenantId
+        );
+
+        const cliPath = options.timdle ?? PathUtils.getCliPathIn(path.resolve(__dirname, '..', '..'));
+        if (!fs.existsSync(cliPath)) {
+            throw new CliError(`timdle executable not found at ${cliPath}. Build timdle-core or pass --timdle.`, EXIT_CODES.configuration);
+        }
+
+        const cliClient = new TimdleClient(cliPath, {
+            append: text => process.stderr.write(text),
+            appendLine: line => HeadlessCli.log(line)
+        });
+        try {
+            const overrides = environment ? EnvironmentConfig.getOverrides(environment) : undefined;
+            const context = {
+                projectRoot,
+                environment: environment?.name,
+                workspaceUrl: authConfig.workspaceUrl,
+                semanticModelName: authConfig.modelName,
+                authMode
+            };
+
+            let diff: ModelDiffResult | undefined;
+            let compareError: string | undefined;
+            try {
+                diff = await HeadlessCli.compare(cliClient, projectRoot, authConfig, overrides);
+                HeadlessCli.log(`Deploy preview: ${diff.summary}`);
+            } catch (error) {
+                compareError = error instanceof Error ? error.message : String(error);
+                HeadlessCli.log(`Could not compare with deployed model: ${compareError}`);
+            }
+            const cliDiff = diff && HeadlessCli.describeDiff(diff);
+
+            const blocked = HeadlessCli.checkDestructiveChanges(diff, options.allowDestructive);
+            if (blocked) {
+                return { outcome: 'blocked', exitCode: EXIT_CODES.destructiveChanges, message: blocked, ...context, diff: cliDiff, compareError };
+            }
+
+            const deployment = await HeadlessCli.deploy(cliClient, projectRoot, authConfig, environment, overrides);
+            return {
+                outcome: deployment.outcome,
+                exitCode: HeadlessCli.getExitCode(deployment.outcome),
+                message: deployment.message,
+                ...context,
+                stage: deployment.lastProgress?.stage,
+                operationId: deployment.lastProgress?.operationId,
+                diff: cliDiff,
+                compareError
+            };
+        } finally {
+            await cliClient.shutdown();
+        }
+    }
+
+    /**
+     * Compares the local model, with the environment's overrides applied, with the deployed one.
+     * @param cliClient - The TMDL CLI client.
+     * @param projectRoot - The project root path.
+     * @param authConfig - The auth config, also used to read the deployed model.
+     * @param overrides - The environment's overrides, if any.
+     * @returns What deploying changes.
+     */
+    private static async compare(
+        cliClient: TimdleClient,
+        projectRoot: string,
+        authConfig: AuthConfig,
+        overrides: DeploymentOverrides | undefined
+    ): Promise<ModelDiffResult> {
+        const [local, deployed] = await Promise.all([
+            cliClient.getModelStructure(ProjectRootDetector.getDefinitionFolder(projectRoot)),
+            cliClient.getDeployedModel(projectRoot, authConfig)
+        ]);
+        return ModelDiff.compare(deployed.model, EnvironmentConfig.applyOverrides(local, overrides));
+    }
+
+    /**
+     * Describes a diff for the JSON output.
+     * @param diff - The diff.
+     * @returns The summary, counts and the objects the deploy removes.
+     */
+    private static describeDiff(diff: ModelDiffResult): CliDiff {
+        const destructive = (changes: ObjectChange[]): string[] => changes.flatMap(change => [
+            ...change.isDestructive
+                ? [`${change.objectType} ${change.table ? `${change.table}[${change.name}]` : change.name}`]
+                : [],
+            ...destructive(change.children)
+        ]);
+        return {
+            summary: diff.summary,
+            changeCount: diff.changeCount,
+            destructiveCount: diff.destructiveCount,
+            destructiveChanges: destructive(diff.changes)
+        };
+    }
+
+    /**
+     * Finds the named environment of a project.
+     * @param projectRoot - The project root path.
+     * @param name - The environment name.
+     * @returns The environment.
+     * @throws CliError if the environments file is invalid or does not define the environment.
+     */
+    private static findEnvironment(projectRoot: string, name: string): DeployEnvironment {
+        let environments: DeployEnvironment[];
+        try {
+            environments = EnvironmentConfig.load(projectRoot, [process.cwd()]);
+        } catch (error) {
+            throw new CliError(`Failed to load deployment environments: ${error instanceof Error ? error.message : error}`, EXIT_CODES.configuration);
+        }
+
+        const environment = EnvironmentConfig.find(environments, name);
+        if (!environment) {
+            throw new CliError(
+                environments.length > 0
+                    ? `Deployment environment '${name}' is not defined. Defined: ${environments.map(e => e.name).join(', ')}.`
+                    : `Deployment environment '${name}' is not defined; no .tmdlstudio/${EnvironmentConfig.FILE_NAME} was found.`,
+                EXIT_CODES.configuration
+            );
+        }
+        return environment;
+    }
+
+    /**
+     * Builds the CLI auth config. Service principal modes read their credentials from environment
+     * variables; interactive mode signs in with a device code printed on stderr.
+     * @param authMode - The authentication mode.
+     * @param workspaceUrl - The workspace URL.
+     * @param modelName - The semantic model name, if not the one in .platform.
+     * @param nonInteractive - Whether signing in interactively is forbidden.
+     * @param tenant - Tenant to sign in to in interactive mode.
+     * @returns The auth config.
+     * @throws CliError if credentials are missing or interactive sign-in is forbidden.
+     */
+    private static async createAuthConfig(
+        authMode: AuthMode,
+        workspaceUrl: string,
+        modelName: string | undefined,
+        nonInteractive: boolean,
+        tenant: string | undefined
+    ): Promise<AuthConfig> {
+        if (authMode === 'interactive') {
+            if (nonInteractive) {
+                throw new CliError('Interactive authentication is not possible with --non-interactive; use --auth env with a service principal.', EXIT_CODES.configuration);
+            }
+            const accessToken = await HeadlessCli.signIn(tenant);
+            return DeploymentService.createAuthConfig(authMode, workspaceUrl, { accessToken }, modelName);
+        }
+
+        const credentials = DeploymentService.loadEnvCredentials();
+        if (!credentials) {
+            throw new CliError(DeploymentService.getMissingEnvCredentialsMessage(), EXIT_CODES.configuration);
+        }
+        return DeploymentService.createAuthConfig(authMode, workspaceUrl, { credentials }, modelName);
+    }
+
+    /**
+     * Signs in with the device code flow, printing the code on stderr.
+     * @param tenant - Tenant ID or domain to sign in to.
+     * @returns The access token.
+     * @throws CliError if signing in fails.
+     */
+    private static async signIn(tenant: string | undefined): Promise<string> {
+        const msalClient = new PublicClientApplication({
+            auth: {
+                clientId: MSAL_CONFIG.clientId,
+                authority: getAuthority(tenant)
+            }
+        });
+
+        try {
+            const result = await msalClient.acquireTokenByDeviceCode({
+                scopes: [...MSAL_CONFIG.scopes],
+                deviceCodeCallback: response => HeadlessCli.log(response.message)
+            });
+            if (!result?.accessToken) {
+                throw new Error('no token received');
+            }
+            return result.accessToken;
+        } catch (error) {
+            throw new CliError(`Authentication failed: ${error instanceof Error ? error.message : error}`, EXIT_CODES.configuration);
+        }
+    }
+
+    /**
+     * Runs the deploy, cancelling it on Ctrl+C or SIGTERM.
+     * @param cliClient - The TMDL CLI client.
+     * @param projectRoot - The project root path.
+     * @param authConfig - The auth config.
+     * @param environment - The target environment, if any.
+     * @param overrides - The environment's overrides, if any.
+     * @returns The outcome of the deploy.
+     */
+    private static async deploy(
+        cliClient: TimdleClient,
+        projectRoot: string,
+        authConfig: AuthConfig,
+        environment: DeployEnvironment | undefined,
+        overrides: DeploymentOverrides | undefined
+    ): Promise<DeployOutcome> {
+        const service = new DeploymentService(cliClient, line => HeadlessCli.log(line));
+
+        const listeners = new Set<(e: undefined) => unknown>();
+        let cancelled = false;
+        const token: RequestOptions<DeployProgress>['token'] = {
+            get isCancellationRequested() {
+                return cancelled;
+            },
+            onCancellationRequested: (listener: (e: undefined) => unknown) => {
+                listeners.add(listener);
+                return { dispose: () => listeners.delete(listener) };
+            }
+        };
+        const cancel = () => {
+            if (!cancelled) {
+                cancelled = true;
+                listeners.forEach(listener => listener(undefined));
+            }
+        };
+        process.once('SIGINT', cancel);
+        process.once('SIGTERM', cancel);
+
+        HeadlessCli.log(environment
+            ? `Deploying to environment ${environment.name}: ${authConfig.workspaceUrl}...`
+            : `Deploying to workspace: ${authConfig.workspaceUrl}...`);
+        HeadlessCli.log(`Project root: ${projectRoot}`);
+        HeadlessCli.log(`Authentication: ${authConfig.mode}\n`);
+
+        try {
+            return await service.deploy(projectRoot, authConfig, overrides, { refresh: environment?.refreshAfterDeploy, token });
+        } finally {
+            process.off('SIGINT', cancel);
+            process.off('SIGTERM', cancel);
+        }
+    }
+
+    /**
+     * Writes a line of the deploy log to stderr, keeping stdout for the JSON output.
+     * @param line - The line.
+     */
+    private static log(line: string): void {
+        process.stderr.write(line + '\n');
+    }
+}
@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { HeadlessCli } from './HeadlessCli';
+
+HeadlessCli.run(process.argv.slice(2)).then(exitCode => {
+    process.exitCode = exitCode;
+});
@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { LoadedModel } from '../views/explorer/ModelTreeItem';
+import { BpaDiagnostics } from '../diagnostics/BpaDiagnostics';
+import { Config } from '../config';
+
+/**
+ * Listener for re-running the Best Practice Analyzer when a model reloads or the rule file is saved.
+ */
+export class BpaListener {
+    /**
+     * Registers the BPA listeners with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @param bpa - The BPA diagnostics publisher.
+     * @returns The disposable listener registrations.
+     */
+    static register(
+        context: vscode.ExtensionContext,
+        treeProvider: TabularTreeProvider,
+        bpa: BpaDiagnostics
+    ): vscode.Disposable {
+        const run = (model: LoadedModel) => {
+            if (!model.data || !(Config.getValue<boolean>('bpa.runOnLoad') ?? true)) {
+                bpa.clear(model.definitionFolder);
+                return;
+            }
+
+            try {
+                bpa.refresh(model.data, model.projectRoot, model.definitionFolder);
+            } catch (error) {
+                console.error('Failed to run Best Practice Analyzer:', error);
+            }
+        };
+
+        return vscode.Disposable.from(
+            treeProvider.onDidLoadModel(run),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                if (BpaDiagnostics.isRulesFile(document.uri.fsPath)) {
+                    treeProvider.getModels().filter(m => m.isOpen).forEach(run);
+                }
+            })
+        );
+    }
+}
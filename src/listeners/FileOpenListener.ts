@@ -35,8 +35,7 @@ export class FileOpenListener {
                 return;
             }
 
-            const currentFolder = treeProvider.getCurrentFolder();
-            if (currentFolder === projectRoot) {
+            if (treeProvider.getModel(projectRoot)?.isOpen) {
                 return;
             }
 
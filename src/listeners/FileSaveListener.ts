@@ -2,19 +2,26 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
 import { ProjectRootDetector } from '../utils/ProjectRootDetector';
+import { ModelReloadQueue } from './ModelReloadQueue';
 
 /**
- * Listener for reloading the TMDL model when files in the project are saved.
+ * Listener for reloading and revalidating the TMDL model when files in the project are saved.
+ * Saves are batched per model and table files are reloaded on their own.
  */
 export class FileSaveListener {
     /**
      * Registers the file save listener with VS Code.
      * @param context - The extension context.
      * @param treeProvider - The tabular tree provider instance.
+     * @param reloadQueue - The queue that reloads and revalidates changed models.
      * @returns The disposable listener registration.
      */
-    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
-        return vscode.workspace.onDidSaveTextDocument(async (document) => {
+    static register(
+        context: vscode.ExtensionContext,
+        treeProvider: TabularTreeProvider,
+        reloadQueue: ModelReloadQueue
+    ): vscode.Disposable {
+        return vscode.workspace.onDidSaveTextDocument((document) => {
             const filePath = document.uri.fsPath;
             const extension = path.extname(filePath);
 
@@ -22,25 +29,14 @@ export class FileSaveListener {
                 return;
             }
 
-            const currentFolder = treeProvider.getCurrentFolder();
-            if (!currentFolder) {
-                return;
-            }
-
             const savedFileProjectRoot = ProjectRootDetector.detectProjectRoot(filePath);
-            if (!savedFileProjectRoot) {
+            const model = savedFileProjectRoot ? treeProvider.getModel(savedFileProjectRoot) : undefined;
+            if (!model?.isOpen) {
                 return;
             }
 
-            if (path.relative(currentFolder, savedFileProjectRoot) !== '') {
-                return;
-            }
-
-            try {
-                await treeProvider.reload();
-            } catch (error) {
-                console.error('Failed to reload model after save:', error);
-            }
+            // Only the model the file belongs to is reloaded, once saves settle
+            reloadQueue.add(model.projectRoot, filePath);
         });
     }
 }
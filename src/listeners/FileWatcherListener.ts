@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { LoadedModel } from '../views/explorer/ModelTreeItem';
+import { ValidationDiagnostics } from '../diagnostics/ValidationDiagnostics';
+import { ModelReloadQueue } from './ModelReloadQueue';
+
+/**
+ * Creates a file system watcher; tests pass one that returns watchers they fire events on.
+ */
+export type WatcherFactory = typeof vscode.workspace.createFileSystemWatcher;
+
+/**
+ * Listener for TMDL files changed outside the editor, e.g. by a git checkout, a pull or a code
+ * generator. Each open model's project root is watched; changes are batched into a reload and a
+ * model whose project root is deleted or moved is closed.
+ */
+export class FileWatcherListener {
+    /**
+     * Registers the file watchers with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @param reloadQueue - The queue that reloads and revalidates changed models.
+     * @param diagnostics - The validation diagnostics publisher.
+     * @param outputChannel - Receives errors from closing models whose folder is gone.
+     * @param createWatcher - Creates the file system watchers.
+     * @returns The disposable listener registration, which also disposes the watchers.
+     */
+    static register(
+        context: vscode.ExtensionContext,
+        treeProvider: TabularTreeProvider,
+        reloadQueue: ModelReloadQueue,
+        diagnostics: ValidationDiagnostics,
+        outputChannel: Pick<vscode.OutputChannel, 'appendLine'>,
+        createWatcher: WatcherFactory = (...args) => vscode.workspace.createFileSystemWatcher(...args)
+    ): vscode.Disposable {
+        const watchers = new Map<string, vscode.Disposable>();
+
+        const closeIfGone = async (model: LoadedModel) => {
+            if (!model.isOpen || fs.existsSync(model.projectRoot)) {
+                return;
+            }
+
+            await treeProvider.closeModel(model.projectRoot);
+            diagnostics.clear(model.definitionFolder);
+            vscode.window.showWarningMessage(`Closed TMDL model ${path.basename(model.projectRoot)}: its folder was deleted or moved.`);
+        };
+
+        const watch = (model: LoadedModel): vscode.Disposable => {
+            const files = createWatcher(
+                new vscode.RelativePattern(model.projectRoot, '**/{*.tmdl,definition.pbism,.platform}')
+            );
+            // The project root itself, so deleting or renaming it is noticed even if no file event is reported
+            const root = createWatcher(
+                new vscode.RelativePattern(path.dirname(model.projectRoot), path.basename(model.projectRoot)),
+                true,
+                true,
+                false
+            );
+
+            const changed = (uri: vscode.Uri) => reloadQueue.add(model.projectRoot, uri.fsPath);
+            const deleted = (uri: vscode.Uri) => {
+                if (fs.existsSync(model.projectRoot)) {
+                    changed(uri);
+                } else {
+                    closeIfGone(model).catch(error => {
+                        outputChannel.appendLine(`Failed to close TMDL model ${model.projectRoot} after its folder was removed: ${error}`);
+                    });
+                }
+            };
+
+            return vscode.Disposable.from(
+                files,
+                root,
+                files.onDidCreate(changed),
+                files.onDidChange(changed),
+                files.onDidDelete(deleted),
+                root.onDidDelete(deleted)
+            );
+        };
+
+        // Watch exactly the open models; the event also fires when a model is closed
+        const update = () => {
+            const open = new Set(treeProvider.getModels().filter(m => m.isOpen).map(m => m.projectRoot));
+            for (const [projectRoot, watcher] of watchers) {
+                if (!open.has(projectRoot)) {
+                    watcher.dispose();
+                    watchers.delete(projectRoot);
+                }
+            }
+            for (const model of treeProvider.getModels()) {
+                if (model.isOpen && !watchers.has(model.projectRoot)) {
+                    watchers.set(model.projectRoot, watch(model));
+                }
+            }
+        };
+
+        update();
+        return vscode.Disposable.from(
+            treeProvider.onDidLoadModel(update),
+            {
+                dispose: () => {
+                    watchers.forEach(watcher => watcher.dispose());
+                    watchers.clear();
+                }
+            }
+        );
+    }
+}
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { ValidationDiagnostics } from '../diagnostics/ValidationDiagnostics';
+
+/**
+ * Collects changed files per model and reloads and revalidates each model once the changes stop
+ * for a moment, so a burst of saves or file events costs one reload.
+ */
+export class ModelReloadQueue implements vscode.Disposable {
+    private static readonly DELAY_MS = 300;
+
+    private pending = new Map<string, Set<string>>();
+    private timers = new Map<string, NodeJS.Timeout>();
+
+    /**
+     * @param treeProvider - The tabular tree provider instance.
+     * @param diagnostics - The validation diagnostics publisher.
+     */
+    constructor(
+        private treeProvider: TabularTreeProvider,
+        private diagnostics: ValidationDiagnostics
+    ) {}
+
+    /**
+     * Queues a changed file and restarts the model's delay.
+     * @param projectRoot - The project root of the model the file belongs to.
+     * @param filePath - The changed file.
+     */
+    add(projectRoot: string, filePath: string): void {
+        const files = this.pending.get(projectRoot) ?? new Set<string>();
+        files.add(filePath);
+        this.pending.set(projectRoot, files);
+
+        clearTimeout(this.timers.get(projectRoot));
+        this.timers.set(projectRoot, setTimeout(() => this.flush(projectRoot), ModelReloadQueue.DELAY_MS));
+    }
+
+    /**
+     * Reloads the queued files of a model and revalidates it.
+     * @param projectRoot - The project root of the model.
+     */
+    private async flush(projectRoot: string): Promise<void> {
+        const files = [...(this.pending.get(projectRoot) ?? [])];
+        this.pending.delete(projectRoot);
+        this.timers.delete(projectRoot);
+
+        try {
+            await this.treeProvider.reloadFiles(projectRoot, files);
+        } catch (error) {
+            console.error('Failed to reload model after change:', error);
+        }
+
+        const model = this.treeProvider.getModel(projectRoot);
+        if (!model?.isOpen) {
+            return;
+        }
+
+        try {
+            await this.diagnostics.refresh(model.definitionFolder);
+        } catch (error) {
+            console.error('Failed to validate model after change:', error);
+        }
+    }
+
+    /**
+     * Drops the queued changes.
+     */
+    dispose(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.pending.clear();
+    }
+}
@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { ModelStructure } from '../views/explorer/ModelTreeItem';
+
+/**
+ * A model object flattened for symbol providers.
+ */
+export interface ModelSymbol {
+    name: string;
+    kind: vscode.SymbolKind;
+    /** Owning table for columns, measures and partitions. */
+    table?: string;
+    /** Source file relative to the definition folder. */
+    file: string;
+    lineNumber?: number;
+}
+
+/**
+ * Flattens every table, column, measure, partition, relationship, expression and culture in a model.
+ * Columns and measures are named in DAX form (`[Total Revenue]`) so they read the same as in expressions.
+ * @param model - The model structure.
+ * @returns The symbols in model order.
+ */
+export function collectModelSymbols(model: ModelStructure): ModelSymbol[] {
+    const symbols: ModelSymbol[] = [];
+
+    for (const table of model.tables) {
+        symbols.push({ name: table.name, kind: vscode.SymbolKind.Class, file: table.file, lineNumber: table.lineNumber });
+
+        for (const column of table.columns) {
+            symbols.push({ name: `[${column.name}]`, kind: vscode.SymbolKind.Field, table: table.name, file: table.file, lineNumber: column.lineNumber });
+        }
+        for (const measure of table.measures) {
+            symbols.push({ name: `[${measure.name}]`, kind: vscode.SymbolKind.Function, table: table.name, file: table.file, lineNumber: measure.lineNumber });
+        }
+        for (const partition of table.partitions) {
+            symbols.push({ name: partition.name, kind: vscode.SymbolKind.Array, table: table.name, file: table.file, lineNumber: partition.lineNumber });
+        }
+    }
+
+    for (const relationship of model.relationships) {
+        symbols.push({ name: relationship.name, kind: vscode.SymbolKind.Interface, file: relationship.file, lineNumber: relationship.lineNumber });
+    }
+    for (const expression of model.expressions) {
+        symbols.push({ name: expression.name, kind: vscode.SymbolKind.Variable, file: expression.file, lineNumber: expression.lineNumber });
+    }
+    for (const culture of model.cultures) {
+        symbols.push({ name: culture.name, kind: vscode.SymbolKind.Namespace, file: culture.file, lineNumber: culture.lineNumber });
+    }
+
+    return symbols;
+}
@@ -0,0 +1,289 @@
+import * as vscode from 'vscode';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { ModelStructure, TableNode } from '../views/explorer/ModelTreeItem';
+import { DaxReferenceResolver } from '../dax/DaxReferenceResolver';
+import { DAX_FUNCTIONS } from '../dax/DaxFunctions';
+import { TMDL_SELECTOR } from './TmdlSymbolProvider';
+import { findExpressionStart, findTableForDocument } from './TmdlReferences';
+
+/**
+ * What the text before the cursor is in the middle of typing.
+ * `start` is the offset of the opening quote or bracket.
+ */
+type CompletionContext =
+    | { kind: 'code' }
+    | { kind: 'table'; start: number }
+    | { kind: 'bracket'; start: number }
+    | { kind: 'none' };
+
+const PLAIN_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * DAX completion for TMDL expressions: tables, `'Table'[Column]` pairs, measures and DAX functions
+ * from the loaded model. After `'Sales'[` only the columns and measures of Sales are offered.
+ */
+export class TmdlCompletionProvider implements vscode.CompletionItemProvider {
+    /**
+     * @param treeProvider - The tree provider holding the loaded model.
+     */
+    constructor(private treeProvider: TabularTreeProvider) {}
+
+    /**
+     * Registers the completion provider with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @returns The disposable provider registration.
+     */
+    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
+        return vscode.languages.registerCompletionItemProvider(
+            TMDL_SELECTOR,
+            new TmdlCompletionProvider(treeProvider),
+            '\'', '['
+        );
+    }
+
+    /**
+     * Returns completions for the expression at a position.
+     * The model is read on every request, so completions follow each reload of the model.
+     * @param document - The TMDL document.
+     * @param position - The cursor position.
+     * @returns The completion items, or undefined outside DAX expressions.
+     */
+    provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+        const model = this.treeProvider.getModelForFile(document.uri.fsPath);
+        const modelData = model?.data;
+        const folder = model?.definitionFolder;
+        if (!modelData || !folder) {
+            return undefined;
+        }
+
+        const lineText = document.lineAt(position.line).text;
+        const expressionStart = getExpressionStart(document, position.line);
+        if (expressionStart === undefined || position.character < expressionStart) {
+            return undefined;
+        }
+
+        const prefix = lineText.slice(0, position.character);
+        const context = getCompletionContext(prefix, expressionStart);
+        const owner = findTableForDocument(modelData, folder, document.uri);
+        const closesBracket = lineText[position.character] === ']';
+
+        switch (context.kind) {
+            case 'table': {
+                const range = new vscode.Range(position.line, context.start, position.line, position.character);
+                return modelData.tables.map(table => tableItem(table, quote(table.name), range));
+            }
+            case 'bracket': {
+                const range = new vscode.Range(position.line, context.start + 1, position.line, position.character);
+                const tableName = getTableBefore(prefix, context.start);
+                if (tableName !== undefined) {
+                    const table = DaxReferenceResolver.findTable(modelData, tableName);
+                    return table ? [...columnItems(table, range, closesBracket), ...measureItems([table], range, closesBracket)] : [];
+                }
+                return [
+                    ...measureItems(modelData.tables, range, closesBracket),
+                    ...(owner ? columnItems(owner, range, closesBracket) : [])
+                ];
+            }
+            case 'code':
+                return codeItems(modelData);
+            default:
+                return undefined;
+        }
+    }
+}
+
+/**
+ * Finds where expression text starts on a line, including the continuation lines of a
+ * multi-line expression below a `measure Name =` or `expression =` line.
+ * @param document - The TMDL document.
+ * @param line - The zero-based line number.
+ * @returns The offset of the expression on the line, or undefined if the line is not part of one.
+ */
+function getExpressionStart(document: vscode.TextDocument, line: number): number | undefined {
+    const text = document.lineAt(line).text;
+    const start = findExpressionStart(text);
+    if (start !== 0) {
+        return start;
+    }
+
+    // A plain line is an expression when the nearest less indented TMDL line opens one with a trailing `=`
+    let indent = document.lineAt(line).firstNonWhitespaceCharacterIndex;
+    for (let previous = line - 1; previous >= 0; previous--) {
+        const candidate = document.lineAt(previous);
+        if (candidate.isEmptyOrWhitespace || candidate.firstNonWhitespaceCharacterIndex >= indent) {
+            continue;
+        }
+        if (/=\s*(```)?\s*$/.test(candidate.text)) {
+            return 0;
+        }
+        if (findExpressionStart(candidate.text) !== 0) {
+            return undefined;
+        }
+        indent = candidate.firstNonWhitespaceCharacterIndex;
+    }
+
+    return undefined;
+}
+
+/**
+ * Works out what is being typed from the expression text before the cursor.
+ * @param prefix - The line text before the cursor.
+ * @param start - The offset where the expression starts.
+ * @returns The completion context.
+ */
+function getCompletionContext(prefix: string, start: number): CompletionContext {
+    let i = start;
+    while (i < prefix.length) {
+        const ch = prefix[i];
+        const next = prefix[i + 1];
+
+        if (ch === '"') {
+            const end = findClose(prefix, i, '"');
+            if (end < 0) {
+                return { kind: 'none' };
+            }
+            i = end + 1;
+        } else if ((ch === '/' && next === '/') || (ch === '-' && next === '-')) {
+            return { kind: 'none' };
+        } else if (ch === '\'' || ch === '[') {
+            const end = findClose(prefix, i, ch === '\'' ? '\'' : ']');
+            if (end < 0) {
+                return { kind: ch === '\'' ? 'table' : 'bracket', start: i };
+            }
+            i = end + 1;
+        } else {
+            i++;
+        }
+    }
+
+    return { kind: 'code' };
+}
+
+/**
+ * Finds the closing delimiter of a token, treating a doubled delimiter as an escape.
+ * @returns The offset of the closing delimiter, or -1 if the token is still open.
+ */
+function findClose(text: string, start: number, close: string): number {
+    for (let i = start + 1; i < text.length; i++) {
+        if (text[i] === close) {
+            if (text[i + 1] === close) {
+                i++;
+                continue;
+            }
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Gets the table name written directly before an opening bracket, as in `'Sales'[` or `Sales[`.
+ * @param prefix - The line text before the cursor.
+ * @param bracket - The offset of the opening bracket.
+ * @returns The table name, or undefined if the bracket is unqualified.
+ */
+function getTableBefore(prefix: string, bracket: number): string | undefined {
+    const before = prefix.slice(0, bracket);
+    const quoted = /'((?:[^']|'')*)'$/.exec(before);
+    if (quoted) {
+        return quoted[1].replace(/''/g, '\'');
+    }
+    return /(?:^|[^A-Za-z0-9_.])([A-Za-z_][A-Za-z0-9_]*)$/.exec(before)?.[1];
+}
+
+/**
+ * Builds the completions offered while typing a name: functions, tables, qualified columns and measures.
+ * @param model - The model structure.
+ * @returns The completion items.
+ */
+function codeItems(model: ModelStructure): vscode.CompletionItem[] {
+    const items: vscode.CompletionItem[] = DAX_FUNCTIONS.map(fn => {
+        const item = new vscode.CompletionItem({ label: fn.name, detail: fn.parameters }, vscode.CompletionItemKind.Function);
+        item.insertText = new vscode.SnippetString(`${fn.name}($0)`);
+        item.documentation = fn.description;
+        item.command = { command: 'editor.action.triggerParameterHints', title: 'Parameter hints' };
+        return item;
+    });
+
+    for (const table of model.tables) {
+        items.push(tableItem(table, PLAIN_NAME.test(table.name) ? table.name : quote(table.name)));
+        for (const column of table.columns) {
+            const reference = `${quote(table.name)}[${escapeBracket(column.name)}]`;
+            const item = new vscode.CompletionItem(reference, vscode.CompletionItemKind.Field);
+            item.detail = column.dataType;
+            item.documentation = column.description;
+            item.filterText = `${table.name} ${column.name}`;
+            items.push(item);
+        }
+    }
+
+    items.push(...measureItems(model.tables, undefined, false).map(item => {
+        item.insertText = `[${item.insertText}`;
+        return item;
+    }));
+
+    return items;
+}
+
+/**
+ * Builds a table completion.
+ * @param table - The table.
+ * @param insertText - The text to insert.
+ * @param range - The range to replace, if not the word at the cursor.
+ * @returns The completion item.
+ */
+function tableItem(table: TableNode, insertText: string, range?: vscode.Range): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(table.name, vscode.CompletionItemKind.Class);
+    item.insertText = insertText;
+    item.filterText = insertText;
+    item.detail = `${table.columns.length} columns, ${table.measures.length} measures`;
+    item.documentation = table.description;
+    item.range = range;
+    return item;
+}
+
+/**
+ * Builds completions for the columns of a table, inserted without the opening bracket.
+ * @param table - The table.
+ * @param range - The range after the opening bracket.
+ * @param closesBracket - Whether a closing bracket already follows the cursor.
+ * @returns The completion items.
+ */
+function columnItems(table: TableNode, range: vscode.Range, closesBracket: boolean): vscode.CompletionItem[] {
+    return table.columns.map(column => {
+        const item = new vscode.CompletionItem(column.name, vscode.CompletionItemKind.Field);
+        item.insertText = escapeBracket(column.name) + (closesBracket ? '' : ']');
+        item.detail = column.dataType;
+        item.documentation = column.description;
+        item.range = range;
+        return item;
+    });
+}
+
+/**
+ * Builds completions for the measures of tables, inserted without the opening bracket.
+ * @param tables - The tables whose measures are offered.
+ * @param range - The range after the opening bracket, if any.
+ * @param closesBracket - Whether a closing bracket already follows the cursor.
+ * @returns The completion items.
+ */
+function measureItems(tables: TableNode[], range: vscode.Range | undefined, closesBracket: boolean): vscode.CompletionItem[] {
+    return tables.flatMap(table => table.measures.map(measure => {
+        const item = new vscode.CompletionItem(`[${measure.name}]`, vscode.CompletionItemKind.Value);
+        item.insertText = escapeBracket(measure.name) + (closesBracket ? '' : ']');
+        item.filterText = measure.name;
+        item.detail = measure.formatString ? `${table.name} (${measure.formatString})` : table.name;
+        item.documentation = measure.description;
+        item.range = range;
+        return item;
+    }));
+}
+
+function quote(name: string): string {
+    return `'${name.replace(/'/g, '\'\'')}'`;
+}
+
+function escapeBracket(name: string): string {
+    return name.replace(/]/g, ']]');
+}
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { ResolvedObject } from '../dax/DaxReferenceResolver';
+import { TMDL_SELECTOR } from './TmdlSymbolProvider';
+import { findAllReferences, findDeclarationAt, findReferenceAt, getDeclaration } from './TmdlReferences';
+
+/**
+ * Go to Definition and Find All References for table, column and measure references in TMDL files.
+ */
+export class TmdlDefinitionProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider {
+    /**
+     * @param treeProvider - The tree provider holding the loaded model.
+     */
+    constructor(private treeProvider: TabularTreeProvider) {}
+
+    /**
+     * Registers the definition and reference providers with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @returns The disposable provider registrations.
+     */
+    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
+        const provider = new TmdlDefinitionProvider(treeProvider);
+        return vscode.Disposable.from(
+            vscode.languages.registerDefinitionProvider(TMDL_SELECTOR, provider),
+            vscode.languages.registerReferenceProvider(TMDL_SELECTOR, provider)
+        );
+    }
+
+    /**
+     * Returns the declaration of the object referenced at a position.
+     * @param document - The TMDL document.
+     * @param position - The position of the reference.
+     * @returns The declaration location, or undefined if the position is not on a resolvable reference.
+     */
+    provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Location | undefined {
+        const model = this.treeProvider.getModelForFile(document.uri.fsPath);
+        const modelData = model?.data;
+        const folder = model?.definitionFolder;
+        if (!modelData || !folder) {
+            return undefined;
+        }
+
+        const resolved = findReferenceAt(document, position, modelData, folder);
+        return resolved ? this.toDeclarationLocation(resolved.target, folder) : undefined;
+    }
+
+    /**
+     * Returns every expression that references the object at a position.
+     * Works on a reference or on the line that declares the object.
+     * @param document - The TMDL document.
+     * @param position - The position of the reference or declaration.
+     * @param context - Whether to include the declaration.
+     * @returns The reference locations.
+     */
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): Promise<vscode.Location[]> {
+        const model = this.treeProvider.getModelForFile(document.uri.fsPath);
+        const modelData = model?.data;
+        const folder = model?.definitionFolder;
+        if (!modelData || !folder) {
+            return [];
+        }
+
+        const target = findReferenceAt(document, position, modelData, folder)?.target ??
+            findDeclarationAt(document, position, modelData, folder);
+        if (!target) {
+            return [];
+        }
+
+        const references = (await findAllReferences(target, modelData, folder))
+            .map(match => new vscode.Location(match.uri, match.range));
+
+        if (context.includeDeclaration) {
+            references.unshift(this.toDeclarationLocation(target, folder));
+        }
+
+        return references;
+    }
+
+    /**
+     * Gets the location of an object's declaration line.
+     * @param target - The resolved object.
+     * @param folder - The definition folder.
+     * @returns The declaration location.
+     */
+    private toDeclarationLocation(target: ResolvedObject, folder: string): vscode.Location {
+        const declaration = getDeclaration(target, folder);
+        const line = Math.max((declaration.lineNumber ?? 1) - 1, 0);
+        return new vscode.Location(vscode.Uri.file(declaration.filePath), new vscode.Position(line, 0));
+    }
+}
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { ResolvedObject } from '../dax/DaxReferenceResolver';
+import { TMDL_SELECTOR } from './TmdlSymbolProvider';
+import { findReferenceAt, getDeclaration } from './TmdlReferences';
+
+/**
+ * Hovers for table, column and measure references in DAX expressions, with metadata from the loaded model.
+ */
+export class TmdlHoverProvider implements vscode.HoverProvider {
+    /**
+     * @param treeProvider - The tree provider holding the loaded model.
+     */
+    constructor(private treeProvider: TabularTreeProvider) {}
+
+    /**
+     * Registers the hover provider with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @returns The disposable provider registration.
+     */
+    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
+        return vscode.languages.registerHoverProvider(TMDL_SELECTOR, new TmdlHoverProvider(treeProvider));
+    }
+
+    /**
+     * Returns a hover for the model object referenced at a position.
+     * @param document - The TMDL document.
+     * @param position - The hovered position.
+     * @returns The hover, or undefined if the position is not on a resolvable reference.
+     */
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const model = this.treeProvider.getModelForFile(document.uri.fsPath);
+        const modelData = model?.data;
+        const folder = model?.definitionFolder;
+        if (!modelData || !folder) {
+            return undefined;
+        }
+
+        const resolved = findReferenceAt(document, position, modelData, folder);
+        if (!resolved) {
+            return undefined;
+        }
+
+        return new vscode.Hover(buildHover(resolved.target, folder), resolved.range);
+    }
+}
+
+/**
+ * Builds the hover text for a model object.
+ * @param target - The referenced object.
+ * @param definitionFolder - The folder model file paths are relative to.
+ * @returns The hover markdown, with a link to the declaration.
+ */
+function buildHover(target: ResolvedObject, definitionFolder: string): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    markdown.isTrusted = { enabledCommands: ['tmdl-studio.open-file-at-line'] };
+
+    const rows: [string, string | undefined][] = [];
+    let description: string | undefined;
+    let expression: string | undefined;
+
+    switch (target.kind) {
+        case 'table':
+            markdown.appendMarkdown(`**table** \`${quoteTable(target.table.name)}\`\n\n`);
+            rows.push(['Contents', `${target.table.columns.length} columns, ${target.table.measures.length} measures`]);
+            rows.push(['Hidden', target.table.isHidden ? 'Yes' : undefined]);
+            description = target.table.description;
+            break;
+        case 'column':
+            markdown.appendMarkdown(`**${target.column.type === 'Calculated' ? 'calculated column' : 'column'}** ` +
+                `\`${quoteTable(target.table.name)}[${target.column.name}]\`\n\n`);
+            rows.push(['Table', target.table.name]);
+            rows.push(['Data type', target.column.dataType]);
+            rows.push(['Display folder', target.column.displayFolder]);
+            rows.push(['Hidden', target.column.isHidden ? 'Yes' : undefined]);
+            description = target.column.description;
+            expression = target.column.expression;
+            break;
+        case 'measure':
+            markdown.appendMarkdown(`**measure** \`[${target.measure.name}]\`\n\n`);
+            rows.push(['Table', target.table.name]);
+            rows.push(['Format string', target.measure.formatString]);
+            rows.push(['Display folder', target.measure.displayFolder]);
+            rows.push(['Hidden', target.measure.isHidden ? 'Yes' : undefined]);
+            description = target.measure.description;
+            expression = target.measure.expression;
+            break;
+    }
+
+    for (const [label, value] of rows) {
+        if (value) {
+            markdown.appendMarkdown(`${label}: `);
+            markdown.appendText(value);
+            markdown.appendMarkdown('  \n');
+        }
+    }
+
+    if (description) {
+        markdown.appendMarkdown('\n');
+        markdown.appendText(description);
+        markdown.appendMarkdown('\n');
+    }
+
+    if (expression) {
+        markdown.appendCodeblock(expression.trim(), 'dax');
+    }
+
+    const declaration = getDeclaration(target, definitionFolder);
+    const args = encodeURIComponent(JSON.stringify([declaration.filePath, declaration.lineNumber]));
+    markdown.appendMarkdown(`\n[Go to definition](command:tmdl-studio.open-file-at-line?${args})`);
+
+    return markdown;
+}
+
+/**
+ * Quotes a table name the way DAX does.
+ * @param name - The table name.
+ * @returns The quoted name, e.g. `'Sales'`.
+ */
+function quoteTable(name: string): string {
+    return `'${name.replace(/'/g, '\'\'')}'`;
+}
@@ -0,0 +1,365 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModelStructure, TableNode } from '../views/explorer/ModelTreeItem';
+import { DaxReference, DaxReferenceParser } from '../dax/DaxReferenceParser';
+import { DaxReferenceResolver, ResolvedObject } from '../dax/DaxReferenceResolver';
+
+/**
+ * A reference in a TMDL document that resolves to a model object.
+ */
+export interface ResolvedReference {
+    reference: DaxReference;
+    /** Range of the whole reference in the document. */
+    range: vscode.Range;
+    target: ResolvedObject;
+}
+
+/**
+ * A reference to a model object found in one of the model's files.
+ */
+export interface ReferenceMatch {
+    uri: vscode.Uri;
+    /** Range of the whole reference. */
+    range: vscode.Range;
+    /** The parsed reference, with offsets relative to its line. */
+    reference: DaxReference;
+}
+
+// Declarations whose `= ...` tail is a DAX or M expression; other declarations hold no references
+const EXPRESSION_DECLARATIONS = new Set([
+    'measure', 'column', 'partition', 'expression', 'calculationItem', 'tablePermission'
+]);
+
+const DECLARATION_KEYWORDS = new Set([
+    ...EXPRESSION_DECLARATIONS,
+    'table', 'hierarchy', 'level', 'relationship', 'culture', 'perspective', 'role', 'model', 'database',
+    'dataSource', 'calculationGroup', 'queryGroup', 'annotation', 'extendedProperty', 'changedProperty',
+    'linguisticMetadata', 'translation', 'ref', 'createOrReplace'
+]);
+
+// `keyword Name = ...`, where the name may be quoted
+const DECLARATION_PATTERN = /^(\s*)([A-Za-z]+)(?:\s+('(?:[^']|'')*'|[^\s=]+))?\s*(=?)/;
+
+// `property: value` lines hold names and literals, not expressions
+const PROPERTY_PATTERN = /^\s*[A-Za-z]+\s*:/;
+
+/**
+ * Finds where the DAX or M expression text starts on one line of a TMDL file.
+ * Object declarations, properties and annotations hold names and literal values, not expressions.
+ * @param text - The line text.
+ * @returns The offset of the expression, or undefined if the line holds none.
+ */
+export function findExpressionStart(text: string): number | undefined {
+    const declaration = DECLARATION_PATTERN.exec(text);
+    if (declaration && DECLARATION_KEYWORDS.has(declaration[2])) {
+        return EXPRESSION_DECLARATIONS.has(declaration[2]) && declaration[4] ? declaration[0].length : undefined;
+    }
+    if (declaration && !declaration[3] && declaration[4]) {
+        // Expression property such as `formatStringDefinition = ...`
+        return declaration[0].length;
+    }
+    return PROPERTY_PATTERN.test(text) ? undefined : 0;
+}
+
+/**
+ * The expression text on one line of a TMDL file.
+ */
+export interface ExpressionLine {
+    /** Offset where the expression text starts. */
+    start: number;
+    language: 'dax' | 'm';
+    /** Index of the expression; the lines of a multi-line expression share it. */
+    expression: number;
+}
+
+/**
+ * Finds the expression text on each line of a TMDL file and whether it is DAX or M.
+ * Measures, calculated columns, calculation items, table permissions, DAX expression properties
+ * and the sources of calculated partitions are DAX; shared expressions and other partition
+ * sources are M. A multi-line expression continues on the lines indented below its `=` line,
+ * except for the properties and objects of the declaring object.
+ * @param lines - The file's lines.
+ * @returns For each line, its expression text, or undefined if it holds none.
+ */
+export function findExpressionLines(lines: string[]): (ExpressionLine | undefined)[] {
+    const unit = Math.max(indentUnitOf(lines), 1);
+    const result: (ExpressionLine | undefined)[] = [];
+    let block: { indent: number; language: 'dax' | 'm'; expression: number; inFence: boolean } | undefined;
+    let partition: { indent: number; language: 'dax' | 'm' } | undefined;
+    let expressionCount = 0;
+
+    for (const text of lines) {
+        const indent = text.length - text.trimStart().length;
+
+        if (block?.inFence) {
+            const closes = /^\s*```\s*$/.test(text);
+            block.inFence = !closes;
+            result.push(closes ? undefined : { start: 0, language: block.language, expression: block.expression });
+            continue;
+        }
+        if (!text.trim()) {
+            result.push(undefined);
+            continue;
+        }
+
+        const declaration = DECLARATION_PATTERN.exec(text);
+        const isDeclaration = !!declaration && DECLARATION_KEYWORDS.has(declaration[2]);
+        const isExpressionProperty = !!declaration && !isDeclaration && !declaration[3] && !!declaration[4];
+
+        // Lines more indented than the `=` line continue its expression, unless they are the
+        // properties or objects one level below the declaring object
+        if (block && indent > block.indent &&
+            (indent >= block.indent + 2 * unit || !(isDeclaration || isExpressionProperty || PROPERTY_PATTERN.test(text)))) {
+            result.push({ start: 0, language: block.language, expression: block.expression });
+            continue;
+        }
+        block = undefined;
+
+        let language: 'dax' | 'm' | undefined;
+        if (isDeclaration) {
+            const keyword = declaration![2];
+            if (partition && indent <= partition.indent) {
+                partition = undefined;
+            }
+            if (keyword === 'partition') {
+                // `partition Name = m`: the tail names the source type; the expression follows in `source =`
+                const type = text.slice(declaration![0].length).trim();
+                partition = { indent, language: type === 'calculated' ? 'dax' : 'm' };
+            } else if (EXPRESSION_DECLARATIONS.has(keyword) && declaration![4]) {
+                language = keyword === 'expression' ? 'm' : 'dax';
+            }
+        } else if (isExpressionProperty) {
+            language = declaration![2] === 'source' ? partition?.language ?? 'm' : 'dax';
+        }
+
+        if (!language) {
+            result.push(undefined);
+            continue;
+        }
+
+        const expression = expressionCount++;
+        const tail = text.slice(declaration![0].length);
+        block = { indent, language, expression, inFence: /^\s*```\s*$/.test(tail) };
+        result.push(tail.trim() && !block.inFence ? { start: declaration![0].length, language, expression } : undefined);
+    }
+
+    return result;
+}
+
+/**
+ * Parses the DAX references in a TMDL file. Only DAX expression text is parsed, so names,
+ * literal values and M code are not mistaken for references; variables declared with `VAR`
+ * are known across the lines of their expression.
+ * @param lines - The file's lines.
+ * @returns For each line, its references, with offsets relative to the line.
+ */
+export function parseTmdlLines(lines: string[]): DaxReference[][] {
+    const variables = new Map<number, Set<string>>();
+
+    return findExpressionLines(lines).map((expression, line) => {
+        if (expression?.language !== 'dax') {
+            return [];
+        }
+
+        let declared = variables.get(expression.expression);
+        if (!declared) {
+            declared = new Set();
+            variables.set(expression.expression, declared);
+        }
+
+        const { start } = expression;
+        return DaxReferenceParser.parse(lines[line].slice(start), true, declared).map(reference => ({
+            ...reference,
+            range: shift(reference.range, start)!,
+            tableRange: shift(reference.tableRange, start),
+            nameRange: shift(reference.nameRange, start)
+        }));
+    });
+}
+
+/**
+ * Finds the table declared in a document.
+ * @param model - The model structure.
+ * @param definitionFolder - The folder model file paths are relative to.
+ * @param uri - The document URI.
+ * @returns The table, or undefined if the document is not a table file.
+ */
+export function findTableForDocument(model: ModelStructure, definitionFolder: string, uri: vscode.Uri): TableNode | undefined {
+    return model.tables.find(t => path.relative(path.join(definitionFolder, t.file), uri.fsPath) === '');
+}
+
+/**
+ * Finds the reference under a position and resolves it against the model.
+ * @param document - The TMDL document.
+ * @param position - The position in the document.
+ * @param model - The model structure.
+ * @param definitionFolder - The folder model file paths are relative to.
+ * @returns The resolved reference, or undefined if there is none or it does not resolve.
+ */
+export function findReferenceAt(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    model: ModelStructure,
+    definitionFolder: string
+): ResolvedReference | undefined {
+    // Earlier lines tell whether the line is DAX and which variables are declared
+    const lines: string[] = [];
+    for (let line = 0; line <= position.line; line++) {
+        lines.push(document.lineAt(line).text);
+    }
+    let reference = parseTmdlLines(lines)[position.line].find(r =>
+        position.character >= r.range.start && position.character < r.range.end
+    );
+    if (!reference) {
+        return undefined;
+    }
+
+    // On the table part of 'Sales'[Amount], the reference is to the table
+    if (reference.table !== undefined && reference.nameRange && position.character < reference.nameRange.start - 1) {
+        reference = {
+            table: reference.table,
+            range: { start: reference.range.start, end: reference.nameRange.start - 1 },
+            tableRange: reference.tableRange
+        };
+    }
+
+    const owner = findTableForDocument(model, definitionFolder, document.uri);
+    const target = DaxReferenceResolver.resolve(reference, model, owner);
+    if (!target) {
+        return undefined;
+    }
+
+    return {
+        reference,
+        range: new vscode.Range(position.line, reference.range.start, position.line, reference.range.end),
+        target
+    };
+}
+
+/**
+ * Finds the table, column or measure declared on a line.
+ * @param document - The TMDL document.
+ * @param position - A position on the declaration line.
+ * @param model - The model structure.
+ * @param definitionFolder - The folder model file paths are relative to.
+ * @returns The declared object, or undefined if the line declares none.
+ */
+export function findDeclarationAt(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    model: ModelStructure,
+    definitionFolder: string
+): ResolvedObject | undefined {
+    const table = findTableForDocument(model, definitionFolder, document.uri);
+    const lineNumber = position.line + 1;
+    if (!table) {
+        return undefined;
+    }
+
+    if (table.lineNumber === lineNumber) {
+        return { kind: 'table', table };
+    }
+    const column = table.columns.find(c => c.lineNumber === lineNumber);
+    if (column) {
+        return { kind: 'column', table, column };
+    }
+    const measure = table.measures.find(m => m.lineNumber === lineNumber);
+    return measure ? { kind: 'measure', table, measure } : undefined;
+}
+
+/**
+ * Gets the declaration of a resolved object.
+ * @param target - The resolved object.
+ * @param definitionFolder - The folder model file paths are relative to.
+ * @returns The declaring file and 1-based line number, if known.
+ */
+export function getDeclaration(target: ResolvedObject, definitionFolder: string): { filePath: string; lineNumber?: number } {
+    const filePath = path.join(definitionFolder, target.table.file);
+    switch (target.kind) {
+        case 'table': return { filePath, lineNumber: target.table.lineNumber };
+        case 'column': return { filePath, lineNumber: target.column.lineNumber };
+        case 'measure': return { filePath, lineNumber: target.measure.lineNumber };
+    }
+}
+
+/**
+ * Finds every reference to an object across the model's TMDL files.
+ * Open documents are read from the editor so unsaved changes are included.
+ * @param target - The object to find references to.
+ * @param model - The model structure.
+ * @param definitionFolder - The folder holding the model's TMDL files.
+ * @returns The references, grouped by file in path order.
+ */
+export async function findAllReferences(
+    target: ResolvedObject,
+    model: ModelStructure,
+    definitionFolder: string
+): Promise<ReferenceMatch[]> {
+    const matches: ReferenceMatch[] = [];
+
+    for (const filePath of await listTmdlFiles(definitionFolder)) {
+        const uri = vscode.Uri.file(filePath);
+        const owner = findTableForDocument(model, definitionFolder, uri);
+        const lines = (await readDocument(uri)).split(/\r?\n/);
+
+        parseTmdlLines(lines).forEach((references, line) => {
+            for (const reference of references) {
+                if (DaxReferenceResolver.refersTo(reference, target, model, owner)) {
+                    matches.push({
+                        uri,
+                        range: new vscode.Range(line, reference.range.start, line, reference.range.end),
+                        reference
+                    });
+                }
+            }
+        });
+    }
+
+    return matches;
+}
+
+/**
+ * Lists the TMDL files below a folder.
+ * @param folder - The definition folder.
+ * @returns The file paths, sorted.
+ */
+export async function listTmdlFiles(folder: string): Promise<string[]> {
+    const entries = await fs.promises.readdir(folder, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+        const fullPath = path.join(folder, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await listTmdlFiles(fullPath));
+        } else if (entry.name.endsWith('.tmdl')) {
+            files.push(fullPath);
+        }
+    }
+
+    return files.sort();
+}
+
+/**
+ * Reads a file, preferring the open editor's text over the saved file.
+ * @param uri - The file URI.
+ * @returns The text.
+ */
+export async function readDocument(uri: vscode.Uri): Promise<string> {
+    const open = vscode.workspace.textDocuments.find(d => d.uri.fsPath === uri.fsPath);
+    return open ? open.getText() : fs.promises.readFile(uri.fsPath, 'utf8');
+}
+
+/**
+ * Gets the indentation width of one level: a tab, or the first indented line's spaces.
+ * @param lines - The file's lines.
+ * @returns The width.
+ */
+function indentUnitOf(lines: string[]): number {
+    const indented = lines.find(line => /^\s+\S/.test(line));
+    return !indented || indented.startsWith('\t') ? 1 : indented.length - indented.trimStart().length;
+}
+
+function shift(range: { start: number; end: number } | undefined, offset: number): { start: number; end: number } | undefined {
+    return range && { start: range.start + offset, end: range.end + offset };
+}
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { ResolvedObject } from '../dax/DaxReferenceResolver';
+import { ModelRename, getName } from '../refactor/ModelRename';
+import { TMDL_SELECTOR } from './TmdlSymbolProvider';
+import { findDeclarationAt, findReferenceAt } from './TmdlReferences';
+
+/**
+ * Renames tables, columns and measures from a DAX reference or a declaration in a TMDL file.
+ */
+export class TmdlRenameProvider implements vscode.RenameProvider {
+    /**
+     * @param treeProvider - The tree provider holding the loaded model.
+     */
+    constructor(private treeProvider: TabularTreeProvider) {}
+
+    /**
+     * Registers the rename provider with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @returns The disposable provider registration.
+     */
+    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
+        return vscode.languages.registerRenameProvider(TMDL_SELECTOR, new TmdlRenameProvider(treeProvider));
+    }
+
+    /**
+     * Checks that the position is on a renameable object and returns the range to edit.
+     * @param document - The TMDL document.
+     * @param position - The position of the reference or declaration.
+     * @returns The name range and current name.
+     * @throws Error if the position is not on a table, column or measure.
+     */
+    prepareRename(document: vscode.TextDocument, position: vscode.Position): { range: vscode.Range; placeholder: string } {
+        const { target, range } = this.findTarget(document, position);
+        return { range, placeholder: getName(target) };
+    }
+
+    /**
+     * Builds the edit that renames the object at a position across the model.
+     * @param document - The TMDL document.
+     * @param position - The position of the reference or declaration.
+     * @param newName - The new name.
+     * @returns The workspace edit.
+     * @throws Error if the position is not on a renameable object or the new name clashes.
+     */
+    async provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string): Promise<vscode.WorkspaceEdit> {
+        const { target } = this.findTarget(document, position);
+        const model = this.treeProvider.getModelForFile(document.uri.fsPath)!;
+        const modelData = model.data!;
+
+        const error = ModelRename.validate(target, newName, modelData);
+        if (error) {
+            throw new Error(error);
+        }
+
+        return ModelRename.buildEdit(target, newName, modelData, model.definitionFolder);
+    }
+
+    /**
+     * Finds the object to rename and the range of its name at a position.
+     * @param document - The TMDL document.
+     * @param position - The position of the reference or declaration.
+     * @returns The object and the range of the name under the cursor.
+     * @throws Error if the position is not on a table, column or measure.
+     */
+    private findTarget(document: vscode.TextDocument, position: vscode.Position): { target: ResolvedObject; range: vscode.Range } {
+        const model = this.treeProvider.getModelForFile(document.uri.fsPath);
+        const modelData = model?.data;
+        const folder = model?.definitionFolder;
+        if (!modelData || !folder) {
+            throw new Error('No TMDL model is loaded.');
+        }
+
+        const resolved = findReferenceAt(document, position, modelData, folder);
+        if (resolved) {
+            const { reference, target } = resolved;
+            const nameRange = target.kind === 'table' ? reference.tableRange! : reference.nameRange!;
+            return { target, range: new vscode.Range(position.line, nameRange.start, position.line, nameRange.end) };
+        }
+
+        const declared = findDeclarationAt(document, position, modelData, folder);
+        const wordRange = document.getWordRangeAtPosition(position, /'(?:[^']|'')*'|[^\s'=]+/);
+        if (declared && wordRange) {
+            const word = document.getText(wordRange);
+            const isQuoted = word.startsWith('\'');
+            const range = isQuoted ? new vscode.Range(wordRange.start.translate(0, 1), wordRange.end.translate(0, -1)) : wordRange;
+            if (document.getText(range).replace(/''/g, '\'').toLowerCase() === getName(declared).toLowerCase()) {
+                return { target: declared, range };
+            }
+        }
+
+        throw new Error('Place the cursor on a table, column or measure name to rename it.');
+    }
+}
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+import { ModelSymbol, collectModelSymbols } from './ModelSymbols';
+
+/**
+ * Document selector for TMDL files, with or without the TMDL language extension.
+ */
+export const TMDL_SELECTOR: vscode.DocumentSelector = [
+    { language: 'tmdl' },
+    { scheme: 'file', pattern: '**/*.tmdl' }
+];
+
+/**
+ * Workspace (Ctrl+T) and document (outline) symbols for the loaded TMDL model.
+ */
+export class TmdlSymbolProvider implements vscode.WorkspaceSymbolProvider, vscode.DocumentSymbolProvider {
+    /**
+     * @param treeProvider - The tree provider holding the loaded model.
+     */
+    constructor(private treeProvider: TabularTreeProvider) {}
+
+    /**
+     * Registers the workspace and document symbol providers with VS Code.
+     * @param context - The extension context.
+     * @param treeProvider - The tabular tree provider instance.
+     * @returns The disposable provider registrations.
+     */
+    static register(context: vscode.ExtensionContext, treeProvider: TabularTreeProvider): vscode.Disposable {
+        const provider = new TmdlSymbolProvider(treeProvider);
+        return vscode.Disposable.from(
+            vscode.languages.registerWorkspaceSymbolProvider(provider),
+            vscode.languages.registerDocumentSymbolProvider(TMDL_SELECTOR, provider, { label: 'TMDL Studio' })
+        );
+    }
+
+    /**
+     * Returns model objects whose name contains the query characters in order.
+     * @param query - The text typed in the symbol picker.
+     * @returns The matching symbols.
+     */
+    provideWorkspaceSymbols(query: string): vscode.SymbolInformation[] {
+        const lowerQuery = query.toLowerCase();
+        return this.treeProvider.getModels().flatMap(model => !model.data ? [] : collectModelSymbols(model.data)
+            .filter(symbol => isSubsequence(lowerQuery, symbol.name.toLowerCase()))
+            .map(symbol => {
+                const line = Math.max((symbol.lineNumber ?? 1) - 1, 0);
+                const uri = vscode.Uri.file(path.join(model.definitionFolder, symbol.file));
+                return new vscode.SymbolInformation(
+                    symbol.name,
+                    symbol.kind,
+                    symbol.table ?? '',
+                    new vscode.Location(uri, new vscode.Position(line, 0))
+                );
+            }));
+    }
+
+    /**
+     * Returns the outline for a TMDL file: tables with their columns, measures and partitions nested,
+     * plus top-level relationships, expressions and cultures declared in the file.
+     * @param document - The TMDL document.
+     * @returns The document symbols.
+     */
+    provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+        const model = this.treeProvider.getModelForFile(document.uri.fsPath);
+        const modelData = model?.data;
+        const folder = model?.definitionFolder;
+        if (!modelData || !folder) {
+            return [];
+        }
+
+        const inDocument = collectModelSymbols(modelData).filter(symbol =>
+            path.relative(path.join(folder, symbol.file), document.uri.fsPath) === '' &&
+            symbol.lineNumber !== undefined &&
+            symbol.lineNumber <= document.lineCount
+        );
+
+        const result: vscode.DocumentSymbol[] = [];
+        const tables = new Map<string, vscode.DocumentSymbol>();
+
+        for (const symbol of inDocument) {
+            const documentSymbol = toDocumentSymbol(document, symbol);
+            if (symbol.kind === vscode.SymbolKind.Class) {
+                tables.set(symbol.name, documentSymbol);
+                result.push(documentSymbol);
+            } else if (symbol.table && tables.has(symbol.table)) {
+                tables.get(symbol.table)!.children.push(documentSymbol);
+            } else {
+                result.push(documentSymbol);
+            }
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Creates a document symbol whose range covers the declaration and its indented body.
+ * @param document - The TMDL document.
+ * @param symbol - The model symbol, which must have a line number within the document.
+ * @returns The document symbol.
+ */
+function toDocumentSymbol(document: vscode.TextDocument, symbol: ModelSymbol): vscode.DocumentSymbol {
+    const declaration = document.lineAt(symbol.lineNumber! - 1);
+    const indent = declaration.firstNonWhitespaceCharacterIndex;
+
+    let lastLine = declaration.lineNumber;
+    for (let line = declaration.lineNumber + 1; line < document.lineCount; line++) {
+        const text = document.lineAt(line);
+        if (text.isEmptyOrWhitespace) {
+            continue;
+        }
+        if (text.firstNonWhitespaceCharacterIndex <= indent) {
+            break;
+        }
+        lastLine = line;
+    }
+
+    const range = new vscode.Range(declaration.range.start, document.lineAt(lastLine).range.end);
+    const selectionRange = new vscode.Range(
+        declaration.lineNumber, indent,
+        declaration.lineNumber, declaration.range.end.character
+    );
+
+    return new vscode.DocumentSymbol(symbol.name, symbol.table ?? '', symbol.kind, range, selectionRange);
+}
+
+/**
+ * Checks whether every character of a query appears in a name in order.
+ * @param query - The lower-cased query.
+ * @param name - The lower-cased name.
+ * @returns True if the query is a subsequence of the name.
+ */
+function isSubsequence(query: string, name: string): boolean {
+    let position = 0;
+    for (const ch of query) {
+        position = name.indexOf(ch, position);
+        if (position < 0) {
+            return false;
+        }
+        position++;
+    }
+    return true;
+}
@@ -0,0 +1,359 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ExpressionNode, ModelStructure, PartitionNode, RelationshipNode, TableNode } from '../views/explorer/ModelTreeItem';
+import { ResolvedObject } from '../dax/DaxReferenceResolver';
+import {
+    findAllReferences,
+    findExpressionStart,
+    findTableForDocument,
+    listTmdlFiles,
+    readDocument
+} from '../providers/TmdlReferences';
+import { ModelRename, getName } from './ModelRename';
+import { TmdlText } from './TmdlText';
+import { TmdlWorkspaceEdit } from './TmdlFileEdit';
+
+// Declarations that name the object holding a dependent expression or property
+const DESCRIBED_DECLARATION = /^\s*(table|column|measure|partition|expression|hierarchy|level|calculationItem|tablePermission|columnPermission|relationship|role)\s/;
+
+/**
+ * A model object that can be deleted from the explorer.
+ */
+export type ModelObject =
+    | ResolvedObject
+    | { kind: 'partition'; table: TableNode; partition: PartitionNode }
+    | { kind: 'relationship'; relationship: RelationshipNode }
+    | { kind: 'expression'; expression: ExpressionNode };
+
+/**
+ * An object or expression that uses the object being deleted.
+ */
+export interface Dependent {
+    /** The dependent object, if it can be deleted along with the object it uses. */
+    object?: ModelObject;
+    label: string;
+    filePath: string;
+    lineNumber: number;
+}
+
+/**
+ * The objects a delete removes and the dependents it found.
+ */
+export interface DeletePlan {
+    /** The object being deleted, followed by every dependent deleted with it. */
+    objects: ModelObject[];
+    dependents: Dependent[];
+    /** Dependents that cannot be deleted with the object, so the delete has to be refused. */
+    blocking: Dependent[];
+}
+
+/**
+ * Finds what depends on a model object and builds the edits that delete it.
+ * A measure or column can be deleted together with the measures, columns and relationships that
+ * use it; other uses, such as partition queries or hierarchy levels, have to be fixed by hand first.
+ */
+export class ModelDelete {
+    /**
+     * Checks whether an object can be deleted at all.
+     * @param target - The object.
+     * @returns An error message, or undefined if the object can be deleted.
+     */
+    static validate(target: ModelObject): string | undefined {
+        if (target.kind === 'table') {
+            return 'Tables cannot be deleted from the explorer.';
+        }
+        if (target.kind === 'partition' && target.table.partitions.length <= 1) {
+            return `'${target.partition.name}' is the only partition of table '${target.table.name}'.`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Finds the dependents of an object, following the dependents of dependents that would be
+     * deleted with it.
+     * @param target - The object being deleted.
+     * @param model - The model structure.
+     * @param definitionFolder - The folder holding the model's TMDL files.
+     * @returns The delete plan.
+     */
+    static async plan(target: ModelObject, model: ModelStructure, definitionFolder: string): Promise<DeletePlan> {
+        const objects: ModelObject[] = [target];
+        const dependents: Dependent[] = [];
+        const seen = new Set<string>();
+
+        for (let i = 0; i < objects.length; i++) {
+            for (const dependent of await ModelDelete.findDependents(objects[i], model, definitionFolder)) {
+                const key = dependent.object ? objectKey(dependent.object) : `${dependent.filePath}:${dependent.lineNumber}`;
+                if (seen.has(key) || (dependent.object && objects.some(o => objectKey(o) === key))) {
+                    continue;
+                }
+                seen.add(key);
+                dependents.push(dependent);
+                if (dependent.object) {
+                    objects.push(dependent.object);
+                }
+            }
+        }
+
+        return { objects, dependents, blocking: dependents.filter(d => !d.object) };
+    }
+
+    /**
+     * Builds one workspace edit that deletes objects. Measures and columns are also removed from
+     * translations, perspectives and roles.
+     * @param objects - The objects to delete.
+     * @param definitionFolder - The folder holding the model's TMDL files.
+     * @returns The edit.
+     */
+    static async buildEdit(objects: ModelObject[], definitionFolder: string): Promise<vscode.WorkspaceEdit> {
+        const changes = new TmdlWorkspaceEdit();
+        const files = await listTmdlFiles(definitionFolder);
+
+        for (const object of objects) {
+            if (object.kind === 'measure' || object.kind === 'column') {
+                for (const filePath of files) {
+                    const file = await changes.file(filePath);
+                    ModelRename.findNames(file.lines, object)
+                        .filter(token => token.kind === 'declaration')
+                        .forEach(token => file.removeBlock(token.line));
+                }
+                continue;
+            }
+
+            const declaration = getDeclarationLine(object);
+            if (declaration) {
+                const file = await changes.file(path.join(definitionFolder, declaration.file));
+                file.removeBlock(declaration.lineNumber - 1);
+            }
+        }
+
+        return changes.toWorkspaceEdit();
+    }
+
+    /**
+     * Finds the direct dependents of an object.
+     * @param target - The object.
+     * @param model - The model structure.
+     * @param definitionFolder - The folder holding the model's TMDL files.
+     * @returns The dependents.
+     */
+    private static async findDependents(target: ModelObject, model: ModelStructure, definitionFolder: string): Promise<Dependent[]> {
+        switch (target.kind) {
+            case 'measure':
+            case 'column':
+                return [
+                    ...await ModelDelete.findDaxDependents(target, model, definitionFolder),
+                    ...await ModelDelete.findNameDependents(target, model, definitionFolder)
+                ];
+            case 'expression':
+                return ModelDelete.findExpressionDependents(target.expression, model, definitionFolder);
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Finds the expressions that reference a measure or column. References inside a measure or
+     * calculated column make that object the dependent.
+     * @param target - The measure or column.
+     * @param model - The model structure.
+     * @param definitionFolder - The folder holding the model's TMDL files.
+     * @returns The dependents.
+     */
+    private static async findDaxDependents(
+        target: ResolvedObject,
+        model: ModelStructure,
+        definitionFolder: string
+    ): Promise<Dependent[]> {
+        const dependents: Dependent[] = [];
+        const lines = new Map<string, string[]>();
+
+        for (const match of await findAllReferences(target, model, definitionFolder)) {
+            const filePath = match.uri.fsPath;
+            if (!lines.has(filePath)) {
+                lines.set(filePath, TmdlText.lines(await readDocument(match.uri)));
+            }
+            const fileLines = lines.get(filePath)!;
+            const line = match.range.start.line;
+
+            const owner = findTableForDocument(model, definitionFolder, match.uri);
+            const object = owner && findEnclosingObject(owner, fileLines, line);
+            if (object && objectKey(object) === objectKey(target)) {
+                continue;
+            }
+
+            dependents.push(object
+                ? { object, label: describeObject(object), filePath, lineNumber: getDeclarationLine(object)!.lineNumber }
+                : { label: describeLine(fileLines, line), filePath, lineNumber: line + 1 });
+        }
+
+        return dependents;
+    }
+
+    /**
+     * Finds the relationships, sort-by columns and hierarchy levels that use a column.
+     * @param target - The measure or column.
+     * @param model - The model structure.
+     * @param definitionFolder - The folder holding the model's TMDL files.
+     * @returns The dependents.
+     */
+    private static async findNameDependents(
+        target: ResolvedObject,
+        model: ModelStructure,
+        definitionFolder: string
+    ): Promise<Dependent[]> {
+        if (target.kind !== 'column') {
+            return [];
+        }
+
+        const dependents: Dependent[] = model.relationships
+            .filter(r =>
+                (same(r.fromTable, target.table.name) && same(r.fromColumn, target.column.name)) ||
+                (same(r.toTable, target.table.name) && same(r.toColumn, target.column.name)))
+            .map(relationship => ({
+                object: { kind: 'relationship', relationship },
+                label: describeObject({ kind: 'relationship', relationship }),
+                filePath: path.join(definitionFolder, relationship.file),
+                lineNumber: relationship.lineNumber ?? 1
+            }));
+
+        for (const filePath of await listTmdlFiles(definitionFolder)) {
+            const lines = TmdlText.lines(await readDocument(vscode.Uri.file(filePath)));
+            for (const token of ModelRename.findNames(lines, target).filter(t => t.kind === 'property')) {
+                dependents.push({ label: describeLine(lines, token.line), filePath, lineNumber: token.line + 1 });
+            }
+        }
+
+        return dependents;
+    }
+
+    /**
+     * Finds the M queries that use a shared expression or parameter by name, as `Name` or `#"Name"`.
+     * @param target - The shared expression.
+     * @param model - The model structure.
+     * @param definitionFolder - The folder holding the model's TMDL files.
+     * @returns The dependents.
+     */
+    private static async findExpressionDependents(
+        target: ExpressionNode,
+        model: ModelStructure,
+        definitionFolder: string
+    ): Promise<Dependent[]> {
+        const escaped = target.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/"/g, '""');
+        const pattern = new RegExp(`#"${escaped}"|(?<![\\w#."])${escaped}(?![\\w"])`);
+        const declarationPath = path.join(definitionFolder, target.file);
+        const dependents: Dependent[] = [];
+
+        for (const filePath of await listTmdlFiles(definitionFolder)) {
+            const lines = TmdlText.lines(await readDocument(vscode.Uri.file(filePath)));
+            const own = filePath === declarationPath && target.lineNumber
+                ? { first: target.lineNumber - 1, last: TmdlText.blockEnd(lines, target.lineNumber - 1) }
+                : undefined;
+
+            lines.forEach((text, line) => {
+                if (own && line >= own.first && line <= own.last) {
+                    return;
+                }
+                const start = findExpressionStart(text);
+                if (start !== undefined && pattern.test(text.slice(start))) {
+                    dependents.push({ label: describeLine(lines, line), filePath, lineNumber: line + 1 });
+                }
+            });
+        }
+
+        return dependents;
+    }
+}
+
+/**
+ * Gets the file and 1-based line that declare an object.
+ * @param object - The object.
+ * @returns The declaration, or undefined if its line is not known.
+ */
+export function getDeclarationLine(object: ModelObject): { file: string; lineNumber: number } | undefined {
+    let lineNumber: number | undefined;
+    let file: string;
+    switch (object.kind) {
+        case 'table': [file, lineNumber] = [object.table.file, object.table.lineNumber]; break;
+        case 'column': [file, lineNumber] = [object.table.file, object.column.lineNumber]; break;
+        case 'measure': [file, lineNumber] = [object.table.file, object.measure.lineNumber]; break;
+        case 'partition': [file, lineNumber] = [object.table.file, object.partition.lineNumber]; break;
+        case 'relationship': [file, lineNumber] = [object.relationship.file, object.relationship.lineNumber]; break;
+        case 'expression': [file, lineNumber] = [object.expression.file, object.expression.lineNumber]; break;
+    }
+    return lineNumber !== undefined ? { file, lineNumber } : undefined;
+}
+
+/**
+ * Describes an object for confirmation lists, e.g. `measure 'Sales'[Total]`.
+ * @param object - The object.
+ * @returns The description.
+ */
+export function describeObject(object: ModelObject): string {
+    switch (object.kind) {
+        case 'table': return `table '${object.table.name}'`;
+        case 'column':
+        case 'measure': return `${object.kind} '${object.table.name}'[${getName(object)}]`;
+        case 'partition': return `partition '${object.partition.name}' of '${object.table.name}'`;
+        case 'relationship': {
+            const r = object.relationship;
+            return `relationship '${r.fromTable}'[${r.fromColumn}] → '${r.toTable}'[${r.toColumn}]`;
+        }
+        case 'expression': return `expression '${object.expression.name}'`;
+    }
+}
+
+/**
+ * Finds the measure or calculated column of a table whose block contains a line.
+ * @param table - The table declared in the file.
+ * @param lines - The file's lines.
+ * @param line - The zero-based line.
+ * @returns The enclosing object, or undefined if the line is outside every measure and column.
+ */
+function findEnclosingObject(table: TableNode, lines: string[], line: number): ResolvedObject | undefined {
+    const contains = (lineNumber?: number) =>
+        lineNumber !== undefined && line >= lineNumber - 1 && line <= TmdlText.blockEnd(lines, lineNumber - 1);
+
+    const measure = table.measures.find(m => contains(m.lineNumber));
+    if (measure) {
+        return { kind: 'measure', table, measure };
+    }
+    const column = table.columns.find(c => contains(c.lineNumber));
+    return column ? { kind: 'column', table, column } : undefined;
+}
+
+/**
+ * Describes a line by the declaration that holds it, e.g. `partition Sales` for a line of its query.
+ * @param lines - The file's lines.
+ * @param line - The zero-based line.
+ * @returns The declaration text, without its expression.
+ */
+function describeLine(lines: string[], line: number): string {
+    let indent = Number.MAX_SAFE_INTEGER;
+    for (let previous = line; previous >= 0; previous--) {
+        const text = lines[previous];
+        if (!text.trim() || TmdlText.indentOf(text) >= indent) {
+            continue;
+        }
+        indent = TmdlText.indentOf(text);
+        if (DESCRIBED_DECLARATION.test(text)) {
+            return text.trim().split(/\s*=/)[0];
+        }
+    }
+    return lines[line].trim();
+}
+
+function objectKey(object: ModelObject): string {
+    switch (object.kind) {
+        case 'table': return `table:${object.table.name}`;
+        case 'column': return `column:${object.table.name}:${object.column.name}`;
+        case 'measure': return `measure:${object.table.name}:${object.measure.name}`;
+        case 'partition': return `partition:${object.table.name}:${object.partition.name}`;
+        case 'relationship': return `relationship:${object.relationship.id}`;
+        case 'expression': return `expression:${object.expression.name}`;
+    }
+}
+
+function same(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,208 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { MeasureNode, ModelStructure, TableNode } from '../views/explorer/ModelTreeItem';
+import { findAllReferences, listTmdlFiles } from '../providers/TmdlReferences';
+import { ModelRename, quoteTmdlName, renameTablePart, unquoteTmdlName } from './ModelRename';
+import { TmdlFileEdit, TmdlWorkspaceEdit } from './TmdlFileEdit';
+import { TmdlText } from './TmdlText';
+
+/**
+ * A measure and the table it belongs to.
+ */
+export interface MeasureTarget {
+    kind: 'measure';
+    table: TableNode;
+    measure: MeasureNode;
+}
+
+/**
+ * Builds the edits that move a measure to another table.
+ * Measure names are unique in a model, so unqualified `[Measure]` references keep working;
+ * qualified `'Table'[Measure]` references are pointed at the new table.
+ */
+export class ModelMove {
+    /**
+     * Checks whether a measure can be moved to a table.
+     * @param target - The measure.
+     * @param destination - The table to move it to.
+     * @returns An error message, or undefined if the measure can be moved.
+     */
+    static validate(target: MeasureTarget, destination: TableNode): string | undefined {
+        if (destination === target.table) {
+            return `Measure '${target.measure.name}' is already in table '${destination.name}'.`;
+        }
+        if (destination.columns.some(c => c.name.toLowerCase() === target.measure.name.toLowerCase())) {
+            return `Table '${destination.name}' already has a column named '${target.measure.name}'.`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Builds one workspace edit that moves a measure's block, with its description, into another
+     * table file, and moves its translations and perspective entries to the other table's entries.
+     * @param target - The measure.
+     * @param destination - The table to move it to.
+     * @param model - The model structure.
+     * @param definitionFolder - The folder holding the model's TMDL files.
+     * @returns The edit.
+     */
+    static async buildEdit(
+        target: MeasureTarget,
+        destination: TableNode,
+        model: ModelStructure,
+        definitionFolder: string
+    ): Promise<vscode.WorkspaceEdit> {
+        const changes = new TmdlWorkspaceEdit();
+
+        // Point qualified references at the new table first, so they are also updated inside the moved block
+        for (const match of await findAllReferences(target, model, definitionFolder)) {
+            if (match.reference.table !== undefined) {
+                const [start, end, text] = renameTablePart(match.reference, destination.name);
+                (await changes.file(match.uri.fsPath)).replace(match.range.start.line, start, end, text);
+            }
+        }
+
+        const sourcePath = path.join(definitionFolder, target.table.file);
+        for (const filePath of await listTmdlFiles(definitionFolder)) {
+            const file = await changes.file(filePath);
+            const declarations = ModelRename.findNames(file.lines, target)
+                .filter(token => token.kind === 'declaration' && token.parent !== undefined);
+
+            for (const token of declarations) {
+                const block = takeBlock(file, token.line);
+                const keyword = declarationKeyword(file.lines[token.line]);
+
+                if (filePath === sourcePath && token.parent === findTableLine(file.lines, target.table)) {
+                    const destinationFile = await changes.file(path.join(definitionFolder, destination.file));
+                    const tableLine = findTableLine(destinationFile.lines, destination);
+                    if (tableLine < 0) {
+                        throw new Error(`Could not find the declaration of table '${destination.name}' in ${destination.file}.`);
+                    }
+                    insertChild(destinationFile, tableLine, keyword, block);
+                } else {
+                    moveEntry(file, token.parent!, keyword, block, destination.name);
+                }
+            }
+        }
+
+        return changes.toWorkspaceEdit();
+    }
+}
+
+/**
+ * Removes an object's block from a file and returns its text.
+ * @param file - The file's changes.
+ * @param start - The declaration line.
+ * @returns The block's lines with the file's replacements applied, starting with its description.
+ */
+function takeBlock(file: TmdlFileEdit, start: number): string[] {
+    let first = start;
+    while (first > 0 && file.lines[first - 1].trim().startsWith('///')) {
+        first--;
+    }
+
+    const block: string[] = [];
+    for (let line = first; line <= TmdlText.blockEnd(file.lines, start); line++) {
+        block.push(file.current(line));
+    }
+    file.removeBlock(start);
+
+    // Store the lines without the declaration's indentation; insertChild adds the new one
+    const indent = TmdlText.indentOf(file.lines[start]);
+    return block.map(line => line.slice(Math.min(TmdlText.indentOf(line), indent)));
+}
+
+/**
+ * Moves a translation or perspective entry to the entry for another table next to its parent,
+ * adding that table entry when there is none.
+ * @param file - The file's changes.
+ * @param parent - The line of the table entry holding the block.
+ * @param keyword - The block's keyword.
+ * @param block - The block's lines, without indentation.
+ * @param tableName - The destination table.
+ */
+function moveEntry(file: TmdlFileEdit, parent: number, keyword: string, block: string[], tableName: string): void {
+    const lines = file.lines;
+    const parentKeyword = declarationKeyword(lines[parent]);
+    const sibling = findSibling(lines, parent, parentKeyword, tableName);
+    if (sibling !== undefined) {
+        insertChild(file, sibling, keyword, block);
+        return;
+    }
+
+    const indent = lines[parent].slice(0, TmdlText.indentOf(lines[parent]));
+    const unit = TmdlText.indentUnit(lines);
+    file.insertBefore(TmdlText.blockEnd(lines, parent) + 1, [
+        '',
+        `${indent}${parentKeyword} ${quoteTmdlName(tableName)}`,
+        ...indentBlock(block, indent + unit)
+    ]);
+}
+
+/**
+ * Inserts a block below a parent declaration, after the last object of its kind.
+ * @param file - The file's changes.
+ * @param parent - The parent declaration line.
+ * @param keyword - The block's keyword.
+ * @param block - The block's lines, without indentation.
+ */
+function insertChild(file: TmdlFileEdit, parent: number, keyword: string, block: string[]): void {
+    const lines = file.lines;
+    const indented = indentBlock(block, lines[parent].slice(0, TmdlText.indentOf(lines[parent])) + TmdlText.indentUnit(lines));
+    const target = TmdlText.childInsertion(lines, parent, keyword);
+
+    if (target && !target.before) {
+        file.insertBefore(target.line + 1, ['', ...indented]);
+    } else if (target) {
+        file.insertBefore(target.line, [...indented, '']);
+    } else {
+        file.insertBefore(TmdlText.blockEnd(lines, parent) + 1, ['', ...indented]);
+    }
+}
+
+/**
+ * Finds the entry for a table next to another table entry, within the same culture, perspective or role.
+ * @param lines - The file's lines.
+ * @param entry - The line of the existing table entry.
+ * @param keyword - The entry keyword, e.g. `perspectiveTable`.
+ * @param tableName - The table to find the entry for.
+ * @returns The entry line, or undefined if there is none.
+ */
+function findSibling(lines: string[], entry: number, keyword: string, tableName: string): number | undefined {
+    const indent = TmdlText.indentOf(lines[entry]);
+    let container = entry - 1;
+    while (container >= 0 && (!lines[container].trim() || TmdlText.indentOf(lines[container]) >= indent)) {
+        container--;
+    }
+
+    const first = container + 1;
+    const last = container >= 0 ? TmdlText.blockEnd(lines, container) : lines.length - 1;
+    const pattern = new RegExp(`^\\s*${keyword}\\s+('(?:[^']|'')*'|\\S+)\\s*$`);
+
+    for (let line = first; line <= last; line++) {
+        const match = pattern.exec(lines[line]);
+        if (match && TmdlText.indentOf(lines[line]) === indent &&
+            unquoteTmdlName(match[1]).toLowerCase() === tableName.toLowerCase()) {
+            return line;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Finds the declaration line of a table in its file.
+ * @param lines - The table file's lines.
+ * @param table - The table.
+ * @returns The zero-based line, or -1 if it is not found.
+ */
+function findTableLine(lines: string[], table: TableNode): number {
+    return table.lineNumber ? table.lineNumber - 1 : lines.findIndex(line => /^table\s/.test(line));
+}
+
+function indentBlock(block: string[], indent: string): string[] {
+    return block.map(line => line.trim() ? indent + line : '');
+}
+
+function declarationKeyword(line: string): string {
+    return /^\s*([A-Za-z]+)/.exec(line)![1];
+}
@@ -0,0 +1,275 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModelStructure } from '../views/explorer/ModelTreeItem';
+import { DaxReference } from '../dax/DaxReferenceParser';
+import { ResolvedObject } from '../dax/DaxReferenceResolver';
+import { findAllReferences, listTmdlFiles, readDocument } from '../providers/TmdlReferences';
+
+// Declarations that name a table, or a column or measure of the enclosing table, in any model file
+const TABLE_KEYWORDS = new Set(['table', 'perspectiveTable', 'tablePermission']);
+const COLUMN_KEYWORDS = new Set(['column', 'perspectiveColumn', 'columnPermission']);
+const MEASURE_KEYWORDS = new Set(['measure', 'perspectiveMeasure']);
+
+const TMDL_NAME = `('(?:[^']|'')*'|[^\\s'.=:]+)`;
+
+// `[ref ]keyword Name`, e.g. `column 'Sales Amount'` or `ref table Sales`
+const DECLARATION_PATTERN = new RegExp(`^(\\s*)((?:ref\\s+)?([A-Za-z]+)\\s+)${TMDL_NAME}`);
+
+// `column: Name` in hierarchy levels and `sortByColumn: Name`
+const COLUMN_PROPERTY_PATTERN = new RegExp(`^(\\s*(?:column|sortByColumn)\\s*:\\s*)${TMDL_NAME}\\s*$`);
+
+// `fromColumn: Table.Column` and `toColumn: Table.Column` in relationships
+const ENDPOINT_PATTERN = new RegExp(`^(\\s*(?:fromColumn|toColumn)\\s*:\\s*)${TMDL_NAME}\\.${TMDL_NAME}\\s*$`);
+
+const INVALID_FILE_CHARS = /[<>:"/\\|?*]/;
+
+/**
+ * A TMDL name token that names a model object.
+ */
+export interface NameToken {
+    line: number;
+    start: number;
+    end: number;
+    /** Whether the token declares the object, or refers to it from a property or relationship endpoint. */
+    kind: 'declaration' | 'property' | 'endpoint';
+    /** The line of the enclosing table, perspective table or table permission, if any. */
+    parent?: number;
+}
+
+/**
+ * Declaration found while walking a file, used to find the table that encloses a nested line.
+ */
+interface OpenDeclaration {
+    line: number;
+    indent: number;
+    keyword: string;
+    name: string;
+}
+
+/**
+ * Builds the edits that rename a table, column or measure across a model's TMDL files.
+ */
+export class ModelRename {
+    /**
+     * Checks a new name against the objects it would clash with.
+     * @param target - The object being renamed.
+     * @param newName - The new name.
+     * @param model - The model structure.
+     * @returns An error message, or undefined if the name can be used.
+     */
+    static validate(target: ResolvedObject, newName: string, model: ModelStructure): string | undefined {
+        if (!newName.trim()) {
+            return 'The name cannot be empty.';
+        }
+        if (newName !== newName.trim()) {
+            return 'The name cannot start or end with whitespace.';
+        }
+
+        const clash = (name: string) => name.toLowerCase() === newName.toLowerCase();
+        switch (target.kind) {
+            case 'table':
+                if (model.tables.some(t => t !== target.table && clash(t.name))) {
+                    return `A table named '${newName}' already exists.`;
+                }
+                break;
+            case 'column':
+                if (target.table.columns.some(c => c !== target.column && clash(c.name)) ||
+                    target.table.measures.some(m => clash(m.name))) {
+                    return `Table '${target.table.name}' already has a column or measure named '${newName}'.`;
+                }
+                break;
+            case 'measure':
+                if (model.tables.some(t => t.measures.some(m => m !== target.measure && clash(m.name))) ||
+                    target.table.columns.some(c => clash(c.name))) {
+                    return `A measure or column named '${newName}' already exists.`;
+                }
+                break;
+        }
+        return undefined;
+    }
+
+    /**
+     * Builds one workspace edit that renames an object's declaration, every DAX reference to it,
+     * relationship endpoints, translations, perspectives and roles, and for tables the table file.
+     * @param target - The object being renamed.
+     * @param newName - The new name.
+     * @param model - The model structure.
+     * @param definitionFolder - The folder holding the model's TMDL files.
+     * @param needsConfirmation - Whether VS Code shows the refactor preview before applying the edit.
+     * @returns The edit.
+     */
+    static async buildEdit(
+        target: ResolvedObject,
+        newName: string,
+        model: ModelStructure,
+        definitionFolder: string,
+        needsConfirmation = false
+    ): Promise<vscode.WorkspaceEdit> {
+        const edit = new vscode.WorkspaceEdit();
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            label: `Rename ${target.kind} '${getName(target)}' to '${newName}'`,
+            needsConfirmation
+        };
+
+        for (const match of await findAllReferences(target, model, definitionFolder)) {
+            const line = match.range.start.line;
+            const [start, end, text] = renameReference(match.reference, target, newName);
+            edit.replace(match.uri, new vscode.Range(line, start, line, end), text, metadata);
+        }
+
+        for (const filePath of await listTmdlFiles(definitionFolder)) {
+            const uri = vscode.Uri.file(filePath);
+            const lines = (await readDocument(uri)).split(/\r?\n/);
+            ModelRename.findNames(lines, target).forEach(({ line, start, end }) => {
+                edit.replace(uri, new vscode.Range(line, start, line, end), quoteTmdlName(newName), metadata);
+            });
+        }
+
+        if (target.kind === 'table') {
+            const oldPath = path.join(definitionFolder, target.table.file);
+            const baseName = path.basename(oldPath, '.tmdl');
+            const newPath = path.join(path.dirname(oldPath), `${newName}.tmdl`);
+
+            if (baseName.toLowerCase() === target.table.name.toLowerCase() &&
+                !INVALID_FILE_CHARS.test(newName) &&
+                !fs.existsSync(newPath)) {
+                edit.renameFile(vscode.Uri.file(oldPath), vscode.Uri.file(newPath), undefined, metadata);
+            }
+        }
+
+        return edit;
+    }
+
+    /**
+     * Finds the TMDL name tokens in a file that name the object: declarations, relationship endpoints,
+     * `column:` and `sortByColumn:` properties, and entries in cultures, perspectives and roles.
+     * @param lines - The file's lines.
+     * @param target - The object being renamed.
+     * @returns The name tokens.
+     */
+    static findNames(lines: string[], target: ResolvedObject): NameToken[] {
+        const ranges: NameToken[] = [];
+        const stack: OpenDeclaration[] = [];
+        const targetTable = target.table.name.toLowerCase();
+        const targetName = getName(target).toLowerCase();
+
+        const enclosing = () => [...stack].reverse().find(d => TABLE_KEYWORDS.has(d.keyword));
+        const enclosingTable = () => enclosing()?.name.toLowerCase();
+
+        lines.forEach((text, line) => {
+            const trimmed = text.trim();
+            if (!trimmed || trimmed.startsWith('//')) {
+                return;
+            }
+
+            const indent = text.length - text.trimStart().length;
+            while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+                stack.pop();
+            }
+
+            const declaration = DECLARATION_PATTERN.exec(text);
+            if (declaration) {
+                const keyword = declaration[3];
+                const name = unquoteTmdlName(declaration[4]);
+                const start = declaration[1].length + declaration[2].length;
+                const range: NameToken = { line, start, end: start + declaration[4].length, kind: 'declaration', parent: enclosing()?.line };
+                const lower = name.toLowerCase();
+
+                if (target.kind === 'table' && TABLE_KEYWORDS.has(keyword) && lower === targetTable) {
+                    ranges.push(range);
+                } else if (target.kind === 'column' && COLUMN_KEYWORDS.has(keyword) &&
+                    lower === targetName && enclosingTable() === targetTable) {
+                    ranges.push(range);
+                } else if (target.kind === 'measure' && MEASURE_KEYWORDS.has(keyword) &&
+                    lower === targetName && enclosingTable() === targetTable) {
+                    ranges.push(range);
+                }
+
+                stack.push({ line, indent, keyword, name });
+                return;
+            }
+
+            const property = COLUMN_PROPERTY_PATTERN.exec(text);
+            if (property && target.kind === 'column' &&
+                unquoteTmdlName(property[2]).toLowerCase() === targetName && enclosingTable() === targetTable) {
+                ranges.push({ line, start: property[1].length, end: property[1].length + property[2].length, kind: 'property', parent: enclosing()?.line });
+                return;
+            }
+
+            const endpoint = ENDPOINT_PATTERN.exec(text);
+            if (endpoint && unquoteTmdlName(endpoint[2]).toLowerCase() === targetTable) {
+                const tableStart = endpoint[1].length;
+                if (target.kind === 'table') {
+                    ranges.push({ line, start: tableStart, end: tableStart + endpoint[2].length, kind: 'endpoint' });
+                } else if (target.kind === 'column' && unquoteTmdlName(endpoint[3]).toLowerCase() === targetName) {
+                    const columnStart = tableStart + endpoint[2].length + 1;
+                    ranges.push({ line, start: columnStart, end: columnStart + endpoint[3].length, kind: 'endpoint' });
+                }
+            }
+        });
+
+        return ranges;
+    }
+}
+
+/**
+ * Gets the current name of a resolved object.
+ * @param target - The resolved object.
+ * @returns The table, column or measure name.
+ */
+export function getName(target: ResolvedObject): string {
+    switch (target.kind) {
+        case 'table': return target.table.name;
+        case 'column': return target.column.name;
+        case 'measure': return target.measure.name;
+    }
+}
+
+/**
+ * Quotes a name for TMDL when it is not a plain identifier.
+ * @param name - The object name.
+ * @returns The name as written in TMDL.
+ */
+export function quoteTmdlName(name: string): string {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `'${name.replace(/'/g, '\'\'')}'`;
+}
+
+/**
+ * Removes TMDL quoting from a name token.
+ * @param token - The name as written in TMDL.
+ * @returns The object name.
+ */
+export function unquoteTmdlName(token: string): string {
+    return token.startsWith('\'') ? token.slice(1, -1).replace(/''/g, '\'') : token;
+}
+
+/**
+ * Computes the replacement for one DAX reference.
+ * @param reference - The reference, with offsets relative to its line.
+ * @param target - The object being renamed.
+ * @param newName - The new name.
+ * @returns The start and end offset on the line and the replacement text.
+ */
+function renameReference(reference: DaxReference, target: ResolvedObject, newName: string): [number, number, string] {
+    if (target.kind !== 'table') {
+        const nameRange = reference.nameRange!;
+        return [nameRange.start, nameRange.end, newName.replace(/]/g, ']]')];
+    }
+    return renameTablePart(reference, newName);
+}
+
+/**
+ * Computes the replacement for the table part of a DAX reference, such as `'Sales'` in `'Sales'[Amount]`.
+ * The table name keeps its quoting style unless the new name needs quotes.
+ * @param reference - The reference, with offsets relative to its line.
+ * @param newName - The new table name.
+ * @returns The start and end offset on the line and the replacement text.
+ */
+export function renameTablePart(reference: DaxReference, newName: string): [number, number, string] {
+    const tableRange = reference.tableRange!;
+    const wasQuoted = tableRange.start > reference.range.start;
+    const end = wasQuoted ? tableRange.end + 1 : tableRange.end;
+    const needsQuotes = wasQuoted || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(newName);
+    return [reference.range.start, end, needsQuotes ? `'${newName.replace(/'/g, '\'\'')}'` : newName];
+}
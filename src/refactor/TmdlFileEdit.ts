@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { readDocument } from '../providers/TmdlReferences';
+import { TmdlText } from './TmdlText';
+
+/**
+ * Line-level changes to one TMDL file, recorded against the file's original line numbers.
+ * Removals, insertions and replacements may touch neighbouring or overlapping lines; they are
+ * combined into one replacement of the whole file when the edit is built.
+ */
+export class TmdlFileEdit {
+    /** The file's original lines. */
+    readonly lines: string[];
+    private readonly eol: string;
+    private readonly removed = new Set<number>();
+    private readonly inserted = new Map<number, string[]>();
+    private readonly replaced = new Map<number, [number, number, string][]>();
+
+    /**
+     * @param uri - The file URI.
+     * @param text - The file's current text.
+     */
+    constructor(readonly uri: vscode.Uri, text: string) {
+        this.lines = TmdlText.lines(text);
+        this.eol = text.includes('\r\n') ? '\r\n' : '\n';
+    }
+
+    /**
+     * Removes an object's block with its description and one blank separator line.
+     * @param start - The declaration line.
+     */
+    removeBlock(start: number): void {
+        const { first, last } = TmdlText.blockRemovalRange(this.lines, start);
+        for (let line = first; line <= last; line++) {
+            this.removed.add(line);
+        }
+    }
+
+    /**
+     * Inserts lines before an original line. Lines inserted at the same place keep their order.
+     * @param line - The original line to insert before; the line count appends to the file.
+     * @param lines - The lines to insert.
+     */
+    insertBefore(line: number, lines: string[]): void {
+        this.inserted.set(line, [...(this.inserted.get(line) ?? []), ...lines]);
+    }
+
+    /**
+     * Replaces text on an original line.
+     * @param line - The line.
+     * @param start - The start offset.
+     * @param end - The end offset.
+     * @param text - The replacement text.
+     */
+    replace(line: number, start: number, end: number, text: string): void {
+        this.replaced.set(line, [...(this.replaced.get(line) ?? []), [start, end, text]]);
+    }
+
+    /**
+     * Gets a line with its replacements applied.
+     * @param line - The original line.
+     * @returns The line text.
+     */
+    current(line: number): string {
+        const replacements = [...(this.replaced.get(line) ?? [])].sort((a, b) => b[0] - a[0]);
+        return replacements.reduce((text, [start, end, value]) => text.slice(0, start) + value + text.slice(end), this.lines[line]);
+    }
+
+    /**
+     * Checks whether any change was recorded.
+     * @returns True if the file changes.
+     */
+    hasChanges(): boolean {
+        return this.removed.size > 0 || this.inserted.size > 0 || this.replaced.size > 0;
+    }
+
+    /**
+     * Adds the file's new text to a workspace edit.
+     * @param edit - The workspace edit.
+     * @param metadata - The edit metadata shown in the refactor preview, if any.
+     */
+    addTo(edit: vscode.WorkspaceEdit, metadata?: vscode.WorkspaceEditEntryMetadata): void {
+        const result: string[] = [];
+        for (let line = 0; line <= this.lines.length; line++) {
+            result.push(...(this.inserted.get(line) ?? []));
+            if (line < this.lines.length && !this.removed.has(line)) {
+                result.push(this.current(line));
+            }
+        }
+
+        const last = this.lines.length - 1;
+        const range = new vscode.Range(0, 0, last, this.lines[last].length);
+        edit.replace(this.uri, range, result.join(this.eol), metadata);
+    }
+}
+
+/**
+ * Line-level changes to several TMDL files, opened as they are first needed.
+ */
+export class TmdlWorkspaceEdit {
+    private readonly files = new Map<string, TmdlFileEdit>();
+
+    /**
+     * Gets the changes to a file, reading it on first use.
+     * Open documents are read from the editor so unsaved changes are kept.
+     * @param filePath - The file path.
+     * @returns The file's changes.
+     */
+    async file(filePath: string): Promise<TmdlFileEdit> {
+        let file = this.files.get(filePath);
+        if (!file) {
+            const uri = vscode.Uri.file(filePath);
+            file = new TmdlFileEdit(uri, await readDocument(uri));
+            this.files.set(filePath, file);
+        }
+        return file;
+    }
+
+    /**
+     * Builds one workspace edit with a whole-file replacement for every changed file.
+     * @param metadata - The edit metadata shown in the refactor preview, if any.
+     * @returns The edit.
+     */
+    toWorkspaceEdit(metadata?: vscode.WorkspaceEditEntryMetadata): vscode.WorkspaceEdit {
+        const edit = new vscode.WorkspaceEdit();
+        for (const file of this.files.values()) {
+            if (file.hasChanges()) {
+                file.addTo(edit, metadata);
+            }
+        }
+        return edit;
+    }
+}
@@ -0,0 +1,152 @@
+const TABLE_CHILDREN = ['measure', 'column', 'hierarchy', 'partition', 'calculationGroup'];
+
+/**
+ * Utility class for reading the indentation-based block structure of TMDL text.
+ * Line numbers are zero-based.
+ */
+export class TmdlText {
+    /**
+     * Splits file text into lines.
+     * @param text - The file text.
+     * @returns The lines, without line terminators.
+     */
+    static lines(text: string): string[] {
+        return text.split(/\r?\n/);
+    }
+
+    /**
+     * Gets the indentation width of a line.
+     * @param line - The line text.
+     * @returns The number of leading whitespace characters.
+     */
+    static indentOf(line: string): number {
+        return line.length - line.trimStart().length;
+    }
+
+    /**
+     * Detects the indentation unit a file uses. TMDL is written with tabs by default.
+     * @param lines - The file's lines.
+     * @returns The whitespace of one indentation level.
+     */
+    static indentUnit(lines: string[]): string {
+        const indented = lines.find(line => /^\s+\S/.test(line));
+        if (!indented || indented.startsWith('\t')) {
+            return '\t';
+        }
+        return ' '.repeat(TmdlText.indentOf(indented));
+    }
+
+    /**
+     * Finds the last line of the object declared on a line: its properties, nested objects and
+     * multi-line expression. Trailing blank lines are not part of the block.
+     * @param lines - The file's lines.
+     * @param start - The declaration line.
+     * @returns The last line of the block.
+     */
+    static blockEnd(lines: string[], start: number): number {
+        const indent = TmdlText.indentOf(lines[start]);
+        let end = start;
+        let inFence = /```\s*$/.test(lines[start]);
+
+        for (let line = start + 1; line < lines.length; line++) {
+            const text = lines[line];
+            if (inFence) {
+                end = line;
+                inFence = !/^\s*```\s*$/.test(text);
+                continue;
+            }
+            if (!text.trim()) {
+                continue;
+            }
+            if (TmdlText.indentOf(text) <= indent) {
+                break;
+            }
+            end = line;
+            if (/```\s*$/.test(text)) {
+                inFence = true;
+            }
+        }
+
+        return end;
+    }
+
+    /**
+     * Finds the lines to remove to delete a block, including its `///` description and one
+     * blank separator line so the surrounding objects stay evenly spaced.
+     * @param lines - The file's lines.
+     * @param start - The declaration line.
+     * @returns The first and last line to remove.
+     */
+    static blockRemovalRange(lines: string[], start: number): { first: number; last: number } {
+        let first = start;
+        while (first > 0 && lines[first - 1].trim().startsWith('///')) {
+            first--;
+        }
+
+        // The empty line after a final line break is not a separator
+        let last = TmdlText.blockEnd(lines, start);
+        if (last + 2 < lines.length && !lines[last + 1].trim()) {
+            last++;
+        } else if (first > 0 && !lines[first - 1].trim()) {
+            first--;
+        }
+
+        return { first, last };
+    }
+
+    /**
+     * Finds the declarations directly below a parent declaration.
+     * @param lines - The file's lines.
+     * @param parent - The parent declaration line.
+     * @param keyword - The child keyword, e.g. `measure`.
+     * @returns The child declaration lines.
+     */
+    static children(lines: string[], parent: number, keyword: string): number[] {
+        const end = TmdlText.blockEnd(lines, parent);
+        const pattern = new RegExp(`^\\s*${keyword}\\s`);
+        const childIndent = TmdlText.childIndent(lines, parent);
+        const result: number[] = [];
+
+        for (let line = parent + 1; line <= end; line++) {
+            if (TmdlText.indentOf(lines[line]) === childIndent && pattern.test(lines[line])) {
+                result.push(line);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Finds where a new child object goes in a table: after the last one of its kind, otherwise
+     * before the first nested object so it stays below the table's own properties.
+     * @param lines - The file's lines.
+     * @param parent - The table declaration line.
+     * @param keyword - The child keyword, e.g. `measure`.
+     * @returns The line to insert after or before, or undefined to append at the end of the file.
+     */
+    static childInsertion(lines: string[], parent: number, keyword: string): { line: number; before: boolean } | undefined {
+        const siblings = TmdlText.children(lines, parent, keyword);
+        if (siblings.length > 0) {
+            return { line: TmdlText.blockEnd(lines, siblings[siblings.length - 1]), before: false };
+        }
+
+        const firstChild = TABLE_CHILDREN
+            .flatMap(k => TmdlText.children(lines, parent, k))
+            .sort((a, b) => a - b)[0];
+        return firstChild !== undefined ? { line: firstChild, before: true } : undefined;
+    }
+
+    /**
+     * Gets the indentation width of the objects nested in a declaration.
+     * @param lines - The file's lines.
+     * @param parent - The parent declaration line.
+     * @returns The indentation width of its first nested line, or one level deeper than the parent.
+     */
+    static childIndent(lines: string[], parent: number): number {
+        const next = lines.slice(parent + 1).find(line => line.trim());
+        const parentIndent = TmdlText.indentOf(lines[parent]);
+        return next && TmdlText.indentOf(next) > parentIndent
+            ? TmdlText.indentOf(next)
+            : parentIndent + TmdlText.indentUnit(lines).length;
+    }
+}
@@ -1,23 +1,63 @@
 import * as vscode from 'vscode';
-import * as https from 'https';
-import { PublicClientApplication, DeviceCodeRequest, SilentFlowRequest, AuthenticationResult } from '@azure/msal-node';
+import * as crypto from 'crypto';
+import { PublicClientApplication, ConfidentialClientApplication, DeviceCodeRequest, AuthenticationResult } from '@azure/msal-node';
 import {
+    AccountBinding,
     AuthMode,
     AuthResult,
     ServicePrincipalCredentials,
+    ServicePrincipalProfile,
+    SignInFlow,
+    StoredAccount,
     TokenCacheEntry,
-    AUTH_ENV_VARS,
-    MSAL_CONFIG
+    MSAL_CONFIG,
+    getAuthority
 } from '../types/auth';
+import { DeploymentService } from '../deploy/DeploymentService';
+import { Config } from '../config';
+import { SecretStorageCachePlugin } from './SecretStorageCachePlugin';
+import { LoopbackServer } from './LoopbackServer';
+import { FabricService, WorkspaceInfo } from './FabricService';
+
+/**
+ * A service principal profile as stored in SecretStorage, with its secret.
+ */
+interface StoredServicePrincipalProfile extends ServicePrincipalProfile {
+    clientSecret: string;
+}
 
 /**
  * Service for handling authentication with Azure/Power BI.
  * Supports interactive (browser), service principal, and environment variable modes.
+ * It is the one place credentials are prompted for, stored and read.
+ *
+ * Interactive sign-ins are kept in an account store in SecretStorage, keyed by tenant and
+ * username, so several accounts can stay signed in. One of them is the active account used
+ * by default; environments can bind a deploy to another. Service principals are saved as
+ * named profiles in SecretStorage.
+ *
+ * MSAL's token cache, with the refresh tokens, is persisted in SecretStorage too, so tokens
+ * are refreshed silently instead of signing in again when they expire.
  */
-export class AuthService {
-    private msalClient: PublicClientApplication;
+export class AuthService implements vscode.Disposable {
+    private msalClients = new Map<string, PublicClientApplication>();
     private outputChannel: vscode.OutputChannel;
-
+    private cachePlugin: SecretStorageCachePlugin;
+    private accounts: Map<string, StoredAccount> | undefined;
+    /** The last pending change to the saved profiles; each change waits for the one before. */
+    private profileWrites: Promise<void> = Promise.resolve();
+
+    private _onDidChangeAccounts = new vscode.EventEmitter<void>();
+    /** Fires when an account is added, removed or made active. */
+    readonly onDidChangeAccounts = this._onDidChangeAccounts.event;
+
+    private static readonly ACCOUNTS_KEY = 'tmdl-auth-accounts';
+    private static readonly PROFILES_KEY = 'tmdl-auth-service-principals';
+    private static readonly ACTIVE_ACCOUNT_KEY = 'tmdl-auth-active-account';
+    private static readonly VSCODE_PROVIDER = 'microsoft';
+    // Authorities that are not a tenant, so never recorded as an account's tenant domain
+    private static readonly MULTI_TENANT_AUTHORITIES = ['common', 'organizations', 'consumers'];
+    // Single-account cache of earlier versions, moved into the account store on first use
     private static readonly TOKEN_CACHE_KEY = 'tmdl-auth-token-cache';
     private static readonly ACCOUNT_CACHE_KEY = 'tmdl-auth-account';
 
@@ -26,26 +66,23 @@ export class AuthService {
      * @param context - The VS Code extension context.
      */
     constructor(private context: vscode.ExtensionContext) {
-        this.msalClient = new PublicClientApplication({
-            auth: {
-                clientId: MSAL_CONFIG.clientId,
-                authority: MSAL_CONFIG.authority
-            }
-        });
         this.outputChannel = vscode.window.createOutputChannel('TMDL Auth');
+        this.cachePlugin = new SecretStorageCachePlugin(context.secrets, line => this.outputChannel.appendLine(line));
     }
 
     /**
      * Authenticates using the specified mode.
      * @param mode - The authentication mode.
-     * @returns The authentication result with access token.
+     * @param binding - The account or service principal profile to use; the active account or a
+     * picked profile when not given.
+     * @returns The authentication result with access token, or credentials for the CLI.
      */
-    async authenticate(mode: AuthMode): Promise<AuthResult> {
+    async authenticate(mode: AuthMode, binding?: AccountBinding): Promise<AuthResult> {
         switch (mode) {
             case 'interactive':
-                return this.authenticateInteractive();
+                return this.authenticateInteractive(binding);
             case 'service-principal':
-                return this.authenticateServicePrincipal();
+                return this.authenticateServicePrincipal(binding?.servicePrincipal);
             case 'env':
                 return this.authenticateFromEnv();
             default:
@@ -54,19 +91,125 @@ export class AuthService {
     }
 
     /**
-     * Authenticates interactively using device code flow.
-     * Opens browser for user to sign in.
-     * @returns The authentication result.
+     * Gets the signed-in accounts.
+     * @returns The accounts, sorted by username.
+     */
+    async getAccounts(): Promise<StoredAccount[]> {
+        const accounts = await this.loadAccounts();
+        return [...accounts.values()].sort((a, b) => a.account.username.localeCompare(b.account.username));
+    }
+
+    /**
+     * Gets the account used for interactive deploys that are not bound to an account.
+     * @returns The active account, or undefined if no account is signed in.
+     */
+    async getActiveAccount(): Promise<StoredAccount | undefined> {
+        const accounts = await this.loadAccounts();
+        const activeId = this.context.globalState.get<string>(AuthService.ACTIVE_ACCOUNT_KEY);
+        return (activeId ? accounts.get(activeId) : undefined) ?? accounts.values().next().value;
+    }
+
+    /**
+     * Makes a signed-in account the active account.
+     * @param id - The account ID.
+     */
+    async setActiveAccount(id: string): Promise<void> {
+        await this.context.globalState.update(AuthService.ACTIVE_ACCOUNT_KEY, id);
+        this._onDidChangeAccounts.fire();
+    }
+
+    /**
+     * Signs in a new account with the flow chosen in the `auth.signInFlow` setting and adds it
+     * to the account store.
+     * @param tenant - Tenant ID or domain to sign in to; defaults to the `auth.defaultTenant` setting.
+     * @param makeActive - Whether the account becomes the active account.
+     * @returns The signed-in account.
      */
-    private async authenticateInteractive(): Promise<AuthResult> {
-        // Try silent authentication first
-        const cachedToken = await this.getCachedToken();
-        if (cachedToken) {
-            this.outputChannel.appendLine('Using cached token');
-            return cachedToken;
+    async signIn(tenant?: string, makeActive = true): Promise<StoredAccount> {
+        tenant = tenant || Config.getValue<string>('auth.defaultTenant') || MSAL_CONFIG.defaultTenant;
+
+        let account: StoredAccount;
+        switch (Config.getValue<SignInFlow>('auth.signInFlow')) {
+            case 'vscode':
+                account = await this.signInWithVsCode(tenant);
+                break;
+            case 'deviceCode':
+                account = await this.storeAccount(await this.acquireTokenByDeviceCode(tenant));
+                break;
+            default:
+                account = await this.storeAccount(await this.acquireTokenByBrowser(tenant));
+        }
+        account = await this.rememberTenantDomain(account, tenant);
+
+        if (makeActive || !this.context.globalState.get<string>(AuthService.ACTIVE_ACCOUNT_KEY)) {
+            await this.setActiveAccount(account.id);
+        }
+        return account;
+    }
+
+    /**
+     * Signs in with the authorization code flow with PKCE: the system browser opens the sign-in
+     * page and a loopback server catches the redirect. Offers the device code flow when it fails,
+     * e.g. when the browser cannot reach the loopback server in a remote session.
+     * @param tenant - Tenant ID or domain to sign in to.
+     * @returns The MSAL authentication result.
+     */
+    private async acquireTokenByBrowser(tenant: string): Promise<AuthenticationResult> {
+        this.outputChannel.appendLine(`Opening the browser to sign in (tenant: ${tenant})...`);
+        const state = crypto.randomUUID();
+        const loopback = await LoopbackServer.start(state);
+        let cancelled = false;
+        try {
+            const result = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Sign in to Power BI in your browser...',
+                    cancellable: true
+                },
+                (_progress, token) => {
+                    token.onCancellationRequested(() => {
+                        cancelled = true;
+                        loopback.cancel();
+                    });
+                    return this.getMsalClient(tenant).acquireTokenInteractive({
+                        scopes: [...MSAL_CONFIG.scopes],
+                        prompt: 'select_account',
+                        state,
+                        loopbackClient: loopback,
+                        openBrowser: async url => {
+                            await vscode.env.openExternal(vscode.Uri.parse(url));
+                        },
+                        successTemplate: 'Signed in to TMDL Studio. You can close this window and return to VS Code.',
+                        errorTemplate: 'Signing in to TMDL Studio failed. Return to VS Code for details.'
+                    });
+                }
+            );
+            return AuthService.checkResult(result);
+        } catch (error) {
+            this.outputChannel.appendLine(`Browser sign in failed: ${error}`);
+            if (cancelled) {
+                throw new Error('Sign in was cancelled.');
+            }
+
+            const choice = await vscode.window.showWarningMessage(
+                `Browser sign in failed: ${error instanceof Error ? error.message : String(error)}`,
+                'Use Device Code'
+            );
+            if (choice === 'Use Device Code') {
+                return this.acquireTokenByDeviceCode(tenant);
+            }
+            throw new Error(`Failed to authenticate: ${error}`);
+        } finally {
+            loopback.closeServer();
         }
+    }
 
-        // Perform device code flow
+    /**
+     * Signs in with the device code flow: the user enters a code on the device login page.
+     * @param tenant - Tenant ID or domain to sign in to.
+     * @returns The MSAL authentication result.
+     */
+    private async acquireTokenByDeviceCode(tenant: string): Promise<AuthenticationResult> {
         const deviceCodeRequest: DeviceCodeRequest = {
             scopes: [...MSAL_CONFIG.scopes],
             deviceCodeCallback: (response) => {
@@ -92,24 +235,8 @@ export class AuthService {
         };
 
         try {
-            this.outputChannel.appendLine('Initiating device code flow...');
-            const result = await this.msalClient.acquireTokenByDeviceCode(deviceCodeRequest);
-
-            if (!result || !result.accessToken) {
-                throw new Error('Authentication failed - no token received');
-            }
-
-            // Cache the token
-            await this.cacheToken(result);
-
-            return {
-                accessToken: result.accessToken,
-                expiresOn: result.expiresOn || new Date(Date.now() + 3600 * 1000),
-                account: result.account ? {
-                    username: result.account.username,
-                    name: result.account.name || undefined
-                } : undefined
-            };
+            this.outputChannel.appendLine(`Initiating device code flow (tenant: ${tenant})...`);
+            return AuthService.checkResult(await this.getMsalClient(tenant).acquireTokenByDeviceCode(deviceCodeRequest));
         } catch (error) {
             this.outputChannel.appendLine(`Authentication error: ${error}`);
             throw new Error(`Failed to authenticate: ${error}`);
@@ -117,41 +244,181 @@ export class AuthService {
     }
 
     /**
-     * Refreshes the token if needed.
-     * @returns The valid access token, or null if refresh failed.
+     * Signs in through VS Code's built-in Microsoft authentication provider. Offers the browser
+     * flow when the provider cannot issue a Power BI token for this client or tenant.
+     * @param tenant - Tenant ID or domain to sign in to.
+     * @returns The signed-in account.
      */
-    async refreshTokenIfNeeded(): Promise<string | null> {
-        const cachedAccount = await this.context.secrets.get(AuthService.ACCOUNT_CACHE_KEY);
-        if (!cachedAccount) {
-            return null;
+    private async signInWithVsCode(tenant: string): Promise<StoredAccount> {
+        let session: vscode.AuthenticationSession;
+        try {
+            this.outputChannel.appendLine(`Signing in with the VS Code Microsoft account provider (tenant: ${tenant})...`);
+            session = await vscode.authentication.getSession(AuthService.VSCODE_PROVIDER, AuthService.getSessionScopes(tenant), {
+                createIfNone: true,
+                clearSessionPreference: true
+            });
+        } catch (error) {
+            this.outputChannel.appendLine(`VS Code sign in failed: ${error}`);
+            const choice = await vscode.window.showWarningMessage(
+                `VS Code could not sign in to Power BI: ${error instanceof Error ? error.message : String(error)}`,
+                'Sign in with Browser'
+            );
+            if (choice === 'Sign in with Browser') {
+                return this.storeAccount(await this.acquireTokenByBrowser(tenant));
+            }
+            throw new Error(`Failed to authenticate: ${error}`);
         }
+        return this.storeSession(session, tenant);
+    }
 
-        const account = JSON.parse(cachedAccount);
+    /**
+     * Signs an account out and removes it from the account store.
+     * @param id - The account ID.
+     */
+    async signOut(id: string): Promise<void> {
+        const accounts = await this.loadAccounts();
+        const account = accounts.get(id);
+        if (!account) {
+            return;
+        }
 
-        const silentRequest: SilentFlowRequest = {
-            account: account,
-            scopes: [...MSAL_CONFIG.scopes]
-        };
+        accounts.delete(id);
+        await this.saveAccounts();
+        // Sessions of the VS Code provider are signed out in VS Code's Accounts menu
+        if (account.msalAccount) {
+            try {
+                await this.getMsalClient(account.tenantId).getTokenCache().removeAccount(account.msalAccount);
+            } catch (error) {
+                this.outputChannel.appendLine(`Failed to remove ${account.account.username} from the MSAL cache: ${error}`);
+            }
+        }
+
+        if (this.context.globalState.get<string>(AuthService.ACTIVE_ACCOUNT_KEY) === id) {
+            await this.context.globalState.update(AuthService.ACTIVE_ACCOUNT_KEY, undefined);
+        }
+        this.outputChannel.appendLine(`Signed out ${account.account.username}`);
+        this._onDidChangeAccounts.fire();
+    }
+
+    /**
+     * Authenticates interactively with a stored account, refreshing its token when it expires,
+     * or signs in with the device code flow when no matching account is stored.
+     * @param binding - The account to use; the active account when not given.
+     * @returns The authentication result.
+     */
+    private async authenticateInteractive(binding?: AccountBinding): Promise<AuthResult> {
+        const account = binding?.account || binding?.tenantId
+            ? await this.findAccount(binding)
+            : await this.getActiveAccount();
+
+        if (account) {
+            const token = await this.getAccountToken(account);
+            if (token) {
+                return token;
+            }
+        }
+
+        // Sign in; a bound account that is missing or expired is not made the active account
+        const signedIn = await this.signIn(binding?.tenantId ?? account?.tenantId, !binding?.account);
+        if (binding?.account && signedIn.account.username.toLowerCase() !== binding.account.toLowerCase()) {
+            throw new Error(`Signed in as ${signedIn.account.username}, but this deploy requires ${binding.account}.`);
+        }
+        return AuthService.toAuthResult(signedIn);
+    }
+
+    /**
+     * Gets a valid token for a stored account. MSAL returns its cached access token while it is
+     * valid, and otherwise redeems the persisted refresh token; VS Code sessions are refreshed
+     * by VS Code.
+     * @param account - The account.
+     * @returns The auth result, or null if the account has to sign in again.
+     */
+    private async getAccountToken(account: StoredAccount): Promise<AuthResult | null> {
+        if (account.sessionAccountId) {
+            try {
+                const session = await vscode.authentication.getSession(
+                    AuthService.VSCODE_PROVIDER,
+                    AuthService.getSessionScopes(account.tenantId),
+                    { silent: true, account: { id: account.sessionAccountId, label: account.account.username } }
+                );
+                return session ? AuthService.toAuthResult(await this.storeSession(session, account.tenantId)) : null;
+            } catch (error) {
+                this.outputChannel.appendLine(`Getting the VS Code session of ${account.account.username} failed: ${error}`);
+                return null;
+            }
+        }
+        if (!account.msalAccount) {
+            return null;
+        }
 
         try {
-            const result = await this.msalClient.acquireTokenSilent(silentRequest);
-            if (result && result.accessToken) {
-                await this.cacheToken(result);
-                return result.accessToken;
+            const result = await this.getMsalClient(account.tenantId).acquireTokenSilent({
+                account: account.msalAccount,
+                scopes: [...MSAL_CONFIG.scopes]
+            });
+            if (result?.accessToken && result.account) {
+                return AuthService.toAuthResult(await this.storeAccount(result));
             }
         } catch (error) {
-            this.outputChannel.appendLine(`Token refresh failed: ${error}`);
+            this.outputChannel.appendLine(`Token refresh failed for ${account.account.username}: ${error}`);
         }
 
         return null;
     }
 
     /**
-     * Authenticates using service principal credentials from user input.
-     * @returns The authentication result.
+     * Finds the stored account an environment or redeploy is bound to.
+     * @param binding - The username and/or tenant of the account.
+     * @returns The account, or undefined if it is not signed in.
+     */
+    private async findAccount(binding: AccountBinding): Promise<StoredAccount | undefined> {
+        return AuthService.findBoundAccount(await this.getAccounts(), binding, (await this.getActiveAccount())?.id);
+    }
+
+    /**
+     * Picks the account a binding names, preferring the active account when several match.
+     * The binding's tenant may be a tenant GUID or a domain the account was signed in with.
+     * @param accounts - The signed-in accounts.
+     * @param binding - The username and/or tenant of the account.
+     * @param activeId - The ID of the active account, if any.
+     * @returns The account, or undefined if none matches.
+     */
+    static findBoundAccount(accounts: StoredAccount[], binding: AccountBinding, activeId?: string): StoredAccount | undefined {
+        const username = binding.account?.toLowerCase();
+        const tenant = binding.tenantId?.toLowerCase();
+        const matches = accounts.filter(a =>
+            (!username || a.account.username.toLowerCase() === username) &&
+            (!tenant || a.tenantId.toLowerCase() === tenant || (a.tenantDomains ?? []).includes(tenant))
+        );
+        return matches.find(a => a.id === activeId) ?? matches[0];
+    }
+
+    /**
+     * Refreshes the token of an account silently if needed, without prompting to sign in.
+     * @param binding - The account; the active account when not given.
+     * @returns The valid access token, or null if the account is not signed in or refresh failed.
+     */
+    async refreshTokenIfNeeded(binding?: AccountBinding): Promise<string | null> {
+        const account = binding?.account || binding?.tenantId
+            ? await this.findAccount(binding)
+            : await this.getActiveAccount();
+        return account ? (await this.getAccountToken(account))?.accessToken ?? null : null;
+    }
+
+    /**
+     * Authenticates with a saved service principal profile, or with credentials entered once.
+     * The token itself is acquired by the CLI.
+     * @param profile - Name, ID or client ID of the profile to use; picked when not given or not saved.
+     * @returns The authentication result with the credentials.
      */
-    private async authenticateServicePrincipal(): Promise<AuthResult> {
-        const credentials = await this.promptForServicePrincipalCredentials();
+    private async authenticateServicePrincipal(profile?: string): Promise<AuthResult> {
+        const saved = profile ? await this.findProfile(profile) : undefined;
+        const credentials = saved
+            ? await this.getProfileCredentials(saved.id)
+            : await this.pickServicePrincipal(profile);
+        if (!credentials) {
+            throw new Error('Service Principal credentials are required for deployment.');
+        }
 
         // For service principal, we don't do interactive auth
         // Instead, we pass credentials to CLI for server-side auth
@@ -159,23 +426,21 @@ export class AuthService {
             accessToken: '', // Will be obtained by CLI
             expiresOn: new Date(Date.now() + 3600 * 1000),
             account: {
-                username: `Service Principal: ${credentials.clientId}`
-            }
+                username: `Service Principal: ${saved?.name ?? credentials.clientId}`
+            },
+            credentials
         };
     }
 
     /**
      * Authenticates using environment variables.
-     * @returns The authentication result.
+     * @returns The authentication result with the credentials.
      */
     private async authenticateFromEnv(): Promise<AuthResult> {
         const credentials = this.loadCredentialsFromEnv();
 
         if (!credentials) {
-            throw new Error(
-                `Environment variables not found. Required: ${AUTH_ENV_VARS.workspaceUrl}, ` +
-                `${AUTH_ENV_VARS.clientId}, ${AUTH_ENV_VARS.clientSecret}, ${AUTH_ENV_VARS.tenantId}`
-            );
+            throw new Error(DeploymentService.getMissingEnvCredentialsMessage());
         }
 
         return {
@@ -183,54 +448,249 @@ export class AuthService {
             expiresOn: new Date(Date.now() + 3600 * 1000),
             account: {
                 username: `Environment: ${credentials.clientId}`
+            },
+            credentials
+        };
+    }
+
+    /**
+     * Picks a saved service principal profile, or creates one or enters credentials once.
+     * @param missingProfile - The profile a deploy asked for that is not saved, if any.
+     * @returns The credentials, or undefined if cancelled.
+     */
+    private async pickServicePrincipal(missingProfile?: string): Promise<ServicePrincipalCredentials | undefined> {
+        interface ProfileItem extends vscode.QuickPickItem {
+            profile?: ServicePrincipalProfile;
+            action?: 'create' | 'once';
+        }
+
+        const items: ProfileItem[] = (await this.getProfiles()).map(profile => ({
+            label: `$(key) ${profile.name}`,
+            description: `Client ${profile.clientId}`,
+            detail: `Tenant ${profile.tenantId}`,
+            profile
+        }));
+        items.push(
+            { label: '$(add) New service principal profile...', description: 'Save the credentials for later deploys', action: 'create' },
+            { label: '$(edit) Enter credentials once...', description: 'Not saved', action: 'once' }
+        );
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: missingProfile
+                ? `Service principal '${missingProfile}' is not saved; select the credentials to use`
+                : 'Select the service principal to deploy with',
+            ignoreFocusOut: true
+        });
+
+        if (selection?.profile) {
+            return this.getProfileCredentials(selection.profile.id);
+        }
+        if (selection?.action === 'create') {
+            const created = await this.promptForProfile();
+            return created ? this.getProfileCredentials(created.id) : undefined;
+        }
+        if (selection?.action === 'once') {
+            return this.promptForServicePrincipalCredentials();
+        }
+        return undefined;
+    }
+
+    /**
+     * Prompts for the name and credentials of a service principal profile and saves it.
+     * @param existing - The profile to edit; a new profile is created when not given.
+     * @returns The saved profile, or undefined if cancelled.
+     */
+    async promptForProfile(existing?: ServicePrincipalProfile): Promise<ServicePrincipalProfile | undefined> {
+        const profiles = await this.getProfiles();
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name of the service principal profile',
+            placeHolder: 'e.g. Contoso Prod deployer',
+            value: existing?.name,
+            ignoreFocusOut: true,
+            validateInput: value => {
+                if (!value.trim()) {
+                    return 'Name is required';
+                }
+                const duplicate = profiles.find(p => p.id !== existing?.id && p.name.toLowerCase() === value.trim().toLowerCase());
+                return duplicate ? `A profile named '${duplicate.name}' already exists` : null;
             }
+        });
+        if (!name) {
+            return undefined;
+        }
+
+        const credentials = await this.promptForServicePrincipalCredentials(existing);
+        if (!credentials) {
+            return undefined;
+        }
+
+        const profile: ServicePrincipalProfile = {
+            id: existing?.id ?? crypto.randomUUID(),
+            name: name.trim(),
+            clientId: credentials.clientId,
+            tenantId: credentials.tenantId
         };
+        await this.saveProfile(profile, credentials.clientSecret);
+        return profile;
     }
 
     /**
      * Prompts user for service principal credentials.
-     * @returns The service principal credentials.
+     * @param existing - Values to edit; leaving the secret empty keeps the saved one.
+     * @returns The service principal credentials, or undefined if cancelled. When editing, the
+     * secret is empty if it was left unchanged.
      */
-    private async promptForServicePrincipalCredentials(): Promise<ServicePrincipalCredentials> {
+    private async promptForServicePrincipalCredentials(
+        existing?: ServicePrincipalProfile
+    ): Promise<ServicePrincipalCredentials | undefined> {
         const clientId = await vscode.window.showInputBox({
             prompt: 'Enter the Service Principal Client ID',
             placeHolder: 'Client ID',
+            value: existing?.clientId,
             ignoreFocusOut: true
         });
-        if (!clientId) { throw new Error('Client ID is required'); }
+        if (!clientId) { return undefined; }
 
         const clientSecret = await vscode.window.showInputBox({
-            prompt: 'Enter the Service Principal Client Secret',
+            prompt: existing ? 'Enter a new Client Secret, or leave empty to keep the saved one' : 'Enter the Service Principal Client Secret',
             placeHolder: 'Client Secret',
             password: true,
             ignoreFocusOut: true
         });
-        if (!clientSecret) { throw new Error('Client Secret is required'); }
+        if (clientSecret === undefined || (!clientSecret && !existing)) { return undefined; }
 
         const tenantId = await vscode.window.showInputBox({
             prompt: 'Enter the Tenant ID',
             placeHolder: 'Tenant ID',
+            value: existing?.tenantId,
             ignoreFocusOut: true
         });
-        if (!tenantId) { throw new Error('Tenant ID is required'); }
+        if (!tenantId) { return undefined; }
 
-        return { clientId, clientSecret, tenantId };
+        return { clientId: clientId.trim(), clientSecret, tenantId: tenantId.trim() };
     }
 
     /**
-     * Loads service principal credentials from environment variables.
-     * @returns The credentials if all env vars are set, null otherwise.
+     * Gets the saved service principal profiles, without their secrets.
+     * @returns The profiles, sorted by name.
      */
-    loadCredentialsFromEnv(): ServicePrincipalCredentials | null {
-        const clientId = process.env[AUTH_ENV_VARS.clientId];
-        const clientSecret = process.env[AUTH_ENV_VARS.clientSecret];
-        const tenantId = process.env[AUTH_ENV_VARS.tenantId];
+    async getProfiles(): Promise<ServicePrincipalProfile[]> {
+        const profiles = await this.loadProfiles();
+        return profiles
+            .map(({ clientSecret: _secret, ...profile }) => profile)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Finds a saved service principal profile.
+     * @param reference - The profile's ID, name or client ID.
+     * @returns The profile, or undefined if none matches.
+     */
+    async findProfile(reference: string): Promise<ServicePrincipalProfile | undefined> {
+        const value = reference.toLowerCase();
+        const profiles = await this.getProfiles();
+        return profiles.find(p => p.id === reference) ??
+            profiles.find(p => p.name.toLowerCase() === value) ??
+            profiles.find(p => p.clientId.toLowerCase() === value);
+    }
+
+    /**
+     * Gets the credentials of a saved service principal profile.
+     * @param id - The profile ID.
+     * @returns The credentials, or undefined if the profile does not exist.
+     */
+    async getProfileCredentials(id: string): Promise<ServicePrincipalCredentials | undefined> {
+        const profile = (await this.loadProfiles()).find(p => p.id === id);
+        return profile && { clientId: profile.clientId, clientSecret: profile.clientSecret, tenantId: profile.tenantId };
+    }
 
-        if (clientId && clientSecret && tenantId) {
-            return { clientId, clientSecret, tenantId };
+    /**
+     * Adds or updates a service principal profile.
+     * @param profile - The profile.
+     * @param clientSecret - The client secret; empty keeps the saved secret of an existing profile.
+     */
+    async saveProfile(profile: ServicePrincipalProfile, clientSecret: string): Promise<void> {
+        await this.updateProfiles(profiles => {
+            const index = profiles.findIndex(p => p.id === profile.id);
+            const saved = { ...profile, clientSecret: clientSecret || profiles[index]?.clientSecret || '' };
+            if (index >= 0) {
+                profiles[index] = saved;
+            } else {
+                profiles.push(saved);
+            }
+            return profiles;
+        });
+    }
+
+    /**
+     * Deletes a service principal profile and its secret.
+     * @param id - The profile ID.
+     */
+    async deleteProfile(id: string): Promise<void> {
+        await this.updateProfiles(profiles => profiles.filter(p => p.id !== id));
+    }
+
+    /**
+     * Checks a service principal profile by acquiring a token and listing the workspaces it can reach.
+     * @param id - The profile ID.
+     * @returns The reachable workspaces.
+     * @throws Error if the profile is missing, no token could be acquired or the workspaces could not be listed.
+     */
+    async testProfile(id: string): Promise<WorkspaceInfo[]> {
+        const credentials = await this.getProfileCredentials(id);
+        if (!credentials) {
+            throw new Error('The service principal profile no longer exists.');
         }
 
-        return null;
+        const client = new ConfidentialClientApplication({
+            auth: {
+                clientId: credentials.clientId,
+                clientSecret: credentials.clientSecret,
+                authority: getAuthority(credentials.tenantId)
+            }
+        });
+        const result = await client.acquireTokenByClientCredential({ scopes: [...MSAL_CONFIG.scopes] });
+        if (!result?.accessToken) {
+            throw new Error('Authentication failed - no token received');
+        }
+        return FabricService.listWorkspaces(result.accessToken);
+    }
+
+    /**
+     * Reads the saved service principal profiles, with their secrets.
+     * @returns The profiles.
+     */
+    private async loadProfiles(): Promise<StoredServicePrincipalProfile[]> {
+        try {
+            const stored = await this.context.secrets.get(AuthService.PROFILES_KEY);
+            return stored ? JSON.parse(stored) : [];
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to parse service principal profiles: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Reads the saved profiles, changes them and stores them again. Changes run one at a time,
+     * so two edits made at once do not overwrite each other.
+     * @param change - Returns the profiles to store.
+     */
+    private updateProfiles(change: (profiles: StoredServicePrincipalProfile[]) => StoredServicePrincipalProfile[]): Promise<void> {
+        const write = this.profileWrites.then(async () => {
+            const profiles = change(await this.loadProfiles());
+            await this.context.secrets.store(AuthService.PROFILES_KEY, JSON.stringify(profiles));
+        });
+        // A failed change must not hold up the ones after it
+        this.profileWrites = write.catch(() => undefined);
+        return write;
+    }
+
+    /**
+     * Loads service principal credentials from environment variables.
+     * @returns The credentials if all env vars are set, null otherwise.
+     */
+    loadCredentialsFromEnv(): ServicePrincipalCredentials | null {
+        return DeploymentService.loadEnvCredentials();
     }
 
     /**
@@ -238,7 +698,7 @@ export class AuthService {
      * @returns The workspace URL if set, null otherwise.
      */
     getWorkspaceUrlFromEnv(): string | null {
-        return process.env[AUTH_ENV_VARS.workspaceUrl] || null;
+        return DeploymentService.getEnvWorkspaceUrl();
     }
 
     /**
@@ -246,131 +706,217 @@ export class AuthService {
      * @returns True if all required env vars are present.
      */
     hasEnvCredentials(): boolean {
-        return !!(
-            process.env[AUTH_ENV_VARS.workspaceUrl] &&
-            process.env[AUTH_ENV_VARS.clientId] &&
-            process.env[AUTH_ENV_VARS.clientSecret] &&
-            process.env[AUTH_ENV_VARS.tenantId]
-        );
+        return !!(DeploymentService.getEnvWorkspaceUrl() && DeploymentService.loadEnvCredentials());
     }
 
     /**
-     * Caches an authentication token.
-     * @param result - The MSAL authentication result.
+     * Gets the MSAL client for a tenant. Each tenant has its own authority, so its own client.
+     * @param tenant - Tenant ID or domain.
+     * @returns The MSAL client.
      */
-    private async cacheToken(result: AuthenticationResult): Promise<void> {
-        if (!result.account) { return; }
+    private getMsalClient(tenant: string): PublicClientApplication {
+        const key = tenant.toLowerCase();
+        let client = this.msalClients.get(key);
+        if (!client) {
+            client = new PublicClientApplication({
+                auth: {
+                    clientId: MSAL_CONFIG.clientId,
+                    authority: getAuthority(tenant)
+                },
+                cache: {
+                    cachePlugin: this.cachePlugin
+                }
+            });
+            this.msalClients.set(key, client);
+        }
+        return client;
+    }
 
+    /**
+     * Adds or updates an account signed in with MSAL in the account store.
+     * @param result - The MSAL authentication result.
+     * @returns The stored account.
+     */
+    private async storeAccount(result: AuthenticationResult): Promise<StoredAccount> {
+        const msalAccount = result.account!;
         const cacheEntry: TokenCacheEntry = {
             accessToken: result.accessToken,
             expiresOn: result.expiresOn ? result.expiresOn.toISOString() : new Date(Date.now() + 3600 * 1000).toISOString(),
             account: {
-                username: result.account.username,
-                name: result.account.name || undefined
+                username: msalAccount.username,
+                name: msalAccount.name || undefined
             }
         };
+        return this.putAccount({
+            ...cacheEntry,
+            id: `${msalAccount.tenantId}/${msalAccount.username}`.toLowerCase(),
+            tenantId: msalAccount.tenantId,
+            msalAccount
+        });
+    }
+
+    /**
+     * Adds or updates an account signed in through VS Code in the account store.
+     * @param session - The session of VS Code's Microsoft authentication provider.
+     * @param tenant - The tenant signed in to, used when the session does not name one.
+     * @returns The stored account.
+     */
+    private async storeSession(session: vscode.AuthenticationSession, tenant: string): Promise<StoredAccount> {
+        // The provider's account IDs are MSAL home account IDs: `<object ID>.<tenant ID>`
+        const tenantId = session.account.id.split('.')[1] ?? tenant;
+        return this.putAccount({
+            accessToken: session.accessToken,
+            // The session does not expose its expiry; VS Code refreshes it when it is requested
+            expiresOn: new Date(Date.now() + 3600 * 1000).toISOString(),
+            account: { username: session.account.label },
+            id: `${tenantId}/${session.account.label}`.toLowerCase(),
+            tenantId,
+            sessionAccountId: session.account.id
+        });
+    }
 
-        await this.context.secrets.store(AuthService.TOKEN_CACHE_KEY, JSON.stringify(cacheEntry));
-        await this.context.secrets.store(AuthService.ACCOUNT_CACHE_KEY, JSON.stringify(result.account));
+    /**
+     * Records the tenant domain an account was signed in with, so bindings naming the domain find it.
+     * @param account - The signed-in account.
+     * @param tenant - The tenant ID or domain the sign-in asked for.
+     * @returns The stored account.
+     */
+    private async rememberTenantDomain(account: StoredAccount, tenant: string): Promise<StoredAccount> {
+        const domain = tenant.toLowerCase();
+        const domains = account.tenantDomains ?? [];
+        if (domain === account.tenantId.toLowerCase() ||
+            AuthService.MULTI_TENANT_AUTHORITIES.includes(domain) ||
+            domains.includes(domain)) {
+            return account;
+        }
+        return this.putAccount({ ...account, tenantDomains: [...domains, domain] });
+    }
+
+    /**
+     * Adds or updates an account in the account store, keeping the tenant domains it was signed in with.
+     * @param account - The account.
+     * @returns The stored account.
+     */
+    private async putAccount(account: StoredAccount): Promise<StoredAccount> {
+        const accounts = await this.loadAccounts();
+        const existing = accounts.get(account.id);
+        const isNew = !existing;
+        account = { ...account, tenantDomains: account.tenantDomains ?? existing?.tenantDomains };
+        accounts.set(account.id, account);
+        await this.saveAccounts();
+        if (isNew) {
+            this._onDidChangeAccounts.fire();
+        }
+        return account;
     }
 
     /**
-     * Gets a cached token if it's still valid.
-     * @returns The cached auth result, or null if no valid token exists.
+     * Loads the account store, moving a token cached by an earlier version into it.
+     * @returns The accounts keyed by ID.
      */
-    private async getCachedToken(): Promise<AuthResult | null> {
-        const cached = await this.context.secrets.get(AuthService.TOKEN_CACHE_KEY);
-        if (!cached) { return null; }
+    private async loadAccounts(): Promise<Map<string, StoredAccount>> {
+        if (this.accounts) {
+            return this.accounts;
+        }
 
+        const accounts = new Map<string, StoredAccount>();
         try {
-            const entry: TokenCacheEntry = JSON.parse(cached);
-            const expiresOn = new Date(entry.expiresOn);
-
-            // Check if token is still valid (with 5 minute buffer)
-            if (expiresOn.getTime() - Date.now() > 5 * 60 * 1000) {
-                return {
-                    accessToken: entry.accessToken,
-                    expiresOn: expiresOn,
-                    account: entry.account
-                };
+            const stored = await this.context.secrets.get(AuthService.ACCOUNTS_KEY);
+            for (const account of stored ? JSON.parse(stored) as StoredAccount[] : []) {
+                accounts.set(account.id, account);
             }
-
-            this.outputChannel.appendLine('Cached token expired or expiring soon');
         } catch (error) {
-            this.outputChannel.appendLine(`Failed to parse cached token: ${error}`);
+            this.outputChannel.appendLine(`Failed to parse stored accounts: ${error}`);
         }
 
-        return null;
+        const legacyToken = await this.context.secrets.get(AuthService.TOKEN_CACHE_KEY);
+        const legacyAccount = await this.context.secrets.get(AuthService.ACCOUNT_CACHE_KEY);
+        if (legacyToken && legacyAccount) {
+            try {
+                const entry: TokenCacheEntry = JSON.parse(legacyToken);
+                const msalAccount = JSON.parse(legacyAccount);
+                const id = `${msalAccount.tenantId}/${msalAccount.username}`.toLowerCase();
+                if (!accounts.has(id)) {
+                    accounts.set(id, { ...entry, id, tenantId: msalAccount.tenantId, msalAccount });
+                }
+            } catch (error) {
+                this.outputChannel.appendLine(`Failed to parse cached token: ${error}`);
+            }
+        }
+
+        // Another caller may have loaded the store while this one was reading secrets
+        if (this.accounts) {
+            return this.accounts;
+        }
+        this.accounts = accounts;
+
+        if (legacyToken || legacyAccount) {
+            await this.saveAccounts();
+            await this.context.secrets.delete(AuthService.TOKEN_CACHE_KEY);
+            await this.context.secrets.delete(AuthService.ACCOUNT_CACHE_KEY);
+        }
+        return accounts;
     }
 
     /**
-     * Clears cached authentication tokens.
+     * Writes the account store to SecretStorage.
      */
-    async clearCache(): Promise<void> {
-        await this.context.secrets.delete(AuthService.TOKEN_CACHE_KEY);
-        await this.context.secrets.delete(AuthService.ACCOUNT_CACHE_KEY);
-        this.outputChannel.appendLine('Authentication cache cleared');
+    private async saveAccounts(): Promise<void> {
+        await this.context.secrets.store(AuthService.ACCOUNTS_KEY, JSON.stringify([...(this.accounts ?? new Map()).values()]));
     }
 
     /**
-     * Fetches the list of workspaces the user has access to from Fabric API.
-     * @param accessToken - The access token for authentication.
-     * @returns Array of workspace information.
+     * Checks that MSAL returned a token and an account.
+     * @param result - The MSAL authentication result.
+     * @returns The result.
+     * @throws Error if the result has no token or account.
      */
-    async getWorkspaces(accessToken: string): Promise<WorkspaceInfo[]> {
-        return new Promise((resolve, reject) => {
-            const options = {
-                hostname: 'api.fabric.microsoft.com',
-                path: '/v1/workspaces',
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                }
-            };
-
-            const req = https.request(options, (res) => {
-                let data = '';
-
-                res.on('data', (chunk) => {
-                    data += chunk;
-                });
+    private static checkResult(result: AuthenticationResult | null): AuthenticationResult {
+        if (!result || !result.accessToken || !result.account) {
+            throw new Error('Authentication failed - no token received');
+        }
+        return result;
+    }
 
-                res.on('end', () => {
-                    try {
-                        if (res.statusCode === 200) {
-                            const response = JSON.parse(data);
-                            const workspaces: WorkspaceInfo[] = response.value.map((ws: any) => ({
-                                id: ws.id,
-                                name: ws.displayName,
-                                description: ws.description || '',
-                                type: ws.type || 'Workspace'
-                            }));
-                            resolve(workspaces);
-                        } else {
-                            reject(new Error(`Failed to fetch workspaces: ${res.statusCode} - ${data}`));
-                        }
-                    } catch (error) {
-                        reject(new Error(`Failed to parse workspaces response: ${error}`));
-                    }
-                });
-            });
+    /**
+     * Gets the scopes to request from VS Code's Microsoft authentication provider: the Power BI
+     * scopes, requested for this extension's client ID in the tenant.
+     * @param tenant - Tenant ID or domain.
+     * @returns The scopes.
+     */
+    private static getSessionScopes(tenant: string): string[] {
+        return [...MSAL_CONFIG.scopes, `VSCODE_CLIENT_ID:${MSAL_CONFIG.clientId}`, `VSCODE_TENANT:${tenant}`];
+    }
 
-            req.on('error', (error) => {
-                reject(new Error(`Request failed: ${error.message}`));
-            });
+    /**
+     * Converts a stored account to an auth result.
+     * @param account - The account.
+     * @returns The auth result.
+     */
+    private static toAuthResult(account: StoredAccount): AuthResult {
+        return {
+            accessToken: account.accessToken,
+            expiresOn: new Date(account.expiresOn),
+            account: account.account
+        };
+    }
 
-            req.end();
-        });
+    /**
+     * Signs out every account and deletes the persisted token cache.
+     */
+    async clearCache(): Promise<void> {
+        for (const account of await this.getAccounts()) {
+            await this.signOut(account.id);
+        }
+        await this.cachePlugin.clear();
+        this.outputChannel.appendLine('Authentication cache cleared');
     }
-}
 
-/**
- * Information about a Fabric workspace.
- */
-export interface WorkspaceInfo {
-    id: string;
-    name: string;
-    description: string;
-    type: string;
+    /**
+     * Stops raising account events.
+     */
+    dispose(): void {
+        this._onDidChangeAccounts.dispose();
+        this.outputChannel.dispose();
+    }
 }
@@ -0,0 +1,390 @@
+import * as https from 'https';
+
+/**
+ * Information about a Fabric workspace.
+ */
+export interface WorkspaceInfo {
+    id: string;
+    name: string;
+    description: string;
+    type: string;
+    /** The capacity the workspace is assigned to, if any. */
+    capacityId?: string;
+}
+
+/**
+ * Information about a Fabric capacity.
+ */
+export interface CapacityInfo {
+    id: string;
+    name: string;
+    sku: string;
+    region: string;
+    state: string;
+}
+
+/**
+ * Fabric item types shown in the Fabric Workspaces view.
+ */
+export type FabricItemType = 'SemanticModel' | 'Report' | 'Lakehouse';
+
+/**
+ * An item in a Fabric workspace.
+ */
+export interface FabricItem {
+    id: string;
+    name: string;
+    description: string;
+    type: FabricItemType;
+    workspaceId: string;
+}
+
+/**
+ * A file of an item definition, as returned by the Fabric getDefinition API.
+ */
+export interface DefinitionPart {
+    path: string;
+    payload: string;
+    payloadType: 'InlineBase64';
+}
+
+/**
+ * A workspace as returned by the Fabric List Workspaces API.
+ */
+interface RawWorkspace {
+    id: string;
+    displayName: string;
+    description?: string;
+    type?: string;
+    capacityId?: string;
+}
+
+/**
+ * A capacity as returned by the Fabric List Capacities API.
+ */
+interface RawCapacity {
+    id: string;
+    displayName: string;
+    sku: string;
+    region: string;
+    state: string;
+}
+
+/**
+ * An item as returned by the Fabric List Items API, of any item type.
+ */
+interface RawItem {
+    id: string;
+    displayName: string;
+    description?: string;
+    type: string;
+}
+
+/**
+ * The state of a long-running operation.
+ */
+interface RawOperation {
+    status: 'NotStarted' | 'Running' | 'Succeeded' | 'Failed' | 'Undefined';
+    error?: { errorCode?: string; message?: string };
+}
+
+/**
+ * The result of a getDefinition call.
+ */
+interface RawDefinitionResult {
+    definition?: { parts?: DefinitionPart[] };
+}
+
+/**
+ * A page of a Fabric list API.
+ */
+interface Page<T> {
+    value?: T[];
+    continuationUri?: string;
+    continuationToken?: string;
+}
+
+/**
+ * A response of the Fabric REST API.
+ */
+interface FabricResponse {
+    statusCode: number;
+    headers: Record<string, string | string[] | undefined>;
+    body: string;
+}
+
+/**
+ * Client for the Fabric REST API calls the extension makes with a user's access token:
+ * listing workspaces, capacities and items, following continuation tokens, and downloading
+ * semantic model definitions. Deploys go through the TMDL CLI instead.
+ */
+export class FabricService {
+    private static readonly API_URL = 'https://api.fabric.microsoft.com';
+    private static readonly PORTAL_URL = 'https://app.fabric.microsoft.com';
+    private static readonly ITEM_TYPES: FabricItemType[] = ['SemanticModel', 'Report', 'Lakehouse'];
+    private static readonly MAX_OPERATION_POLLS = 60;
+
+    /**
+     * Lists the workspaces the caller has access to.
+     * @param accessToken - The access token.
+     * @returns The workspaces, every page of them.
+     */
+    static async listWorkspaces(accessToken: string): Promise<WorkspaceInfo[]> {
+        const workspaces = await FabricService.getAll<RawWorkspace>(accessToken, '/v1/workspaces');
+        return workspaces.map(ws => ({
+            id: ws.id,
+            name: ws.displayName,
+            description: ws.description || '',
+            type: ws.type || 'Workspace',
+            capacityId: ws.capacityId
+        }));
+    }
+
+    /**
+     * Lists the capacities the caller can see.
+     * @param accessToken - The access token.
+     * @returns The capacities.
+     */
+    static async listCapacities(accessToken: string): Promise<CapacityInfo[]> {
+        const capacities = await FabricService.getAll<RawCapacity>(accessToken, '/v1/capacities');
+        return capacities.map(c => ({
+            id: c.id,
+            name: c.displayName,
+            sku: c.sku,
+            region: c.region,
+            state: c.state
+        }));
+    }
+
+    /**
+     * Lists the semantic models, reports and lakehouses of a workspace.
+     * @param accessToken - The access token.
+     * @param workspaceId - The workspace ID.
+     * @returns The items, sorted by name.
+     */
+    static async listItems(accessToken: string, workspaceId: string): Promise<FabricItem[]> {
+        const items = await FabricService.getAll<RawItem>(accessToken, `/v1/workspaces/${workspaceId}/items`);
+        return items
+            .filter((item): item is RawItem & { type: FabricItemType } => FabricService.isShownType(item.type))
+            .map(item => ({
+                id: item.id,
+                name: item.displayName,
+                description: item.description || '',
+                type: item.type,
+                workspaceId
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Downloads the definition of a semantic model in TMDL format, waiting for the long-running
+     * operation Fabric may start for it.
+     * @param accessToken - The access token.
+     * @param item - The semantic model.
+     * @returns The files of the definition.
+     * @throws Error if Fabric fails or the operation does not finish in time.
+     */
+    static async getSemanticModelDefinition(accessToken: string, item: FabricItem): Promise<DefinitionPart[]> {
+        const path = `/v1/workspaces/${item.workspaceId}/semanticModels/${item.id}/getDefinition?format=TMDL`;
+        let response = await FabricService.request(accessToken, 'POST', path);
+
+        if (response.statusCode === 202) {
+            const operationId = FabricService.getHeader(response, 'x-ms-operation-id');
+            if (!operationId) {
+                throw new Error('Fabric accepted the request but returned no operation ID.');
+            }
+            await FabricService.waitForOperation(accessToken, operationId, response);
+            response = await FabricService.request(accessToken, 'GET', `/v1/operations/${operationId}/result`);
+        }
+
+        const result = FabricService.parse<RawDefinitionResult>(response);
+        return result.definition?.parts ?? [];
+    }
+
+    /**
+     * Gets the Fabric portal URL of a workspace or an item in it.
+     * @param workspaceId - The workspace ID.
+     * @param item - The item; the workspace itself when not given.
+     * @returns The portal URL.
+     */
+    static getPortalUrl(workspaceId: string, item?: FabricItem): string {
+        const workspaceUrl = `${FabricService.PORTAL_URL}/groups/${workspaceId}`;
+        switch (item?.type) {
+            case undefined:
+                return `${workspaceUrl}/list`;
+            case 'SemanticModel':
+                return `${workspaceUrl}/datasets/${item.id}/details`;
+            case 'Report':
+                return `${workspaceUrl}/reports/${item.id}`;
+            case 'Lakehouse':
+                return `${workspaceUrl}/lakehouses/${item.id}`;
+        }
+    }
+
+    /**
+     * Gets the workspace URL the TMDL CLI deploys to.
+     * @param workspaceId - The workspace ID.
+     * @returns The API URL of the workspace.
+     */
+    static getWorkspaceApiUrl(workspaceId: string): string {
+        return `${FabricService.API_URL}/v1/workspaces/${workspaceId}`;
+    }
+
+    /**
+     * Polls a long-running operation until it succeeds.
+     * @param accessToken - The access token.
+     * @param operationId - The operation ID.
+     * @param accepted - The response that started the operation, for its Retry-After header.
+     * @throws Error if the operation fails or does not finish in time.
+     */
+    private static async waitForOperation(accessToken: string, operationId: string, accepted: FabricResponse): Promise<void> {
+        let retryAfter = Number(FabricService.getHeader(accepted, 'retry-after')) || 1;
+        for (let poll = 0; poll < FabricService.MAX_OPERATION_POLLS; poll++) {
+            await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
+
+            const response = await FabricService.request(accessToken, 'GET', `/v1/operations/${operationId}`);
+            const operation = FabricService.parse<RawOperation>(response);
+            if (operation.status === 'Succeeded') {
+                return;
+            }
+            if (operation.status === 'Failed') {
+                throw new Error(`Fabric operation ${operationId} failed: ${operation.error?.message ?? 'unknown error'}`);
+            }
+            retryAfter = Number(FabricService.getHeader(response, 'retry-after')) || retryAfter;
+        }
+        throw new Error(`Fabric operation ${operationId} did not finish in time.`);
+    }
+
+    /**
+     * Gets every page of a list API, following its continuation URIs or tokens.
+     * @param accessToken - The access token.
+     * @param path - The API path of the first page.
+     * @returns The values of all pages.
+     */
+    private static async getAll<T>(accessToken: string, path: string): Promise<T[]> {
+        const values: T[] = [];
+        let next: string | undefined = path;
+        while (next) {
+            const page: Page<T> = FabricService.parse(await FabricService.request(accessToken, 'GET', next));
+            values.push(...(page.value ?? []));
+            next = FabricService.getNextPage(path, page);
+        }
+        return values;
+    }
+
+    /**
+     * Gets the URL or path of the page after a list API page. A continuation URI is followed only
+     * if it is on the Fabric API origin, so the access token is never sent to another host; the
+     * continuation token is used otherwise.
+     * @param path - The API path of the first page.
+     * @param page - The current page.
+     * @returns The next page, or undefined if this was the last one.
+     */
+    private static getNextPage<T>(path: string, page: Page<T>): string | undefined {
+        if (page.continuationUri && FabricService.isApiUrl(page.continuationUri)) {
+            return page.continuationUri;
+        }
+        return page.continuationToken ? FabricService.withContinuationToken(path, page.continuationToken) : undefined;
+    }
+
+    /**
+     * Checks whether a URL is on the Fabric API origin.
+     * @param url - The absolute URL.
+     * @returns True if requests to the URL may carry the access token.
+     */
+    private static isApiUrl(url: string): boolean {
+        try {
+            return new URL(url).origin === new URL(FabricService.API_URL).origin;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Checks whether an item type is one the Fabric Workspaces view shows.
+     * @param type - The item type.
+     * @returns True for semantic models, reports and lakehouses.
+     */
+    private static isShownType(type: string): type is FabricItemType {
+        return (FabricService.ITEM_TYPES as string[]).includes(type);
+    }
+
+    /**
+     * Adds a continuation token to a list API path.
+     * @param path - The API path of the first page.
+     * @param continuationToken - The token of the next page.
+     * @returns The path of the next page.
+     */
+    private static withContinuationToken(path: string, continuationToken: string): string {
+        const separator = path.includes('?') ? '&' : '?';
+        return `${path}${separator}continuationToken=${encodeURIComponent(continuationToken)}`;
+    }
+
+    /**
+     * Parses the JSON body of a successful response.
+     * @param response - The response.
+     * @returns The parsed body; an empty object when there is none.
+     * @throws Error if the request failed or the body is not JSON.
+     */
+    private static parse<T>(response: FabricResponse): T {
+        if (response.statusCode < 200 || response.statusCode >= 300) {
+            throw new Error(`Fabric request failed: ${response.statusCode} - ${response.body}`);
+        }
+        try {
+            return (response.body ? JSON.parse(response.body) : {}) as T;
+        } catch (error) {
+            throw new Error(`Failed to parse Fabric response: ${error}`);
+        }
+    }
+
+    /**
+     * Gets a response header.
+     * @param response - The response.
+     * @param name - The lower-case header name.
+     * @returns The header value, if present.
+     */
+    private static getHeader(response: FabricResponse, name: string): string | undefined {
+        const value = response.headers[name];
+        return Array.isArray(value) ? value[0] : value;
+    }
+
+    /**
+     * Sends a request to the Fabric REST API.
+     * @param accessToken - The access token.
+     * @param method - The HTTP method.
+     * @param pathOrUrl - The API path, or a full URL on the Fabric API origin such as a continuation URI.
+     * @returns The response.
+     */
+    private static request(accessToken: string, method: 'GET' | 'POST', pathOrUrl: string): Promise<FabricResponse> {
+        const url = new URL(pathOrUrl, FabricService.API_URL);
+        if (!FabricService.isApiUrl(url.href)) {
+            return Promise.reject(new Error(`Refusing to send the access token to ${url.origin}`));
+        }
+        return new Promise((resolve, reject) => {
+            const req = https.request(url, {
+                method,
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                    'Content-Length': 0
+                }
+            }, (res) => {
+                let data = '';
+
+                res.on('data', (chunk) => {
+                    data += chunk;
+                });
+
+                res.on('end', () => {
+                    resolve({ statusCode: res.statusCode ?? 0, headers: res.headers, body: data });
+                });
+            });
+
+            req.on('error', (error) => {
+                reject(new Error(`Request failed: ${error.message}`));
+            });
+
+            req.end();
+        });
+    }
+}
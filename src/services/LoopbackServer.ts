@@ -0,0 +1,98 @@
+import * as http from 'http';
+import { AuthorizeResponse, ILoopbackClient } from '@azure/msal-node';
+
+/**
+ * Loopback server that catches the authorization code redirect of the browser sign-in.
+ * Unlike MSAL's built-in server it is listening before MSAL asks for the redirect URI, and
+ * it can be cancelled while the user has not finished signing in. Redirects that do not carry
+ * the state of the sign-in request, e.g. from another page posting to the port, are ignored.
+ */
+export class LoopbackServer implements ILoopbackClient {
+    private reject: ((error: Error) => void) | undefined;
+
+    /**
+     * @param server - The listening HTTP server.
+     * @param state - The state sent with the sign-in request.
+     */
+    private constructor(private server: http.Server, private state: string) {}
+
+    /**
+     * Starts a loopback server on a free port.
+     * @param state - The state sent with the sign-in request; the redirect must return it.
+     * @returns The listening server.
+     */
+    static start(state: string): Promise<LoopbackServer> {
+        return new Promise((resolve, reject) => {
+            const server = http.createServer();
+            server.once('error', reject);
+            server.listen(0, '127.0.0.1', () => resolve(new LoopbackServer(server, state)));
+        });
+    }
+
+    /**
+     * Waits for the browser to be redirected back with the authorization code or an error.
+     * @param successTemplate - The page shown after signing in.
+     * @param errorTemplate - The page shown when signing in failed.
+     * @returns The parameters of the redirect.
+     */
+    listenForAuthCode(successTemplate?: string, errorTemplate?: string): Promise<AuthorizeResponse> {
+        return new Promise((resolve, reject) => {
+            this.reject = reject;
+            this.server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+                const url = new URL(req.url ?? '/', this.getRedirectUri());
+                const response = Object.fromEntries(url.searchParams) as AuthorizeResponse;
+                if ((response.code || response.error) && response.state !== this.state) {
+                    res.writeHead(400, { 'Content-Type': 'text/html; charset=utf-8' });
+                    res.end('This sign-in response does not belong to the pending sign-in.');
+                    return;
+                }
+                if (response.code) {
+                    // Redirect to the bare URI, so the code is not kept in the browser history
+                    res.writeHead(302, { location: this.getRedirectUri() });
+                    res.end();
+                } else if (response.error) {
+                    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+                    res.end(errorTemplate ?? `Sign in failed: ${response.error}`);
+                } else {
+                    // The page after the redirect, or e.g. the browser asking for a favicon
+                    res.writeHead(url.pathname === '/' ? 200 : 404, { 'Content-Type': 'text/html; charset=utf-8' });
+                    res.end(url.pathname === '/' ? successTemplate ?? 'Signed in.' : '');
+                    return;
+                }
+                this.reject = undefined;
+                resolve(response);
+            });
+        });
+    }
+
+    /**
+     * Gets the redirect URI the server listens on.
+     * @returns The redirect URI.
+     */
+    getRedirectUri(): string {
+        const address = this.server.address();
+        if (!address || typeof address === 'string') {
+            throw new Error('The sign-in loopback server is not listening.');
+        }
+        return `http://127.0.0.1:${address.port}`;
+    }
+
+    /**
+     * Stops waiting for the redirect; the pending sign-in fails.
+     */
+    cancel(): void {
+        this.reject?.(new Error('Sign in was cancelled.'));
+        this.reject = undefined;
+        this.closeServer();
+    }
+
+    /**
+     * Stops the server.
+     */
+    closeServer(): void {
+        if (this.server.listening) {
+            this.server.close();
+            this.server.closeAllConnections();
+        }
+    }
+}
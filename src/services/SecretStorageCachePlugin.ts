@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { ICachePlugin, TokenCacheContext } from '@azure/msal-node';
+
+/**
+ * MSAL cache plugin that keeps the serialized token cache, including refresh tokens, in
+ * SecretStorage, so accounts can refresh their tokens silently after VS Code restarts.
+ *
+ * All MSAL clients share the plugin: each cache access loads the latest cache before MSAL
+ * reads it, and stores it again when MSAL changed it.
+ */
+export class SecretStorageCachePlugin implements ICachePlugin {
+    private static readonly CACHE_KEY = 'tmdl-auth-msal-cache';
+
+    /**
+     * Creates a new SecretStorageCachePlugin instance.
+     * @param secrets - The extension's secret storage.
+     * @param log - Receives errors reading or writing the cache.
+     */
+    constructor(
+        private secrets: vscode.SecretStorage,
+        private log: (line: string) => void
+    ) {}
+
+    /**
+     * Loads the stored cache into MSAL's cache before MSAL accesses it.
+     * @param cacheContext - The MSAL cache context.
+     */
+    async beforeCacheAccess(cacheContext: TokenCacheContext): Promise<void> {
+        try {
+            const cache = await this.secrets.get(SecretStorageCachePlugin.CACHE_KEY);
+            if (cache) {
+                cacheContext.tokenCache.deserialize(cache);
+            }
+        } catch (error) {
+            this.log(`Failed to load the token cache: ${error}`);
+        }
+    }
+
+    /**
+     * Stores MSAL's cache after MSAL changed it, e.g. after a sign-in, refresh or sign-out.
+     * @param cacheContext - The MSAL cache context.
+     */
+    async afterCacheAccess(cacheContext: TokenCacheContext): Promise<void> {
+        if (!cacheContext.cacheHasChanged) {
+            return;
+        }
+        try {
+            await this.secrets.store(SecretStorageCachePlugin.CACHE_KEY, cacheContext.tokenCache.serialize());
+        } catch (error) {
+            this.log(`Failed to store the token cache: ${error}`);
+        }
+    }
+
+    /**
+     * Deletes the stored cache.
+     */
+    async clear(): Promise<void> {
+        await this.secrets.delete(SecretStorageCachePlugin.CACHE_KEY);
+    }
+}
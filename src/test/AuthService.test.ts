@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AuthService } from '../services/AuthService';
+import { ServicePrincipalProfile, StoredAccount } from '../types/auth';
+
+const CONTOSO = '72f988bf-86f1-41af-91ab-2d7cd011db47';
+const FABRIKAM = 'a1b2c3d4-0000-4000-8000-000000000000';
+
+/**
+ * Builds a signed-in account.
+ */
+function account(tenantId: string, username: string, tenantDomains?: string[]): StoredAccount {
+    return {
+        id: `${tenantId}/${username}`,
+        tenantId,
+        tenantDomains,
+        accessToken: 'token',
+        expiresOn: new Date().toISOString(),
+        account: { username }
+    };
+}
+
+/**
+ * Builds a secret storage kept in memory that, like the real one, answers asynchronously.
+ */
+function secretStorage(): vscode.SecretStorage {
+    const values = new Map<string, string>();
+    const later = () => new Promise(resolve => setImmediate(resolve));
+    return {
+        get: async (key: string) => { await later(); return values.get(key); },
+        store: async (key: string, value: string) => { await later(); values.set(key, value); },
+        delete: async (key: string) => { await later(); values.delete(key); }
+    } as unknown as vscode.SecretStorage;
+}
+
+/**
+ * Builds a service principal profile.
+ */
+function profile(id: string, name: string): ServicePrincipalProfile {
+    return { id, name, clientId: `${id}-client`, tenantId: CONTOSO };
+}
+
+suite('AuthService', () => {
+    const ada = account(CONTOSO, 'ada@contoso.com', ['contoso.com']);
+    const bob = account(CONTOSO, 'bob@contoso.com');
+    const eve = account(FABRIKAM, 'eve@fabrikam.com');
+    const accounts = [ada, bob, eve];
+
+    test('finds accounts bound to a tenant GUID', () => {
+        assert.strictEqual(AuthService.findBoundAccount(accounts, { tenantId: FABRIKAM.toUpperCase() }), eve);
+        assert.strictEqual(AuthService.findBoundAccount(accounts, { tenantId: CONTOSO }, bob.id), bob);
+    });
+
+    test('finds accounts bound to a tenant domain they were signed in with', () => {
+        assert.strictEqual(AuthService.findBoundAccount(accounts, { tenantId: 'Contoso.com' }), ada);
+        assert.strictEqual(AuthService.findBoundAccount(accounts, { tenantId: 'fabrikam.com' }), undefined);
+    });
+
+    test('matches the username and tenant together', () => {
+        assert.strictEqual(AuthService.findBoundAccount(accounts, { account: 'BOB@contoso.com', tenantId: CONTOSO }), bob);
+        assert.strictEqual(AuthService.findBoundAccount(accounts, { account: 'bob@contoso.com', tenantId: 'contoso.com' }), undefined);
+        assert.strictEqual(AuthService.findBoundAccount(accounts, { account: 'eve@fabrikam.com' }), eve);
+    });
+
+    test('saves, edits and deletes service principal profiles', async () => {
+        const service = new AuthService({ secrets: secretStorage() } as unknown as vscode.ExtensionContext);
+        await service.saveProfile(profile('prod', 'Prod deployer'), 'prod-secret');
+        await service.saveProfile(profile('dev', 'Dev deployer'), 'dev-secret');
+
+        await service.saveProfile({ ...profile('prod', 'Production deployer'), tenantId: FABRIKAM }, '');
+        assert.deepStrictEqual(await service.getProfiles(), [
+            profile('dev', 'Dev deployer'),
+            { ...profile('prod', 'Production deployer'), tenantId: FABRIKAM }
+        ]);
+        assert.deepStrictEqual(await service.getProfileCredentials('prod'), { clientId: 'prod-client', clientSecret: 'prod-secret', tenantId: FABRIKAM });
+        assert.strictEqual((await service.findProfile('PRODUCTION DEPLOYER'))?.id, 'prod');
+        assert.strictEqual((await service.findProfile('dev-client'))?.id, 'dev');
+
+        await service.deleteProfile('dev');
+        assert.deepStrictEqual((await service.getProfiles()).map(p => p.id), ['prod']);
+        assert.strictEqual(await service.getProfileCredentials('dev'), undefined);
+        service.dispose();
+    });
+
+    test('keeps every profile when they are changed at the same time', async () => {
+        const service = new AuthService({ secrets: secretStorage() } as unknown as vscode.ExtensionContext);
+        await service.saveProfile(profile('old', 'Old deployer'), 'old-secret');
+
+        await Promise.all([
+            service.saveProfile(profile('prod', 'Prod deployer'), 'prod-secret'),
+            service.saveProfile(profile('dev', 'Dev deployer'), 'dev-secret'),
+            service.deleteProfile('old')
+        ]);
+
+        assert.deepStrictEqual((await service.getProfiles()).map(p => p.id), ['dev', 'prod']);
+        service.dispose();
+    });
+});
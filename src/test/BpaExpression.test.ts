@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { BpaExpression, BpaScope } from '../bpa/BpaExpression';
+
+const MEASURE: BpaScope = {
+    Name: 'Total Sales',
+    Description: '',
+    IsHidden: false,
+    FormatString: '#,0',
+    Expression: 'SUM(Sales[Amount])',
+    Table: { Name: 'Sales', Columns: [{ Name: 'Amount', IsHidden: true }, { Name: 'Key', IsHidden: true }] },
+    GetAnnotation: (name: string) => name === 'Owner' ? 'Finance' : null
+};
+
+/**
+ * Evaluates an expression against the sample measure.
+ */
+function evaluate(source: string): boolean {
+    return BpaExpression.parse(source).test(MEASURE);
+}
+
+suite('BpaExpression', () => {
+    test('compares properties case-insensitively', () => {
+        assert.strictEqual(evaluate('name == "total sales"'), true);
+        assert.strictEqual(evaluate('Name <> "Total Sales"'), false);
+        assert.strictEqual(evaluate('Table.Name = "Sales" and not IsHidden'), true);
+    });
+
+    test('evaluates static string methods', () => {
+        assert.strictEqual(evaluate('string.IsNullOrEmpty(Description)'), true);
+        assert.strictEqual(evaluate('String.IsNullOrWhitespace(FormatString)'), false);
+    });
+
+    test('evaluates string methods and lengths', () => {
+        assert.strictEqual(evaluate('Expression.Contains("SUM(") && Name.StartsWith("Total")'), true);
+        assert.strictEqual(evaluate('Name.ToUpper() == "TOTAL SALES"'), true);
+        assert.strictEqual(evaluate('Name.Length > 5 || Name.IndexOf("x") >= 0'), true);
+    });
+
+    test('evaluates collection methods with predicates', () => {
+        assert.strictEqual(evaluate('Table.Columns.All(IsHidden)'), true);
+        assert.strictEqual(evaluate('Table.Columns.Any(Name = "Missing")'), false);
+        assert.strictEqual(evaluate('Table.Columns.Count(Name.StartsWith("A")) = 1'), true);
+        assert.strictEqual(evaluate('Table.Columns.Count = 2'), true);
+    });
+
+    test('calls functions exposed on the object', () => {
+        assert.strictEqual(evaluate('GetAnnotation("Owner") == "Finance"'), true);
+        assert.strictEqual(evaluate('GetAnnotation("Reviewer") == null'), true);
+    });
+
+    test('matches regular expressions', () => {
+        assert.strictEqual(evaluate('RegEx.IsMatch(Expression, "^SUM\\\\(")'), true);
+        assert.strictEqual(evaluate('RegEx.IsMatch(Name, "^total")'), false);
+    });
+
+    test('maps leading inline regex options to flags', () => {
+        assert.strictEqual(evaluate('RegEx.IsMatch(Name, "(?i)^total")'), true);
+        assert.strictEqual(evaluate('RegEx.IsMatch(Expression, "(?is)sum.+amount")'), true);
+    });
+
+    test('rejects invalid and unsupported syntax', () => {
+        assert.throws(() => BpaExpression.parse('Name ==='));
+        assert.throws(() => BpaExpression.parse('Name == "unterminated'));
+        assert.throws(() => evaluate('Name.PadLeft(2) == ""'), /Unsupported string method/);
+    });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { DaxReferenceParser } from '../dax/DaxReferenceParser';
+
+/**
+ * Describes references compactly, e.g. `Sales[Amount]`, `[Total]` or `Sales`.
+ */
+function describe(text: string, includeBareNames = false, variables?: Set<string>): string[] {
+    return DaxReferenceParser.parse(text, includeBareNames, variables).map(r =>
+        r.name === undefined ? r.table! : `${r.table ?? ''}[${r.name}]`
+    );
+}
+
+suite('DaxReferenceParser', () => {
+    test('parses quoted, unquoted and unqualified references', () => {
+        assert.deepStrictEqual(
+            describe(`SUM('Sales Orders'[Amount]) + Sales[Tax] - [Total Cost]`),
+            ['Sales Orders[Amount]', 'Sales[Tax]', '[Total Cost]']
+        );
+    });
+
+    test('unescapes doubled quotes and brackets', () => {
+        assert.deepStrictEqual(describe(`'O''Brien'[a]]b]`), [`O'Brien[a]b]`]);
+    });
+
+    test('skips strings and comments', () => {
+        assert.deepStrictEqual(
+            describe(`"Sales[Amount]" // [Ignored]\n-- [Ignored]\n/* [Ignored] */ [Kept]`),
+            ['[Kept]']
+        );
+    });
+
+    test('reports offsets of the table and name', () => {
+        const [reference] = DaxReferenceParser.parse(`x + 'Sales'[Amount]`);
+        assert.deepStrictEqual(reference.range, { start: 4, end: 19 });
+        assert.deepStrictEqual(reference.tableRange, { start: 5, end: 10 });
+        assert.deepStrictEqual(reference.nameRange, { start: 12, end: 18 });
+    });
+
+    test('ignores bare names unless asked for them', () => {
+        assert.deepStrictEqual(describe('COUNTROWS(Sales)'), []);
+        assert.deepStrictEqual(describe('COUNTROWS(Sales)', true), ['Sales']);
+    });
+
+    test('does not report function names as bare names', () => {
+        assert.deepStrictEqual(describe('CALCULATE (SUM(Sales[Amount]), ALL(Sales))', true), ['Sales[Amount]', 'Sales']);
+    });
+
+    test('does not report keywords as bare names', () => {
+        assert.deepStrictEqual(describe('IF(NOT x IN {1}, TRUE, FALSE)', true), ['x']);
+    });
+
+    test('does not report variables as bare names', () => {
+        assert.deepStrictEqual(describe('VAR Sales = SUM(Sales[Amount]) RETURN Sales', true), ['Sales[Amount]']);
+    });
+
+    test('shares variables across lines', () => {
+        const variables = new Set<string>();
+        assert.deepStrictEqual(describe('var total = [Amount]', true, variables), ['[Amount]']);
+        assert.deepStrictEqual(describe('return Total * 2', true, variables), []);
+    });
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { DependencyGraph } from '../dax/DependencyGraph';
+import { ModelStructure, TableNode } from '../views/explorer/ModelTreeItem';
+
+const SALES: TableNode = {
+    name: 'Sales',
+    file: 'tables/Sales.tmdl',
+    columns: [
+        { name: 'Amount' },
+        { name: 'Net', expression: '[Amount] - [Tax]' }
+    ],
+    measures: [
+        { name: 'Total', expression: 'SUM(Sales[Amount])' },
+        { name: 'Average', expression: 'DIVIDE([Total], COUNTROWS(Sales))' },
+        { name: 'Lines', expression: 'VAR lines = RELATEDTABLE(Sales)\nRETURN COUNTROWS(lines) + COUNTROWS(Returns)' },
+        { name: 'Ping', expression: '[Pong] + 1' },
+        { name: 'Pong', expression: '[Ping] - 1' }
+    ],
+    partitions: []
+};
+
+const MODEL: ModelStructure = {
+    name: 'Model',
+    path: '',
+    database: { name: 'Model', file: 'database.tmdl' },
+    model: { name: 'Model', file: 'model.tmdl' },
+    tables: [SALES],
+    relationships: [],
+    expressions: [],
+    cultures: []
+};
+
+const total = DependencyGraph.measureId('Sales', 'Total');
+const average = DependencyGraph.measureId('Sales', 'Average');
+const amount = DependencyGraph.columnId('Sales', 'Amount');
+
+suite('DependencyGraph', () => {
+    const graph = DependencyGraph.build(MODEL);
+
+    test('adds a node for each table, column and measure', () => {
+        assert.deepStrictEqual(graph.getNode(total), {
+            id: 'measure:Sales[Total]', kind: 'measure', name: 'Total', table: 'Sales', file: 'tables/Sales.tmdl', lineNumber: undefined
+        });
+        assert.strictEqual(graph.getNode(DependencyGraph.tableId('Sales'))?.kind, 'table');
+        assert.strictEqual(graph.getNode(amount)?.kind, 'column');
+    });
+
+    test('links expressions to the objects they reference', () => {
+        assert.deepStrictEqual(graph.getPrecedents(total), [amount]);
+        assert.deepStrictEqual(graph.getPrecedents(average).sort(), [total, 'table:Sales'].sort());
+        assert.deepStrictEqual(graph.getDependents(total), [average]);
+    });
+
+    test('links bare table names but not variables or unknown names', () => {
+        assert.deepStrictEqual(graph.getPrecedents(DependencyGraph.measureId('Sales', 'Lines')), ['table:Sales']);
+        assert.strictEqual(graph.getNode('missing:\'Returns\''), undefined);
+    });
+
+    test('resolves unqualified names to columns of the owning table', () => {
+        assert.deepStrictEqual(graph.getPrecedents(DependencyGraph.columnId('Sales', 'Net')), [amount, 'missing:[Tax]']);
+        assert.strictEqual(graph.getNode('missing:[Tax]')?.kind, 'missing');
+    });
+
+    test('detects circular dependencies', () => {
+        assert.strictEqual(graph.isCyclic(DependencyGraph.measureId('Sales', 'Ping')), true);
+        assert.strictEqual(graph.isCyclic(total), false);
+    });
+
+    test('traces precedents and dependents by level', () => {
+        const trace = graph.trace(total, 1);
+        assert.deepStrictEqual(trace.nodes.map(n => [n.id, n.level]), [[total, 0], [amount, -1], [average, 1]]);
+        assert.deepStrictEqual(trace.edges.map(e => `${e.from}->${e.to}`), [`${total}->${amount}`, `${average}->${total}`]);
+    });
+
+    test('marks broken and cyclic nodes in traces', () => {
+        const broken = graph.trace(DependencyGraph.columnId('Sales', 'Net'), 1).nodes.find(n => n.kind === 'missing');
+        assert.strictEqual(broken?.isBroken, true);
+
+        const cycle = graph.trace(DependencyGraph.measureId('Sales', 'Ping'), 2);
+        assert.ok(cycle.nodes.every(n => n.isCyclic));
+        assert.ok(cycle.edges.every(e => e.isCyclic));
+    });
+});
@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { mock } from 'node:test';
+import { Config } from '../config';
+import { DeploymentHistory, DeploymentRecord, findChanges } from '../deploy/DeploymentHistory';
+
+suite('DeploymentHistory', () => {
+    let folder: string;
+    let projectRoot: string;
+    let history: DeploymentHistory;
+
+    /**
+     * Writes a file below the project.
+     */
+    function write(file: string, content: string): void {
+        fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+        fs.writeFileSync(path.join(projectRoot, file), content);
+    }
+
+    /**
+     * Snapshots the project and records a successful deploy of it.
+     */
+    async function deploy(timestamp: string, log = ['Deployed']): Promise<DeploymentRecord> {
+        const snapshot = await history.createSnapshot(projectRoot);
+        const record: DeploymentRecord = {
+            id: snapshot.id,
+            timestamp,
+            projectRoot,
+            workspaceUrl: 'https://api.fabric.microsoft.com/v1/workspaces/abc',
+            authMode: 'interactive',
+            modelHash: snapshot.modelHash,
+            outcome: 'success',
+            message: 'Deployed'
+        };
+        await history.add(record, log);
+        return record;
+    }
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'tmdl-history-'));
+        projectRoot = path.join(folder, 'Sales.SemanticModel');
+        write('definition/model.tmdl', 'model Model');
+        write('definition/tables/Sales.tmdl', 'table Sales');
+        history = new DeploymentHistory(path.join(folder, 'storage'));
+    });
+
+    teardown(() => {
+        mock.restoreAll();
+        history.dispose();
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('snapshots the deployed files without local caches', async () => {
+        write('.pbi/cache.abf', 'cache');
+        write('.tmdlstudio/environments.json', '{}');
+        write('definition/.pbi/kept.txt', 'nested folders are part of the model');
+
+        const snapshot = await history.createSnapshot(projectRoot);
+
+        assert.strictEqual(path.basename(snapshot.folder), 'Sales.SemanticModel');
+        assert.deepStrictEqual(fs.readdirSync(snapshot.folder).sort(), ['definition']);
+        assert.ok(fs.existsSync(path.join(snapshot.folder, 'definition', '.pbi', 'kept.txt')));
+        assert.strictEqual((await history.createSnapshot(projectRoot)).modelHash, snapshot.modelHash);
+
+        write('definition/tables/Sales.tmdl', 'table Revenue');
+        assert.notStrictEqual((await history.createSnapshot(projectRoot)).modelHash, snapshot.modelHash);
+    });
+
+    test('records deploys with their log, newest first', async () => {
+        const changes: number[] = [];
+        history.onDidChange(() => changes.push(history.list().length));
+        const first = await deploy('2026-01-01T10:00:00.000Z', ['Uploading', 'Deployed']);
+        const second = await deploy('2026-01-02T10:00:00.000Z');
+        // A snapshot without a record is a deploy that never finished
+        await history.createSnapshot(projectRoot);
+
+        assert.deepStrictEqual(history.list().map(r => r.id), [second.id, first.id]);
+        assert.deepStrictEqual(changes, [1, 2]);
+        assert.strictEqual(fs.readFileSync(history.getLogFile(first), 'utf8'), 'Uploading\nDeployed\n');
+
+        const reopened = new DeploymentHistory(path.join(folder, 'storage'));
+        assert.deepStrictEqual(reopened.list(), [second, first]);
+        reopened.dispose();
+    });
+
+    test('drops the oldest deploys and their snapshots beyond the history limit', async () => {
+        mock.method(Config, 'getValue', (key: string) => key === 'deployments.maxHistory' ? 2 : undefined);
+        const first = await deploy('2026-01-01T10:00:00.000Z');
+        const second = await deploy('2026-01-02T10:00:00.000Z');
+        const third = await deploy('2026-01-03T10:00:00.000Z');
+
+        assert.deepStrictEqual(history.list().map(r => r.id), [third.id, second.id]);
+        assert.strictEqual(history.getSnapshotFolder(first), undefined);
+        assert.ok(!fs.existsSync(path.dirname(history.getLogFile(first))));
+        assert.ok(history.getSnapshotFolder(second));
+    });
+
+    test('finds the snapshot of a deploy until it is removed', async () => {
+        const record = await deploy('2026-01-01T10:00:00.000Z');
+
+        const snapshot = history.getSnapshotFolder(history.get(record.id)!);
+        assert.strictEqual(fs.readFileSync(path.join(snapshot!, 'definition', 'tables', 'Sales.tmdl'), 'utf8'), 'table Sales');
+
+        await history.remove(record.id);
+        assert.strictEqual(history.get(record.id), undefined);
+        assert.strictEqual(history.getSnapshotFolder(record), undefined);
+    });
+
+    test('lists the files that differ between two snapshots', async () => {
+        const before = await deploy('2026-01-01T10:00:00.000Z');
+        write('definition/tables/Sales.tmdl', 'table Revenue');
+        write('definition/tables/Returns.tmdl', 'table Returns');
+        fs.rmSync(path.join(projectRoot, 'definition', 'model.tmdl'));
+        const after = await deploy('2026-01-02T10:00:00.000Z');
+
+        assert.deepStrictEqual(await findChanges(history.getSnapshotFolder(before)!, history.getSnapshotFolder(after)!), [
+            { file: 'definition/model.tmdl', change: 'removed' },
+            { file: 'definition/tables/Returns.tmdl', change: 'added' },
+            { file: 'definition/tables/Sales.tmdl', change: 'modified' }
+        ]);
+        assert.deepStrictEqual(await findChanges(history.getSnapshotFolder(before)!, history.getSnapshotFolder(before)!), []);
+    });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { DeployOptions, DeployProgress, DeployResult, TimdleClient } from '../cli/TimdleClient';
+import { RequestCancelledError } from '../cli/TimdleServer';
+import { DeploymentService } from '../deploy/DeploymentService';
+import { AuthConfig } from '../types/auth';
+
+const AUTH_CONFIG: AuthConfig = { mode: 'env', workspaceUrl: 'https://api.fabric.microsoft.com/v1/workspaces/abc' };
+
+/**
+ * Builds a client whose deploy reports the given stages, then returns the result or throws.
+ */
+function clientThatDeploys(stages: DeployProgress[], outcome: DeployResult | Error, calls: DeployOptions[] = []): TimdleClient {
+    return {
+        deploy: async (_path: string, _authConfig: AuthConfig, _overrides: unknown, options: DeployOptions) => {
+            calls.push(options);
+            stages.forEach(stage => options.onProgress?.(stage));
+            if (outcome instanceof Error) {
+                throw outcome;
+            }
+            return outcome;
+        }
+    } as unknown as TimdleClient;
+}
+
+suite('DeploymentService', () => {
+    test('passes the refresh option and logs each stage message once', async () => {
+        const calls: DeployOptions[] = [];
+        const log: string[] = [];
+        const client = clientThatDeploys([
+            { stage: 'uploadingDefinition', message: 'Uploading model definition...' },
+            { stage: 'refreshing', message: 'Refreshing semantic model (InProgress)...' },
+            { stage: 'refreshing', message: 'Refreshing semantic model (InProgress)...' }
+        ], { isSuccess: true, message: 'Successfully updated semantic model and refreshed its data' }, calls);
+
+        const outcome = await new DeploymentService(client, line => log.push(line)).deploy('model', AUTH_CONFIG, undefined, { refresh: true });
+
+        assert.strictEqual(calls[0].refresh, true);
+        assert.strictEqual(outcome.outcome, 'success');
+        assert.strictEqual(outcome.lastProgress?.stage, 'refreshing');
+        assert.deepStrictEqual(log, [
+            'Uploading model definition...',
+            'Refreshing semantic model (InProgress)...',
+            '\n✓ Successfully updated semantic model and refreshed its data'
+        ]);
+    });
+
+    test('describes what a cancelled deploy left behind', async () => {
+        const client = clientThatDeploys(
+            [{ stage: 'refreshing', message: 'Refreshing semantic model...' }],
+            new RequestCancelledError('deploy')
+        );
+
+        const outcome = await new DeploymentService(client, () => { /* not checked */ }).deploy('model', AUTH_CONFIG);
+
+        assert.strictEqual(outcome.outcome, 'cancelled');
+        assert.match(outcome.message, /the definition was deployed, and the refresh keeps running/);
+        assert.match(DeploymentService.describeCancelledDeploy(undefined), /the workspace was not changed/);
+    });
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EnvironmentConfig } from '../config/EnvironmentConfig';
+import { ModelStructure } from '../views/explorer/ModelTreeItem';
+
+const MODEL: ModelStructure = {
+    name: 'Model',
+    path: '',
+    database: { name: 'Model', file: 'database.tmdl' },
+    model: { name: 'Model', file: 'model.tmdl' },
+    tables: [],
+    relationships: [],
+    expressions: [
+        { name: 'Server', file: 'expressions.tmdl', kind: 'm', expression: '"localhost" meta [IsParameterQuery=true, Type="Text"]' },
+        { name: 'Source', file: 'expressions.tmdl', kind: 'm', expression: 'Sql.Database(Server, "Sales")' }
+    ],
+    cultures: []
+};
+
+suite('EnvironmentConfig', () => {
+    test('builds overrides with parameters as M literals', () => {
+        assert.strictEqual(EnvironmentConfig.getOverrides({ name: 'Dev', workspaceId: 'x' }), undefined);
+        assert.deepStrictEqual(EnvironmentConfig.getOverrides({
+            name: 'Prod',
+            workspaceId: 'x',
+            parameters: { Server: 'sql "prod"', Port: 1433, Encrypt: true },
+            expressions: { Source: 'Sql.Database("prod", "Sales")' }
+        }), {
+            parameters: { Server: '"sql ""prod"""', Port: '1433', Encrypt: 'true' },
+            expressions: { Source: 'Sql.Database("prod", "Sales")' }
+        });
+    });
+
+    test('returns the model unchanged without overrides', () => {
+        assert.strictEqual(EnvironmentConfig.applyOverrides(MODEL, undefined), MODEL);
+    });
+
+    test('replaces parameter values and keeps their meta record', () => {
+        const model = EnvironmentConfig.applyOverrides(MODEL, { parameters: { server: '"prod.database.windows.net"' } });
+        assert.strictEqual(model.expressions[0].expression, '"prod.database.windows.net" meta [IsParameterQuery=true, Type="Text"]');
+        assert.strictEqual(model.expressions[1], MODEL.expressions[1]);
+        assert.strictEqual(MODEL.expressions[0].expression, '"localhost" meta [IsParameterQuery=true, Type="Text"]');
+    });
+
+    test('replaces whole expressions, ahead of parameter values', () => {
+        const model = EnvironmentConfig.applyOverrides(MODEL, {
+            parameters: { Source: '"ignored"' },
+            expressions: { SOURCE: 'Sql.Database("prod", "Sales")' }
+        });
+        assert.strictEqual(model.expressions[1].expression, 'Sql.Database("prod", "Sales")');
+    });
+
+    test('turns workspace IDs into Fabric workspace URLs', () => {
+        assert.strictEqual(EnvironmentConfig.getWorkspaceUrl({ name: 'Dev', workspaceId: ' abc ' }), 'https://api.fabric.microsoft.com/v1/workspaces/abc');
+        assert.strictEqual(EnvironmentConfig.getWorkspaceUrl({ name: 'Dev', workspaceId: 'https://example.com/ws' }), 'https://example.com/ws');
+    });
+
+    test('validates environments files', () => {
+        const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'tmdl-environments-'));
+        const filePath = path.join(folder, EnvironmentConfig.FILE_NAME);
+        const write = (json: unknown) => fs.writeFileSync(filePath, JSON.stringify(json));
+
+        try {
+            write({ environments: [{ name: 'Dev', workspaceId: 'a' }, { name: 'Prod', workspaceId: 'b', authMode: 'env' }] });
+            assert.deepStrictEqual(EnvironmentConfig.loadFile(filePath).map(e => e.name), ['Dev', 'Prod']);
+
+            write({ environments: [{ name: 'Dev' }] });
+            assert.throws(() => EnvironmentConfig.loadFile(filePath), /needs a "name" and a "workspaceId"/);
+
+            write({ environments: [{ name: 'Dev', workspaceId: 'a', authMode: 'password' }] });
+            assert.throws(() => EnvironmentConfig.loadFile(filePath), /invalid authMode 'password'/);
+
+            write({ environments: [{ name: 'Dev', workspaceId: 'a', refreshAfterDeploy: 'yes' }] });
+            assert.throws(() => EnvironmentConfig.loadFile(filePath), /invalid refreshAfterDeploy/);
+
+            write({ environments: [{ name: 'Dev', workspaceId: 'a' }, { name: 'dev', workspaceId: 'b' }] });
+            assert.throws(() => EnvironmentConfig.loadFile(filePath), /defined more than once/);
+        } finally {
+            fs.rmSync(folder, { recursive: true, force: true });
+        }
+    });
+});
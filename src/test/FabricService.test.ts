@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { mock } from 'node:test';
+import { FabricItem, FabricService } from '../services/FabricService';
+import { FabricWorkspacesCommand } from '../commands/FabricWorkspacesCommand';
+
+/**
+ * A canned Fabric API response.
+ */
+interface FakeResponse {
+    statusCode?: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+}
+
+type Request = (accessToken: string, method: string, pathOrUrl: string) => Promise<unknown>;
+
+const ITEM: FabricItem = { id: 'm1', name: 'Sales', description: '', type: 'SemanticModel', workspaceId: 'ws1' };
+
+suite('FabricService', () => {
+    let requests: string[];
+
+    /**
+     * Answers Fabric requests in order with the given responses.
+     */
+    function respondWith(...responses: FakeResponse[]): void {
+        mock.method(FabricService as unknown as { request: Request }, 'request', async (_token: string, method: string, pathOrUrl: string) => {
+            requests.push(`${method} ${pathOrUrl}`);
+            const response = responses.shift();
+            assert.ok(response, `unexpected request: ${method} ${pathOrUrl}`);
+            return {
+                statusCode: response.statusCode ?? 200,
+                headers: response.headers ?? {},
+                body: response.body === undefined ? '' : JSON.stringify(response.body)
+            };
+        });
+    }
+
+    setup(() => {
+        requests = [];
+    });
+
+    teardown(() => {
+        mock.restoreAll();
+        mock.timers.reset();
+    });
+
+    test('follows continuation URIs on the Fabric API origin', async () => {
+        respondWith(
+            { body: { value: [{ id: '1', displayName: 'A' }], continuationUri: 'https://api.fabric.microsoft.com/v1/workspaces?continuationToken=abc' } },
+            { body: { value: [{ id: '2', displayName: 'B' }] } }
+        );
+
+        const workspaces = await FabricService.listWorkspaces('token');
+
+        assert.deepStrictEqual(workspaces.map(w => w.name), ['A', 'B']);
+        assert.deepStrictEqual(requests, ['GET /v1/workspaces', 'GET https://api.fabric.microsoft.com/v1/workspaces?continuationToken=abc']);
+    });
+
+    test('uses the continuation token when the continuation URI is on another host', async () => {
+        respondWith(
+            { body: { value: [], continuationUri: 'https://attacker.example.com/steal', continuationToken: 'a b' } },
+            { body: { value: [], continuationUri: 'not a url' } }
+        );
+
+        await FabricService.listItems('token', 'ws1');
+
+        assert.deepStrictEqual(requests, ['GET /v1/workspaces/ws1/items', 'GET /v1/workspaces/ws1/items?continuationToken=a%20b']);
+    });
+
+    test('never sends the access token to another host', async () => {
+        const request = (FabricService as unknown as { request: Request }).request;
+        await assert.rejects(request('token', 'GET', 'https://attacker.example.com/steal'), /Refusing to send the access token to https:\/\/attacker.example.com/);
+    });
+
+    test('polls the long-running operation of a definition download', async () => {
+        mock.timers.enable({ apis: ['setTimeout'] });
+        respondWith(
+            { statusCode: 202, headers: { 'x-ms-operation-id': 'op1', 'retry-after': '2' } },
+            { body: { status: 'Running' } },
+            { body: { status: 'Succeeded' } },
+            { body: { definition: { parts: [{ path: 'definition/model.tmdl', payload: 'bW9kZWw=', payloadType: 'InlineBase64' }] } } }
+        );
+
+        const download = FabricService.getSemanticModelDefinition('token', ITEM);
+        for (let i = 0; i < 2; i++) {
+            await new Promise(resolve => setImmediate(resolve));
+            mock.timers.tick(2000);
+        }
+
+        assert.deepStrictEqual((await download).map(p => p.path), ['definition/model.tmdl']);
+        assert.deepStrictEqual(requests, [
+            'POST /v1/workspaces/ws1/semanticModels/m1/getDefinition?format=TMDL',
+            'GET /v1/operations/op1',
+            'GET /v1/operations/op1',
+            'GET /v1/operations/op1/result'
+        ]);
+    });
+
+    test('reports failed long-running operations', async () => {
+        mock.timers.enable({ apis: ['setTimeout'] });
+        respondWith(
+            { statusCode: 202, headers: { 'x-ms-operation-id': 'op1' } },
+            { body: { status: 'Failed', error: { message: 'Model is too large' } } }
+        );
+
+        const download = FabricService.getSemanticModelDefinition('token', ITEM);
+        await new Promise(resolve => setImmediate(resolve));
+        mock.timers.tick(1000);
+
+        await assert.rejects(download, /Fabric operation op1 failed: Model is too large/);
+    });
+
+    test('writes downloaded definitions only inside the project folder', () => {
+        const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'tmdl-download-'));
+        const projectRoot = path.join(folder, 'Sales.SemanticModel');
+        const file = (partPath: string) => ({ path: partPath, payload: Buffer.from(partPath).toString('base64'), payloadType: 'InlineBase64' as const });
+
+        try {
+            fs.mkdirSync(projectRoot);
+            fs.writeFileSync(path.join(projectRoot, 'stale.tmdl'), '');
+
+            assert.throws(
+                () => FabricWorkspacesCommand.writeDefinition(projectRoot, [file('definition/model.tmdl'), file('../Sales.SemanticModel.evil/x.tmdl')]),
+                /outside the project folder: \.\.\/Sales\.SemanticModel\.evil\/x\.tmdl/
+            );
+            assert.ok(fs.existsSync(path.join(projectRoot, 'stale.tmdl')));
+
+            assert.strictEqual(FabricWorkspacesCommand.writeDefinition(projectRoot, [file('definition/model.tmdl')]), 1);
+            assert.deepStrictEqual(fs.readdirSync(projectRoot), ['definition']);
+            assert.strictEqual(fs.readFileSync(path.join(projectRoot, 'definition', 'model.tmdl'), 'utf8'), 'definition/model.tmdl');
+        } finally {
+            fs.rmSync(folder, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FileWatcherListener } from '../listeners/FileWatcherListener';
+import { ModelReloadQueue } from '../listeners/ModelReloadQueue';
+import { ValidationDiagnostics } from '../diagnostics/ValidationDiagnostics';
+import { LoadedModel } from '../views/explorer/ModelTreeItem';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+
+/**
+ * File system watcher whose events the test fires.
+ */
+class FakeWatcher {
+    readonly created = new vscode.EventEmitter<vscode.Uri>();
+    readonly changed = new vscode.EventEmitter<vscode.Uri>();
+    readonly deleted = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidCreate = this.created.event;
+    readonly onDidChange = this.changed.event;
+    readonly onDidDelete = this.deleted.event;
+    disposed = false;
+
+    constructor(readonly pattern: vscode.RelativePattern) {}
+
+    dispose(): void {
+        this.disposed = true;
+    }
+}
+
+suite('FileWatcherListener', () => {
+    let folder: string;
+    let model: LoadedModel;
+    let watchers: FakeWatcher[];
+    let queued: [string, string][];
+    let closed: string[];
+    let cleared: (string | undefined)[];
+    let log: string[];
+    let closeModel: (projectRoot: string) => Promise<void>;
+    let loaded: vscode.EventEmitter<LoadedModel>;
+    let registration: vscode.Disposable;
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'tmdl-watch-'));
+        model = { projectRoot: path.join(folder, 'Sales.SemanticModel'), definitionFolder: path.join(folder, 'Sales.SemanticModel', 'definition'), isOpen: true };
+        fs.mkdirSync(model.definitionFolder, { recursive: true });
+
+        watchers = [];
+        queued = [];
+        closed = [];
+        cleared = [];
+        log = [];
+        closeModel = async projectRoot => { closed.push(projectRoot); };
+        loaded = new vscode.EventEmitter<LoadedModel>();
+
+        const treeProvider = {
+            getModels: () => [model],
+            onDidLoadModel: loaded.event,
+            closeModel: (projectRoot: string) => closeModel(projectRoot)
+        } as unknown as TabularTreeProvider;
+        const reloadQueue = { add: (projectRoot: string, filePath: string) => queued.push([projectRoot, filePath]) } as unknown as ModelReloadQueue;
+        const diagnostics = { clear: (definitionFolder?: string) => cleared.push(definitionFolder) } as unknown as ValidationDiagnostics;
+
+        registration = FileWatcherListener.register(
+            {} as vscode.ExtensionContext,
+            treeProvider,
+            reloadQueue,
+            diagnostics,
+            { appendLine: line => log.push(line) },
+            (pattern => {
+                const watcher = new FakeWatcher(pattern as vscode.RelativePattern);
+                watchers.push(watcher);
+                return watcher as unknown as vscode.FileSystemWatcher;
+            }) as typeof vscode.workspace.createFileSystemWatcher
+        );
+    });
+
+    teardown(() => {
+        registration.dispose();
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('watches the model files and the project root of open models', () => {
+        assert.strictEqual(watchers.length, 2);
+        assert.strictEqual(watchers[0].pattern.pattern, '**/{*.tmdl,definition.pbism,.platform}');
+        assert.strictEqual(watchers[1].pattern.pattern, 'Sales.SemanticModel');
+    });
+
+    test('queues created, changed and deleted files for reload', () => {
+        const file = vscode.Uri.file(path.join(model.definitionFolder, 'tables', 'Sales.tmdl'));
+        watchers[0].created.fire(file);
+        watchers[0].changed.fire(file);
+        watchers[0].deleted.fire(file);
+
+        assert.deepStrictEqual(queued, [[model.projectRoot, file.fsPath], [model.projectRoot, file.fsPath], [model.projectRoot, file.fsPath]]);
+    });
+
+    test('closes the model when its project root is deleted', async () => {
+        fs.rmSync(model.projectRoot, { recursive: true });
+        watchers[1].deleted.fire(vscode.Uri.file(model.projectRoot));
+        await new Promise(resolve => setImmediate(resolve));
+
+        assert.deepStrictEqual(queued, []);
+        assert.deepStrictEqual(closed, [model.projectRoot]);
+        assert.deepStrictEqual(cleared, [model.definitionFolder]);
+    });
+
+    test('logs a failure to close the model instead of rejecting', async () => {
+        closeModel = async () => { throw new Error('state is locked'); };
+        fs.rmSync(model.projectRoot, { recursive: true });
+        watchers[1].deleted.fire(vscode.Uri.file(model.projectRoot));
+        await new Promise(resolve => setImmediate(resolve));
+
+        assert.deepStrictEqual(log, [`Failed to close TMDL model ${model.projectRoot} after its folder was removed: Error: state is locked`]);
+        assert.deepStrictEqual(cleared, []);
+    });
+
+    test('stops watching models once they are closed', () => {
+        model.isOpen = false;
+        loaded.fire(model);
+
+        assert.ok(watchers.every(w => w.disposed));
+    });
+});
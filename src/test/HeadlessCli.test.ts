@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { CliError, EXIT_CODES, HeadlessCli } from '../headless/HeadlessCli';
+import { ModelDiffResult } from '../deploy/ModelDiff';
+
+/**
+ * Builds a diff with the given counts.
+ */
+function diffWith(changeCount: number, destructiveCount: number): ModelDiffResult {
+    return { changes: [], summary: '', changeCount, destructiveCount };
+}
+
+/**
+ * Asserts that parsing the arguments fails with the usage exit code.
+ */
+function assertUsageError(args: string[], message: RegExp): void {
+    assert.throws(
+        () => HeadlessCli.parseArguments(args),
+        (error: unknown) => error instanceof CliError && error.exitCode === EXIT_CODES.usage && message.test(error.message)
+    );
+}
+
+suite('HeadlessCli', () => {
+    test('parses the deploy command and its options', () => {
+        assert.deepStrictEqual(HeadlessCli.parseArguments([
+            'deploy', 'models/Sales', '--env', 'prod', '--auth', 'service-principal',
+            '--model-name', 'Sales', '--non-interactive', '--allow-destructive'
+        ]), {
+            help: false,
+            project: 'models/Sales',
+            env: 'prod',
+            workspace: undefined,
+            auth: 'service-principal',
+            modelName: 'Sales',
+            tenant: undefined,
+            nonInteractive: true,
+            allowDestructive: true,
+            timdle: undefined
+        });
+    });
+
+    test('defaults the flags to false', () => {
+        const options = HeadlessCli.parseArguments(['deploy']);
+        assert.strictEqual(options.project, undefined);
+        assert.strictEqual(options.nonInteractive, false);
+        assert.strictEqual(options.allowDestructive, false);
+    });
+
+    test('shows help without a command', () => {
+        assert.strictEqual(HeadlessCli.parseArguments(['--help']).help, true);
+        assert.strictEqual(HeadlessCli.parseArguments(['-h']).help, true);
+    });
+
+    test('rejects missing and unknown commands', () => {
+        assertUsageError([], /Missing command/);
+        assertUsageError(['publish'], /Unknown command or argument: publish/);
+        assertUsageError(['deploy', 'a', 'b'], /Unknown command or argument: deploy b/);
+    });
+
+    test('rejects invalid options', () => {
+        assertUsageError(['deploy', '--auth', 'password'], /Invalid --auth 'password'/);
+        assertUsageError(['deploy', '--env', 'prod', '--workspace', 'abc'], /either --env or --workspace/);
+        assertUsageError(['deploy', '--unknown'], /--unknown/);
+    });
+
+    test('maps deploy outcomes to exit codes', () => {
+        assert.strictEqual(HeadlessCli.getExitCode('success'), 0);
+        assert.strictEqual(HeadlessCli.getExitCode('failure'), 1);
+        assert.strictEqual(HeadlessCli.getExitCode('cancelled'), 130);
+        assert.strictEqual(EXIT_CODES.destructiveChanges, 4);
+    });
+
+    test('blocks destructive deploys unless allowed', () => {
+        assert.strictEqual(HeadlessCli.checkDestructiveChanges(diffWith(3, 0), false), undefined);
+        assert.match(HeadlessCli.checkDestructiveChanges(diffWith(3, 2), false)!, /removes 2 objects/);
+        assert.strictEqual(HeadlessCli.checkDestructiveChanges(diffWith(3, 2), true), undefined);
+    });
+
+    test('blocks deploys that could not be compared unless allowed', () => {
+        assert.match(HeadlessCli.checkDestructiveChanges(undefined, false)!, /Could not compare/);
+        assert.strictEqual(HeadlessCli.checkDestructiveChanges(undefined, true), undefined);
+    });
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { LoopbackServer } from '../services/LoopbackServer';
+
+/**
+ * Sends a browser request to the loopback server.
+ */
+function get(url: string): Promise<{ statusCode?: number; location?: string; body: string }> {
+    return new Promise((resolve, reject) => {
+        http.get(url, res => {
+            let body = '';
+            res.setEncoding('utf8');
+            res.on('data', chunk => body += chunk);
+            res.on('end', () => resolve({ statusCode: res.statusCode, location: res.headers.location, body }));
+        }).on('error', reject);
+    });
+}
+
+suite('LoopbackServer', () => {
+    let server: LoopbackServer;
+
+    setup(async () => {
+        server = await LoopbackServer.start('expected-state');
+    });
+
+    teardown(() => {
+        server.closeServer();
+    });
+
+    test('redirects to the address it listens on', () => {
+        assert.match(server.getRedirectUri(), /^http:\/\/127\.0\.0\.1:\d+$/);
+    });
+
+    test('returns the authorization code and shows the success page', async () => {
+        const code = server.listenForAuthCode('Signed in to TMDL Studio.');
+        const redirect = await get(`${server.getRedirectUri()}/?code=abc&state=expected-state`);
+
+        assert.strictEqual(redirect.statusCode, 302);
+        assert.strictEqual(redirect.location, server.getRedirectUri());
+        assert.deepStrictEqual(await code, { code: 'abc', state: 'expected-state' });
+
+        const page = await get(server.getRedirectUri());
+        assert.strictEqual(page.statusCode, 200);
+        assert.strictEqual(page.body, 'Signed in to TMDL Studio.');
+        assert.strictEqual((await get(`${server.getRedirectUri()}/favicon.ico`)).statusCode, 404);
+    });
+
+    test('returns the error of a failed sign-in and shows the error page', async () => {
+        const code = server.listenForAuthCode(undefined, 'Signing in failed.');
+        const page = await get(`${server.getRedirectUri()}/?error=access_denied&error_description=denied&state=expected-state`);
+
+        assert.strictEqual(page.body, 'Signing in failed.');
+        assert.deepStrictEqual(await code, { error: 'access_denied', error_description: 'denied', state: 'expected-state' });
+    });
+
+    test('ignores responses with another state', async () => {
+        let settled = false;
+        const code = server.listenForAuthCode().finally(() => settled = true);
+
+        for (const query of ['code=forged&state=other', 'code=forged', 'error=access_denied&state=other']) {
+            assert.strictEqual((await get(`${server.getRedirectUri()}/?${query}`)).statusCode, 400);
+        }
+        assert.strictEqual(settled, false);
+
+        await get(`${server.getRedirectUri()}/?code=abc&state=expected-state`);
+        assert.strictEqual((await code).code, 'abc');
+    });
+
+    test('fails the pending sign-in when cancelled', async () => {
+        const code = server.listenForAuthCode();
+        server.cancel();
+
+        await assert.rejects(code, /Sign in was cancelled/);
+    });
+});
@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ModelDelete, ModelObject } from '../refactor/ModelDelete';
+import { ModelStructure, TableNode } from '../views/explorer/ModelTreeItem';
+
+const SALES_TMDL = [
+    'table Sales',
+    '',
+    '\tmeasure Total = SUM(Sales[Amount])',
+    '',
+    '\tmeasure Average = [Total] / 2',
+    '',
+    '\tmeasure Count = COUNTROWS(\'Sales\')',
+    '',
+    '\tcolumn Amount',
+    '\t\tdataType: decimal',
+    '',
+    '\tcolumn Label',
+    '\t\tsortByColumn: Amount',
+    '',
+    '\tpartition Sales = m',
+    '\t\tsource = Raw',
+    '',
+    '\tpartition Archive = m',
+    '\t\tsource = Raw',
+    ''
+].join('\n');
+
+const RELATIONSHIPS_TMDL = [
+    'relationship abc',
+    '\tfromColumn: Sales.Amount',
+    '\ttoColumn: Targets.Amount',
+    ''
+].join('\n');
+
+suite('ModelDelete', () => {
+    let folder: string;
+    let sales: TableNode;
+    let model: ModelStructure;
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'tmdl-delete-'));
+        fs.mkdirSync(path.join(folder, 'tables'));
+        fs.writeFileSync(path.join(folder, 'tables', 'Sales.tmdl'), SALES_TMDL);
+        fs.writeFileSync(path.join(folder, 'relationships.tmdl'), RELATIONSHIPS_TMDL);
+
+        sales = {
+            name: 'Sales',
+            file: 'tables/Sales.tmdl',
+            lineNumber: 1,
+            columns: [{ name: 'Amount', lineNumber: 9 }, { name: 'Label', lineNumber: 12 }],
+            measures: [
+                { name: 'Total', expression: 'SUM(Sales[Amount])', lineNumber: 3 },
+                { name: 'Average', expression: '[Total] / 2', lineNumber: 5 },
+                { name: 'Count', expression: 'COUNTROWS(\'Sales\')', lineNumber: 7 }
+            ],
+            partitions: [{ name: 'Sales', lineNumber: 15 }, { name: 'Archive', lineNumber: 18 }]
+        };
+        model = {
+            name: 'Model',
+            path: folder,
+            database: { name: 'Model', file: 'database.tmdl' },
+            model: { name: 'Model', file: 'model.tmdl' },
+            tables: [sales],
+            relationships: [{
+                id: 'abc', name: 'abc', file: 'relationships.tmdl', lineNumber: 1,
+                fromTable: 'Sales', fromColumn: 'Amount', toTable: 'Targets', toColumn: 'Amount'
+            }],
+            expressions: [],
+            cultures: []
+        };
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('refuses to delete tables and the only partition', () => {
+        assert.match(ModelDelete.validate({ kind: 'table', table: sales })!, /cannot be deleted/);
+        assert.strictEqual(ModelDelete.validate({ kind: 'partition', table: sales, partition: sales.partitions[0] }), undefined);
+
+        sales.partitions.pop();
+        assert.match(ModelDelete.validate({ kind: 'partition', table: sales, partition: sales.partitions[0] })!, /only partition/);
+    });
+
+    test('follows dependents of dependents', async () => {
+        const plan = await ModelDelete.plan({ kind: 'measure', table: sales, measure: sales.measures[0] }, model, folder);
+
+        assert.deepStrictEqual(plan.dependents.map(d => d.label), ['measure \'Sales\'[Average]']);
+        assert.strictEqual(plan.objects.length, 2);
+        assert.deepStrictEqual(plan.blocking, []);
+    });
+
+    test('reports uses that cannot be deleted along with a column as blocking', async () => {
+        const plan = await ModelDelete.plan({ kind: 'column', table: sales, column: sales.columns[0] }, model, folder);
+
+        assert.deepStrictEqual(plan.objects.map(o => o.kind), ['column', 'measure', 'relationship', 'measure']);
+        assert.deepStrictEqual(plan.blocking.map(d => [path.basename(d.filePath), d.lineNumber]), [['Sales.tmdl', 13]]);
+    });
+
+    test('removes the declarations of the deleted objects', async () => {
+        const objects: ModelObject[] = [
+            { kind: 'measure', table: sales, measure: sales.measures[1] },
+            { kind: 'partition', table: sales, partition: sales.partitions[1] },
+            { kind: 'relationship', relationship: model.relationships[0] }
+        ];
+        const edit = await ModelDelete.buildEdit(objects, folder);
+
+        // Each changed file is replaced as a whole
+        const texts = new Map(edit.entries().map(([uri, edits]) => [path.basename(uri.fsPath), edits[0].newText]));
+        assert.strictEqual(texts.get('relationships.tmdl'), '');
+        assert.strictEqual(texts.get('Sales.tmdl'), [
+            'table Sales',
+            '',
+            '\tmeasure Total = SUM(Sales[Amount])',
+            '',
+            '\tmeasure Count = COUNTROWS(\'Sales\')',
+            '',
+            '\tcolumn Amount',
+            '\t\tdataType: decimal',
+            '',
+            '\tcolumn Label',
+            '\t\tsortByColumn: Amount',
+            '',
+            '\tpartition Sales = m',
+            '\t\tsource = Raw',
+            ''
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { ModelDiff } from '../deploy/ModelDiff';
+import { ModelStructure, TableNode } from '../views/explorer/ModelTreeItem';
+
+/**
+ * Builds a model with the given tables and no other objects.
+ */
+function modelWith(...tables: TableNode[]): ModelStructure {
+    return {
+        name: 'Model',
+        path: '',
+        database: { name: 'Model', file: 'database.tmdl' },
+        model: { name: 'Model', file: 'model.tmdl' },
+        tables,
+        relationships: [],
+        expressions: [],
+        cultures: []
+    };
+}
+
+/**
+ * Builds the Sales table, with its measure's expression given.
+ */
+function sales(expression = 'SUM(Sales[Amount])'): TableNode {
+    return {
+        name: 'Sales',
+        file: 'tables/Sales.tmdl',
+        columns: [{ name: 'Amount', dataType: 'decimal' }],
+        measures: [{ name: 'Total', expression, lineNumber: 3 }],
+        partitions: [{ name: 'Sales', mode: 'import' }]
+    };
+}
+
+suite('ModelDiff', () => {
+    test('reports no changes for equal models', () => {
+        const diff = ModelDiff.compare(modelWith(sales()), modelWith(sales()));
+        assert.deepStrictEqual(diff.changes, []);
+        assert.strictEqual(diff.summary, 'No changes');
+        assert.strictEqual(diff.changeCount, 0);
+    });
+
+    test('ignores line endings, surrounding whitespace and name case', () => {
+        const deployed = sales('\r\nSUM(Sales[Amount])\r\n');
+        deployed.measures[0].name = 'TOTAL';
+        const diff = ModelDiff.compare(modelWith(deployed), modelWith(sales()));
+        assert.strictEqual(diff.changeCount, 0);
+    });
+
+    test('treats everything as added when there is no deployed model', () => {
+        const diff = ModelDiff.compare(undefined, modelWith(sales()));
+        assert.strictEqual(diff.summary, 'Add 1 table');
+        assert.strictEqual(diff.destructiveCount, 0);
+        assert.deepStrictEqual(diff.changes[0].properties, [{ property: 'contents', after: '1 columns, 1 measures, 1 partitions' }]);
+    });
+
+    test('nests changed measures below an unchanged table', () => {
+        const diff = ModelDiff.compare(modelWith(sales()), modelWith(sales('SUM(Sales[Amount]) * 2')));
+        const [table] = diff.changes;
+
+        assert.strictEqual(table.kind, 'none');
+        assert.deepStrictEqual(table.children.map(c => [c.kind, c.objectType, c.table, c.name, c.file, c.lineNumber]), [
+            ['update', 'measure', 'Sales', 'Total', 'tables/Sales.tmdl', 3]
+        ]);
+        assert.deepStrictEqual(table.children[0].properties, [
+            { property: 'expression', before: 'SUM(Sales[Amount])', after: 'SUM(Sales[Amount]) * 2' }
+        ]);
+        assert.strictEqual(diff.summary, 'Update 1 measure');
+        assert.strictEqual(diff.changeCount, 1);
+    });
+
+    test('counts removed tables and columns as destructive', () => {
+        const local = sales();
+        local.columns = [];
+        const diff = ModelDiff.compare(modelWith(sales(), { ...sales(), name: 'Returns' }), modelWith(local));
+
+        assert.strictEqual(diff.summary, 'Remove 1 table, remove 1 column');
+        assert.strictEqual(diff.changeCount, 2);
+        assert.strictEqual(diff.destructiveCount, 2);
+    });
+
+    test('compares relationships by endpoints and active state', () => {
+        const relationship = {
+            id: 'r1', name: 'r1', file: 'relationships.tmdl',
+            fromTable: 'Sales', fromColumn: 'ProductKey', toTable: 'Product', toColumn: 'ProductKey'
+        };
+        const deployed = { ...modelWith(), relationships: [relationship] };
+        const local = { ...modelWith(), relationships: [{ ...relationship, isActive: false }] };
+
+        const diff = ModelDiff.compare(deployed, local);
+        assert.strictEqual(diff.summary, 'Update 1 relationship');
+        assert.deepStrictEqual(diff.changes[0].properties, [{ property: 'isActive', before: 'true', after: 'false' }]);
+    });
+});
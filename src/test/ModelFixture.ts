@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LoadedModel, ModelStructure } from '../views/explorer/ModelTreeItem';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+
+/**
+ * The TMDL files of the fixture model, by path relative to the definition folder.
+ */
+export const FILES: Record<string, string[]> = {
+    'tables/Sales.tmdl': [
+        'table Sales',
+        '\tmeasure \'Total Sales\' = SUM(Sales[Amount])',
+        '\t\tformatString: Currency',
+        '',
+        '\tmeasure Orders =',
+        '\t\t\tVAR rows = COUNTROWS(Sales)',
+        '\t\t\tRETURN rows + [Total Sales]',
+        '',
+        '\tcolumn Amount',
+        '\t\tdataType: decimal',
+        '',
+        '\tcolumn Net = [Amount] - Customer[Discount]',
+        '\t\tdataType: decimal',
+        '',
+        '\tpartition Sales = m',
+        '\t\tmode: import',
+        '\t\tsource = Sql.Database("server", "db")'
+    ],
+    'tables/Customer.tmdl': [
+        'table Customer',
+        '\tmeasure Customers = COUNTROWS(Customer)',
+        '',
+        '\tmeasure \'Sales per Customer\' = DIVIDE([Total Sales], [Customers])',
+        '',
+        '\tcolumn Name',
+        '\t\tdataType: string',
+        '',
+        '\tcolumn Discount',
+        '\t\tdataType: decimal'
+    ],
+    'relationships.tmdl': [
+        'relationship SalesCustomer',
+        '\tfromColumn: Sales.Name',
+        '\ttoColumn: Customer.Name'
+    ]
+};
+
+/**
+ * The model structure the CLI reports for {@link FILES}.
+ */
+export const MODEL: ModelStructure = {
+    name: 'Model',
+    path: '',
+    database: { name: 'Model', file: 'database.tmdl' },
+    model: { name: 'Model', file: 'model.tmdl' },
+    tables: [
+        {
+            name: 'Sales',
+            file: 'tables/Sales.tmdl',
+            lineNumber: 1,
+            columns: [
+                { name: 'Amount', dataType: 'decimal', type: 'Data', lineNumber: 9 },
+                { name: 'Net', dataType: 'decimal', type: 'Calculated', expression: '[Amount] - Customer[Discount]', lineNumber: 12 }
+            ],
+            measures: [
+                { name: 'Total Sales', formatString: 'Currency', description: 'Revenue after returns', expression: 'SUM(Sales[Amount])', lineNumber: 2 },
+                { name: 'Orders', expression: 'VAR rows = COUNTROWS(Sales)\nRETURN rows + [Total Sales]', lineNumber: 5 }
+            ],
+            partitions: [{ name: 'Sales', mode: 'import', lineNumber: 15 }]
+        },
+        {
+            name: 'Customer',
+            file: 'tables/Customer.tmdl',
+            lineNumber: 1,
+            columns: [
+                { name: 'Name', dataType: 'string', type: 'Data', lineNumber: 6 },
+                { name: 'Discount', dataType: 'decimal', type: 'Data', lineNumber: 9 }
+            ],
+            measures: [
+                { name: 'Customers', expression: 'COUNTROWS(Customer)', lineNumber: 2 },
+                { name: 'Sales per Customer', expression: 'DIVIDE([Total Sales], [Customers])', lineNumber: 4 }
+            ],
+            partitions: []
+        }
+    ],
+    relationships: [{
+        id: 'SalesCustomer',
+        name: 'SalesCustomer',
+        file: 'relationships.tmdl',
+        fromTable: 'Sales',
+        fromColumn: 'Name',
+        toTable: 'Customer',
+        toColumn: 'Name',
+        lineNumber: 1
+    }],
+    expressions: [],
+    cultures: []
+};
+
+/**
+ * The fixture model written to a temporary folder and loaded into a stand-in tree provider.
+ */
+export class ModelFixture {
+    readonly definitionFolder: string;
+    readonly treeProvider: TabularTreeProvider;
+
+    /**
+     * Writes {@link FILES} below a new temporary project folder.
+     */
+    constructor() {
+        const projectRoot = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'tmdl-model-')), 'Sales.SemanticModel');
+        this.definitionFolder = path.join(projectRoot, 'definition');
+        for (const [file, lines] of Object.entries(FILES)) {
+            fs.mkdirSync(path.dirname(this.path(file)), { recursive: true });
+            fs.writeFileSync(this.path(file), lines.join('\n'));
+        }
+
+        const model: LoadedModel = { projectRoot, definitionFolder: this.definitionFolder, isOpen: true, data: MODEL };
+        this.treeProvider = {
+            getModels: () => [model],
+            getModelForFile: (filePath: string) => filePath.startsWith(projectRoot + path.sep) ? model : undefined
+        } as unknown as TabularTreeProvider;
+    }
+
+    /**
+     * Gets the full path of a model file.
+     * @param file - Path relative to the definition folder.
+     * @returns The full path.
+     */
+    path(file: string): string {
+        return path.join(this.definitionFolder, file);
+    }
+
+    /**
+     * Opens a model file as a text document.
+     * @param file - Path relative to the definition folder.
+     * @param lines - The document text, when it differs from the saved file.
+     * @returns The document.
+     */
+    document(file: string, lines = FILES[file]): vscode.TextDocument {
+        return textDocument(vscode.Uri.file(this.path(file)), lines);
+    }
+
+    /**
+     * Finds text on a line of a model file.
+     * @param file - Path relative to the definition folder.
+     * @param line - The zero-based line number.
+     * @param text - Text on the line; the position is at its first character.
+     * @returns The position.
+     */
+    position(file: string, line: number, text: string): vscode.Position {
+        const character = FILES[file][line].indexOf(text);
+        if (character < 0) {
+            throw new Error(`'${text}' is not on line ${line} of ${file}`);
+        }
+        return new vscode.Position(line, character);
+    }
+
+    /**
+     * Deletes the temporary folder.
+     */
+    dispose(): void {
+        fs.rmSync(path.dirname(path.dirname(this.definitionFolder)), { recursive: true, force: true });
+    }
+}
+
+/**
+ * Builds a read-only text document with the parts of the API the providers use.
+ * @param uri - The document URI.
+ * @param lines - The document lines.
+ * @returns The document.
+ */
+export function textDocument(uri: vscode.Uri, lines: string[]): vscode.TextDocument {
+    const lineAt = (lineOrPosition: number | vscode.Position): vscode.TextLine => {
+        const line = typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line;
+        const text = lines[line];
+        const indent = text.length - text.trimStart().length;
+        return {
+            lineNumber: line,
+            text,
+            range: new vscode.Range(line, 0, line, text.length),
+            rangeIncludingLineBreak: new vscode.Range(line, 0, line + 1, 0),
+            firstNonWhitespaceCharacterIndex: indent,
+            isEmptyOrWhitespace: indent === text.length
+        };
+    };
+
+    return {
+        uri,
+        fileName: uri.fsPath,
+        languageId: 'tmdl',
+        lineCount: lines.length,
+        lineAt,
+        getText: () => lines.join('\n')
+    } as unknown as vscode.TextDocument;
+}
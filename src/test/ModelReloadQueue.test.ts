@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { mock } from 'node:test';
+import { ModelReloadQueue } from '../listeners/ModelReloadQueue';
+import { ValidationDiagnostics } from '../diagnostics/ValidationDiagnostics';
+import { LoadedModel } from '../views/explorer/ModelTreeItem';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+
+/**
+ * Lets the queue's reload and revalidation promises settle.
+ */
+async function settle(): Promise<void> {
+    for (let i = 0; i < 5; i++) {
+        await Promise.resolve();
+    }
+}
+
+suite('ModelReloadQueue', () => {
+    let models: Map<string, LoadedModel>;
+    let reloads: [string, string[]][];
+    let validated: string[];
+    let queue: ModelReloadQueue;
+
+    setup(() => {
+        mock.timers.enable({ apis: ['setTimeout'] });
+        models = new Map([
+            ['/models/Sales', { projectRoot: '/models/Sales', definitionFolder: '/models/Sales/definition', isOpen: true }],
+            ['/models/Budget', { projectRoot: '/models/Budget', definitionFolder: '/models/Budget/definition', isOpen: true }]
+        ]);
+        reloads = [];
+        validated = [];
+
+        const treeProvider = {
+            reloadFiles: async (projectRoot: string, files: string[]) => { reloads.push([projectRoot, files]); },
+            getModel: (projectRoot: string) => models.get(projectRoot)
+        } as unknown as TabularTreeProvider;
+        const diagnostics = {
+            refresh: async (folder: string) => { validated.push(folder); }
+        } as unknown as ValidationDiagnostics;
+        queue = new ModelReloadQueue(treeProvider, diagnostics);
+    });
+
+    teardown(() => {
+        queue.dispose();
+        mock.timers.reset();
+    });
+
+    test('reloads each model once after its changes settle', async () => {
+        queue.add('/models/Sales', 'a.tmdl');
+        mock.timers.tick(200);
+        queue.add('/models/Sales', 'b.tmdl');
+        queue.add('/models/Sales', 'a.tmdl');
+        queue.add('/models/Budget', 'c.tmdl');
+        mock.timers.tick(299);
+        await settle();
+        assert.deepStrictEqual(reloads, []);
+
+        mock.timers.tick(1);
+        await settle();
+        assert.deepStrictEqual(reloads, [['/models/Sales', ['a.tmdl', 'b.tmdl']], ['/models/Budget', ['c.tmdl']]]);
+        assert.deepStrictEqual(validated, ['/models/Sales/definition', '/models/Budget/definition']);
+    });
+
+    test('does not revalidate a model that was closed', async () => {
+        models.get('/models/Sales')!.isOpen = false;
+        queue.add('/models/Sales', 'a.tmdl');
+        mock.timers.tick(300);
+        await settle();
+
+        assert.deepStrictEqual(reloads, [['/models/Sales', ['a.tmdl']]]);
+        assert.deepStrictEqual(validated, []);
+    });
+
+    test('drops queued changes when disposed', async () => {
+        queue.add('/models/Sales', 'a.tmdl');
+        queue.dispose();
+        mock.timers.tick(300);
+        await settle();
+
+        assert.deepStrictEqual(reloads, []);
+    });
+});
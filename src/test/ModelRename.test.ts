@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ModelRename } from '../refactor/ModelRename';
+import { ResolvedObject } from '../dax/DaxReferenceResolver';
+import { ModelStructure, TableNode } from '../views/explorer/ModelTreeItem';
+
+const SALES_TMDL = [
+    'table Sales',
+    '\tmeasure Total = SUM(Sales[Amount])',
+    '\t\tformatString: 0',
+    '\tmeasure Average =',
+    '\t\t\tVAR Amount = [Total]',
+    '\t\t\tRETURN DIVIDE(Amount, COUNTROWS(Sales))',
+    '\tcolumn Amount',
+    '\t\tdataType: decimal',
+    '\tpartition Sales = m',
+    '\t\tsource =',
+    '\t\t\t\tlet',
+    '\t\t\t\t    Source = Table.SelectRows(Raw, each [Amount] > 0)',
+    '\t\t\t\tin',
+    '\t\t\t\t    Source'
+].join('\n');
+
+const RELATIONSHIPS_TMDL = [
+    'relationship abc',
+    '\tfromColumn: Sales.Amount',
+    '\ttoColumn: Targets.Amount'
+].join('\n');
+
+/**
+ * Lists the text edits of a workspace edit as `file:line:start-end=text`.
+ */
+function describe(edit: vscode.WorkspaceEdit): string[] {
+    return edit.entries().flatMap(([uri, edits]) => edits.map(e =>
+        `${path.basename(uri.fsPath)}:${e.range.start.line}:${e.range.start.character}-${e.range.end.character}=${e.newText}`
+    )).sort();
+}
+
+suite('ModelRename', () => {
+    let folder: string;
+    let sales: TableNode;
+    let model: ModelStructure;
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'tmdl-rename-'));
+        fs.mkdirSync(path.join(folder, 'tables'));
+        fs.writeFileSync(path.join(folder, 'tables', 'Sales.tmdl'), SALES_TMDL);
+        fs.writeFileSync(path.join(folder, 'relationships.tmdl'), RELATIONSHIPS_TMDL);
+
+        sales = {
+            name: 'Sales',
+            file: 'tables/Sales.tmdl',
+            columns: [{ name: 'Amount' }],
+            measures: [{ name: 'Total' }, { name: 'Average' }],
+            partitions: [{ name: 'Sales' }]
+        };
+        model = {
+            name: 'Model',
+            path: folder,
+            database: { name: 'Model', file: 'database.tmdl' },
+            model: { name: 'Model', file: 'model.tmdl' },
+            tables: [sales],
+            relationships: [],
+            expressions: [],
+            cultures: []
+        };
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('renames a column in DAX, declarations and relationships but not in M or variables', async () => {
+        const target: ResolvedObject = { kind: 'column', table: sales, column: sales.columns[0] };
+        const edit = await ModelRename.buildEdit(target, 'Net Amount', model, folder);
+
+        assert.deepStrictEqual(describe(edit), [
+            'Sales.tmdl:1:27-33=Net Amount',
+            'Sales.tmdl:6:8-14=\'Net Amount\'',
+            'relationships.tmdl:1:19-25=\'Net Amount\''
+        ].sort());
+    });
+
+    test('renames a measure referenced from another measure', async () => {
+        const target: ResolvedObject = { kind: 'measure', table: sales, measure: sales.measures[0] };
+        const edit = await ModelRename.buildEdit(target, 'Revenue', model, folder);
+
+        assert.deepStrictEqual(describe(edit), [
+            'Sales.tmdl:1:9-14=Revenue',
+            'Sales.tmdl:4:17-22=Revenue'
+        ]);
+    });
+
+    test('renames a table in DAX, its declaration and relationships', async () => {
+        const target: ResolvedObject = { kind: 'table', table: sales };
+        const edit = await ModelRename.buildEdit(target, 'Orders', model, folder);
+
+        assert.deepStrictEqual(describe(edit), [
+            'Sales.tmdl:0:6-11=Orders',
+            'Sales.tmdl:1:21-26=Orders',
+            'Sales.tmdl:5:35-40=Orders',
+            'relationships.tmdl:1:13-18=Orders'
+        ]);
+    });
+});
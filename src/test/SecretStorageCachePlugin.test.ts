@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TokenCacheContext } from '@azure/msal-node';
+import { SecretStorageCachePlugin } from '../services/SecretStorageCachePlugin';
+
+const CACHE_KEY = 'tmdl-auth-msal-cache';
+
+suite('SecretStorageCachePlugin', () => {
+    let secrets: Map<string, string>;
+    let failing: boolean;
+    let log: string[];
+    let plugin: SecretStorageCachePlugin;
+    let deserialized: string[];
+
+    /**
+     * Builds the context MSAL passes to the plugin around a cache access.
+     */
+    function cacheContext(cacheHasChanged: boolean, serialized = '{"AccessToken":{}}'): TokenCacheContext {
+        return {
+            cacheHasChanged,
+            tokenCache: {
+                serialize: () => serialized,
+                deserialize: (cache: string) => { deserialized.push(cache); }
+            }
+        } as unknown as TokenCacheContext;
+    }
+
+    setup(() => {
+        secrets = new Map();
+        failing = false;
+        log = [];
+        deserialized = [];
+        const storage = {
+            get: async (key: string) => {
+                if (failing) {
+                    throw new Error('keychain is locked');
+                }
+                return secrets.get(key);
+            },
+            store: async (key: string, value: string) => {
+                if (failing) {
+                    throw new Error('keychain is locked');
+                }
+                secrets.set(key, value);
+            },
+            delete: async (key: string) => { secrets.delete(key); }
+        } as unknown as vscode.SecretStorage;
+        plugin = new SecretStorageCachePlugin(storage, line => log.push(line));
+    });
+
+    test('loads the stored cache before MSAL reads it', async () => {
+        await plugin.beforeCacheAccess(cacheContext(false));
+        assert.deepStrictEqual(deserialized, []);
+
+        secrets.set(CACHE_KEY, '{"RefreshToken":{}}');
+        await plugin.beforeCacheAccess(cacheContext(false));
+        assert.deepStrictEqual(deserialized, ['{"RefreshToken":{}}']);
+    });
+
+    test('stores the cache only after MSAL changed it', async () => {
+        await plugin.afterCacheAccess(cacheContext(false));
+        assert.strictEqual(secrets.has(CACHE_KEY), false);
+
+        await plugin.afterCacheAccess(cacheContext(true, '{"Account":{}}'));
+        assert.strictEqual(secrets.get(CACHE_KEY), '{"Account":{}}');
+
+        await plugin.clear();
+        assert.strictEqual(secrets.has(CACHE_KEY), false);
+    });
+
+    test('logs secret storage failures instead of failing the sign-in', async () => {
+        failing = true;
+
+        await plugin.beforeCacheAccess(cacheContext(false));
+        await plugin.afterCacheAccess(cacheContext(true));
+
+        assert.deepStrictEqual(log, [
+            'Failed to load the token cache: Error: keychain is locked',
+            'Failed to store the token cache: Error: keychain is locked'
+        ]);
+        assert.deepStrictEqual(deserialized, []);
+    });
+});
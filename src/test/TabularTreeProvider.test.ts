@@ -0,0 +1,213 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { mock } from 'node:test';
+import { TimdleClient } from '../cli/TimdleClient';
+import { ModelStructure, TableNode, TreeNode } from '../views/explorer/ModelTreeItem';
+import { TabularTreeProvider } from '../views/explorer/TabularTreeProvider';
+
+/**
+ * Parses a fixture table file: `table Name` followed by `column Name` lines.
+ */
+function parseTable(definitionFolder: string, file: string): TableNode {
+    const lines = fs.readFileSync(path.join(definitionFolder, file), 'utf8').split('\n');
+    return {
+        name: lines[0].replace(/^table /, ''),
+        file,
+        columns: lines.slice(1).map(line => ({ name: line.trim().replace(/^column /, '') })),
+        measures: [],
+        partitions: []
+    };
+}
+
+/**
+ * Builds an extension context whose mementos keep values in memory.
+ */
+function extensionContext(): vscode.ExtensionContext {
+    const memento = () => {
+        const values = new Map<string, unknown>();
+        return {
+            get: (key: string) => values.get(key),
+            update: async (key: string, value: unknown) => { values.set(key, value); }
+        };
+    };
+    return { globalState: memento(), workspaceState: memento() } as unknown as vscode.ExtensionContext;
+}
+
+suite('TabularTreeProvider', () => {
+    let folder: string;
+    let context: vscode.ExtensionContext;
+    let modelLoads: number;
+    let tableLoads: string[];
+    let unparsable: Set<string>;
+    let provider: TabularTreeProvider;
+
+    /**
+     * Writes a semantic model project with one file per table.
+     */
+    function createProject(name: string, tables: string[]): string {
+        const projectRoot = path.join(folder, `${name}.SemanticModel`);
+        fs.mkdirSync(path.join(projectRoot, 'definition', 'tables'), { recursive: true });
+        fs.writeFileSync(path.join(projectRoot, 'definition', 'model.tmdl'), 'model Model');
+        for (const table of tables) {
+            fs.writeFileSync(path.join(projectRoot, 'definition', 'tables', `${table}.tmdl`), `table ${table}\n\tcolumn Id`);
+        }
+        return projectRoot;
+    }
+
+    /**
+     * Opens a project and expands its tables in the explorer.
+     * @returns The table nodes, and the tree change events fired from then on.
+     */
+    async function openAndExpand(projectRoot: string): Promise<{ tables: TreeNode[]; changes: (TreeNode | undefined | null | void)[] }> {
+        await provider.setTmdlFolder(projectRoot);
+        const [project] = await provider.getChildren();
+        const folderNode = (await provider.getChildren(project)).find(n => n.type === 'tables')!;
+        const tables = await provider.getChildren(folderNode);
+
+        const changes: (TreeNode | undefined | null | void)[] = [];
+        provider.onDidChangeTreeData(node => changes.push(node));
+        return { tables, changes };
+    }
+
+    /**
+     * Gets the paths of table files of a project.
+     */
+    function tableFiles(projectRoot: string, ...tables: string[]): string[] {
+        return tables.map(table => path.join(projectRoot, 'definition', 'tables', `${table}.tmdl`));
+    }
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'tmdl-tree-'));
+        context = extensionContext();
+        modelLoads = 0;
+        tableLoads = [];
+        unparsable = new Set();
+
+        const client = {
+            getModelStructure: async (definitionFolder: string): Promise<ModelStructure> => {
+                modelLoads++;
+                return {
+                    name: 'Model',
+                    path: definitionFolder,
+                    database: { name: 'Model', file: 'database.tmdl' },
+                    model: { name: 'Model', file: 'model.tmdl' },
+                    tables: fs.readdirSync(path.join(definitionFolder, 'tables')).sort()
+                        .map(file => parseTable(definitionFolder, `tables/${file}`)),
+                    relationships: [],
+                    expressions: [],
+                    cultures: []
+                };
+            },
+            getTableStructure: async (definitionFolder: string, file: string): Promise<TableNode> => {
+                tableLoads.push(file);
+                if (unparsable.has(file)) {
+                    throw new Error(`${file} references a table that is not loaded`);
+                }
+                return parseTable(definitionFolder, file);
+            }
+        } as unknown as TimdleClient;
+        provider = new TabularTreeProvider(context, client);
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('opens models side by side and finds the model of a file', async () => {
+        const sales = createProject('Sales', ['Orders']);
+        const budget = createProject('Budget', ['Plan']);
+        await provider.setTmdlFolder(sales);
+        await provider.setTmdlFolder(path.join(budget, 'definition', 'tables', 'Plan.tmdl'));
+
+        assert.deepStrictEqual(provider.getModels().map(m => m.projectRoot), [budget, sales]);
+        assert.deepStrictEqual((await provider.getChildren()).map(n => n.type), ['project', 'project']);
+        assert.strictEqual(provider.getModelForFile(path.join(sales, 'definition', 'tables', 'Orders.tmdl'))?.projectRoot, sales);
+        assert.strictEqual(provider.getModelForFile(path.join(folder, 'Other.tmdl')), undefined);
+        assert.strictEqual(provider.getActiveModel()?.projectRoot, budget);
+        assert.deepStrictEqual(context.globalState.get('tmdlFolders'), [budget, sales]);
+    });
+
+    test('keeps the other models loaded when one is closed', async () => {
+        const sales = createProject('Sales', ['Orders']);
+        const budget = createProject('Budget', ['Plan']);
+        await provider.setTmdlFolder(sales);
+        await provider.setTmdlFolder(budget);
+
+        await provider.closeModel(budget);
+
+        assert.deepStrictEqual(provider.getModels().map(m => m.projectRoot), [sales]);
+        assert.deepStrictEqual(provider.getActiveModel()?.data?.tables.map(t => t.name), ['Orders']);
+        assert.deepStrictEqual(context.globalState.get('tmdlFolders'), [sales]);
+    });
+
+    test('reloads only the table files that changed', async () => {
+        const sales = createProject('Sales', ['Orders', 'Customer']);
+        const { tables, changes } = await openAndExpand(sales);
+        const [orders] = tableFiles(sales, 'Orders');
+        fs.writeFileSync(orders, 'table Orders\n\tcolumn Id\n\tcolumn Amount');
+
+        await provider.reloadFiles(sales, [orders]);
+
+        assert.strictEqual(modelLoads, 1);
+        assert.deepStrictEqual(tableLoads, ['tables/Orders.tmdl']);
+        const node = tables.find(n => n.type === 'table' && n.data.name === 'Orders')!;
+        assert.deepStrictEqual(changes, [node]);
+        assert.ok(node.type === 'table');
+        assert.deepStrictEqual(node.data.columns.map(c => c.name), ['Id', 'Amount']);
+        assert.strictEqual(node.data, provider.getModelData()?.tables.find(t => t.name === 'Orders'));
+    });
+
+    test('reloads the whole model when more than five tables or other files changed', async () => {
+        const names = ['A', 'B', 'C', 'D', 'E', 'F'];
+        const sales = createProject('Sales', names);
+        await provider.setTmdlFolder(sales);
+
+        await provider.reloadFiles(sales, tableFiles(sales, ...names.slice(0, 5)));
+        assert.deepStrictEqual([modelLoads, tableLoads.length], [1, 5]);
+
+        await provider.reloadFiles(sales, tableFiles(sales, ...names));
+        assert.deepStrictEqual([modelLoads, tableLoads.length], [2, 5]);
+
+        await provider.reloadFiles(sales, [...tableFiles(sales, 'A'), path.join(sales, 'definition', 'model.tmdl')]);
+        assert.deepStrictEqual([modelLoads, tableLoads.length], [3, 5]);
+    });
+
+    test('reloads the whole model when a table cannot be parsed on its own', async () => {
+        const sales = createProject('Sales', ['Orders']);
+        await provider.setTmdlFolder(sales);
+        unparsable.add('tables/Orders.tmdl');
+        const errors = mock.method(console, 'error', () => { /* expected */ });
+
+        try {
+            await provider.reloadFiles(sales, tableFiles(sales, 'Orders'));
+        } finally {
+            errors.mock.restore();
+        }
+
+        assert.deepStrictEqual([modelLoads, tableLoads], [2, ['tables/Orders.tmdl']]);
+        assert.strictEqual(errors.mock.callCount(), 1);
+    });
+
+    test('merges renamed, deleted and added table files', async () => {
+        const sales = createProject('Sales', ['Orders', 'Customer']);
+        const { changes } = await openAndExpand(sales);
+        const [orders, customer, returns] = tableFiles(sales, 'Orders', 'Customer', 'Returns');
+        fs.writeFileSync(orders, 'table Sales\n\tcolumn Id');
+        fs.rmSync(customer);
+        fs.writeFileSync(returns, 'table Returns\n\tcolumn Id');
+
+        await provider.reloadFiles(sales, [orders, customer, returns]);
+
+        assert.strictEqual(modelLoads, 1);
+        assert.deepStrictEqual(tableLoads, ['tables/Orders.tmdl', 'tables/Returns.tmdl']);
+        assert.deepStrictEqual(provider.getModelData()?.tables.map(t => `${t.name} ${t.file}`), ['Sales tables/Orders.tmdl', 'Returns tables/Returns.tmdl']);
+        assert.deepStrictEqual(changes.map(node => node && node.type), ['tables']);
+
+        const [project] = await provider.getChildren();
+        const folderNode = (await provider.getChildren(project)).find(n => n.type === 'tables')!;
+        assert.deepStrictEqual((await provider.getChildren(folderNode)).map(n => n.type === 'table' && n.data.name), ['Sales', 'Returns']);
+    });
+});
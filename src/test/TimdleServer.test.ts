@@ -0,0 +1,210 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import { EventEmitter } from 'events';
+import { PassThrough, Writable } from 'stream';
+import { mock } from 'node:test';
+import * as vscode from 'vscode';
+import { RequestCancelledError, ServerLog, TimdleServer } from '../cli/TimdleServer';
+
+/**
+ * Stand-in for a `timdle serve` process: records what is written to stdin and lets the test
+ * write stdout and end the process.
+ */
+class FakeProcess extends EventEmitter {
+    readonly stdout = new PassThrough();
+    readonly stderr = new PassThrough();
+    readonly sent: { id?: number; method: string; params: unknown }[] = [];
+    readonly stdin = new Writable({
+        write: (chunk: Buffer, _encoding, callback) => {
+            for (const line of chunk.toString().split('\n').filter(l => l)) {
+                this.sent.push(JSON.parse(line));
+            }
+            callback();
+        }
+    });
+    killed = false;
+
+    /**
+     * Writes raw text to stdout and waits for it to be read.
+     * @param text - The text to write.
+     */
+    async write(text: string): Promise<void> {
+        this.stdout.write(text);
+        await new Promise(resolve => setImmediate(resolve));
+    }
+
+    /**
+     * Answers a request with a result.
+     * @param id - The request id.
+     * @param result - The result.
+     */
+    respond(id: number, result: unknown): Promise<void> {
+        return this.write(`${JSON.stringify({ jsonrpc: '2.0', id, result })}\n`);
+    }
+
+    kill(): boolean {
+        this.killed = true;
+        this.exit(null, 'SIGTERM');
+        return true;
+    }
+
+    /**
+     * Ends the process.
+     * @param code - The exit code.
+     * @param signal - The signal, if any.
+     */
+    exit(code: number | null, signal?: string): void {
+        this.emit('exit', code, signal ?? null);
+    }
+}
+
+/**
+ * Counts the pending timers of the test process.
+ */
+function timers(): number {
+    return process.getActiveResourcesInfo().filter(resource => resource === 'Timeout').length;
+}
+
+suite('TimdleServer', () => {
+    let processes: FakeProcess[];
+    let log: string[];
+    let server: TimdleServer;
+
+    setup(() => {
+        processes = [];
+        log = [];
+        const output: ServerLog = { append: text => log.push(text), appendLine: line => log.push(line) };
+        server = new TimdleServer('timdle', output, () => {
+            const child = new FakeProcess();
+            processes.push(child);
+            return child as unknown as cp.ChildProcessWithoutNullStreams;
+        });
+    });
+
+    teardown(() => {
+        server.dispose();
+    });
+
+    test('sends one JSON-RPC request per line and starts the process once', async () => {
+        server.request('validate', { path: 'a' }).catch(() => { /* rejected on teardown */ });
+        server.request('listTables', { path: 'b' }).catch(() => { /* rejected on teardown */ });
+        await new Promise(resolve => setImmediate(resolve));
+
+        assert.strictEqual(processes.length, 1);
+        assert.deepStrictEqual(processes[0].sent, [
+            { jsonrpc: '2.0', id: 1, method: 'validate', params: { path: 'a' } },
+            { jsonrpc: '2.0', id: 2, method: 'listTables', params: { path: 'b' } }
+        ]);
+    });
+
+    test('matches responses to requests by id and reassembles split lines', async () => {
+        const first = assert.rejects(server.request('validate', {}), /boom/);
+        const second = server.request<string>('listTables', {});
+        const child = processes[0];
+
+        await child.write('{"jsonrpc":"2.0","id":2,"res');
+        await child.write('ult":"two"}\n{"jsonrpc":"2.0","id":1,"error":{"code":-32603,"message":"boom"}}\n');
+
+        assert.strictEqual(await second, 'two');
+        await first;
+    });
+
+    test('passes progress notifications to the request they belong to', async () => {
+        const updates: unknown[] = [];
+        const deploy = server.request('deploy', {}, { onProgress: update => updates.push(update) });
+        const child = processes[0];
+
+        await child.write('not json\n');
+        await child.write(`${JSON.stringify({ jsonrpc: '2.0', method: 'progress', params: { requestId: 1, stage: 'authenticating' } })}\n`);
+        await child.write(`${JSON.stringify({ jsonrpc: '2.0', method: 'progress', params: { requestId: 9, stage: 'other' } })}\n`);
+        await child.respond(1, true);
+
+        assert.strictEqual(await deploy, true);
+        assert.deepStrictEqual(updates, [{ requestId: 1, stage: 'authenticating' }]);
+        assert.ok(log.some(line => line.includes('Ignoring non-JSON output from timdle: not json')));
+    });
+
+    test('fails pending requests when the process crashes and restarts on the next request', async () => {
+        const request = server.request('validate', {});
+        processes[0].exit(1);
+
+        await assert.rejects(request, /exited before answering 'validate'/);
+        assert.ok(log.some(line => line.includes('exited unexpectedly (code: 1)')));
+
+        const retry = server.request<boolean>('validate', {});
+        assert.strictEqual(processes.length, 2);
+        await processes[1].respond(2, true);
+        assert.strictEqual(await retry, true);
+    });
+
+    test('stops restarting after repeated crashes', async () => {
+        for (let i = 0; i < 3; i++) {
+            const request = server.request('validate', {});
+            processes[i].exit(1);
+            await assert.rejects(request);
+        }
+
+        await assert.rejects(server.request('validate', {}), /crashed 3 times in the last minute; not restarting/);
+        assert.strictEqual(processes.length, 3);
+    });
+
+    test('cancels a request with a notification and keeps the process for other requests', async () => {
+        const source = new vscode.CancellationTokenSource();
+        const deploy = server.request('deploy', {}, { token: source.token });
+        const validate = server.request<boolean>('validate', {});
+        const child = processes[0];
+        await new Promise(resolve => setImmediate(resolve));
+        const before = timers();
+
+        source.cancel();
+        await assert.rejects(deploy, (error: unknown) => error instanceof RequestCancelledError);
+        await new Promise(resolve => setImmediate(resolve));
+        assert.deepStrictEqual(child.sent[2], { jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 1 } });
+
+        await child.write(`${JSON.stringify({ jsonrpc: '2.0', id: 1, error: { code: -32800, message: 'cancelled' } })}\n`);
+        await child.respond(2, true);
+        assert.strictEqual(await validate, true);
+        assert.strictEqual(child.killed, false);
+        assert.strictEqual(timers(), before);
+    });
+
+    test('kills the process when a cancelled request does not stop in time', async () => {
+        mock.timers.enable({ apis: ['setTimeout'] });
+        try {
+            const source = new vscode.CancellationTokenSource();
+            const deploy = server.request('deploy', {}, { token: source.token });
+            const validate = server.request('validate', {});
+            source.cancel();
+            await assert.rejects(deploy, (error: unknown) => error instanceof RequestCancelledError);
+
+            mock.timers.tick(9999);
+            assert.strictEqual(processes[0].killed, false);
+            mock.timers.tick(1);
+            assert.strictEqual(processes[0].killed, true);
+            await assert.rejects(validate, /exited before answering 'validate'/);
+        } finally {
+            mock.timers.reset();
+        }
+
+        // The kill is not a crash
+        assert.ok(!log.some(line => line.includes('exited unexpectedly')));
+        assert.ok(log.some(line => line.includes("'deploy' did not stop after it was cancelled")));
+    });
+
+    test('shuts down without waiting for the kill timeout once the process exits', async () => {
+        const pending = assert.rejects(server.request('validate', {}), /exited before answering/);
+        const child = processes[0];
+        child.stdin.on('finish', () => child.exit(0));
+
+        await new Promise(resolve => setImmediate(resolve));
+        const before = timers();
+        await server.shutdown();
+
+        assert.strictEqual(timers(), before);
+        assert.strictEqual(child.sent[1].method, 'shutdown');
+        assert.strictEqual(child.killed, false);
+        await pending;
+        assert.ok(!log.some(line => line.includes('exited unexpectedly')));
+        await assert.rejects(server.request('validate', {}), /shutting down/);
+    });
+});
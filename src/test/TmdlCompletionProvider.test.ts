@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TmdlCompletionProvider } from '../providers/TmdlCompletionProvider';
+import { FILES, ModelFixture } from './ModelFixture';
+
+const CUSTOMER = 'tables/Customer.tmdl';
+
+/**
+ * Gets the label of a completion item.
+ */
+function label(item: vscode.CompletionItem): string {
+    return typeof item.label === 'string' ? item.label : item.label.label;
+}
+
+suite('TmdlCompletionProvider', () => {
+    let fixture: ModelFixture;
+    let provider: TmdlCompletionProvider;
+
+    /**
+     * Completes at the `|` in lines appended to the Customer table file.
+     */
+    function complete(...lines: string[]): vscode.CompletionItem[] | undefined {
+        const text = [...FILES[CUSTOMER], ...lines];
+        const line = text.findIndex(l => l.includes('|'));
+        const character = text[line].indexOf('|');
+        text[line] = text[line].replace('|', '');
+        return provider.provideCompletionItems(fixture.document(CUSTOMER, text), new vscode.Position(line, character));
+    }
+
+    setup(() => {
+        fixture = new ModelFixture();
+        provider = new TmdlCompletionProvider(fixture.treeProvider);
+    });
+
+    teardown(() => {
+        fixture.dispose();
+    });
+
+    test('offers only the columns and measures of the table before a bracket', () => {
+        const items = complete('\tmeasure Draft = SUM(\'Sales\'[|')!;
+
+        assert.deepStrictEqual(items.map(label), ['Amount', 'Net', '[Total Sales]', '[Orders]']);
+        assert.strictEqual(items[0].insertText, 'Amount]');
+        assert.strictEqual((items[0].range as vscode.Range).start.character, '\tmeasure Draft = SUM(\'Sales\'['.length);
+        assert.deepStrictEqual(complete('\tmeasure Draft = SUM(\'Returns\'[|'), []);
+    });
+
+    test('does not add a closing bracket that is already there', () => {
+        const items = complete('\tmeasure Draft = SUM(Customer[Dis|])')!;
+
+        assert.deepStrictEqual(items.map(label), ['Name', 'Discount', '[Customers]', '[Sales per Customer]']);
+        assert.strictEqual(items[1].insertText, 'Discount');
+    });
+
+    test('offers every measure and the columns of the current table after an unqualified bracket', () => {
+        assert.deepStrictEqual(complete('\tmeasure Draft = [|')!.map(label), [
+            '[Total Sales]', '[Orders]', '[Customers]', '[Sales per Customer]', 'Name', 'Discount'
+        ]);
+    });
+
+    test('offers quoted table names after a quote', () => {
+        const items = complete('\tmeasure Draft = COUNTROWS(\'Sa|')!;
+
+        assert.deepStrictEqual(items.map(label), ['Sales', 'Customer']);
+        assert.strictEqual(items[0].insertText, '\'Sales\'');
+        assert.strictEqual((items[0].range as vscode.Range).start.character, '\tmeasure Draft = COUNTROWS('.length);
+    });
+
+    test('offers functions, tables, columns and measures in code', () => {
+        const items = complete('\tmeasure Draft = SU|')!;
+        const byLabel = new Map(items.map(item => [label(item), item]));
+
+        assert.strictEqual(byLabel.get('SUM')?.kind, vscode.CompletionItemKind.Function);
+        assert.strictEqual(byLabel.get('Sales')?.insertText, 'Sales');
+        assert.strictEqual(byLabel.get('\'Sales\'[Amount]')?.kind, vscode.CompletionItemKind.Field);
+        assert.strictEqual(byLabel.get('[Total Sales]')?.insertText, '[Total Sales]');
+    });
+
+    test('completes the continuation lines of multi-line expressions', () => {
+        assert.deepStrictEqual(complete('\tmeasure Draft =', '\t\t\tSUM(Sales[|')!.map(label), ['Amount', 'Net', '[Total Sales]', '[Orders]']);
+    });
+
+    test('offers nothing outside DAX code', () => {
+        assert.strictEqual(complete('\tmeasure Draft = "Sales[|'), undefined);
+        assert.strictEqual(complete('\tmeasure Draft = 1 // [|'), undefined);
+        assert.strictEqual(complete('\tmeasure Dr|aft = 1'), undefined);
+        assert.strictEqual(complete('\tmeasure Draft = 1', '\t\tformatString: |'), undefined);
+    });
+});
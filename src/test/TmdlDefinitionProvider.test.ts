@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { TmdlDefinitionProvider } from '../providers/TmdlDefinitionProvider';
+import { ModelFixture } from './ModelFixture';
+
+const SALES = 'tables/Sales.tmdl';
+const CUSTOMER = 'tables/Customer.tmdl';
+
+suite('TmdlDefinitionProvider', () => {
+    let fixture: ModelFixture;
+    let provider: TmdlDefinitionProvider;
+
+    /**
+     * Describes a location compactly, e.g. `tables/Sales.tmdl:6:16-29`.
+     */
+    function describe(location: vscode.Location): string {
+        const file = path.relative(fixture.definitionFolder, location.uri.fsPath).split(path.sep).join('/');
+        const { start, end } = location.range;
+        return start.isEqual(end) ? `${file}:${start.line}` : `${file}:${start.line}:${start.character}-${end.character}`;
+    }
+
+    /**
+     * Finds the references to the object at text on a line of a model file.
+     */
+    async function references(file: string, line: number, text: string, includeDeclaration = false): Promise<string[]> {
+        const locations = await provider.provideReferences(fixture.document(file), fixture.position(file, line, text), { includeDeclaration });
+        return locations.map(describe);
+    }
+
+    setup(() => {
+        fixture = new ModelFixture();
+        provider = new TmdlDefinitionProvider(fixture.treeProvider);
+    });
+
+    teardown(() => {
+        fixture.dispose();
+    });
+
+    test('goes to the declaration of a referenced object', () => {
+        const definition = (file: string, line: number, text: string) => {
+            const location = provider.provideDefinition(fixture.document(file), fixture.position(file, line, text));
+            return location && describe(location);
+        };
+
+        assert.strictEqual(definition(SALES, 11, 'Discount'), `${CUSTOMER}:8`);
+        assert.strictEqual(definition(SALES, 11, 'Customer['), `${CUSTOMER}:0`);
+        assert.strictEqual(definition(SALES, 11, '[Amount]'), `${SALES}:8`);
+        assert.strictEqual(definition(CUSTOMER, 3, '[Total Sales]'), `${SALES}:1`);
+        assert.strictEqual(definition(SALES, 6, 'rows'), undefined);
+    });
+
+    test('finds the references to a measure across files', async () => {
+        assert.deepStrictEqual(await references(SALES, 6, '[Total Sales]'), [`${CUSTOMER}:3:39-52`, `${SALES}:6:17-30`]);
+    });
+
+    test('finds the references to the object declared on a line', async () => {
+        assert.deepStrictEqual(await references(SALES, 8, 'Amount', true), [`${SALES}:8`, `${SALES}:1:29-42`, `${SALES}:11:14-22`]);
+    });
+
+    test('counts qualified and bare names as table references', async () => {
+        assert.deepStrictEqual(await references(CUSTOMER, 0, 'Customer'), [`${CUSTOMER}:1:31-39`, `${SALES}:11:25-43`]);
+    });
+
+    test('finds no references on lines without a model object', async () => {
+        assert.deepStrictEqual(await references(SALES, 9, 'decimal'), []);
+    });
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TmdlHoverProvider } from '../providers/TmdlHoverProvider';
+import { ModelFixture } from './ModelFixture';
+
+const SALES = 'tables/Sales.tmdl';
+
+suite('TmdlHoverProvider', () => {
+    let fixture: ModelFixture;
+    let provider: TmdlHoverProvider;
+
+    /**
+     * Hovers over text on a line of the Sales table file.
+     */
+    function hover(line: number, text: string): vscode.Hover | undefined {
+        return provider.provideHover(fixture.document(SALES), fixture.position(SALES, line, text));
+    }
+
+    /**
+     * Gets the markdown of a hover.
+     */
+    function markdown(result: vscode.Hover | undefined): string {
+        assert.ok(result, 'expected a hover');
+        return (result.contents[0] as vscode.MarkdownString).value;
+    }
+
+    setup(() => {
+        fixture = new ModelFixture();
+        provider = new TmdlHoverProvider(fixture.treeProvider);
+    });
+
+    teardown(() => {
+        fixture.dispose();
+    });
+
+    test('describes a column and spans the whole reference', () => {
+        const result = hover(1, 'Amount');
+        const text = markdown(result);
+
+        assert.ok(text.startsWith('**column** `\'Sales\'[Amount]`'));
+        assert.ok(text.includes('Table: Sales'));
+        assert.ok(text.includes('Data type: decimal'));
+        const start = fixture.position(SALES, 1, 'Sales[Amount]');
+        assert.deepStrictEqual([result!.range!.start.character, result!.range!.end.character], [start.character, start.character + 'Sales[Amount]'.length]);
+    });
+
+    test('describes the table on the table part of a qualified reference', () => {
+        const text = markdown(hover(1, 'Sales[Amount]'));
+
+        assert.ok(text.startsWith('**table** `\'Sales\'`'));
+        assert.ok(text.includes('Contents: 2 columns, 2 measures'));
+    });
+
+    test('describes a measure with its expression and a link to its declaration', () => {
+        const text = markdown(hover(6, '[Total Sales]'));
+
+        assert.ok(text.startsWith('**measure** `[Total Sales]`'));
+        assert.ok(text.includes('Format string: Currency'));
+        assert.ok(text.includes('Revenue after returns'));
+        assert.ok(text.includes('```dax\nSUM(Sales[Amount])\n```'));
+        const args = encodeURIComponent(JSON.stringify([fixture.path(SALES), 2]));
+        assert.ok(text.endsWith(`[Go to definition](command:tmdl-studio.open-file-at-line?${args})`));
+    });
+
+    test('shows no hover on variables, M code or names that do not resolve', () => {
+        assert.strictEqual(hover(6, 'rows'), undefined);
+        assert.strictEqual(hover(16, 'Sql.Database'), undefined);
+        assert.strictEqual(hover(4, 'Orders'), undefined);
+
+        const document = fixture.document(SALES, ['table Sales', '\tmeasure Broken = [Missing]']);
+        assert.strictEqual(provider.provideHover(document, new vscode.Position(1, 20)), undefined);
+    });
+});
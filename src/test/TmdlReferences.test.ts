@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { findExpressionLines, parseTmdlLines } from '../providers/TmdlReferences';
+
+/**
+ * Describes the references of each line compactly, e.g. `Sales[Amount]`, `[Total]` or `Sales`.
+ */
+function describe(lines: string[]): string[][] {
+    return parseTmdlLines(lines).map(references => references.map(r =>
+        r.name === undefined ? r.table! : `${r.table ?? ''}[${r.name}]`
+    ));
+}
+
+suite('TmdlReferences', () => {
+    test('parses single-line measures and calculated columns', () => {
+        assert.deepStrictEqual(describe([
+            'table Sales',
+            '\tmeasure Total = SUM(Sales[Amount])',
+            '\t\tformatString: 0',
+            '\tcolumn Net = Sales[Amount] - [Tax]',
+            '\t\tdataType: decimal'
+        ]), [[], ['Sales[Amount]'], [], ['Sales[Amount]', '[Tax]'], []]);
+    });
+
+    test('parses multi-line DAX and skips its variables and keywords', () => {
+        assert.deepStrictEqual(describe([
+            'table Sales',
+            '\tmeasure Total =',
+            '\t\t\tVAR Sales = SUM(Sales[Amount])',
+            '\t\t\tRETURN Sales + COUNTROWS(Returns)',
+            '\t\tformatString: 0'
+        ]), [[], [], ['Sales[Amount]'], ['Returns'], []]);
+    });
+
+    test('does not parse M partition sources', () => {
+        const lines = [
+            'table Sales',
+            '\tpartition Sales = m',
+            '\t\tmode: import',
+            '\t\tsource =',
+            '\t\t\t\tlet',
+            '\t\t\t\t    Source = Sql.Database("server", "db"),',
+            '\t\t\t\t    #"Changed Type" = Table.TransformColumnTypes(Source,{{"OrderDate", type date}}),',
+            '\t\t\t\t    Filtered = Table.SelectRows(#"Changed Type", each [Amount] > 0)',
+            '\t\t\t\tin',
+            '\t\t\t\t    Filtered',
+            '',
+            '\tmeasure Total = SUM(Sales[Amount])'
+        ];
+        assert.deepStrictEqual(describe(lines), [[], [], [], [], [], [], [], [], [], [], [], ['Sales[Amount]']]);
+        assert.strictEqual(findExpressionLines(lines)[6]?.language, 'm');
+    });
+
+    test('does not parse shared expressions', () => {
+        assert.deepStrictEqual(describe([
+            'expression Server = "localhost" meta [IsParameterQuery=true, Type="Text"]',
+            'expression Dates =',
+            '\t\tlet',
+            '\t\t    Source = List.Dates(#date(2020, 1, 1), 365, #duration(1, 0, 0, 0))',
+            '\t\tin',
+            '\t\t    Source'
+        ]), [[], [], [], [], [], []]);
+    });
+
+    test('parses the DAX source of calculated partitions', () => {
+        assert.deepStrictEqual(describe([
+            'table Calendar',
+            '\tpartition Calendar = calculated',
+            '\t\tmode: import',
+            '\t\tsource = CALENDAR(MIN(Sales[Date]), MAX(Sales[Date]))'
+        ]), [[], [], [], ['Sales[Date]', 'Sales[Date]']]);
+    });
+
+    test('parses DAX expression properties', () => {
+        assert.deepStrictEqual(describe([
+            'table Sales',
+            '\tmeasure Total = [Amount]',
+            '\t\tformatStringDefinition = IF([Amount] > 1000, "#,0", "0.00")'
+        ]), [[], ['[Amount]'], ['[Amount]']]);
+    });
+
+    test('does not parse declarations, properties or annotations', () => {
+        assert.deepStrictEqual(describe([
+            'table Sales',
+            '\tcolumn Amount',
+            '\t\tdataType: decimal',
+            '\t\tsourceColumn: Amount',
+            '\t\tannotation SummarizationSetBy = Automatic',
+            'relationship abc',
+            '\tfromColumn: Sales.ProductKey'
+        ]), [[], [], [], [], [], [], []]);
+    });
+
+    test('parses fenced expressions', () => {
+        assert.deepStrictEqual(describe([
+            'table Sales',
+            '\tmeasure Total = ```',
+            '\t\t\tSUM(Sales[Amount])',
+            '\t\t```',
+            '\t\tformatString: 0'
+        ]), [[], [], ['Sales[Amount]'], [], []]);
+    });
+});
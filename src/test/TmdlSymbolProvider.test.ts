@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TmdlSymbolProvider } from '../providers/TmdlSymbolProvider';
+import { FILES, ModelFixture, textDocument } from './ModelFixture';
+
+/**
+ * Describes a document symbol compactly, e.g. `[Orders] 4-6`.
+ */
+function describe(symbol: vscode.DocumentSymbol): string {
+    return `${symbol.name} ${symbol.range.start.line}-${symbol.range.end.line}`;
+}
+
+suite('TmdlSymbolProvider', () => {
+    let fixture: ModelFixture;
+    let provider: TmdlSymbolProvider;
+
+    setup(() => {
+        fixture = new ModelFixture();
+        provider = new TmdlSymbolProvider(fixture.treeProvider);
+    });
+
+    teardown(() => {
+        fixture.dispose();
+    });
+
+    test('finds workspace symbols whose name contains the query in order', () => {
+        const symbols = provider.provideWorkspaceSymbols('cust');
+
+        assert.deepStrictEqual(symbols.map(s => [s.name, s.kind, s.containerName]), [
+            ['Customer', vscode.SymbolKind.Class, ''],
+            ['[Customers]', vscode.SymbolKind.Function, 'Customer'],
+            ['[Sales per Customer]', vscode.SymbolKind.Function, 'Customer'],
+            ['SalesCustomer', vscode.SymbolKind.Interface, '']
+        ]);
+        assert.strictEqual(symbols[1].location.uri.fsPath, fixture.path('tables/Customer.tmdl'));
+        assert.strictEqual(symbols[1].location.range.start.line, 1);
+        assert.deepStrictEqual(provider.provideWorkspaceSymbols('TSls').map(s => s.name), ['[Total Sales]']);
+    });
+
+    test('nests the columns, measures and partitions of a table in its outline', () => {
+        const [table, ...others] = provider.provideDocumentSymbols(fixture.document('tables/Sales.tmdl'));
+
+        assert.deepStrictEqual(others, []);
+        assert.strictEqual(describe(table), 'Sales 0-16');
+        assert.deepStrictEqual(table.children.map(describe), ['[Amount] 8-9', '[Net] 11-12', '[Total Sales] 1-2', '[Orders] 4-6', 'Sales 14-16']);
+
+        const orders = table.children[3];
+        assert.deepStrictEqual([orders.kind, orders.detail], [vscode.SymbolKind.Function, 'Sales']);
+        assert.deepStrictEqual(
+            [orders.selectionRange.start.line, orders.selectionRange.start.character, orders.selectionRange.end.character],
+            [4, 1, FILES['tables/Sales.tmdl'][4].length]
+        );
+    });
+
+    test('lists top-level objects of files without tables', () => {
+        const symbols = provider.provideDocumentSymbols(fixture.document('relationships.tmdl'));
+
+        assert.deepStrictEqual(symbols.map(describe), ['SalesCustomer 0-2']);
+        assert.strictEqual(symbols[0].kind, vscode.SymbolKind.Interface);
+    });
+
+    test('skips declarations beyond the end of an edited document', () => {
+        const [table] = provider.provideDocumentSymbols(fixture.document('tables/Sales.tmdl', FILES['tables/Sales.tmdl'].slice(0, 10)));
+
+        assert.deepStrictEqual(table.children.map(s => s.name), ['[Amount]', '[Total Sales]', '[Orders]']);
+    });
+
+    test('returns no symbols for files outside a loaded model', () => {
+        assert.deepStrictEqual(provider.provideDocumentSymbols(textDocument(vscode.Uri.file('/elsewhere/Sales.tmdl'), ['table Sales'])), []);
+    });
+});
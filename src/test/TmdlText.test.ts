@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { TmdlText } from '../refactor/TmdlText';
+
+const SALES = [
+    'table Sales',
+    '\tlineageTag: 1',
+    '',
+    '\t/// Sum of all sales',
+    '\tmeasure Total =',
+    '\t\t\tSUM(Sales[Amount])',
+    '\t\tformatString: 0',
+    '',
+    '\tmeasure Fenced = ```',
+    '\t\t\tSUM(Sales[Amount])',
+    '',
+    '\t\t```',
+    '',
+    '\tcolumn Amount',
+    '\t\tdataType: decimal',
+    ''
+];
+
+suite('TmdlText', () => {
+    test('detects the indentation unit', () => {
+        assert.strictEqual(TmdlText.indentUnit(SALES), '\t');
+        assert.strictEqual(TmdlText.indentUnit(['table Sales', '    measure Total = 1']), '    ');
+        assert.strictEqual(TmdlText.indentUnit(['table Sales']), '\t');
+    });
+
+    test('finds the end of blocks, including multi-line and fenced expressions', () => {
+        assert.strictEqual(TmdlText.blockEnd(SALES, 4), 6);
+        assert.strictEqual(TmdlText.blockEnd(SALES, 8), 11);
+        assert.strictEqual(TmdlText.blockEnd(SALES, 13), 14);
+        assert.strictEqual(TmdlText.blockEnd(SALES, 0), 14);
+    });
+
+    test('removes a block with its description and one blank separator', () => {
+        assert.deepStrictEqual(TmdlText.blockRemovalRange(SALES, 4), { first: 3, last: 7 });
+        // The last block takes the blank line before it, not the final line break
+        assert.deepStrictEqual(TmdlText.blockRemovalRange(SALES, 13), { first: 12, last: 14 });
+    });
+
+    test('lists the children of a declaration by keyword', () => {
+        assert.deepStrictEqual(TmdlText.children(SALES, 0, 'measure'), [4, 8]);
+        assert.deepStrictEqual(TmdlText.children(SALES, 0, 'column'), [13]);
+        assert.deepStrictEqual(TmdlText.children(SALES, 0, 'partition'), []);
+    });
+
+    test('inserts children after their siblings, else before the first nested object', () => {
+        assert.deepStrictEqual(TmdlText.childInsertion(SALES, 0, 'measure'), { line: 11, before: false });
+        assert.deepStrictEqual(TmdlText.childInsertion(SALES, 0, 'partition'), { line: 4, before: true });
+        assert.strictEqual(TmdlText.childInsertion(['table Sales', '\tlineageTag: 1'], 0, 'measure'), undefined);
+    });
+
+    test('gets the indentation of nested objects', () => {
+        assert.strictEqual(TmdlText.childIndent(SALES, 0), 1);
+        assert.strictEqual(TmdlText.childIndent(['table Sales'], 0), 1);
+        assert.strictEqual(TmdlText.childIndent(['  table Sales', '    x', 'y'], 0), 4);
+    });
+});
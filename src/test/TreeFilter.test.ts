@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { TreeFilter } from '../views/explorer/TreeFilter';
+
+suite('TreeFilter', () => {
+    test('returns no filter for empty queries', () => {
+        assert.strictEqual(TreeFilter.parse('', false), undefined);
+        assert.strictEqual(TreeFilter.parse('   ', true), undefined);
+    });
+
+    test('matches names by case-insensitive substring', () => {
+        const filter = TreeFilter.parse('  Sales ', false)!;
+        assert.strictEqual(filter.query, 'Sales');
+        assert.deepStrictEqual(filter.match('measure', 'Total SALES'), [[6, 11]]);
+        assert.strictEqual(filter.match('measure', 'Total Revenue'), undefined);
+    });
+
+    test('matches names fuzzily as a subsequence', () => {
+        const filter = TreeFilter.parse('tsa', true)!;
+        assert.deepStrictEqual(filter.match('measure', 'Total Sales'), [[0, 1], [6, 8]]);
+        assert.strictEqual(filter.match('measure', 'Sales Total'), undefined);
+    });
+
+    test('limits matches to the given types', () => {
+        const filter = TreeFilter.parse('type:measures,column amount', false)!;
+        assert.deepStrictEqual(filter.match('measure', 'Amount'), [[0, 6]]);
+        assert.deepStrictEqual(filter.match('column', 'Net Amount'), [[4, 10]]);
+        assert.strictEqual(filter.match('table', 'Amount'), undefined);
+    });
+
+    test('matches nothing when only unknown types are given', () => {
+        const filter = TreeFilter.parse('type:visual', false)!;
+        assert.strictEqual(filter.match('measure', 'Total'), undefined);
+    });
+
+    test('limits matches to tables whose name contains the table text', () => {
+        const filter = TreeFilter.parse('TABLE:sales', false)!;
+        assert.deepStrictEqual(filter.match('measure', 'Total', 'Online Sales'), []);
+        assert.deepStrictEqual(filter.match('table', 'Sales'), []);
+        assert.strictEqual(filter.match('measure', 'Total', 'Returns'), undefined);
+        assert.strictEqual(filter.match('relationship', 'Sales to Product'), undefined);
+    });
+});
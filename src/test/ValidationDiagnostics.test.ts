@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { TimdleClient, ValidationDiagnostic } from '../cli/TimdleClient';
+import { ValidationDiagnostics } from '../diagnostics/ValidationDiagnostics';
+
+const SALES = path.resolve('/models/Sales.SemanticModel/definition');
+const BUDGET = path.resolve('/models/Budget.SemanticModel/definition');
+
+suite('ValidationDiagnostics', () => {
+    let results: Map<string, ValidationDiagnostic[]>;
+    let diagnostics: ValidationDiagnostics;
+
+    /**
+     * Gets the diagnostics published for a model file.
+     */
+    function published(folder: string, file: string): vscode.Diagnostic[] {
+        return vscode.languages.getDiagnostics(vscode.Uri.file(path.join(folder, file)));
+    }
+
+    setup(() => {
+        results = new Map();
+        const client = {
+            validate: async (tmdlPath: string) => {
+                const found = results.get(tmdlPath) ?? [];
+                return { isSuccess: found.length === 0, isWarning: false, message: '', diagnostics: found };
+            }
+        } as unknown as TimdleClient;
+        diagnostics = new ValidationDiagnostics(client);
+    });
+
+    teardown(() => {
+        diagnostics.dispose();
+    });
+
+    test('maps results to ranges and severities', async () => {
+        results.set(SALES, [
+            { file: 'tables/Sales.tmdl', line: 3, column: 5, severity: 'error', code: 'TMDL001', message: 'Unknown column' },
+            { file: 'tables/Sales.tmdl', severity: 'warning', code: 'TMDL002', message: 'Unused measure' },
+            { file: 'model.tmdl', line: 1, column: 1, severity: 'info', code: 'TMDL003', message: 'No culture' }
+        ]);
+
+        await diagnostics.refresh(SALES);
+
+        const [error, warning] = published(SALES, 'tables/Sales.tmdl');
+        assert.deepStrictEqual([error.range.start.line, error.range.start.character, error.range.end.line], [2, 4, 2]);
+        assert.strictEqual(error.range.end.character, Number.MAX_SAFE_INTEGER);
+        assert.deepStrictEqual([error.severity, error.code, error.message, error.source], [vscode.DiagnosticSeverity.Error, 'TMDL001', 'Unknown column', 'TMDL Studio']);
+        assert.deepStrictEqual([warning.range.start.line, warning.range.start.character], [0, 0]);
+        assert.strictEqual(warning.severity, vscode.DiagnosticSeverity.Warning);
+        assert.strictEqual(published(SALES, 'model.tmdl')[0].severity, vscode.DiagnosticSeverity.Information);
+    });
+
+    test('replaces the diagnostics of the validated model only', async () => {
+        results.set(SALES, [{ file: 'tables/Sales.tmdl', line: 1, severity: 'error', code: 'TMDL001', message: 'Unknown column' }]);
+        results.set(BUDGET, [{ file: 'tables/Budget.tmdl', line: 1, severity: 'error', code: 'TMDL001', message: 'Unknown column' }]);
+        await diagnostics.refresh(SALES);
+        await diagnostics.refresh(BUDGET);
+
+        results.set(SALES, [{ file: 'model.tmdl', line: 1, severity: 'warning', code: 'TMDL003', message: 'No culture' }]);
+        await diagnostics.refresh(SALES);
+
+        assert.strictEqual(published(SALES, 'tables/Sales.tmdl').length, 0);
+        assert.strictEqual(published(SALES, 'model.tmdl').length, 1);
+        assert.strictEqual(published(BUDGET, 'tables/Budget.tmdl').length, 1);
+    });
+
+    test('clears one model or every model', async () => {
+        results.set(SALES, [{ file: 'tables/Sales.tmdl', line: 1, severity: 'error', code: 'TMDL001', message: 'Unknown column' }]);
+        results.set(BUDGET, [{ file: 'tables/Budget.tmdl', line: 1, severity: 'error', code: 'TMDL001', message: 'Unknown column' }]);
+        await diagnostics.refresh(SALES);
+        await diagnostics.refresh(BUDGET);
+
+        diagnostics.clear(SALES);
+        assert.strictEqual(published(SALES, 'tables/Sales.tmdl').length, 0);
+        assert.strictEqual(published(BUDGET, 'tables/Budget.tmdl').length, 1);
+
+        diagnostics.clear();
+        assert.strictEqual(published(BUDGET, 'tables/Budget.tmdl').length, 0);
+    });
+});
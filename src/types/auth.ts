@@ -2,11 +2,19 @@
  * Authentication types for TMDL Studio deployment.
  */
 
+import type { AccountInfo as MsalAccountInfo } from '@azure/msal-node';
+
 /**
  * Authentication mode for deployment.
  */
 export type AuthMode = 'interactive' | 'service-principal' | 'env';
 
+/**
+ * How an interactive sign-in is done: authorization code with PKCE in the system browser,
+ * device code, or VS Code's built-in Microsoft authentication provider.
+ */
+export type SignInFlow = 'browser' | 'deviceCode' | 'vscode';
+
 /**
  * Result of an authentication operation.
  */
@@ -14,6 +22,8 @@ export interface AuthResult {
     accessToken: string;
     expiresOn: Date;
     account?: AccountInfo;
+    /** Service principal credentials, for modes where the CLI acquires the token. */
+    credentials?: ServicePrincipalCredentials;
 }
 
 /**
@@ -33,6 +43,17 @@ export interface ServicePrincipalCredentials {
     tenantId: string;
 }
 
+/**
+ * A named service principal saved for reuse. The secret is kept in SecretStorage and only
+ * read when deploying or testing.
+ */
+export interface ServicePrincipalProfile {
+    id: string;
+    name: string;
+    clientId: string;
+    tenantId: string;
+}
+
 /**
  * Token cache entry for storing authentication tokens.
  */
@@ -43,12 +64,44 @@ export interface TokenCacheEntry {
     account: AccountInfo;
 }
 
+/**
+ * A signed-in Microsoft account kept in the account store, with its latest token.
+ */
+export interface StoredAccount extends TokenCacheEntry {
+    /** Store key: `<tenantId>/<username>`, lower case. */
+    id: string;
+    tenantId: string;
+    /**
+     * Tenant domains the account was signed in with, e.g. `contoso.com`, lower case. `tenantId`
+     * is always the tenant GUID, so these let bindings that name the tenant by domain find the account.
+     */
+    tenantDomains?: string[];
+    /** The MSAL account, used to refresh the token silently; missing for accounts signed in through VS Code. */
+    msalAccount?: MsalAccountInfo;
+    /** The account ID of the VS Code authentication session, for accounts signed in through VS Code. */
+    sessionAccountId?: string;
+}
+
+/**
+ * Which account or service principal a deploy should use, e.g. from an environment.
+ */
+export interface AccountBinding {
+    /** Username of the account. */
+    account?: string;
+    /** Tenant ID or domain to sign in to. */
+    tenantId?: string;
+    /** Name, ID or client ID of the service principal profile to use in service-principal mode. */
+    servicePrincipal?: string;
+}
+
 /**
  * Authentication configuration for CLI deployment.
  */
 export interface AuthConfig {
     mode: AuthMode;
     workspaceUrl: string;
+    // Semantic model display name; defaults to the .platform display name
+    modelName?: string;
     // For token-based auth
     accessToken?: string;
     // For service principal auth
@@ -70,7 +123,7 @@ export const AUTH_ENV_VARS = {
 /**
  * MSAL configuration constants.
  * 
- * NOTE: This uses the Azure CLI client ID for device code flow authentication.
+ * NOTE: This uses the Azure CLI client ID for browser and device code flow authentication.
  * This is a well-known public client ID that Microsoft allows for CLI tools.
  * For production deployment, consider registering your own app in Azure AD and
  * updating this client ID with your registered application's ID.
@@ -78,7 +131,18 @@ export const AUTH_ENV_VARS = {
  * See: https://learn.microsoft.com/en-us/azure/active-directory/develop/quickstart-register-app
  */
 export const MSAL_CONFIG = {
-    authority: 'https://login.microsoftonline.com/common',
+    authorityHost: 'https://login.microsoftonline.com',
+    // Lets accounts of any tenant sign in; a tenant ID or domain restricts sign-in to that tenant
+    defaultTenant: 'common',
     clientId: '04b07795-8ddb-461a-bbee-02f9e1bf7b46', // Azure CLI well-known client ID
     scopes: ['https://analysis.windows.net/powerbi/api/.default']
 } as const;
+
+/**
+ * Gets the MSAL authority for a tenant.
+ * @param tenant - Tenant ID or domain; defaults to MSAL_CONFIG.defaultTenant.
+ * @returns The authority URL.
+ */
+export function getAuthority(tenant?: string): string {
+    return `${MSAL_CONFIG.authorityHost}/${tenant?.trim() || MSAL_CONFIG.defaultTenant}`;
+}
@@ -5,6 +5,11 @@ import * as path from 'path';
  * Utility for detecting the TMDL project root from a given path.
  */
 export class ProjectRootDetector {
+    /**
+     * Folder holding project-level TMDL Studio settings such as rule and environment files.
+     */
+    static readonly SETTINGS_FOLDER = '.tmdlstudio';
+
     /**
      * Detects the TMDL project root by walking up the directory tree.
      * Prioritizes finding the 'definition' folder structure.
@@ -73,6 +78,34 @@ export class ProjectRootDetector {
         return null;
     }
 
+    /**
+     * Gets the folder that holds the TMDL files for a project root.
+     * @param projectRoot - The detected project root.
+     * @returns The 'definition' subfolder if it exists, otherwise the project root itself.
+     */
+    static getDefinitionFolder(projectRoot: string): string {
+        const definitionPath = path.join(projectRoot, 'definition');
+        return fs.existsSync(definitionPath) ? definitionPath : projectRoot;
+    }
+
+    /**
+     * Finds a TMDL Studio settings file in the `.tmdlstudio` folder of the project root,
+     * falling back to the same folder in each of the given workspace folders.
+     * @param projectRoot - The detected project root.
+     * @param fileName - The settings file name, e.g. 'environments.json'.
+     * @param workspaceFolders - Workspace folder paths searched after the project root.
+     * @returns The path of the first existing file, or null if none exists.
+     */
+    static findSettingsFile(projectRoot: string, fileName: string, workspaceFolders: string[] = []): string | null {
+        for (const base of [projectRoot, ...workspaceFolders]) {
+            const candidate = path.join(base, this.SETTINGS_FOLDER, fileName);
+            if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+                return candidate;
+            }
+        }
+        return null;
+    }
+
     /**
      * Checks if a directory contains TMDL content (files or subdirectories).
      */
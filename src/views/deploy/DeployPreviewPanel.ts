@@ -0,0 +1,308 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ModelDiffResult } from '../../deploy/ModelDiff';
+
+/**
+ * Deployment target and source shown in the preview header.
+ */
+export interface DeployPreviewDetails {
+    projectRoot: string;
+    definitionFolder: string;
+    workspaceUrl: string;
+    /** Named environment being deployed to, if any. */
+    environmentName?: string;
+    authLabel: string;
+    /** Name of the semantic model deploy will create or update. */
+    itemName?: string;
+    /** False when deploy creates a new semantic model. */
+    exists: boolean;
+    /** Set when the deployed model could not be read, so no diff is available. */
+    compareError?: string;
+}
+
+/**
+ * Messages posted from the webview to the extension.
+ */
+type WebviewMessage =
+    | { type: 'ready' }
+    | { type: 'deploy'; acknowledged?: boolean }
+    | { type: 'cancel' }
+    | { type: 'open'; file: string; lineNumber?: number };
+
+/**
+ * Webview panel that shows what a deploy changes and asks for confirmation.
+ * Deploying is blocked until destructive changes are acknowledged.
+ */
+export class DeployPreviewPanel {
+    private static readonly VIEW_TYPE = 'tmdl-studio.deploy-preview';
+
+    private disposables: vscode.Disposable[] = [];
+    private resolve: ((confirmed: boolean) => void) | undefined;
+
+    /**
+     * Shows the preview and waits for the user to deploy or cancel.
+     * @param diff - The changes deploy would make.
+     * @param details - The deployment source and target.
+     * @returns True if the user confirmed the deployment.
+     */
+    static show(diff: ModelDiffResult | undefined, details: DeployPreviewDetails): Promise<boolean> {
+        const panel = vscode.window.createWebviewPanel(
+            DeployPreviewPanel.VIEW_TYPE,
+            'Deploy Preview',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+
+        return new Promise(resolve => {
+            new DeployPreviewPanel(panel, diff, details, resolve);
+        });
+    }
+
+    private constructor(
+        private panel: vscode.WebviewPanel,
+        private diff: ModelDiffResult | undefined,
+        private details: DeployPreviewDetails,
+        resolve: (confirmed: boolean) => void
+    ) {
+        this.resolve = resolve;
+        this.panel.webview.html = this.getHtml();
+
+        this.panel.onDidDispose(() => this.finish(false), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage((message: WebviewMessage) => this.onMessage(message), null, this.disposables);
+    }
+
+    /**
+     * Handles a message from the webview.
+     * @param message - The webview message.
+     */
+    private async onMessage(message: WebviewMessage): Promise<void> {
+        switch (message.type) {
+            case 'ready':
+                this.panel.webview.postMessage({ type: 'render', diff: this.diff, details: this.details });
+                break;
+            case 'deploy':
+                // The webview only enables Deploy once the checkbox is ticked; check again here so a
+                // stray message cannot deploy destructive or unknown changes
+                if (this.requiresAcknowledgement() && message.acknowledged !== true) {
+                    return;
+                }
+                this.finish(true);
+                break;
+            case 'cancel':
+                this.finish(false);
+                break;
+            case 'open':
+                await vscode.commands.executeCommand(
+                    'tmdl-studio.open-file-at-line',
+                    path.join(this.details.definitionFolder, message.file),
+                    message.lineNumber
+                );
+                break;
+        }
+    }
+
+    /**
+     * Checks whether deploying must be acknowledged: when it removes objects, or when the
+     * deployed model could not be compared and the changes are unknown.
+     * @returns True if a deploy message must carry the acknowledgement.
+     */
+    private requiresAcknowledgement(): boolean {
+        return !this.diff || this.diff.destructiveCount > 0;
+    }
+
+    /**
+     * Resolves the pending confirmation once and closes the panel.
+     * @param confirmed - Whether the user chose to deploy.
+     */
+    private finish(confirmed: boolean): void {
+        const resolve = this.resolve;
+        if (!resolve) {
+            return;
+        }
+
+        this.resolve = undefined;
+        resolve(confirmed);
+
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.panel.dispose();
+    }
+
+    /**
+     * Builds the webview HTML. Changes are rendered as nested, collapsible lists.
+     * @returns The HTML document.
+     */
+    private getHtml(): string {
+        const nonce = crypto.randomBytes(16).toString('base64');
+        const csp = `default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 12px 20px; }
+    h2 { margin: 0 0 8px; font-weight: 600; }
+    table.details td { padding: 2px 12px 2px 0; vertical-align: top; }
+    table.details td:first-child { color: var(--vscode-descriptionForeground); }
+    #summary { margin: 16px 0 8px; font-size: 1.1em; }
+    ul { list-style: none; padding-left: 18px; margin: 2px 0; }
+    summary { cursor: pointer; }
+    .kind { display: inline-block; width: 64px; font-weight: 600; }
+    .add { color: var(--vscode-gitDecoration-addedResourceForeground); }
+    .update { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+    .remove { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+    .none { color: var(--vscode-descriptionForeground); }
+    .type { color: var(--vscode-descriptionForeground); }
+    a { color: var(--vscode-textLink-foreground); cursor: pointer; text-decoration: none; }
+    .property { font-family: var(--vscode-editor-font-family); font-size: 0.95em; white-space: pre-wrap; margin: 2px 0; }
+    .before { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+    .after { color: var(--vscode-gitDecoration-addedResourceForeground); }
+    .warning { border: 1px solid var(--vscode-inputValidation-warningBorder); background: var(--vscode-inputValidation-warningBackground); padding: 8px 12px; margin: 16px 0; }
+    .error { color: var(--vscode-errorForeground); margin: 16px 0; }
+    #actions { margin-top: 20px; display: flex; gap: 8px; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 6px 14px; cursor: pointer; }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    button:disabled { opacity: 0.5; cursor: default; }
+</style>
+</head>
+<body>
+<h2>Deploy TMDL model</h2>
+<table class="details" id="details"></table>
+<div id="summary"></div>
+<div id="changes"></div>
+<div id="acknowledge"></div>
+<div id="actions">
+    <button id="deploy" disabled>Deploy</button>
+    <button id="cancel" class="secondary">Cancel</button>
+</div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const deployButton = document.getElementById('deploy');
+    let acknowledged = false;
+
+    deployButton.addEventListener('click', () => vscode.postMessage({ type: 'deploy', acknowledged }));
+    document.getElementById('cancel').addEventListener('click', () => vscode.postMessage({ type: 'cancel' }));
+
+    window.addEventListener('message', event => {
+        if (event.data.type === 'render') {
+            render(event.data.diff, event.data.details);
+        }
+    });
+
+    function create(tag, className, text) {
+        const node = document.createElement(tag);
+        if (className) { node.className = className; }
+        if (text !== undefined) { node.textContent = text; }
+        return node;
+    }
+
+    function render(diff, details) {
+        deployButton.disabled = false;
+        const rows = [
+            ['Project', details.projectRoot],
+            ...(details.environmentName ? [['Environment', details.environmentName]] : []),
+            ['Workspace', details.workspaceUrl],
+            ['Semantic model', (details.itemName || '(unknown)') + (details.exists ? '' : ' (new)')],
+            ['Auth', details.authLabel]
+        ];
+        const table = document.getElementById('details');
+        for (const [label, value] of rows) {
+            const row = create('tr');
+            row.appendChild(create('td', '', label));
+            row.appendChild(create('td', '', value));
+            table.appendChild(row);
+        }
+
+        const summary = document.getElementById('summary');
+        if (!diff) {
+            summary.appendChild(create('div', 'error', 'Could not compare with the deployed model: ' + (details.compareError || 'unknown error')));
+            requireAcknowledgement('Deploy without a preview of the changes. Objects in the deployed model may be removed.');
+            return;
+        }
+
+        summary.textContent = details.exists ? diff.summary : 'A new semantic model will be created. ' + diff.summary;
+
+        const list = create('ul');
+        for (const change of diff.changes) {
+            list.appendChild(renderChange(change));
+        }
+        document.getElementById('changes').appendChild(list);
+
+        if (diff.destructiveCount > 0) {
+            requireAcknowledgement('I understand that ' + diff.destructiveCount +
+                ' object(s) will be removed from the deployed model, including any data they hold.');
+        }
+    }
+
+    function requireAcknowledgement(text) {
+        const box = create('div', 'warning');
+        const label = create('label');
+        const checkbox = create('input');
+        checkbox.type = 'checkbox';
+        label.appendChild(checkbox);
+        label.appendChild(document.createTextNode(' ' + text));
+        box.appendChild(label);
+        document.getElementById('acknowledge').appendChild(box);
+
+        deployButton.disabled = true;
+        checkbox.addEventListener('change', () => {
+            acknowledged = checkbox.checked;
+            deployButton.disabled = !acknowledged;
+        });
+    }
+
+    function renderChange(change) {
+        const item = create('li');
+        const line = create('span');
+        line.appendChild(create('span', 'kind ' + change.kind, change.kind === 'none' ? '' : change.kind));
+        line.appendChild(create('span', 'type', change.objectType + ' '));
+
+        if (change.file) {
+            const link = create('a', '', change.name);
+            link.title = 'Open in editor';
+            link.addEventListener('click', event => {
+                event.preventDefault();
+                vscode.postMessage({ type: 'open', file: change.file, lineNumber: change.lineNumber });
+            });
+            line.appendChild(link);
+        } else {
+            line.appendChild(document.createTextNode(change.name));
+        }
+
+        const hasDetails = change.properties.length > 0 || change.children.length > 0;
+        if (!hasDetails) {
+            item.appendChild(line);
+            return item;
+        }
+
+        const details = create('details');
+        details.open = change.objectType === 'table' && change.children.length > 0;
+        const summary = create('summary');
+        summary.appendChild(line);
+        details.appendChild(summary);
+
+        const nested = create('ul');
+        for (const property of change.properties) {
+            const entry = create('li', 'property');
+            entry.appendChild(create('div', '', property.property + ':'));
+            if (property.before !== undefined) { entry.appendChild(create('div', 'before', '- ' + property.before)); }
+            if (property.after !== undefined) { entry.appendChild(create('div', 'after', '+ ' + property.after)); }
+            nested.appendChild(entry);
+        }
+        for (const child of change.children) {
+            nested.appendChild(renderChange(child));
+        }
+        details.appendChild(nested);
+        item.appendChild(details);
+        return item;
+    }
+
+    vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+    }
+}
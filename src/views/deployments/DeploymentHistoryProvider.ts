@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DeploymentHistory, DeploymentRecord } from '../../deploy/DeploymentHistory';
+
+/**
+ * Tree data provider for the Deployments view: one item per recorded deploy, newest first.
+ */
+export class DeploymentHistoryProvider implements vscode.TreeDataProvider<DeploymentRecord>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<DeploymentRecord | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private subscription: vscode.Disposable;
+
+    /**
+     * @param history - The deployment history.
+     */
+    constructor(private history: DeploymentHistory) {
+        this.subscription = history.onDidChange(() => this._onDidChangeTreeData.fire());
+    }
+
+    /**
+     * Returns the UI representation (TreeItem) for a deploy.
+     * @param record - The deploy.
+     * @returns The TreeItem for display.
+     */
+    getTreeItem(record: DeploymentRecord): vscode.TreeItem {
+        const project = path.basename(record.projectRoot).replace(/\.SemanticModel$/i, '');
+        const target = record.environmentName ?? record.workspaceUrl.replace(/^.*\/workspaces\//, '');
+        const item = new vscode.TreeItem(`${project} → ${target}`, vscode.TreeItemCollapsibleState.None);
+
+        item.id = record.id;
+        item.description = new Date(record.timestamp).toLocaleString() + (record.redeployOf ? ' (redeploy)' : '');
+        item.iconPath = DeploymentHistoryProvider.getIcon(record);
+        item.contextValue = this.history.getSnapshotFolder(record) ? 'deployment' : 'deploymentWithoutSnapshot';
+        item.tooltip = DeploymentHistoryProvider.getTooltip(record);
+        item.command = {
+            command: 'tmdl-studio.open-deployment-log',
+            title: 'Open Log',
+            arguments: [record]
+        };
+        return item;
+    }
+
+    /**
+     * Gets the recorded deploys; the view has no nesting.
+     * @param element - The parent item (undefined for root).
+     * @returns The deploys at the root, nothing below them.
+     */
+    getChildren(element?: DeploymentRecord): DeploymentRecord[] {
+        return element ? [] : this.history.list();
+    }
+
+    /**
+     * Stops listening to the history.
+     */
+    dispose(): void {
+        this.subscription.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+
+    /**
+     * Gets the icon for the outcome of a deploy.
+     * @param record - The deploy.
+     * @returns The icon.
+     */
+    private static getIcon(record: DeploymentRecord): vscode.ThemeIcon {
+        switch (record.outcome) {
+            case 'success':
+                return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+            case 'cancelled':
+                return new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('testing.iconSkipped'));
+            default:
+                return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        }
+    }
+
+    /**
+     * Builds the tooltip listing everything recorded about a deploy.
+     * @param record - The deploy.
+     * @returns The tooltip.
+     */
+    private static getTooltip(record: DeploymentRecord): vscode.MarkdownString {
+        const rows: [string, string | undefined][] = [
+            ['Time', new Date(record.timestamp).toLocaleString()],
+            ['Project', record.projectRoot],
+            ['Environment', record.environmentName],
+            ['Workspace', record.workspaceUrl],
+            ['Semantic model', record.semanticModelName],
+            ['Authentication', record.identity ? `${record.identity} (${record.authMode})` : record.authMode],
+            ['Git commit', record.gitCommit],
+            ['Model hash', record.modelHash.substring(0, 12)],
+            ['Result', record.message]
+        ];
+
+        const tooltip = new vscode.MarkdownString();
+        for (const [name, value] of rows) {
+            if (value) {
+                tooltip.appendMarkdown(`**${name}:** `).appendText(value).appendMarkdown('  \n');
+            }
+        }
+        return tooltip;
+    }
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { TreeFilter } from './TreeFilter';
 
 /**
  * Represents the complete structure of a TMDL model.
@@ -25,12 +26,17 @@ export interface DatabaseInfo {
 export interface ModelInfo {
     name: string;
     file: string;
+    annotations?: Record<string, string>;
 }
 
 /** Table node containing columns, measures, and partitions. */
 export interface TableNode {
     name: string;
     file: string;
+    description?: string;
+    isHidden?: boolean;
+    annotations?: Record<string, string>;
+    lineNumber?: number;
     columns: ColumnNode[];
     measures: MeasureNode[];
     partitions: PartitionNode[];
@@ -40,14 +46,26 @@ export interface TableNode {
 export interface ColumnNode {
     name: string;
     dataType?: string;
+    /** Column type: Data, Calculated, CalculatedTableColumn or RowNumber. */
+    type?: string;
     isHidden?: boolean;
+    description?: string;
+    displayFolder?: string;
+    /** DAX expression, set only for calculated columns. */
+    expression?: string;
+    annotations?: Record<string, string>;
     lineNumber?: number;
 }
 
-/** Measure node with format string. */
+/** Measure node with format string and DAX expression. */
 export interface MeasureNode {
     name: string;
     formatString?: string;
+    isHidden?: boolean;
+    description?: string;
+    displayFolder?: string;
+    expression?: string;
+    annotations?: Record<string, string>;
     lineNumber?: number;
 }
 
@@ -63,8 +81,11 @@ export interface RelationshipNode {
     id: string;
     name: string;
     file: string;
+    fromTable: string;
     fromColumn: string;
+    toTable: string;
     toColumn: string;
+    isActive?: boolean;
     lineNumber?: number;
 }
 
@@ -73,6 +94,7 @@ export interface ExpressionNode {
     name: string;
     file: string;
     kind: string;
+    expression?: string;
     lineNumber?: number;
 }
 
@@ -83,12 +105,26 @@ export interface CultureNode {
     lineNumber?: number;
 }
 
+/**
+ * A TMDL project shown in the explorer, and its model once it is opened.
+ */
+export interface LoadedModel {
+    projectRoot: string;
+    /** The folder holding the project's TMDL files. */
+    definitionFolder: string;
+    /** Whether the model is open; open models are loaded on startup. */
+    isOpen: boolean;
+    /** The model structure, or undefined until the model loads or when it failed to load. */
+    data?: ModelStructure;
+}
+
 /**
  * Union type for all possible tree nodes in the Tabular Explorer.
  */
 export type TreeNode =
     | { type: 'loading' }
     | { type: 'error'; message: string }
+    | { type: 'project'; data: LoadedModel }
     | { type: 'database'; data: DatabaseInfo }
     | { type: 'model'; data: ModelInfo }
     | { type: 'tables' }
@@ -111,21 +147,37 @@ export type TreeNode =
  * @param element - The tree node to convert.
  * @param folderPath - The TMDL folder path for resolving file paths.
  * @param modelData - The model structure data for resolving child files.
+ * @param filter - The active explorer filter, used to highlight matches and expand ancestors.
  * @returns The TreeItem for display.
  */
 export function createTreeItem(
     element: TreeNode,
     folderPath: string,
-    modelData: ModelStructure | undefined
+    modelData: ModelStructure | undefined,
+    filter?: TreeFilter
 ): vscode.TreeItem {
     const label = getLabel(element);
-    const collapsibleState = getCollapsibleState(element);
+    const highlights = filter ? getHighlights(element, label, filter) : undefined;
+    let collapsibleState = getCollapsibleState(element);
     const iconPath = getIcon(element.type);
 
-    const item = new vscode.TreeItem(label, collapsibleState);
+    if (filter && collapsibleState === vscode.TreeItemCollapsibleState.Collapsed) {
+        collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+    }
+
+    const item = new vscode.TreeItem(highlights ? { label, highlights } : label, collapsibleState);
     item.iconPath = iconPath;
     item.contextValue = element.type;
 
+    if (element.type === 'project') {
+        item.id = element.data.projectRoot;
+        item.description = element.data.isOpen ? undefined : 'closed';
+        item.contextValue = element.data.isOpen ? 'project' : 'closedProject';
+        item.collapsibleState = element.data.isOpen
+            ? vscode.TreeItemCollapsibleState.Expanded
+            : vscode.TreeItemCollapsibleState.Collapsed;
+    }
+
     const command = getOpenCommand(element, folderPath, modelData);
     if (command) {
         item.command = command;
@@ -148,6 +200,7 @@ function getLabel(element: TreeNode): string {
     switch (element.type) {
         case 'loading': return 'Loading model...';
         case 'error': return element.message;
+        case 'project': return element.data.data?.name ?? path.basename(element.data.projectRoot).replace(/\.SemanticModel$/i, '');
         case 'database': return element.data.name;
         case 'model': return element.data.name;
         case 'tables': return 'Tables';
@@ -168,6 +221,30 @@ function getLabel(element: TreeNode): string {
     }
 }
 
+/**
+ * Gets the filter highlight ranges for a tree node's label.
+ * @param element - The tree node.
+ * @param label - The display label.
+ * @param filter - The active explorer filter.
+ * @returns The highlight ranges, or undefined if the node is not itself a match.
+ */
+function getHighlights(element: TreeNode, label: string, filter: TreeFilter): [number, number][] | undefined {
+    switch (element.type) {
+        case 'table':
+            return filter.match('table', label);
+        case 'column':
+        case 'measure':
+        case 'partition':
+            return filter.match(element.type, label, element.parentTable);
+        case 'relationship':
+        case 'expression':
+        case 'culture':
+            return filter.match(element.type, label);
+        default:
+            return undefined;
+    }
+}
+
 /**
  * Gets the collapsible state for a tree node.
  * @param element - The tree node.
@@ -196,6 +273,7 @@ function getCollapsibleState(element: TreeNode): vscode.TreeItemCollapsibleState
  */
 function getIcon(type: string): vscode.ThemeIcon {
     switch (type) {
+        case 'project': return new vscode.ThemeIcon('package');
         case 'database': return new vscode.ThemeIcon('database');
         case 'model': return new vscode.ThemeIcon('symbol-namespace');
         case 'tables': return new vscode.ThemeIcon('folder');
@@ -223,6 +301,8 @@ function getIcon(type: string): vscode.ThemeIcon {
  */
 function getTooltip(element: TreeNode): string | undefined {
     switch (element.type) {
+        case 'project':
+            return element.data.projectRoot;
         case 'column':
             return `${element.data.name} (${element.data.dataType || 'Unknown'})${element.data.isHidden ? ' (Hidden)' : ''}`;
         case 'measure':
@@ -232,7 +312,7 @@ function getTooltip(element: TreeNode): string | undefined {
         case 'expression':
             return `${element.data.name} (${element.data.kind})`;
         case 'relationship':
-            return `${element.data.fromColumn} → ${element.data.toColumn}`;
+            return `'${element.data.fromTable}'[${element.data.fromColumn}] → '${element.data.toTable}'[${element.data.toColumn}]${element.data.isActive === false ? ' (Inactive)' : ''}`;
         default:
             return undefined;
     }
@@ -262,6 +342,7 @@ function getOpenCommand(
             break;
         case 'table':
             relativePath = element.data.file;
+            lineNumber = element.data.lineNumber;
             break;
         case 'column':
         case 'measure':
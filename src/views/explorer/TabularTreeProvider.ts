@@ -1,68 +1,178 @@
 import * as vscode from 'vscode';
-import { TimdleClient } from '../../cli/TimdleClient';
-import { ModelStructure, TreeNode, createTreeItem } from './ModelTreeItem';
-import { ProjectRootDetector } from '../../utils/ProjectRootDetector';
 import * as fs from 'fs';
 import * as path from 'path';
+import { TimdleClient } from '../../cli/TimdleClient';
+import { LoadedModel, ModelStructure, TableNode, TreeNode, createTreeItem } from './ModelTreeItem';
+import { ProjectRootDetector } from '../../utils/ProjectRootDetector';
+import { TreeFilter } from './TreeFilter';
+import { Config } from '../../config';
+
+type TableTreeNode = Extract<TreeNode, { type: 'table' }>;
+
+/**
+ * The nodes of a model's tables, kept across refreshes so change events can target them.
+ */
+interface TableNodes {
+    folder: TreeNode;
+    tables: Map<string, TableTreeNode>;
+}
 
 /**
  * Tree data provider for the Tabular Model Explorer view.
  */
 export class TabularTreeProvider implements vscode.TreeDataProvider<TreeNode> {
+    private static readonly MAX_TABLE_RELOADS = 5;
+
     private _onDidChangeTreeData = new vscode.EventEmitter<TreeNode | undefined | null | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-    private currentTmdlFolder: string | undefined;
-    private currentDefinitionFolder: string | undefined;
-    private modelData: ModelStructure | undefined;
-    private cliClient: TimdleClient;
+    private _onDidLoadModel = new vscode.EventEmitter<LoadedModel>();
+    /** Fires after a model is loaded or reloaded from disk, and with no data when it is closed or fails to load. */
+    readonly onDidLoadModel = this._onDidLoadModel.event;
+
+    /** Known projects by project root. */
+    private models = new Map<string, LoadedModel>();
+    private projectNodes = new Map<string, TreeNode>();
+    /** Project roots found by auto-discovery; they stay listed when closed. */
+    private discovered = new Set<string>();
+    /** The model each child node belongs to, so commands run from a node act on its model. */
+    private owners = new WeakMap<TreeNode, LoadedModel>();
+    /** Loads in progress by project root, so expanding a project does not start a second load. */
+    private loading = new Map<string, Promise<void>>();
+    private tableNodes = new WeakMap<LoadedModel, TableNodes>();
+    private activeRoot: string | undefined;
+    private filter: TreeFilter | undefined;
 
     /**
      * @param context - The extension context.
+     * @param cliClient - The shared TMDL CLI client.
      */
-    constructor(private context: vscode.ExtensionContext) {
-        this.cliClient = new TimdleClient(context);
-    }
+    constructor(
+        private context: vscode.ExtensionContext,
+        private cliClient: TimdleClient
+    ) {}
 
     /**
-     * Loads the saved TMDL folder from global state.
+     * Restores the open models from global state, discovers the other projects in the workspace
+     * folders and loads the open models.
      */
     async loadState(): Promise<void> {
-        const savedFolder = this.context.globalState.get<string>('tmdlFolder');
-        if (savedFolder) {
+        const savedFilter = this.context.workspaceState.get<string>('tmdlFilter');
+        if (savedFilter) {
+            await this.setFilter(savedFilter);
+        }
+
+        // Older versions saved a single folder
+        const legacyFolder = this.context.globalState.get<string>('tmdlFolder');
+        const savedFolders = this.context.globalState.get<string[]>('tmdlFolders') ?? (legacyFolder ? [legacyFolder] : []);
+
+        for (const savedFolder of savedFolders) {
             // Re-detect the correct project root from the saved path
             const projectRoot = ProjectRootDetector.detectProjectRoot(savedFolder);
-            
-            if (!projectRoot) {
-                // Clear corrupted state
-                await this.context.globalState.update('tmdlFolder', undefined);
-                return;
+            if (projectRoot) {
+                this.addModel(projectRoot).isOpen = true;
+            }
+        }
+
+        if (Config.getValue<boolean>('explorer.autoDiscover') ?? true) {
+            for (const projectRoot of await this.discoverProjects()) {
+                this.discovered.add(projectRoot);
+                this.addModel(projectRoot);
             }
+        }
 
-            this.currentTmdlFolder = projectRoot;
+        // Drop saved folders that no longer hold a model
+        await this.context.globalState.update('tmdlFolder', undefined);
+        await this.saveOpenModels();
+        this.refresh();
 
-            const definitionPath = path.join(projectRoot, 'definition');
-            if (fs.existsSync(definitionPath)) {
-                this.currentDefinitionFolder = definitionPath;
-            } else {
-                this.currentDefinitionFolder = projectRoot;
+        for (const model of this.models.values()) {
+            if (model.isOpen) {
+                await this.loadModel(model);
             }
+        }
+        await this.updateContext();
+    }
+
+    /**
+     * Gets the known projects, open or not.
+     * @returns The projects in display order, sorted by path.
+     */
+    getModels(): LoadedModel[] {
+        return [...this.models.values()].sort((a, b) => a.projectRoot.localeCompare(b.projectRoot));
+    }
+
+    /**
+     * Gets a project by its root folder.
+     * @param projectRoot - The project root path.
+     * @returns The project, or undefined if it is not known.
+     */
+    getModel(projectRoot: string): LoadedModel | undefined {
+        return this.models.get(projectRoot);
+    }
+
+    /**
+     * Gets the open model a file belongs to.
+     * @param filePath - A file path inside the project.
+     * @returns The model with the deepest project root containing the file, or undefined if none is open.
+     */
+    getModelForFile(filePath: string): LoadedModel | undefined {
+        return this.getModels()
+            .filter(m => m.isOpen && isInside(filePath, m.projectRoot))
+            .sort((a, b) => b.projectRoot.length - a.projectRoot.length)[0];
+    }
+
+    /**
+     * Gets the model an explorer node belongs to.
+     * @param element - The explorer node.
+     * @returns The model, or undefined if the node belongs to none.
+     */
+    getModelForNode(element: TreeNode): LoadedModel | undefined {
+        return element.type === 'project' ? element.data : this.owners.get(element);
+    }
 
-            await this.loadModel();
-            await vscode.commands.executeCommand('setContext', 'tmdlModelOpen', true);
+    /**
+     * Gets the model commands run against when no explorer node is given: the model of the active
+     * editor, otherwise the model opened or reloaded last.
+     * @returns The active model, or undefined if no model is open.
+     */
+    getActiveModel(): LoadedModel | undefined {
+        const editor = vscode.window.activeTextEditor;
+        const fromEditor = editor && this.getModelForFile(editor.document.uri.fsPath);
+        if (fromEditor) {
+            return fromEditor;
         }
+
+        const active = this.activeRoot ? this.models.get(this.activeRoot) : undefined;
+        return active?.isOpen ? active : this.getModels().find(m => m.isOpen);
     }
 
     /**
-     * Gets the current TMDL project root folder.
-     * @returns The current project root path, or undefined if none is set.
+     * Gets the project root folder of the active model.
+     * @returns The project root path, or undefined if no model is open.
      */
     getCurrentFolder(): string | undefined {
-        return this.currentTmdlFolder;
+        return this.getActiveModel()?.projectRoot;
     }
 
     /**
-     * Sets the TMDL folder path and loads the model.
+     * Gets the folder holding the active model's TMDL files.
+     * @returns The definition folder, or undefined if no model is open.
+     */
+    getDefinitionFolder(): string | undefined {
+        return this.getActiveModel()?.definitionFolder;
+    }
+
+    /**
+     * Gets the active model's structure.
+     * @returns The model structure, or undefined if no model is loaded.
+     */
+    getModelData(): ModelStructure | undefined {
+        return this.getActiveModel()?.data;
+    }
+
+    /**
+     * Opens the model of a TMDL folder next to the models already open and makes it the active model.
      * Detects the actual project root from the provided path.
      * @param folderPath - The file system path to the TMDL folder or file.
      */
@@ -73,42 +183,128 @@ export class TabularTreeProvider implements vscode.TreeDataProvider<TreeNode> {
             throw new Error('Could not detect TMDL project root. Make sure the folder contains definition.pbism, .platform, or definition folder.');
         }
 
-        this.currentTmdlFolder = projectRoot;
+        const model = this.addModel(projectRoot);
+        model.isOpen = true;
+        this.activeRoot = projectRoot;
 
-        const definitionPath = path.join(projectRoot, 'definition');
-        if (fs.existsSync(definitionPath)) {
-            this.currentDefinitionFolder = definitionPath;
-        } else {
-            this.currentDefinitionFolder = projectRoot;
-        }
+        await this.saveOpenModels();
+        await this.loadModel(model);
+        await this.updateContext();
+        this.refresh();
+    }
 
-        await this.context.globalState.update('tmdlFolder', projectRoot);
-        await this.loadModel();
+    /**
+     * Closes a model. Discovered projects stay in the explorer, closed, unless their folder is gone.
+     * @param projectRoot - The project root of the model to close.
+     */
+    async closeModel(projectRoot: string): Promise<void> {
+        const model = this.models.get(projectRoot);
+        if (!model) {
+            return;
+        }
 
-        if (this.modelData) {
-            await vscode.commands.executeCommand('setContext', 'tmdlModelOpen', true);
+        model.isOpen = false;
+        model.data = undefined;
+        if (!this.discovered.has(projectRoot) || !fs.existsSync(projectRoot)) {
+            this.discovered.delete(projectRoot);
+            this.models.delete(projectRoot);
+            this.projectNodes.delete(projectRoot);
         }
 
+        await this.saveOpenModels();
+        await this.updateContext();
+        this._onDidLoadModel.fire(model);
         this.refresh();
     }
 
     /**
-     * Closes the currently open TMDL model.
+     * Reloads models from disk and refreshes the tree view.
+     * @param projectRoot - The project root of the model to reload; every open model when omitted.
      */
-    async closeTmdlFolder(): Promise<void> {
-        this.currentTmdlFolder = undefined;
-        this.currentDefinitionFolder = undefined;
-        this.modelData = undefined;
-        await this.context.globalState.update('tmdlFolder', undefined);
-        await vscode.commands.executeCommand('setContext', 'tmdlModelOpen', false);
+    async reload(projectRoot?: string): Promise<void> {
+        const models = projectRoot ? [this.models.get(projectRoot)] : this.getModels();
+        for (const model of models) {
+            if (model?.isOpen) {
+                await this.loadModel(model);
+            }
+        }
         this.refresh();
     }
 
     /**
-     * Reloads the model data from disk and refreshes the tree view.
+     * Reloads the files of a model that changed on disk. Table files are parsed on their own and
+     * merged into the loaded model so only their tables are refreshed; any other file, or a table
+     * that cannot be parsed on its own, reloads the whole model.
+     * @param projectRoot - The project root of the model.
+     * @param filePaths - The changed files.
      */
-    async reload(): Promise<void> {
-        await this.loadModel();
+    async reloadFiles(projectRoot: string, filePaths: string[]): Promise<void> {
+        const model = this.models.get(projectRoot);
+        if (!model?.isOpen) {
+            return;
+        }
+
+        await this.loading.get(projectRoot);
+        const files = filePaths.map(f => path.relative(model.definitionFolder, f).split(path.sep).join('/'));
+        // Many changed tables, e.g. after a checkout, load faster in one pass
+        if (!model.data || files.length > TabularTreeProvider.MAX_TABLE_RELOADS ||
+            files.some(f => !/^tables\/[^/]+\.tmdl$/.test(f))) {
+            await this.reload(projectRoot);
+            return;
+        }
+
+        const changed: TableNode[] = [];
+        let tablesChanged = false;
+        try {
+            for (const file of files) {
+                const result = await this.mergeTableFile(model, model.data, file);
+                changed.push(...(result.table ? [result.table] : []));
+                tablesChanged = tablesChanged || result.tablesChanged;
+            }
+        } catch (error) {
+            console.error(`Failed to reload ${files.join(', ')} on its own, reloading the model:`, error);
+            await this.reload(projectRoot);
+            return;
+        }
+
+        this._onDidLoadModel.fire(model);
+
+        const nodes = this.tableNodes.get(model);
+        if (this.filter) {
+            // Matches may have changed anywhere up to the project node
+            this.refresh();
+        } else if (tablesChanged) {
+            this._onDidChangeTreeData.fire(nodes?.folder);
+        } else {
+            for (const table of changed) {
+                const node = nodes?.tables.get(table.name);
+                if (node) {
+                    node.data = table;
+                    this._onDidChangeTreeData.fire(node);
+                }
+            }
+        }
+    }
+
+    /**
+     * Gets the current filter query.
+     * @returns The query, or an empty string if no filter is active.
+     */
+    getFilterQuery(): string {
+        return this.filter?.query ?? '';
+    }
+
+    /**
+     * Sets the explorer filter and refreshes the tree.
+     * The query is persisted per workspace so it survives reloads.
+     * @param query - The filter query; an empty string clears the filter.
+     */
+    async setFilter(query: string): Promise<void> {
+        const fuzzy = Config.getValue<boolean>('explorer.fuzzyFilter') ?? false;
+        this.filter = TreeFilter.parse(query, fuzzy);
+
+        await this.context.workspaceState.update('tmdlFilter', this.filter?.query);
+        await vscode.commands.executeCommand('setContext', 'tmdlFilterActive', !!this.filter);
         this.refresh();
     }
 
@@ -125,8 +321,8 @@ export class TabularTreeProvider implements vscode.TreeDataProvider<TreeNode> {
      * @returns The TreeItem for display.
      */
     getTreeItem(element: TreeNode): vscode.TreeItem {
-        const folderPath = this.currentDefinitionFolder || this.currentTmdlFolder || '';
-        return createTreeItem(element, folderPath, this.modelData);
+        const model = this.getModelForNode(element);
+        return createTreeItem(element, model?.definitionFolder ?? '', model?.data, this.filter);
     }
 
     /**
@@ -139,29 +335,71 @@ export class TabularTreeProvider implements vscode.TreeDataProvider<TreeNode> {
             return this.getRootChildren();
         }
 
-        return this.getChildElements(element);
+        const model = this.getModelForNode(element);
+        if (!model) {
+            return [];
+        }
+
+        const children = element.type === 'project'
+            ? await this.getProjectChildren(model)
+            : this.getChildElements(element, model);
+        children.forEach(child => this.owners.set(child, model));
+        return children;
     }
 
     /**
-     * Gets the root-level children of the tree.
+     * Gets the root-level children of the tree: one node per project.
+     * While a filter is active only open models with matching objects are shown.
      * @returns The root tree nodes.
      */
-    private async getRootChildren(): Promise<TreeNode[]> {
-        if (!this.currentTmdlFolder) {
-            return [];
+    private getRootChildren(): TreeNode[] {
+        const projects = this.getModels()
+            .filter(m => !this.filter || (m.data && this.getModelChildren(m).some(c => this.isVisible(c, m))))
+            .map(m => this.getProjectNode(m));
+
+        if (this.filter && projects.length === 0 && this.models.size > 0) {
+            return [{ type: 'error', message: `No objects match '${this.filter.query}'` }];
         }
+        return projects;
+    }
 
-        if (!this.modelData) {
-            await this.loadModel();
-            if (!this.modelData) {
+    /**
+     * Gets the children of a project node, opening and loading the model when it is expanded.
+     * @param model - The project.
+     * @returns The model's top-level nodes.
+     */
+    private async getProjectChildren(model: LoadedModel): Promise<TreeNode[]> {
+        if (!model.isOpen) {
+            model.isOpen = true;
+            await this.saveOpenModels();
+        }
+
+        if (!model.data) {
+            await (this.loading.get(model.projectRoot) ?? this.loadModel(model));
+            await this.updateContext();
+            if (!model.data) {
                 return [{ type: 'error', message: 'Failed to load model' }];
             }
         }
 
+        const children = this.getModelChildren(model);
+        return this.filter ? children.filter(c => this.isVisible(c, model)) : children;
+    }
+
+    /**
+     * Gets the top-level nodes of a loaded model.
+     * @param model - The model.
+     * @returns The database, model and folder nodes.
+     */
+    private getModelChildren(model: LoadedModel): TreeNode[] {
+        if (!model.data) {
+            return [];
+        }
+
         return [
-            { type: 'database', data: this.modelData.database },
-            { type: 'model', data: this.modelData.model },
-            { type: 'tables' },
+            { type: 'database', data: model.data.database },
+            { type: 'model', data: model.data.model },
+            this.getTableNodes(model).folder,
             { type: 'relationships' },
             { type: 'expressions' },
             { type: 'cultures' }
@@ -169,16 +407,106 @@ export class TabularTreeProvider implements vscode.TreeDataProvider<TreeNode> {
     }
 
     /**
-     * Gets the child elements for a specific tree node.
+     * Gets the node of a project, reusing it so the tree keeps its expansion state.
+     * @param model - The project.
+     * @returns The project node.
+     */
+    private getProjectNode(model: LoadedModel): TreeNode {
+        let node = this.projectNodes.get(model.projectRoot);
+        if (!node) {
+            node = { type: 'project', data: model };
+            this.projectNodes.set(model.projectRoot, node);
+        }
+        return node;
+    }
+
+    /**
+     * Gets the child elements for a specific tree node, pruned by the active filter.
+     * Everything below a table whose name matches is shown unpruned.
+     * @param element - The parent tree node.
+     * @param model - The model the node belongs to.
+     * @returns The child tree nodes.
+     */
+    private getChildElements(element: TreeNode, model: LoadedModel): TreeNode[] {
+        const children = this.getUnfilteredChildren(element, model);
+        if (!this.filter || this.isInMatchedTable(element)) {
+            return children;
+        }
+
+        return children.filter(c => this.isVisible(c, model));
+    }
+
+    /**
+     * Checks whether a node matches the filter or has a matching descendant.
+     * @param element - The tree node.
+     * @param model - The model the node belongs to.
+     * @returns True if the node should be shown.
+     */
+    private isVisible(element: TreeNode, model: LoadedModel): boolean {
+        if (!this.filter) {
+            return true;
+        }
+
+        switch (element.type) {
+            case 'table':
+                return this.isInMatchedTable(element) ||
+                    this.getUnfilteredChildren(element, model).some(c => this.isVisible(c, model));
+            case 'column':
+            case 'measure':
+            case 'partition':
+                return this.filter.match(element.type, element.data.name, element.parentTable) !== undefined;
+            case 'relationship':
+            case 'expression':
+            case 'culture':
+                return this.filter.match(element.type, element.data.name) !== undefined;
+            case 'tables':
+            case 'columns':
+            case 'measures':
+            case 'partitions':
+            case 'relationships':
+            case 'expressions':
+            case 'cultures':
+                return this.getUnfilteredChildren(element, model).some(c => this.isVisible(c, model));
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Checks whether a node is a table, or a folder of a table, whose name matches the filter.
+     * @param element - The tree node.
+     * @returns True if the owning table matches.
+     */
+    private isInMatchedTable(element: TreeNode): boolean {
+        if (!this.filter) {
+            return false;
+        }
+
+        switch (element.type) {
+            case 'table':
+                return this.filter.match('table', element.data.name) !== undefined;
+            case 'columns':
+            case 'measures':
+            case 'partitions':
+                return this.filter.match('table', element.parentTable) !== undefined;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Gets the child elements for a specific tree node, ignoring the filter.
      * @param element - The parent tree node.
+     * @param model - The model the node belongs to.
      * @returns The child tree nodes.
      */
-    private getChildElements(element: TreeNode): TreeNode[] {
-        if (!this.modelData) {return [];}
+    private getUnfilteredChildren(element: TreeNode, model: LoadedModel): TreeNode[] {
+        const modelData = model.data;
+        if (!modelData) {return [];}
 
         switch (element.type) {
             case 'tables':
-                return this.modelData.tables.map(t => ({ type: 'table', data: t }));
+                return modelData.tables.map(t => this.getTableNode(model, t));
             case 'table':
                 return [
                     { type: 'columns', parentTable: element.data.name },
@@ -186,37 +514,176 @@ export class TabularTreeProvider implements vscode.TreeDataProvider<TreeNode> {
                     { type: 'partitions', parentTable: element.data.name }
                 ];
             case 'columns':
-                const columnsTable = this.modelData.tables.find(t => t.name === element.parentTable);
+                const columnsTable = modelData.tables.find(t => t.name === element.parentTable);
                 return columnsTable?.columns.map(c => ({ type: 'column', data: c, parentTable: element.parentTable })) || [];
             case 'measures':
-                const measuresTable = this.modelData.tables.find(t => t.name === element.parentTable);
+                const measuresTable = modelData.tables.find(t => t.name === element.parentTable);
                 return measuresTable?.measures.map(m => ({ type: 'measure', data: m, parentTable: element.parentTable })) || [];
             case 'partitions':
-                const partitionsTable = this.modelData.tables.find(t => t.name === element.parentTable);
+                const partitionsTable = modelData.tables.find(t => t.name === element.parentTable);
                 return partitionsTable?.partitions.map(p => ({ type: 'partition', data: p, parentTable: element.parentTable })) || [];
             case 'relationships':
-                return this.modelData.relationships.map(r => ({ type: 'relationship', data: r }));
+                return modelData.relationships.map(r => ({ type: 'relationship', data: r }));
             case 'expressions':
-                return this.modelData.expressions.map(e => ({ type: 'expression', data: e }));
+                return modelData.expressions.map(e => ({ type: 'expression', data: e }));
             case 'cultures':
-                return this.modelData.cultures.map(c => ({ type: 'culture', data: c }));
+                return modelData.cultures.map(c => ({ type: 'culture', data: c }));
             default:
                 return [];
         }
     }
 
     /**
-     * Loads the TMDL model structure from the current folder.
+     * Loads a model's structure from its definition folder.
+     * @param model - The model to load.
      */
-    private async loadModel(): Promise<void> {
-        const tmdlPath = this.currentDefinitionFolder || this.currentTmdlFolder;
-        if (!tmdlPath) {return;}
+    private async loadModel(model: LoadedModel): Promise<void> {
+        const load = this.cliClient.getModelStructure(model.definitionFolder).then(
+            data => {
+                model.data = data;
+                this.tableNodes.delete(model);
+                this.activeRoot = model.projectRoot;
+            },
+            error => {
+                model.data = undefined;
+                vscode.window.showErrorMessage(`Failed to load TMDL model ${path.basename(model.projectRoot)}: ${error}`);
+            }
+        );
 
+        this.loading.set(model.projectRoot, load);
         try {
-            this.modelData = await this.cliClient.getModelStructure(tmdlPath);
-        } catch (error) {
-            this.modelData = undefined;
-            vscode.window.showErrorMessage(`Failed to load TMDL model: ${error}`);
+            await load;
+        } finally {
+            this.loading.delete(model.projectRoot);
+        }
+
+        this._onDidLoadModel.fire(model);
+    }
+
+    /**
+     * Parses a table file and replaces, adds or removes its table in the loaded model.
+     * @param model - The model.
+     * @param data - The model's structure, updated in place.
+     * @param file - The table file, relative to the definition folder.
+     * @returns The parsed table, if the file still exists, and whether the list of tables changed.
+     */
+    private async mergeTableFile(
+        model: LoadedModel,
+        data: ModelStructure,
+        file: string
+    ): Promise<{ table?: TableNode; tablesChanged: boolean }> {
+        const index = data.tables.findIndex(t => t.file === file);
+
+        if (!fs.existsSync(path.join(model.definitionFolder, file))) {
+            if (index < 0) {
+                return { tablesChanged: false };
+            }
+            this.tableNodes.get(model)?.tables.delete(data.tables[index].name);
+            data.tables.splice(index, 1);
+            return { tablesChanged: true };
+        }
+
+        const table = await this.cliClient.getTableStructure(model.definitionFolder, file);
+        const existing = index >= 0 ? index : data.tables.findIndex(t => t.name === table.name);
+        if (existing < 0) {
+            data.tables.push(table);
+            return { table, tablesChanged: true };
+        }
+
+        const previous = data.tables[existing];
+        data.tables[existing] = table;
+        if (previous.name !== table.name) {
+            this.tableNodes.get(model)?.tables.delete(previous.name);
+            return { table, tablesChanged: true };
+        }
+        return { table, tablesChanged: false };
+    }
+
+    /**
+     * Gets the nodes of a model's tables, creating them on first use.
+     * @param model - The model.
+     * @returns The tables folder node and the table nodes by name.
+     */
+    private getTableNodes(model: LoadedModel): TableNodes {
+        let nodes = this.tableNodes.get(model);
+        if (!nodes) {
+            nodes = { folder: { type: 'tables' }, tables: new Map() };
+            this.tableNodes.set(model, nodes);
+        }
+        return nodes;
+    }
+
+    /**
+     * Gets the node of a table, reusing it so a change event can refresh just that table.
+     * @param model - The model.
+     * @param table - The table.
+     * @returns The table node, pointing at the given table.
+     */
+    private getTableNode(model: LoadedModel, table: TableNode): TreeNode {
+        const tables = this.getTableNodes(model).tables;
+        let node = tables.get(table.name);
+        if (!node) {
+            node = { type: 'table', data: table };
+            tables.set(table.name, node);
         }
+        node.data = table;
+        return node;
     }
+
+    /**
+     * Adds a project to the explorer, closed, unless it is already known.
+     * @param projectRoot - The project root path.
+     * @returns The project.
+     */
+    private addModel(projectRoot: string): LoadedModel {
+        let model = this.models.get(projectRoot);
+        if (!model) {
+            model = { projectRoot, definitionFolder: ProjectRootDetector.getDefinitionFolder(projectRoot), isOpen: false };
+            this.models.set(projectRoot, model);
+        }
+        return model;
+    }
+
+    /**
+     * Finds the semantic model projects in the workspace folders by their `definition.pbism` or
+     * `model.tmdl` files.
+     * @returns The project roots, sorted.
+     */
+    private async discoverProjects(): Promise<string[]> {
+        const markers = await vscode.workspace.findFiles('**/{definition.pbism,model.tmdl}', '**/node_modules/**');
+        const roots = new Set<string>();
+        for (const marker of markers) {
+            const projectRoot = ProjectRootDetector.detectProjectRoot(marker.fsPath);
+            if (projectRoot) {
+                roots.add(projectRoot);
+            }
+        }
+        return [...roots].sort();
+    }
+
+    /**
+     * Persists which models are open so they are loaded again on the next start.
+     */
+    private async saveOpenModels(): Promise<void> {
+        const open = this.getModels().filter(m => m.isOpen).map(m => m.projectRoot);
+        await this.context.globalState.update('tmdlFolders', open);
+    }
+
+    /**
+     * Updates the `tmdlModelOpen` context key used by menus and the welcome view.
+     */
+    private async updateContext(): Promise<void> {
+        await vscode.commands.executeCommand('setContext', 'tmdlModelOpen', this.getModels().some(m => m.data));
+    }
+}
+
+/**
+ * Checks whether a path is inside a folder.
+ * @param filePath - The path.
+ * @param folder - The folder.
+ * @returns True if the path is the folder or below it.
+ */
+function isInside(filePath: string, folder: string): boolean {
+    const relative = path.relative(folder, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
 }
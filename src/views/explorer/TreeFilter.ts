@@ -0,0 +1,130 @@
+/**
+ * Object types that can be targeted with a `type:` qualifier.
+ */
+const FILTERABLE_TYPES = ['table', 'column', 'measure', 'partition', 'relationship', 'expression', 'culture'] as const;
+
+export type FilterableType = typeof FILTERABLE_TYPES[number];
+
+/**
+ * Highlight ranges within a label as [start, end) pairs.
+ */
+export type Highlights = [number, number][];
+
+/**
+ * A parsed explorer filter query.
+ *
+ * Plain words match object names. Qualifiers narrow the match:
+ * - `type:measure` (or `type:measure,column`) limits matches to those object types.
+ * - `table:Sales` limits columns, measures and partitions to tables whose name contains "Sales".
+ */
+export class TreeFilter {
+    private constructor(
+        readonly query: string,
+        private text: string,
+        private types: Set<FilterableType> | undefined,
+        private tableText: string | undefined,
+        private fuzzy: boolean
+    ) {}
+
+    /**
+     * Parses a filter query.
+     * @param query - The raw query typed by the user.
+     * @param fuzzy - Whether name text matches as a subsequence instead of a substring.
+     * @returns The filter, or undefined if the query is empty.
+     */
+    static parse(query: string, fuzzy: boolean): TreeFilter | undefined {
+        const trimmed = query.trim();
+        if (!trimmed) {
+            return undefined;
+        }
+
+        const words: string[] = [];
+        let types: Set<FilterableType> | undefined;
+        let tableText: string | undefined;
+
+        for (const token of trimmed.split(/\s+/)) {
+            const match = /^(type|table):(.*)$/i.exec(token);
+            if (!match) {
+                words.push(token);
+                continue;
+            }
+
+            if (match[1].toLowerCase() === 'table') {
+                tableText = match[2].toLowerCase();
+                continue;
+            }
+
+            types = types ?? new Set();
+            for (const value of match[2].toLowerCase().split(',')) {
+                const singular = value.endsWith('s') ? value.slice(0, -1) : value;
+                if ((FILTERABLE_TYPES as readonly string[]).includes(singular)) {
+                    types.add(singular as FilterableType);
+                }
+            }
+        }
+
+        return new TreeFilter(trimmed, words.join(' ').toLowerCase(), types, tableText, fuzzy);
+    }
+
+    /**
+     * Matches an object against the filter.
+     * @param type - The object type.
+     * @param name - The object name.
+     * @param table - The owning table for columns, measures and partitions.
+     * @returns Highlight ranges if the object matches, undefined otherwise.
+     */
+    match(type: FilterableType, name: string, table?: string): Highlights | undefined {
+        if (this.types && !this.types.has(type)) {
+            return undefined;
+        }
+
+        if (this.tableText !== undefined) {
+            const scope = type === 'table' ? name : table;
+            if (scope === undefined || !scope.toLowerCase().includes(this.tableText)) {
+                return undefined;
+            }
+        }
+
+        if (!this.text) {
+            return [];
+        }
+
+        return this.fuzzy ? this.matchFuzzy(name) : this.matchSubstring(name);
+    }
+
+    private matchSubstring(name: string): Highlights | undefined {
+        const index = name.toLowerCase().indexOf(this.text);
+        return index < 0 ? undefined : [[index, index + this.text.length]];
+    }
+
+    /**
+     * Matches the filter text as a case-insensitive subsequence of the name,
+     * merging consecutive matched characters into one highlight.
+     */
+    private matchFuzzy(name: string): Highlights | undefined {
+        const lower = name.toLowerCase();
+        const highlights: Highlights = [];
+        let position = 0;
+
+        for (const ch of this.text) {
+            if (ch === ' ') {
+                continue;
+            }
+
+            const index = lower.indexOf(ch, position);
+            if (index < 0) {
+                return undefined;
+            }
+
+            const last = highlights[highlights.length - 1];
+            if (last && last[1] === index) {
+                last[1] = index + 1;
+            } else {
+                highlights.push([index, index + 1]);
+            }
+            position = index + 1;
+        }
+
+        return highlights;
+    }
+}
@@ -0,0 +1,259 @@
+import * as vscode from 'vscode';
+import { AuthService } from '../../services/AuthService';
+import { CapacityInfo, FabricItem, FabricItemType, FabricService, WorkspaceInfo } from '../../services/FabricService';
+
+/**
+ * A workspace in the Fabric Workspaces view.
+ */
+export interface WorkspaceNode {
+    kind: 'workspace';
+    workspace: WorkspaceInfo;
+    capacity?: CapacityInfo;
+}
+
+/**
+ * The items of one type in a workspace, e.g. its reports.
+ */
+export interface ItemGroupNode {
+    kind: 'group';
+    workspace: WorkspaceInfo;
+    type: FabricItemType;
+    items: FabricItem[];
+}
+
+/**
+ * A semantic model, report or lakehouse.
+ */
+export interface ItemNode {
+    kind: 'item';
+    workspace: WorkspaceInfo;
+    item: FabricItem;
+}
+
+/**
+ * A message in place of children that could not be listed.
+ */
+interface MessageNode {
+    kind: 'message';
+    message: string;
+    isError: boolean;
+}
+
+export type FabricNode = WorkspaceNode | ItemGroupNode | ItemNode | MessageNode;
+
+const ITEM_GROUPS: Record<FabricItemType, { label: string; icon: string }> = {
+    SemanticModel: { label: 'Semantic models', icon: 'database' },
+    Report: { label: 'Reports', icon: 'graph' },
+    Lakehouse: { label: 'Lakehouses', icon: 'layers' }
+};
+
+/**
+ * Tree data provider for the Fabric Workspaces view: the workspaces the active account can
+ * reach, grouped items below each. Items are listed when a workspace is expanded and kept
+ * until the view is refreshed.
+ */
+export class FabricWorkspacesProvider implements vscode.TreeDataProvider<FabricNode>, vscode.Disposable {
+    private _onDidChangeTreeData = new vscode.EventEmitter<FabricNode | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private items = new Map<string, Promise<FabricItem[]>>();
+    private subscription: vscode.Disposable;
+
+    /**
+     * @param authService - The authentication service whose active account browses Fabric.
+     */
+    constructor(private authService: AuthService) {
+        this.subscription = authService.onDidChangeAccounts(() => this.refresh());
+    }
+
+    /**
+     * Lists workspaces and items again.
+     */
+    refresh(): void {
+        this.items.clear();
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Returns the UI representation (TreeItem) for a node.
+     * @param node - The node.
+     * @returns The TreeItem for display.
+     */
+    getTreeItem(node: FabricNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'workspace':
+                return FabricWorkspacesProvider.getWorkspaceItem(node);
+            case 'group': {
+                const group = ITEM_GROUPS[node.type];
+                const item = new vscode.TreeItem(group.label, vscode.TreeItemCollapsibleState.Collapsed);
+                item.id = `${node.workspace.id}/${node.type}`;
+                item.description = String(node.items.length);
+                item.iconPath = new vscode.ThemeIcon(group.icon);
+                return item;
+            }
+            case 'item':
+                return FabricWorkspacesProvider.getItemItem(node);
+            case 'message': {
+                const item = new vscode.TreeItem(node.message, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = new vscode.ThemeIcon(node.isError ? 'error' : 'info');
+                item.tooltip = node.message;
+                return item;
+            }
+        }
+    }
+
+    /**
+     * Gets the workspaces at the root, the item groups of a workspace and the items of a group.
+     * @param node - The parent node (undefined for root).
+     * @returns The child nodes; none at the root when no account is signed in.
+     */
+    async getChildren(node?: FabricNode): Promise<FabricNode[]> {
+        try {
+            if (!node) {
+                return await this.getWorkspaces();
+            }
+            switch (node.kind) {
+                case 'workspace':
+                    return await this.getItemGroups(node.workspace);
+                case 'group':
+                    return node.items.map(item => ({ kind: 'item', workspace: node.workspace, item }));
+                default:
+                    return [];
+            }
+        } catch (error) {
+            return [{ kind: 'message', message: error instanceof Error ? error.message : String(error), isError: true }];
+        }
+    }
+
+    /**
+     * Stops listening to the account store.
+     */
+    dispose(): void {
+        this.subscription.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+
+    /**
+     * Lists the workspaces of the active account with their capacities.
+     * @returns The workspace nodes, sorted by name.
+     */
+    private async getWorkspaces(): Promise<FabricNode[]> {
+        const accessToken = await this.authService.refreshTokenIfNeeded();
+        if (!accessToken) {
+            return [];
+        }
+
+        const [workspaces, capacities] = await Promise.all([
+            FabricService.listWorkspaces(accessToken),
+            // Capacities only add details; the workspaces are still useful without them
+            FabricService.listCapacities(accessToken).catch(() => [] as CapacityInfo[])
+        ]);
+        return workspaces
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(workspace => ({
+                kind: 'workspace',
+                workspace,
+                capacity: capacities.find(c => c.id.toLowerCase() === workspace.capacityId?.toLowerCase())
+            }));
+    }
+
+    /**
+     * Lists the items of a workspace, grouped by type.
+     * @param workspace - The workspace.
+     * @returns The non-empty item groups, or a message when the workspace has no items to show.
+     */
+    private async getItemGroups(workspace: WorkspaceInfo): Promise<FabricNode[]> {
+        let items = this.items.get(workspace.id);
+        if (!items) {
+            items = this.listItems(workspace.id);
+            this.items.set(workspace.id, items);
+            // Let a failed listing be retried on the next expand
+            items.catch(() => this.items.delete(workspace.id));
+        }
+
+        const groups: FabricNode[] = [];
+        for (const type of Object.keys(ITEM_GROUPS) as FabricItemType[]) {
+            const ofType = (await items).filter(item => item.type === type);
+            if (ofType.length > 0) {
+                groups.push({ kind: 'group', workspace, type, items: ofType });
+            }
+        }
+        return groups.length > 0
+            ? groups
+            : [{ kind: 'message', message: 'No semantic models, reports or lakehouses', isError: false }];
+    }
+
+    /**
+     * Lists the items of a workspace with a fresh token.
+     * @param workspaceId - The workspace ID.
+     * @returns The items.
+     */
+    private async listItems(workspaceId: string): Promise<FabricItem[]> {
+        const accessToken = await this.authService.refreshTokenIfNeeded();
+        if (!accessToken) {
+            throw new Error('Sign in to list the items of this workspace.');
+        }
+        return FabricService.listItems(accessToken, workspaceId);
+    }
+
+    /**
+     * Builds the TreeItem of a workspace, described by its capacity.
+     * @param node - The workspace node.
+     * @returns The TreeItem.
+     */
+    private static getWorkspaceItem(node: WorkspaceNode): vscode.TreeItem {
+        const { workspace, capacity } = node;
+        const item = new vscode.TreeItem(workspace.name, vscode.TreeItemCollapsibleState.Collapsed);
+        item.id = workspace.id;
+        item.iconPath = new vscode.ThemeIcon(workspace.type === 'Personal' ? 'account' : 'folder-library');
+        item.contextValue = 'fabricWorkspace';
+        item.description = capacity
+            ? `${capacity.sku} · ${capacity.region}`
+            : workspace.capacityId ? undefined : 'No capacity';
+        item.tooltip = FabricWorkspacesProvider.getTooltip([
+            ['Workspace', workspace.name],
+            ['ID', workspace.id],
+            ['Type', workspace.type],
+            ['Capacity', capacity ? `${capacity.name} (${capacity.sku}, ${capacity.region}, ${capacity.state})` : workspace.capacityId],
+            ['Description', workspace.description]
+        ]);
+        return item;
+    }
+
+    /**
+     * Builds the TreeItem of a semantic model, report or lakehouse.
+     * @param node - The item node.
+     * @returns The TreeItem.
+     */
+    private static getItemItem(node: ItemNode): vscode.TreeItem {
+        const { workspace, item: fabricItem } = node;
+        const item = new vscode.TreeItem(fabricItem.name, vscode.TreeItemCollapsibleState.None);
+        item.id = `${workspace.id}/${fabricItem.type}/${fabricItem.id}`;
+        item.iconPath = new vscode.ThemeIcon(ITEM_GROUPS[fabricItem.type].icon);
+        item.contextValue = `fabricItem.${fabricItem.type}`;
+        item.description = fabricItem.description;
+        // The List Items API returns no modification dates; only the admin APIs do
+        item.tooltip = FabricWorkspacesProvider.getTooltip([
+            [fabricItem.type.replace(/([a-z])([A-Z])/g, '$1 $2'), fabricItem.name],
+            ['ID', fabricItem.id],
+            ['Workspace', workspace.name],
+            ['Description', fabricItem.description]
+        ]);
+        return item;
+    }
+
+    /**
+     * Builds a tooltip from the rows that have a value.
+     * @param rows - The names and values.
+     * @returns The tooltip.
+     */
+    private static getTooltip(rows: [string, string | undefined][]): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString();
+        for (const [name, value] of rows) {
+            if (value) {
+                tooltip.appendMarkdown(`**${name}:** `).appendText(value).appendMarkdown('  \n');
+            }
+        }
+        return tooltip;
+    }
+}
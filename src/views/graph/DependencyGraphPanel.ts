@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { TabularTreeProvider } from '../explorer/TabularTreeProvider';
+import { DependencyGraph, DependencyTrace } from '../../dax/DependencyGraph';
+
+/**
+ * Messages posted from the webview to the extension.
+ */
+type WebviewMessage =
+    | { type: 'ready' }
+    | { type: 'setDepth'; depth: number }
+    | { type: 'open'; id: string }
+    | { type: 'focus'; id: string };
+
+/**
+ * Webview panel that draws the precedents and dependents of a measure or column.
+ * A single panel is reused; showing another object re-roots it.
+ */
+export class DependencyGraphPanel {
+    private static readonly VIEW_TYPE = 'tmdl-studio.dependency-graph';
+    private static readonly DEFAULT_DEPTH = 3;
+
+    private static current: DependencyGraphPanel | undefined;
+
+    private graph: DependencyGraph | undefined;
+    private depth = DependencyGraphPanel.DEFAULT_DEPTH;
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Shows the graph for a node, creating the panel if needed.
+     * @param treeProvider - The tree provider holding the loaded models.
+     * @param projectRoot - The project root of the model the node belongs to.
+     * @param rootId - The dependency graph node id to center on.
+     */
+    static show(treeProvider: TabularTreeProvider, projectRoot: string, rootId: string): void {
+        if (DependencyGraphPanel.current) {
+            DependencyGraphPanel.current.setRoot(projectRoot, rootId);
+            DependencyGraphPanel.current.panel.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            DependencyGraphPanel.VIEW_TYPE,
+            'Dependencies',
+            vscode.ViewColumn.Beside,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        DependencyGraphPanel.current = new DependencyGraphPanel(panel, treeProvider, projectRoot, rootId);
+    }
+
+    private constructor(
+        private panel: vscode.WebviewPanel,
+        private treeProvider: TabularTreeProvider,
+        private projectRoot: string,
+        private rootId: string
+    ) {
+        this.panel.webview.html = this.getHtml();
+
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage((message: WebviewMessage) => this.onMessage(message), null, this.disposables);
+
+        // Rebuild when the model reloads so edits show up without reopening the panel
+        this.treeProvider.onDidChangeTreeData(() => {
+            this.graph = undefined;
+            this.render();
+        }, null, this.disposables);
+
+        this.setRoot(projectRoot, rootId);
+    }
+
+    /**
+     * Re-roots the graph on another node.
+     * @param projectRoot - The project root of the model the node belongs to.
+     * @param rootId - The dependency graph node id.
+     */
+    private setRoot(projectRoot: string, rootId: string): void {
+        if (projectRoot !== this.projectRoot) {
+            this.projectRoot = projectRoot;
+            this.graph = undefined;
+        }
+        this.rootId = rootId;
+        this.render();
+    }
+
+    /**
+     * Traces the current root and posts the result to the webview.
+     */
+    private render(): void {
+        const graph = this.getGraph();
+        const root = graph?.getNode(this.rootId);
+        if (!graph || !root) {
+            this.panel.webview.postMessage({ type: 'empty', message: 'The selected object is not in the loaded model.' });
+            return;
+        }
+
+        this.panel.title = `Dependencies: ${root.name}`;
+        const trace: DependencyTrace = graph.trace(this.rootId, this.depth);
+        this.panel.webview.postMessage({ type: 'render', trace });
+    }
+
+    /**
+     * Gets the dependency graph for the loaded model, building it on first use.
+     * @returns The graph, or undefined if no model is loaded.
+     */
+    private getGraph(): DependencyGraph | undefined {
+        if (!this.graph) {
+            const modelData = this.treeProvider.getModel(this.projectRoot)?.data;
+            this.graph = modelData ? DependencyGraph.build(modelData) : undefined;
+        }
+        return this.graph;
+    }
+
+    /**
+     * Handles a message from the webview.
+     * @param message - The webview message.
+     */
+    private async onMessage(message: WebviewMessage): Promise<void> {
+        switch (message.type) {
+            case 'ready':
+                this.render();
+                break;
+            case 'setDepth':
+                this.depth = message.depth;
+                this.render();
+                break;
+            case 'focus':
+                this.setRoot(this.projectRoot, message.id);
+                break;
+            case 'open': {
+                const node = this.getGraph()?.getNode(message.id);
+                const folder = this.treeProvider.getModel(this.projectRoot)?.definitionFolder;
+                if (node?.file && folder) {
+                    await vscode.commands.executeCommand('tmdl-studio.open-file-at-line', path.join(folder, node.file), node.lineNumber);
+                }
+                break;
+            }
+        }
+    }
+
+    private dispose(): void {
+        DependencyGraphPanel.current = undefined;
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /**
+     * Builds the webview HTML. The graph is laid out in columns by level:
+     * precedents on the left, the root in the middle, dependents on the right.
+     * @returns The HTML document.
+     */
+    private getHtml(): string {
+        const nonce = crypto.randomBytes(16).toString('base64');
+        const csp = `default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0; margin: 0; }
+    #toolbar { display: flex; gap: 12px; align-items: center; padding: 8px 12px; border-bottom: 1px solid var(--vscode-panel-border); }
+    #legend span { margin-right: 10px; }
+    #message { padding: 12px; }
+    svg { display: block; }
+    .node rect { fill: var(--vscode-editor-background); stroke: var(--vscode-foreground); stroke-width: 1; rx: 4; cursor: pointer; }
+    .node.root rect { stroke: var(--vscode-focusBorder); stroke-width: 2.5; }
+    .node.measure rect { fill: var(--vscode-editorWidget-background); }
+    .node.broken rect { stroke: var(--vscode-errorForeground); stroke-dasharray: 4 3; }
+    .node.cyclic rect { stroke: var(--vscode-editorWarning-foreground); stroke-width: 2; }
+    .node text { fill: var(--vscode-foreground); pointer-events: none; }
+    .node .kind { fill: var(--vscode-descriptionForeground); font-size: 0.85em; }
+    .edge { fill: none; stroke: var(--vscode-descriptionForeground); stroke-width: 1.2; }
+    .edge.cyclic { stroke: var(--vscode-editorWarning-foreground); stroke-width: 2; }
+    .broken-label { color: var(--vscode-errorForeground); }
+    .cyclic-label { color: var(--vscode-editorWarning-foreground); }
+</style>
+</head>
+<body>
+<div id="toolbar">
+    <label>Levels
+        <select id="depth">
+            <option value="1">1</option>
+            <option value="2">2</option>
+            <option value="3" selected>3</option>
+            <option value="5">5</option>
+            <option value="10">10</option>
+            <option value="1000">All</option>
+        </select>
+    </label>
+    <div id="legend">
+        <span>← precedents</span><span>dependents →</span>
+        <span class="broken-label">dashed: broken reference</span>
+        <span class="cyclic-label">orange: circular dependency</span>
+    </div>
+</div>
+<div id="message"></div>
+<svg id="graph"></svg>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const svg = document.getElementById('graph');
+    const message = document.getElementById('message');
+    const depthSelect = document.getElementById('depth');
+    const NODE_WIDTH = 180, NODE_HEIGHT = 40, COLUMN_GAP = 80, ROW_GAP = 16, MARGIN = 20;
+    const SVG_NS = 'http://www.w3.org/2000/svg';
+
+    depthSelect.addEventListener('change', () => {
+        vscode.postMessage({ type: 'setDepth', depth: Number(depthSelect.value) });
+    });
+
+    window.addEventListener('message', event => {
+        const data = event.data;
+        if (data.type === 'empty') {
+            svg.innerHTML = '';
+            message.textContent = data.message;
+        } else if (data.type === 'render') {
+            message.textContent = '';
+            draw(data.trace);
+        }
+    });
+
+    function el(name, attrs) {
+        const node = document.createElementNS(SVG_NS, name);
+        for (const key in attrs) { node.setAttribute(key, attrs[key]); }
+        return node;
+    }
+
+    function truncate(text, max) {
+        return text.length > max ? text.slice(0, max - 1) + '…' : text;
+    }
+
+    function draw(trace) {
+        svg.innerHTML = '';
+        const defs = el('defs', {});
+        const marker = el('marker', { id: 'arrow', viewBox: '0 0 10 10', refX: '10', refY: '5', markerWidth: '7', markerHeight: '7', orient: 'auto-start-reverse' });
+        marker.appendChild(el('path', { d: 'M 0 0 L 10 5 L 0 10 z', fill: 'currentColor' }));
+        defs.appendChild(marker);
+        svg.appendChild(defs);
+
+        const levels = [...new Set(trace.nodes.map(n => n.level))].sort((a, b) => a - b);
+        const minLevel = levels[0];
+        const positions = new Map();
+        let maxRows = 0;
+
+        for (const level of levels) {
+            const column = trace.nodes.filter(n => n.level === level).sort((a, b) => a.name.localeCompare(b.name));
+            maxRows = Math.max(maxRows, column.length);
+            column.forEach((node, row) => {
+                positions.set(node.id, {
+                    x: MARGIN + (level - minLevel) * (NODE_WIDTH + COLUMN_GAP),
+                    y: MARGIN + row * (NODE_HEIGHT + ROW_GAP)
+                });
+            });
+        }
+
+        svg.setAttribute('width', String(MARGIN * 2 + levels.length * (NODE_WIDTH + COLUMN_GAP)));
+        svg.setAttribute('height', String(MARGIN * 2 + maxRows * (NODE_HEIGHT + ROW_GAP)));
+
+        // Edges point from the used object to the object that uses it, left to right
+        for (const edge of trace.edges) {
+            const from = positions.get(edge.to);
+            const to = positions.get(edge.from);
+            if (!from || !to) { continue; }
+            const x1 = from.x + NODE_WIDTH, y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x, y2 = to.y + NODE_HEIGHT / 2;
+            const bend = Math.max(Math.abs(x2 - x1) / 2, 40);
+            const path = el('path', {
+                d: 'M ' + x1 + ' ' + y1 + ' C ' + (x1 + bend) + ' ' + y1 + ', ' + (x2 - bend) + ' ' + y2 + ', ' + x2 + ' ' + y2,
+                class: 'edge' + (edge.isCyclic ? ' cyclic' : ''),
+                'marker-end': 'url(#arrow)'
+            });
+            svg.appendChild(path);
+        }
+
+        for (const node of trace.nodes) {
+            const pos = positions.get(node.id);
+            const classes = ['node', node.kind];
+            if (node.id === trace.rootId) { classes.push('root'); }
+            if (node.isBroken) { classes.push('broken'); }
+            if (node.isCyclic) { classes.push('cyclic'); }
+
+            const group = el('g', { class: classes.join(' '), transform: 'translate(' + pos.x + ',' + pos.y + ')' });
+            const rect = el('rect', { width: NODE_WIDTH, height: NODE_HEIGHT });
+            const title = el('title', {});
+            const isMember = node.kind === 'measure' || node.kind === 'column';
+            title.textContent = (isMember ? "'" + node.table + "'[" + node.name + ']' : node.name) +
+                (node.isBroken ? ' (broken reference)' : '') + (node.isCyclic ? ' (circular dependency)' : '') +
+                '\\nClick to open, double-click to trace from here';
+            rect.appendChild(title);
+            group.appendChild(rect);
+
+            const name = el('text', { x: 8, y: 17 });
+            name.textContent = truncate(node.name, 24);
+            group.appendChild(name);
+
+            const kind = el('text', { x: 8, y: 33, class: 'kind' });
+            kind.textContent = truncate(node.kind + (node.table && node.kind !== 'missing' ? ' · ' + node.table : ''), 28);
+            group.appendChild(kind);
+
+            rect.addEventListener('click', () => vscode.postMessage({ type: 'open', id: node.id }));
+            rect.addEventListener('dblclick', () => vscode.postMessage({ type: 'focus', id: node.id }));
+            svg.appendChild(group);
+        }
+    }
+
+    vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { AuthService } from '../../services/AuthService';
+
+/**
+ * Status bar item showing the active Microsoft account; clicking it switches accounts.
+ */
+export class AccountStatusBar implements vscode.Disposable {
+    private item: vscode.StatusBarItem;
+    private subscription: vscode.Disposable;
+
+    /**
+     * @param authService - The authentication service holding the account store.
+     */
+    constructor(private authService: AuthService) {
+        this.item = vscode.window.createStatusBarItem('tmdl-studio.account', vscode.StatusBarAlignment.Left, 10);
+        this.item.name = 'TMDL Studio Account';
+        this.item.command = 'tmdl-studio.switch-account';
+        this.subscription = authService.onDidChangeAccounts(() => this.update());
+        this.update();
+        this.item.show();
+    }
+
+    /**
+     * Shows the active account, or a sign-in prompt when no account is signed in.
+     */
+    private async update(): Promise<void> {
+        const account = await this.authService.getActiveAccount();
+        const count = (await this.authService.getAccounts()).length;
+
+        this.item.text = `$(account) ${account?.account.username ?? 'Sign in'}`;
+        this.item.tooltip = account
+            ? `TMDL Studio: deploying as ${account.account.username} (tenant ${account.tenantId}). ` +
+              `${count} signed-in account(s); click to switch.`
+            : 'TMDL Studio: sign in to a Microsoft account for interactive deploys';
+    }
+
+    /**
+     * Removes the status bar item.
+     */
+    dispose(): void {
+        this.subscription.dispose();
+        this.item.dispose();
+    }
+}
@@ -0,0 +1,44 @@
+using TmdlStudio.Services;
+using Xunit;
+
+namespace TmdlStudio.Tests.Services
+{
+    public class DeploymentOverrideServiceTests
+    {
+        [Fact]
+        public void ReplaceParameterValue_TextParameter_KeepsMetaRecord()
+        {
+            var expression = "\"dev-sql.database.windows.net\" meta [IsParameterQuery=true, Type=\"Text\", IsParameterQueryRequired=true]";
+
+            var result = DeploymentOverrideService.ReplaceParameterValue(expression, "\"prod-sql.database.windows.net\"");
+
+            Assert.Equal("\"prod-sql.database.windows.net\" meta [IsParameterQuery=true, Type=\"Text\", IsParameterQueryRequired=true]", result);
+        }
+
+        [Fact]
+        public void ReplaceParameterValue_QuotedValueWithEscapedQuotes_ReplacesWholeLiteral()
+        {
+            var expression = "\"say \"\"hi\"\"\" meta [IsParameterQuery=true]";
+
+            var result = DeploymentOverrideService.ReplaceParameterValue(expression, "\"bye\"");
+
+            Assert.Equal("\"bye\" meta [IsParameterQuery=true]", result);
+        }
+
+        [Fact]
+        public void ReplaceParameterValue_NumericParameter_KeepsMetaRecord()
+        {
+            var result = DeploymentOverrideService.ReplaceParameterValue("10 meta [IsParameterQuery=true, Type=\"Number\"]", "250");
+
+            Assert.Equal("250 meta [IsParameterQuery=true, Type=\"Number\"]", result);
+        }
+
+        [Fact]
+        public void ReplaceParameterValue_NoMetaRecord_ReplacesExpression()
+        {
+            var result = DeploymentOverrideService.ReplaceParameterValue("let Source = 1 in Source", "\"x\"");
+
+            Assert.Equal("\"x\"", result);
+        }
+    }
+}
@@ -316,6 +316,30 @@ table TestTable
             }
         }
 
+        [Fact]
+        public void FindLineNumber_TableAfterDescription_ReturnsDeclarationLine()
+        {
+            var content = @"
+/// Fact table with one row per order line
+table 'Sales Orders'
+
+    column Amount
+        dataType: decimal
+";
+            var tempFile = CreateTempTmdlFile(content);
+
+            try
+            {
+                var result = LineNumberFinder.FindLineNumber(tempFile, "Sales Orders", "table");
+
+                Assert.Equal(2, result);
+            }
+            finally
+            {
+                File.Delete(tempFile);
+            }
+        }
+
         private string CreateTempTmdlFile(string content)
         {
             var tempFile = Path.Combine(Path.GetTempPath(), $"test_{Guid.NewGuid()}.tmdl");
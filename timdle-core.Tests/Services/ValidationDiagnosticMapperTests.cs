@@ -0,0 +1,71 @@
+using System;
+using System.IO;
+using TmdlStudio.Services;
+using Xunit;
+
+namespace TmdlStudio.Tests.Services
+{
+    public class ValidationDiagnosticMapperTests
+    {
+        [Fact]
+        public void NormalizeDocumentPath_ExtensionlessName_AppendsTmdlExtension()
+        {
+            var result = ValidationDiagnosticMapper.NormalizeDocumentPath("tables/Sales", "/models/definition");
+
+            Assert.Equal("tables/Sales.tmdl", result);
+        }
+
+        [Fact]
+        public void NormalizeDocumentPath_RootedPath_ReturnsPathRelativeToBase()
+        {
+            var basePath = Path.Combine(Path.GetTempPath(), "definition");
+            var document = Path.Combine(basePath, "tables", "Sales.tmdl");
+
+            var result = ValidationDiagnosticMapper.NormalizeDocumentPath(document, basePath);
+
+            Assert.Equal("tables/Sales.tmdl", result);
+        }
+
+        [Fact]
+        public void NormalizeDocumentPath_Backslashes_ReturnsForwardSlashes()
+        {
+            var result = ValidationDiagnosticMapper.NormalizeDocumentPath(@"tables\Sales.tmdl", "/models/definition");
+
+            Assert.Equal("tables/Sales.tmdl", result);
+        }
+
+        [Fact]
+        public void NormalizeDocumentPath_EmptyDocument_ReturnsModelFile()
+        {
+            var result = ValidationDiagnosticMapper.NormalizeDocumentPath(null, "/models/definition");
+
+            Assert.Equal(ValidationDiagnosticMapper.ModelFile, result);
+        }
+
+        [Fact]
+        public void GetColumn_IndentedLine_ReturnsFirstNonWhitespaceColumn()
+        {
+            var result = ValidationDiagnosticMapper.GetColumn("\t\tmeasure 'Total Sales' = SUM(Sales[Amount])");
+
+            Assert.Equal(3, result);
+        }
+
+        [Fact]
+        public void GetColumn_BlankLine_ReturnsOne()
+        {
+            Assert.Equal(1, ValidationDiagnosticMapper.GetColumn("   "));
+            Assert.Equal(1, ValidationDiagnosticMapper.GetColumn(null));
+        }
+
+        [Fact]
+        public void FromException_GenericException_MapsToModelFileError()
+        {
+            var result = ValidationDiagnosticMapper.FromException(new InvalidOperationException("boom"), "/models/definition");
+
+            Assert.Equal(ValidationDiagnosticMapper.ModelFile, result.File);
+            Assert.Equal("error", result.Severity);
+            Assert.Equal(ValidationDiagnosticMapper.LoadErrorCode, result.Code);
+            Assert.Equal("boom", result.Message);
+        }
+    }
+}
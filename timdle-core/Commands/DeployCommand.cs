@@ -1,5 +1,7 @@
 using System;
+using System.IO;
 using System.Text.Json;
+using System.Threading;
 using System.Threading.Tasks;
 using TmdlStudio.Models;
 using TmdlStudio.Services;
@@ -53,51 +55,130 @@ namespace TmdlStudio.Commands
                     return;
                 }
 
-                if (authConfig.Mode?.ToLower() == "interactive")
-                {
-                    if (!authConfig.HasUsableAccessToken())
-                    {
-                        authConfig.AccessToken = await TokenService.AcquireTokenInteractiveAsync(!noBrowser);
-                        authConfig.AccessTokenExpiresOn = DateTime.UtcNow.AddMinutes(55);
-                    }
+                var result = await DeployWithConfigAsync(path, authConfig, noBrowser, allowPrompts: true);
+                OutputResult(result);
+            }
+            catch (InvalidOperationException ex)
+            {
+                OutputResult(DeployResult.Error(ex.Message));
+            }
+            catch (Exception ex)
+            {
+                OutputResult(DeployResult.Error($"Deployment command failed: {ex.Message}"));
+            }
+        }
 
-                    TokenCacheService.Save(authConfig);
-                }
-                else
+        /// <summary>
+        /// Acquires a token for an already-resolved auth config and deploys the model.
+        /// Used by the CLI command and by the JSON-RPC server, which cannot prompt on stdin.
+        /// </summary>
+        /// <param name="refresh">Refreshes the semantic model once the definition is deployed.</param>
+        /// <param name="cancellationToken">Stops the deploy at its next request to Fabric.</param>
+        public static async Task<DeployResult> DeployWithConfigAsync(
+            string path,
+            AuthConfig authConfig,
+            bool noBrowser = false,
+            bool allowPrompts = true,
+            DeploymentOverrides overrides = null,
+            IProgress<DeployProgress> progress = null,
+            bool refresh = false,
+            CancellationToken cancellationToken = default)
+        {
+            progress?.Report(DeployProgress.Create(DeployProgress.Authenticating, "Authenticating..."));
+            var tokenError = await AcquireAccessTokenAsync(authConfig, noBrowser, allowPrompts);
+            if (tokenError != null)
+            {
+                return DeployResult.Error(tokenError);
+            }
+
+            cancellationToken.ThrowIfCancellationRequested();
+
+            if (overrides == null || overrides.IsEmpty)
+            {
+                var result = TmdlService.Deploy(path, authConfig, progress, refresh, cancellationToken);
+                TokenCacheService.Save(authConfig);
+                return result;
+            }
+
+            // Overrides are applied to a copy so the project on disk keeps its own values.
+            var overriddenPath = DeploymentOverrideService.CreateOverriddenCopy(path, overrides);
+            try
+            {
+                var result = TmdlService.Deploy(overriddenPath, authConfig, progress, refresh, cancellationToken);
+                TokenCacheService.Save(authConfig);
+                return result;
+            }
+            finally
+            {
+                Directory.Delete(overriddenPath, recursive: true);
+            }
+        }
+
+        /// <summary>
+        /// Acquires a token for an already-resolved auth config and downloads the semantic model
+        /// that deploying the model at <paramref name="path"/> would overwrite.
+        /// </summary>
+        public static async Task<DeployedModelResult> GetDeployedModelWithConfigAsync(
+            string path,
+            AuthConfig authConfig,
+            bool allowPrompts = true)
+        {
+            var tokenError = await AcquireAccessTokenAsync(authConfig, noBrowser: false, allowPrompts);
+            if (tokenError != null)
+            {
+                throw new InvalidOperationException(tokenError);
+            }
+
+            return await FabricApiService.GetDeployedModelAsync(path, authConfig);
+        }
+
+        /// <summary>
+        /// Ensures the auth config holds a usable access token, prompting only when allowed.
+        /// </summary>
+        /// <returns>An error message, or null when a token was acquired.</returns>
+        private static async Task<string> AcquireAccessTokenAsync(AuthConfig authConfig, bool noBrowser, bool allowPrompts)
+        {
+            if (authConfig.Mode?.ToLower() == "interactive")
+            {
+                if (!authConfig.HasUsableAccessToken())
                 {
-                    if (string.IsNullOrWhiteSpace(authConfig.ClientSecret))
+                    if (!allowPrompts)
                     {
-                        if (TokenService.IsCiEnvironment())
-                        {
-                            OutputResult(DeployResult.Error($"Missing {EnvClientSecret} for service principal authentication in CI environment."));
-                            return;
-                        }
-
-                        authConfig.ClientSecret = ConsolePrompter.PromptSecret("Client Secret");
+                        return "An access token is required for interactive authentication.";
                     }
 
-                    authConfig.AccessToken = await TokenService.AcquireTokenByServicePrincipalAsync(
-                        authConfig.ClientId,
-                        authConfig.ClientSecret,
-                        authConfig.TenantId);
-
-                    // Do not persist service principal secret.
-                    authConfig.ClientSecret = null;
-                    TokenCacheService.Save(authConfig);
+                    authConfig.AccessToken = await TokenService.AcquireTokenInteractiveAsync(!noBrowser);
+                    authConfig.AccessTokenExpiresOn = DateTime.UtcNow.AddMinutes(55);
                 }
 
-                var result = TmdlService.Deploy(path, authConfig);
                 TokenCacheService.Save(authConfig);
-                OutputResult(result);
-            }
-            catch (InvalidOperationException ex)
-            {
-                OutputResult(DeployResult.Error(ex.Message));
+                return null;
             }
-            catch (Exception ex)
+
+            if (string.IsNullOrWhiteSpace(authConfig.ClientSecret))
             {
-                OutputResult(DeployResult.Error($"Deployment command failed: {ex.Message}"));
+                if (!allowPrompts)
+                {
+                    return "A client secret is required for service principal authentication.";
+                }
+
+                if (TokenService.IsCiEnvironment())
+                {
+                    return $"Missing {EnvClientSecret} for service principal authentication in CI environment.";
+                }
+
+                authConfig.ClientSecret = ConsolePrompter.PromptSecret("Client Secret");
             }
+
+            authConfig.AccessToken = await TokenService.AcquireTokenByServicePrincipalAsync(
+                authConfig.ClientId,
+                authConfig.ClientSecret,
+                authConfig.TenantId);
+
+            // Do not persist service principal secret.
+            authConfig.ClientSecret = null;
+            TokenCacheService.Save(authConfig);
+            return null;
         }
 
         private static AuthConfig ResolveAuthConfig(
@@ -274,7 +355,7 @@ namespace TmdlStudio.Commands
         /// <summary>
         /// Validates the authentication configuration.
         /// </summary>
-        private static bool ValidateAuthConfig(AuthConfig authConfig, out string errorMessage)
+        public static bool ValidateAuthConfig(AuthConfig authConfig, out string errorMessage)
         {
             errorMessage = null;
 
@@ -0,0 +1,343 @@
+using System;
+using System.Collections.Concurrent;
+using System.Collections.Generic;
+using System.IO;
+using System.Text.Json;
+using System.Threading;
+using System.Threading.Tasks;
+using TmdlStudio.Models;
+using TmdlStudio.Services;
+
+namespace TmdlStudio.Commands
+{
+    /// <summary>
+    /// Runs timdle as a long-lived JSON-RPC 2.0 server over stdio.
+    /// Each request and response is a single line of JSON. Requests are handled
+    /// concurrently; responses are matched to requests by id, not by order.
+    /// A "$/cancelRequest" notification cancels the running request with the given id.
+    /// </summary>
+    public static class ServeCommand
+    {
+        private static readonly JsonSerializerOptions JsonOptions = new JsonSerializerOptions
+        {
+            PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+            DefaultIgnoreCondition = System.Text.Json.Serialization.JsonIgnoreCondition.WhenWritingNull
+        };
+
+        private static readonly SemaphoreSlim WriteLock = new SemaphoreSlim(1, 1);
+        private static TextWriter _protocolOut;
+
+        /// <summary>
+        /// Cancellation sources of the running requests, by request id.
+        /// </summary>
+        private static readonly ConcurrentDictionary<long, CancellationTokenSource> Cancellations =
+            new ConcurrentDictionary<long, CancellationTokenSource>();
+
+        /// <summary>
+        /// Executes the serve command. Returns when stdin closes or a shutdown request arrives.
+        /// </summary>
+        public static async Task Execute()
+        {
+            _protocolOut = new StreamWriter(Console.OpenStandardOutput()) { AutoFlush = true };
+
+            // Services still write progress with Console.WriteLine; keep that off the protocol channel.
+            Console.SetOut(Console.Error);
+
+            var inFlight = new List<Task>();
+            string line;
+
+            while ((line = await Console.In.ReadLineAsync()) != null)
+            {
+                if (string.IsNullOrWhiteSpace(line))
+                {
+                    continue;
+                }
+
+                RpcRequest request;
+                try
+                {
+                    request = JsonSerializer.Deserialize<RpcRequest>(line, JsonOptions);
+                }
+                catch (JsonException ex)
+                {
+                    await WriteResponseAsync(RpcResponse.Failure(null, RpcError.ParseError, $"Parse error: {ex.Message}"));
+                    continue;
+                }
+
+                if (request == null || string.IsNullOrWhiteSpace(request.Method))
+                {
+                    await WriteResponseAsync(RpcResponse.Failure(request?.Id, RpcError.InvalidRequest, "Invalid request"));
+                    continue;
+                }
+
+                // Handled here, not on the thread pool, so a cancel is never queued behind the work it cancels.
+                if (request.Method == "$/cancelRequest")
+                {
+                    CancelRequest(request.Params);
+                    continue;
+                }
+
+                if (request.Method == "shutdown")
+                {
+                    await Task.WhenAll(inFlight);
+                    await WriteResponseAsync(RpcResponse.Success(request.Id, true));
+                    return;
+                }
+
+                // Registered before the request starts so a cancel that follows it right away is not missed.
+                var cancellation = new CancellationTokenSource();
+                if (request.Id.HasValue)
+                {
+                    Cancellations[request.Id.Value] = cancellation;
+                }
+
+                inFlight.RemoveAll(t => t.IsCompleted);
+                inFlight.Add(Task.Run(() => HandleRequestAsync(request, cancellation)));
+            }
+
+            await Task.WhenAll(inFlight);
+        }
+
+        private static async Task HandleRequestAsync(RpcRequest request, CancellationTokenSource cancellation)
+        {
+            RpcResponse response;
+
+            try
+            {
+                var result = await DispatchAsync(request.Id, request.Method, request.Params, cancellation.Token);
+                response = RpcResponse.Success(request.Id, result);
+            }
+            catch (OperationCanceledException) when (cancellation.IsCancellationRequested)
+            {
+                response = RpcResponse.Failure(request.Id, RpcError.RequestCancelled, $"'{request.Method}' was cancelled");
+            }
+            catch (RpcException ex)
+            {
+                response = RpcResponse.Failure(request.Id, ex.Code, ex.Message);
+            }
+            catch (Exception ex)
+            {
+                response = RpcResponse.Failure(request.Id, RpcError.InternalError, ex.Message);
+            }
+            finally
+            {
+                if (request.Id.HasValue)
+                {
+                    Cancellations.TryRemove(request.Id.Value, out _);
+                }
+
+                cancellation.Dispose();
+            }
+
+            // Notifications (no id) never get a response.
+            if (request.Id.HasValue)
+            {
+                await WriteResponseAsync(response);
+            }
+        }
+
+        /// <summary>
+        /// Cancels a running request. Requests that already finished, or were never received, are ignored.
+        /// </summary>
+        private static void CancelRequest(JsonElement parameters)
+        {
+            if (parameters.ValueKind == JsonValueKind.Object &&
+                parameters.TryGetProperty("id", out var id) &&
+                id.TryGetInt64(out var requestId) &&
+                Cancellations.TryGetValue(requestId, out var cancellation))
+            {
+                try
+                {
+                    cancellation.Cancel();
+                }
+                catch (ObjectDisposedException)
+                {
+                    // The request finished while it was being cancelled.
+                }
+            }
+        }
+
+        private static async Task<object> DispatchAsync(long? requestId, string method, JsonElement parameters, CancellationToken cancellationToken)
+        {
+            switch (method)
+            {
+                case "validate":
+                    return TmdlService.Validate(GetRequiredString(parameters, "path"));
+
+                case "getModelStructure":
+                {
+                    var path = GetRequiredString(parameters, "path");
+                    return TmdlService.ToModelStructure(TmdlService.LoadModel(path), path);
+                }
+
+                case "getTableStructure":
+                    return TmdlService.GetTableStructure(
+                        GetRequiredString(parameters, "path"),
+                        GetRequiredString(parameters, "file"));
+
+                case "listTables":
+                    return TmdlService.ListTables(GetRequiredString(parameters, "path"));
+
+                case "deploy":
+                {
+                    var path = GetRequiredString(parameters, "path");
+                    var authConfig = GetRequired<AuthConfig>(parameters, "authConfig");
+
+                    if (!DeployCommand.ValidateAuthConfig(authConfig, out var errorMessage))
+                    {
+                        return DeployResult.Error(errorMessage);
+                    }
+
+                    var overrides = GetOptional<DeploymentOverrides>(parameters, "overrides");
+                    var refresh = GetOptionalBool(parameters, "refresh");
+                    var progress = new SynchronousProgress<DeployProgress>(update => ReportProgress(requestId, update));
+                    return await DeployCommand.DeployWithConfigAsync(
+                        path,
+                        authConfig,
+                        allowPrompts: false,
+                        overrides: overrides,
+                        refresh: refresh,
+                        progress: progress,
+                        cancellationToken: cancellationToken);
+                }
+
+                case "getDeployedModel":
+                {
+                    var path = GetRequiredString(parameters, "path");
+                    var authConfig = GetRequired<AuthConfig>(parameters, "authConfig");
+
+                    if (!DeployCommand.ValidateAuthConfig(authConfig, out var errorMessage))
+                    {
+                        throw new RpcException(RpcError.InvalidParams, errorMessage);
+                    }
+
+                    return await DeployCommand.GetDeployedModelWithConfigAsync(path, authConfig, allowPrompts: false);
+                }
+
+                default:
+                    throw new RpcException(RpcError.MethodNotFound, $"Method not found: {method}");
+            }
+        }
+
+        private static string GetRequiredString(JsonElement parameters, string name)
+        {
+            var value = GetRequired<string>(parameters, name);
+            if (string.IsNullOrWhiteSpace(value))
+            {
+                throw new RpcException(RpcError.InvalidParams, $"Missing required parameter: {name}");
+            }
+
+            return value;
+        }
+
+        private static bool GetOptionalBool(JsonElement parameters, string name)
+        {
+            if (parameters.ValueKind != JsonValueKind.Object ||
+                !parameters.TryGetProperty(name, out var property) ||
+                property.ValueKind == JsonValueKind.Null)
+            {
+                return false;
+            }
+
+            if (property.ValueKind != JsonValueKind.True && property.ValueKind != JsonValueKind.False)
+            {
+                throw new RpcException(RpcError.InvalidParams, $"Invalid parameter '{name}': expected true or false");
+            }
+
+            return property.GetBoolean();
+        }
+
+        private static T GetOptional<T>(JsonElement parameters, string name) where T : class
+        {
+            if (parameters.ValueKind != JsonValueKind.Object ||
+                !parameters.TryGetProperty(name, out var property) ||
+                property.ValueKind == JsonValueKind.Null)
+            {
+                return null;
+            }
+
+            return GetRequired<T>(parameters, name);
+        }
+
+        private static T GetRequired<T>(JsonElement parameters, string name) where T : class
+        {
+            if (parameters.ValueKind != JsonValueKind.Object ||
+                !parameters.TryGetProperty(name, out var property) ||
+                property.ValueKind == JsonValueKind.Null)
+            {
+                throw new RpcException(RpcError.InvalidParams, $"Missing required parameter: {name}");
+            }
+
+            try
+            {
+                return property.Deserialize<T>(JsonOptions);
+            }
+            catch (JsonException ex)
+            {
+                throw new RpcException(RpcError.InvalidParams, $"Invalid parameter '{name}': {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Sends a progress notification for a running request. Notifications are written in the
+        /// order they are reported, before the request's response.
+        /// </summary>
+        private static void ReportProgress(long? requestId, DeployProgress update)
+        {
+            if (!requestId.HasValue)
+            {
+                return;
+            }
+
+            var notification = new RpcNotification
+            {
+                Method = "progress",
+                Params = new { requestId = requestId.Value, update.Stage, update.Message, update.OperationId }
+            };
+            WriteMessageAsync(notification).GetAwaiter().GetResult();
+        }
+
+        private static Task WriteResponseAsync(RpcResponse response) => WriteMessageAsync(response);
+
+        private static async Task WriteMessageAsync(object message)
+        {
+            var json = JsonSerializer.Serialize(message, JsonOptions);
+
+            await WriteLock.WaitAsync();
+            try
+            {
+                await _protocolOut.WriteLineAsync(json);
+            }
+            finally
+            {
+                WriteLock.Release();
+            }
+        }
+
+        /// <summary>
+        /// Progress that reports on the calling thread. <see cref="Progress{T}"/> posts to the thread
+        /// pool, which could reorder updates or send them after the response.
+        /// </summary>
+        private class SynchronousProgress<T> : IProgress<T>
+        {
+            private readonly Action<T> _report;
+
+            public SynchronousProgress(Action<T> report)
+            {
+                _report = report;
+            }
+
+            public void Report(T value) => _report(value);
+        }
+
+        private class RpcException : Exception
+        {
+            public int Code { get; }
+
+            public RpcException(int code, string message) : base(message)
+            {
+                Code = code;
+            }
+        }
+    }
+}
@@ -24,6 +24,11 @@ namespace TmdlStudio.Commands
             }
 
             Console.WriteLine($"{prefix}: {result.Message}");
+
+            foreach (var diagnostic in result.Diagnostics)
+            {
+                Console.WriteLine($"  {diagnostic.File}:{diagnostic.Line ?? 1}:{diagnostic.Column ?? 1} {diagnostic.Severity} {diagnostic.Code}: {diagnostic.Message}");
+            }
         }
     }
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+namespace TmdlStudio.Models
+{
+    /// <summary>
+    /// Stage update reported while a deploy runs.
+    /// In server mode each update is sent as a "progress" notification for the deploy request,
+    /// so the caller can tell how far a cancelled deploy got.
+    /// </summary>
+    public class DeployProgress
+    {
+        public const string Authenticating = "authenticating";
+        public const string ResolvingWorkspace = "resolvingWorkspace";
+        public const string RenamingItem = "renamingItem";
+        public const string UploadingDefinition = "uploadingDefinition";
+        public const string WaitingForOperation = "waitingForOperation";
+        public const string Refreshing = "refreshing";
+
+        public string Stage { get; set; }
+        public string Message { get; set; }
+
+        /// <summary>
+        /// Fabric long-running operation id, once the definition upload was accepted.
+        /// </summary>
+        public string OperationId { get; set; }
+
+        public static DeployProgress Create(string stage, string message, string operationId = null) =>
+            new DeployProgress { Stage = stage, Message = message, OperationId = operationId };
+    }
+}
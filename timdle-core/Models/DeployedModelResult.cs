@@ -0,0 +1,19 @@
+namespace TmdlStudio.Models
+{
+    /// <summary>
+    /// The semantic model currently deployed to the target workspace, used to preview a deploy.
+    /// </summary>
+    public class DeployedModelResult
+    {
+        /// <summary>
+        /// False when the workspace has no matching semantic model and deploy would create one.
+        /// </summary>
+        public bool Exists { get; set; }
+
+        public string ItemId { get; set; }
+
+        public string ItemName { get; set; }
+
+        public ModelStructure Model { get; set; }
+    }
+}
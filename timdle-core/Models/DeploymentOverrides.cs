@@ -0,0 +1,25 @@
+using System.Collections.Generic;
+
+namespace TmdlStudio.Models
+{
+    /// <summary>
+    /// Per-environment values applied to a copy of the model before it is deployed.
+    /// </summary>
+    public class DeploymentOverrides
+    {
+        /// <summary>
+        /// Power Query parameter values keyed by parameter name, as M literals (e.g. <c>"prod-sql"</c> or <c>42</c>).
+        /// The parameter's <c>meta [...]</c> record is kept.
+        /// </summary>
+        public Dictionary<string, string> Parameters { get; set; }
+
+        /// <summary>
+        /// Full replacement expressions keyed by shared expression name.
+        /// </summary>
+        public Dictionary<string, string> Expressions { get; set; }
+
+        public bool IsEmpty =>
+            (Parameters == null || Parameters.Count == 0) &&
+            (Expressions == null || Expressions.Count == 0);
+    }
+}
@@ -35,12 +35,17 @@ namespace TmdlStudio.Models
     {
         public string Name { get; set; }
         public string File { get; set; }
+        public Dictionary<string, string> Annotations { get; set; }
     }
 
     public class TableInfo
     {
         public string Name { get; set; }
         public string File { get; set; }
+        public string Description { get; set; }
+        public bool IsHidden { get; set; }
+        public Dictionary<string, string> Annotations { get; set; }
+        public int? LineNumber { get; set; }
         public ColumnInfo[] Columns { get; set; }
         public MeasureInfo[] Measures { get; set; }
         public PartitionInfo[] Partitions { get; set; }
@@ -50,7 +55,12 @@ namespace TmdlStudio.Models
     {
         public string Name { get; set; }
         public string DataType { get; set; }
+        public string Type { get; set; }
         public bool IsHidden { get; set; }
+        public string Description { get; set; }
+        public string DisplayFolder { get; set; }
+        public string Expression { get; set; }
+        public Dictionary<string, string> Annotations { get; set; }
         public int? LineNumber { get; set; }
     }
 
@@ -58,6 +68,11 @@ namespace TmdlStudio.Models
     {
         public string Name { get; set; }
         public string FormatString { get; set; }
+        public bool IsHidden { get; set; }
+        public string Description { get; set; }
+        public string DisplayFolder { get; set; }
+        public string Expression { get; set; }
+        public Dictionary<string, string> Annotations { get; set; }
         public int? LineNumber { get; set; }
     }
 
@@ -73,8 +88,11 @@ namespace TmdlStudio.Models
         public string Id { get; set; }
         public string Name { get; set; }
         public string File { get; set; }
+        public string FromTable { get; set; }
         public string FromColumn { get; set; }
+        public string ToTable { get; set; }
         public string ToColumn { get; set; }
+        public bool IsActive { get; set; }
         public int? LineNumber { get; set; }
     }
 
@@ -83,6 +101,7 @@ namespace TmdlStudio.Models
         public string Name { get; set; }
         public string File { get; set; }
         public string Kind { get; set; }
+        public string Expression { get; set; }
         public int? LineNumber { get; set; }
     }
 
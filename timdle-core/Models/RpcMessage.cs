@@ -0,0 +1,60 @@
+using System.Text.Json;
+
+namespace TmdlStudio.Models
+{
+    /// <summary>
+    /// JSON-RPC 2.0 request read from stdin in server mode.
+    /// </summary>
+    public class RpcRequest
+    {
+        public string Jsonrpc { get; set; }
+        public long? Id { get; set; }
+        public string Method { get; set; }
+        public JsonElement Params { get; set; }
+    }
+
+    /// <summary>
+    /// JSON-RPC 2.0 response written to stdout in server mode.
+    /// Exactly one of Result or Error is set.
+    /// </summary>
+    public class RpcResponse
+    {
+        public string Jsonrpc { get; set; } = "2.0";
+        public long? Id { get; set; }
+        public object Result { get; set; }
+        public RpcError Error { get; set; }
+
+        public static RpcResponse Success(long? id, object result) =>
+            new RpcResponse { Id = id, Result = result };
+
+        public static RpcResponse Failure(long? id, int code, string message) =>
+            new RpcResponse { Id = id, Error = new RpcError { Code = code, Message = message } };
+    }
+
+    /// <summary>
+    /// JSON-RPC 2.0 notification written to stdout in server mode, e.g. progress of a running request.
+    /// Notifications have no id and get no response.
+    /// </summary>
+    public class RpcNotification
+    {
+        public string Jsonrpc { get; set; } = "2.0";
+        public string Method { get; set; }
+        public object Params { get; set; }
+    }
+
+    /// <summary>
+    /// JSON-RPC 2.0 error object.
+    /// </summary>
+    public class RpcError
+    {
+        public const int ParseError = -32700;
+        public const int InvalidRequest = -32600;
+        public const int MethodNotFound = -32601;
+        public const int InvalidParams = -32602;
+        public const int InternalError = -32603;
+        public const int RequestCancelled = -32800;
+
+        public int Code { get; set; }
+        public string Message { get; set; }
+    }
+}
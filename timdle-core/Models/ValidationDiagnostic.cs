@@ -0,0 +1,35 @@
+namespace TmdlStudio.Models
+{
+    /// <summary>
+    /// A single validation finding tied to a location in a TMDL file.
+    /// </summary>
+    public class ValidationDiagnostic
+    {
+        /// <summary>
+        /// File path relative to the validated folder, e.g. "tables/Sales.tmdl".
+        /// </summary>
+        public string File { get; set; }
+
+        /// <summary>
+        /// 1-based line number, or null when the location is unknown.
+        /// </summary>
+        public int? Line { get; set; }
+
+        /// <summary>
+        /// 1-based column number, or null when the location is unknown.
+        /// </summary>
+        public int? Column { get; set; }
+
+        /// <summary>
+        /// Severity: error, warning, or info.
+        /// </summary>
+        public string Severity { get; set; }
+
+        /// <summary>
+        /// Stable diagnostic code, e.g. TMDL001.
+        /// </summary>
+        public string Code { get; set; }
+
+        public string Message { get; set; }
+    }
+}
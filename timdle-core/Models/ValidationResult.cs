@@ -1,4 +1,5 @@
 using System;
+using System.Collections.Generic;
 
 namespace TmdlStudio.Models
 {
@@ -7,16 +8,18 @@ namespace TmdlStudio.Models
         public bool IsSuccess { get; private set; }
         public bool IsWarning { get; private set; }
         public string Message { get; private set; }
+        public IReadOnlyList<ValidationDiagnostic> Diagnostics { get; private set; }
 
-        private ValidationResult(bool isSuccess, bool isWarning, string message)
+        private ValidationResult(bool isSuccess, bool isWarning, string message, IReadOnlyList<ValidationDiagnostic> diagnostics)
         {
             IsSuccess = isSuccess;
             IsWarning = isWarning;
             Message = message;
+            Diagnostics = diagnostics ?? Array.Empty<ValidationDiagnostic>();
         }
 
-        public static ValidationResult Success(string message) => new ValidationResult(true, false, message);
-        public static ValidationResult Warning(string message) => new ValidationResult(true, true, message);
-        public static ValidationResult Error(string message) => new ValidationResult(false, false, message);
+        public static ValidationResult Success(string message) => new ValidationResult(true, false, message, null);
+        public static ValidationResult Warning(string message, params ValidationDiagnostic[] diagnostics) => new ValidationResult(true, true, message, diagnostics);
+        public static ValidationResult Error(string message, params ValidationDiagnostic[] diagnostics) => new ValidationResult(false, false, message, diagnostics);
     }
 }
@@ -116,6 +116,10 @@ class Program
         });
         rootCommand.AddCommand(deployCommand);
 
+        var serveCommand = new Command("serve", "Run as a JSON-RPC server over stdin/stdout (used by the VS Code extension)");
+        serveCommand.SetHandler(ServeCommand.Execute);
+        rootCommand.AddCommand(serveCommand);
+
         return rootCommand.Invoke(args);
     }
 }
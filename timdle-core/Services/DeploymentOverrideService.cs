@@ -0,0 +1,119 @@
+using System;
+using System.IO;
+using System.Linq;
+using System.Text.RegularExpressions;
+using Microsoft.AnalysisServices.Tabular;
+using Microsoft.AnalysisServices.Tabular.Tmdl;
+using TmdlStudio.Models;
+
+namespace TmdlStudio.Services
+{
+    /// <summary>
+    /// Applies environment-specific parameter and expression values to a temporary copy of a model.
+    /// </summary>
+    public static class DeploymentOverrideService
+    {
+        // A Power Query parameter is a literal followed by its meta record: "value" meta [IsParameterQuery=true, ...]
+        private static readonly Regex ParameterPattern = new Regex(
+            "^\\s*(\"(?:[^\"]|\"\")*\"|[^\\s]+)(\\s+meta\\s+\\[.*)$",
+            RegexOptions.Singleline | RegexOptions.IgnoreCase);
+
+        /// <summary>
+        /// Copies the project to a temporary folder and applies the overrides to the copy.
+        /// </summary>
+        /// <param name="projectPath">Path to the project root or TMDL folder being deployed.</param>
+        /// <param name="overrides">The values to apply.</param>
+        /// <returns>Path to the temporary copy. The caller deletes it after deploying.</returns>
+        public static string CreateOverriddenCopy(string projectPath, DeploymentOverrides overrides)
+        {
+            var tempPath = Path.Combine(Path.GetTempPath(), $"timdle-deploy-{Guid.NewGuid():N}");
+            CopyDirectory(projectPath, tempPath);
+
+            try
+            {
+                var definitionPath = Path.Combine(tempPath, "definition");
+                if (!Directory.Exists(definitionPath))
+                {
+                    definitionPath = tempPath;
+                }
+
+                var database = TmdlSerializer.DeserializeDatabaseFromFolder(definitionPath);
+                Apply(database.Model, overrides);
+
+                foreach (var file in Directory.GetFiles(definitionPath, "*.tmdl", SearchOption.AllDirectories))
+                {
+                    File.Delete(file);
+                }
+                TmdlSerializer.SerializeDatabaseToFolder(database, definitionPath);
+
+                return tempPath;
+            }
+            catch
+            {
+                Directory.Delete(tempPath, recursive: true);
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Applies overrides to a model in place.
+        /// </summary>
+        /// <exception cref="InvalidOperationException">An override names an expression the model does not have.</exception>
+        public static void Apply(Model model, DeploymentOverrides overrides)
+        {
+            foreach (var (name, value) in overrides.Parameters ?? new())
+            {
+                var expression = FindExpression(model, name);
+                expression.Expression = ReplaceParameterValue(expression.Expression, value);
+            }
+
+            // Full expression overrides win over parameter values for the same name.
+            foreach (var (name, value) in overrides.Expressions ?? new())
+            {
+                FindExpression(model, name).Expression = value;
+            }
+        }
+
+        /// <summary>
+        /// Replaces the literal value of a Power Query parameter, keeping its meta record.
+        /// Expressions without a meta record are replaced entirely.
+        /// </summary>
+        public static string ReplaceParameterValue(string expression, string value)
+        {
+            var match = ParameterPattern.Match(expression ?? string.Empty);
+            return match.Success ? value + match.Groups[2].Value : value;
+        }
+
+        private static NamedExpression FindExpression(Model model, string name)
+        {
+            var expression = model.Expressions.FirstOrDefault(e => string.Equals(e.Name, name, StringComparison.OrdinalIgnoreCase));
+            if (expression == null)
+            {
+                throw new InvalidOperationException($"Override '{name}' does not match any expression or parameter in the model.");
+            }
+
+            return expression;
+        }
+
+        private static void CopyDirectory(string source, string target)
+        {
+            Directory.CreateDirectory(target);
+
+            foreach (var file in Directory.GetFiles(source))
+            {
+                File.Copy(file, Path.Combine(target, Path.GetFileName(file)));
+            }
+
+            foreach (var directory in Directory.GetDirectories(source))
+            {
+                var name = Path.GetFileName(directory);
+                if (name == ".git" || name == "node_modules")
+                {
+                    continue;
+                }
+
+                CopyDirectory(directory, Path.Combine(target, name));
+            }
+        }
+    }
+}
@@ -6,6 +6,7 @@ using System.Net.Http;
 using System.Net.Http.Headers;
 using System.Text;
 using System.Text.Json;
+using System.Threading;
 using System.Threading.Tasks;
 using Microsoft.AnalysisServices.Tabular;
 using Microsoft.AnalysisServices.Tabular.Tmdl;
@@ -21,6 +22,9 @@ namespace TmdlStudio.Services
     public class FabricApiService
     {
         private const string FabricApiBase = "https://api.fabric.microsoft.com/v1";
+        private const string PowerBiApiBase = "https://api.powerbi.com/v1.0/myorg";
+        private const int RefreshPollSeconds = 5;
+        private const int MaxRefreshPolls = 360;
 
         private class WorkspaceItem
         {
@@ -30,9 +34,16 @@ namespace TmdlStudio.Services
         }
 
         /// <summary>
-        /// Deploys a TMDL model to a Fabric workspace by creating/updating a semantic model item.
+        /// Deploys a TMDL model to a Fabric workspace by creating/updating a semantic model item,
+        /// then refreshes its data when <paramref name="refresh"/> is set.
+        /// Cancelling throws <see cref="OperationCanceledException"/> instead of returning an error.
         /// </summary>
-        public static async Task<DeployResult> DeployAsync(string tmdlPath, AuthConfig authConfig)
+        public static async Task<DeployResult> DeployAsync(
+            string tmdlPath,
+            AuthConfig authConfig,
+            IProgress<DeployProgress> progress = null,
+            bool refresh = false,
+            CancellationToken cancellationToken = default)
         {
             try
             {
@@ -51,7 +62,8 @@ namespace TmdlStudio.Services
                 string itemName = ResolveItemName(tmdlPath, authConfig?.ModelName, databaseName, platformName);
                 authConfig.ModelName = itemName;
 
-                var semanticModels = await ListItemsByTypeAsync(workspaceId, "SemanticModel", authConfig.AccessToken);
+                progress?.Report(DeployProgress.Create(DeployProgress.ResolvingWorkspace, $"Looking up semantic model '{itemName}' in workspace {workspaceId}..."));
+                var semanticModels = await ListItemsByTypeAsync(workspaceId, "SemanticModel", authConfig.AccessToken, cancellationToken);
 
                 // Prefer identity by logicalId when available.
                 string existingItemId = null;
@@ -94,7 +106,8 @@ namespace TmdlStudio.Services
                         !string.IsNullOrWhiteSpace(itemName) &&
                         !string.Equals(existingDisplayName, itemName, StringComparison.OrdinalIgnoreCase))
                     {
-                        var renameResult = await RenameItemAsync(workspaceId, existingItemId, itemName, authConfig.AccessToken);
+                        progress?.Report(DeployProgress.Create(DeployProgress.RenamingItem, $"Renaming semantic model '{existingDisplayName}' to '{itemName}'..."));
+                        var renameResult = await RenameItemAsync(workspaceId, existingItemId, itemName, authConfig.AccessToken, cancellationToken);
                         if (!renameResult.success)
                         {
                             return DeployResult.Error($"Found semantic model by logicalId '{platformLogicalId}' but failed to rename it to '{itemName}': {renameResult.error}");
@@ -137,7 +150,7 @@ namespace TmdlStudio.Services
                             .FirstOrDefault(item => string.Equals(item.DisplayName, fallbackName, StringComparison.OrdinalIgnoreCase));
                         if (fallbackItem != null)
                         {
-                            var renameResult = await RenameItemAsync(workspaceId, fallbackItem.Id, itemName, authConfig.AccessToken);
+                            var renameResult = await RenameItemAsync(workspaceId, fallbackItem.Id, itemName, authConfig.AccessToken, cancellationToken);
                             if (!renameResult.success)
                             {
                                 return DeployResult.Error($"Found existing semantic model '{fallbackName}' but failed to rename it to '{itemName}': {renameResult.error}");
@@ -160,7 +173,7 @@ namespace TmdlStudio.Services
                 {
                     // Create new semantic model
                     authConfig.PreviousModelName = itemName;
-                    return await CreateSemanticModelAsync(workspaceId, itemName, tmdlPath, authConfig.AccessToken);
+                    return await CreateSemanticModelAsync(workspaceId, itemName, tmdlPath, authConfig.AccessToken, progress, refresh, cancellationToken);
                 }
                 else
                 {
@@ -170,15 +183,143 @@ namespace TmdlStudio.Services
                         authConfig.PreviousModelName = existingDisplayName;
                     }
 
-                    return await UpdateSemanticModelAsync(workspaceId, existingItemId, itemName, tmdlPath, authConfig.AccessToken, renamed);
+                    return await UpdateSemanticModelAsync(workspaceId, existingItemId, itemName, tmdlPath, authConfig.AccessToken, renamed, progress, refresh, cancellationToken);
                 }
             }
+            catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+            {
+                throw;
+            }
             catch (Exception ex)
             {
                 return DeployResult.Error($"Fabric API deployment failed: {ex.Message}");
             }
         }
 
+        /// <summary>
+        /// Finds the semantic model a deploy of <paramref name="tmdlPath"/> would update and reads its structure.
+        /// Uses the same logicalId and name matching as <see cref="DeployAsync"/> but never renames or prompts.
+        /// </summary>
+        public static async Task<DeployedModelResult> GetDeployedModelAsync(string tmdlPath, AuthConfig authConfig)
+        {
+            string workspaceId = ExtractWorkspaceId(authConfig.WorkspaceUrl);
+            if (string.IsNullOrEmpty(workspaceId))
+            {
+                throw new InvalidOperationException("Could not extract workspace ID from URL. Expected format: https://api.fabric.microsoft.com/v1/workspaces/{workspaceId} or similar");
+            }
+
+            var database = TmdlSerializer.DeserializeDatabaseFromFolder(tmdlPath);
+            string platformName = TryReadDisplayNameFromPlatform(tmdlPath);
+            string platformLogicalId = TryReadLogicalIdFromPlatform(tmdlPath);
+            string itemName = !string.IsNullOrWhiteSpace(authConfig?.ModelName)
+                ? authConfig.ModelName.Trim()
+                : platformName ?? database?.Name;
+
+            var semanticModels = await ListItemsByTypeAsync(workspaceId, "SemanticModel", authConfig.AccessToken);
+            WorkspaceItem existing = null;
+
+            if (!string.IsNullOrWhiteSpace(platformLogicalId))
+            {
+                var itemId = TokenCacheService.GetMappedItemId(workspaceId, platformLogicalId) ?? TryMapLogicalIdToItemId(platformLogicalId);
+                existing = semanticModels.FirstOrDefault(item => string.Equals(item.Id, itemId, StringComparison.OrdinalIgnoreCase));
+            }
+
+            // Same fallback order as deploy: desired name first, then names deploy would rename from.
+            var candidateNames = new[] { itemName, authConfig?.PreviousModelName, platformName, database?.Name };
+            foreach (var name in candidateNames)
+            {
+                if (existing != null)
+                {
+                    break;
+                }
+
+                if (!string.IsNullOrWhiteSpace(name))
+                {
+                    existing = semanticModels.FirstOrDefault(item => string.Equals(item.DisplayName, name, StringComparison.OrdinalIgnoreCase));
+                }
+            }
+
+            if (existing == null)
+            {
+                return new DeployedModelResult { Exists = false, ItemName = itemName };
+            }
+
+            var tempFolder = Path.Combine(Path.GetTempPath(), $"timdle-deployed-{Guid.NewGuid():N}");
+            try
+            {
+                await DownloadDefinitionAsync(workspaceId, existing.Id, authConfig.AccessToken, tempFolder);
+
+                var definitionFolder = Path.Combine(tempFolder, "definition");
+                if (!Directory.Exists(definitionFolder))
+                {
+                    definitionFolder = tempFolder;
+                }
+
+                var deployed = TmdlService.LoadModel(definitionFolder);
+                return new DeployedModelResult
+                {
+                    Exists = true,
+                    ItemId = existing.Id,
+                    ItemName = existing.DisplayName,
+                    Model = TmdlService.ToModelStructure(deployed, definitionFolder)
+                };
+            }
+            finally
+            {
+                if (Directory.Exists(tempFolder))
+                {
+                    Directory.Delete(tempFolder, recursive: true);
+                }
+            }
+        }
+
+        /// <summary>
+        /// Downloads a semantic model definition in TMDL format and writes its parts under <paramref name="targetFolder"/>.
+        /// </summary>
+        public static async Task DownloadDefinitionAsync(string workspaceId, string itemId, string accessToken, string targetFolder)
+        {
+            using var httpClient = new HttpClient();
+            string url = $"{FabricApiBase}/workspaces/{workspaceId}/semanticModels/{itemId}/getDefinition?format=TMDL";
+
+            using var request = new HttpRequestMessage(HttpMethod.Post, url);
+            request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", accessToken);
+
+            var response = await httpClient.SendAsync(request);
+            var definitionContent = await ReadOperationResultBodyAsync(httpClient, response, accessToken);
+            if (string.IsNullOrWhiteSpace(definitionContent))
+            {
+                throw new InvalidOperationException($"Failed to download the definition of semantic model {itemId}.");
+            }
+
+            using var document = JsonDocument.Parse(definitionContent);
+            if (!document.RootElement.TryGetProperty("definition", out var definitionElement) ||
+                !definitionElement.TryGetProperty("parts", out var partsElement))
+            {
+                throw new InvalidOperationException("The semantic model definition has no parts.");
+            }
+
+            var rootPath = Path.GetFullPath(targetFolder);
+            foreach (var part in partsElement.EnumerateArray())
+            {
+                string partPath = part.TryGetProperty("path", out var pathElement) ? pathElement.GetString() : null;
+                string payload = part.TryGetProperty("payload", out var payloadElement) ? payloadElement.GetString() : null;
+                if (string.IsNullOrWhiteSpace(partPath) || payload == null)
+                {
+                    continue;
+                }
+
+                // Never write outside the target folder, whatever the part path says.
+                var filePath = Path.GetFullPath(Path.Combine(rootPath, partPath));
+                if (!filePath.StartsWith(rootPath + Path.DirectorySeparatorChar, StringComparison.Ordinal))
+                {
+                    continue;
+                }
+
+                Directory.CreateDirectory(Path.GetDirectoryName(filePath));
+                await File.WriteAllBytesAsync(filePath, Convert.FromBase64String(payload));
+            }
+        }
+
         /// <summary>
         /// Resolves semantic model display name with fallback order:
         /// explicit name (--name) -> .platform metadata.displayName -> database name -> interactive prompt.
@@ -335,7 +476,8 @@ namespace TmdlStudio.Services
         private static async Task<System.Collections.Generic.List<WorkspaceItem>> ListItemsByTypeAsync(
             string workspaceId,
             string itemType,
-            string accessToken)
+            string accessToken,
+            CancellationToken cancellationToken = default)
         {
             var results = new System.Collections.Generic.List<WorkspaceItem>();
 
@@ -347,7 +489,7 @@ namespace TmdlStudio.Services
                 using var request = new HttpRequestMessage(HttpMethod.Get, nextUrl);
                 request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", accessToken);
 
-                var response = await httpClient.SendAsync(request);
+                var response = await httpClient.SendAsync(request, cancellationToken);
                 var content = await response.Content.ReadAsStringAsync();
 
                 if (!response.IsSuccessStatusCode)
@@ -557,13 +699,18 @@ namespace TmdlStudio.Services
             string workspaceId, 
             string itemName, 
             string tmdlPath, 
-            string accessToken)
+            string accessToken,
+            IProgress<DeployProgress> progress = null,
+            bool refresh = false,
+            CancellationToken cancellationToken = default)
         {
             try
             {
                 using var httpClient = new HttpClient();
                 string url = $"{FabricApiBase}/workspaces/{workspaceId}/items";
 
+                progress?.Report(DeployProgress.Create(DeployProgress.UploadingDefinition, $"Creating semantic model '{itemName}'..."));
+
                 // Create the semantic model item
                 var definitionParts = BuildDefinitionPayload(tmdlPath);
                 var createPayload = new
@@ -582,7 +729,7 @@ namespace TmdlStudio.Services
                 request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", accessToken);
                 request.Content = new StringContent(jsonPayload, Encoding.UTF8, "application/json");
 
-                var response = await httpClient.SendAsync(request);
+                var response = await httpClient.SendAsync(request, cancellationToken);
                 var responseContent = await response.Content.ReadAsStringAsync();
 
                 if (!response.IsSuccessStatusCode)
@@ -601,12 +748,19 @@ namespace TmdlStudio.Services
                 if (string.IsNullOrWhiteSpace(itemId))
                 {
                     // Definition may already be applied via create payload.
-                    return DeployResult.Success("Successfully created semantic model");
+                    return DeployResult.Success(refresh
+                        ? "Successfully created semantic model, but it was not refreshed because its id could not be found"
+                        : "Successfully created semantic model");
                 }
 
                 // Some API versions require updateDefinition after create, others accept definition in create.
                 // Keep update for compatibility.
-                return await UpdateItemDefinitionAsync(workspaceId, itemId, tmdlPath, accessToken, true);
+                return await UpdateItemDefinitionAsync(
+                    workspaceId, itemId, tmdlPath, accessToken, true, progress: progress, refresh: refresh, cancellationToken: cancellationToken);
+            }
+            catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+            {
+                throw;
             }
             catch (Exception ex)
             {
@@ -623,9 +777,12 @@ namespace TmdlStudio.Services
             string itemName,
             string tmdlPath, 
             string accessToken,
-            bool renamed)
+            bool renamed,
+            IProgress<DeployProgress> progress = null,
+            bool refresh = false,
+            CancellationToken cancellationToken = default)
         {
-            return await UpdateItemDefinitionAsync(workspaceId, itemId, tmdlPath, accessToken, false, renamed);
+            return await UpdateItemDefinitionAsync(workspaceId, itemId, tmdlPath, accessToken, false, renamed, progress, refresh, cancellationToken);
         }
 
         /// <summary>
@@ -667,7 +824,8 @@ namespace TmdlStudio.Services
             string workspaceId,
             string itemId,
             string newName,
-            string accessToken)
+            string accessToken,
+            CancellationToken cancellationToken = default)
         {
             try
             {
@@ -683,7 +841,7 @@ namespace TmdlStudio.Services
                 request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", accessToken);
                 request.Content = new StringContent(STJ.JsonSerializer.Serialize(payload), Encoding.UTF8, "application/json");
 
-                var response = await httpClient.SendAsync(request);
+                var response = await httpClient.SendAsync(request, cancellationToken);
                 var content = await response.Content.ReadAsStringAsync();
 
                 if (!response.IsSuccessStatusCode)
@@ -693,6 +851,10 @@ namespace TmdlStudio.Services
 
                 return (true, null);
             }
+            catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+            {
+                throw;
+            }
             catch (Exception ex)
             {
                 return (false, ex.Message);
@@ -708,13 +870,18 @@ namespace TmdlStudio.Services
             string tmdlPath, 
             string accessToken,
             bool isNew,
-            bool renamed = false)
+            bool renamed = false,
+            IProgress<DeployProgress> progress = null,
+            bool refresh = false,
+            CancellationToken cancellationToken = default)
         {
             try
             {
                 using var httpClient = new HttpClient();
                 string url = $"{FabricApiBase}/workspaces/{workspaceId}/items/{itemId}/updateDefinition";
 
+                progress?.Report(DeployProgress.Create(DeployProgress.UploadingDefinition, "Uploading model definition..."));
+
                 // Build definition payload with all TMDL files
                 var definitionParts = BuildDefinitionPayload(tmdlPath);
 
@@ -735,12 +902,12 @@ namespace TmdlStudio.Services
                 request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", accessToken);
                 request.Content = new StringContent(jsonPayload, Encoding.UTF8, "application/json");
 
-                var response = await httpClient.SendAsync(request);
+                var response = await httpClient.SendAsync(request, cancellationToken);
                 var responseContent = await response.Content.ReadAsStringAsync();
 
                 if (response.StatusCode == HttpStatusCode.Accepted)
                 {
-                    var lroResult = await WaitForOperationCompletionAsync(httpClient, response, accessToken);
+                    var lroResult = await WaitForOperationCompletionAsync(httpClient, response, accessToken, progress, cancellationToken);
                     if (!lroResult.success)
                     {
                         return DeployResult.Error($"Failed to update definition: {lroResult.error}");
@@ -756,9 +923,22 @@ namespace TmdlStudio.Services
                     : renamed
                         ? $"Successfully renamed and updated semantic model"
                         : $"Successfully updated semantic model";
-                
+
+                if (refresh)
+                {
+                    // The definition is deployed either way; a failed refresh is reported, not treated as a failed deploy.
+                    var refreshResult = await RefreshSemanticModelAsync(httpClient, workspaceId, itemId, accessToken, progress, cancellationToken);
+                    message = refreshResult.success
+                        ? $"{message} and refreshed its data"
+                        : $"{message}, but the refresh failed: {refreshResult.error}";
+                }
+
                 return DeployResult.Success(message);
             }
+            catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+            {
+                throw;
+            }
             catch (Exception ex)
             {
                 return DeployResult.Error($"Failed to update definition: {ex.Message}");
@@ -809,7 +989,9 @@ namespace TmdlStudio.Services
         private static async Task<(bool success, string operationId, string error)> WaitForOperationCompletionAsync(
             HttpClient httpClient,
             HttpResponseMessage acceptedResponse,
-            string accessToken)
+            string accessToken,
+            IProgress<DeployProgress> progress = null,
+            CancellationToken cancellationToken = default)
         {
             var operationId = acceptedResponse.Headers.TryGetValues("x-ms-operation-id", out var operationIdValues)
                 ? operationIdValues.FirstOrDefault()
@@ -832,7 +1014,7 @@ namespace TmdlStudio.Services
                 using var statusRequest = new HttpRequestMessage(HttpMethod.Get, statusUrl);
                 statusRequest.Headers.Authorization = new AuthenticationHeaderValue("Bearer", accessToken);
 
-                var statusResponse = await httpClient.SendAsync(statusRequest);
+                var statusResponse = await httpClient.SendAsync(statusRequest, cancellationToken);
                 var statusContent = await statusResponse.Content.ReadAsStringAsync();
 
                 if (!statusResponse.IsSuccessStatusCode)
@@ -845,6 +1027,15 @@ namespace TmdlStudio.Services
                     ? statusElement.GetString()
                     : null;
 
+                var percentComplete = statusDoc.RootElement.TryGetProperty("percentComplete", out var percentElement) &&
+                    percentElement.ValueKind == JsonValueKind.Number
+                        ? $", {percentElement.GetInt32()}%"
+                        : string.Empty;
+                progress?.Report(DeployProgress.Create(
+                    DeployProgress.WaitingForOperation,
+                    $"Waiting for Fabric to apply the definition ({status ?? "unknown"}{percentComplete})...",
+                    operationId));
+
                 if (string.Equals(status, "Succeeded", StringComparison.OrdinalIgnoreCase))
                 {
                     return (true, operationId, null);
@@ -872,12 +1063,112 @@ namespace TmdlStudio.Services
                     }
                 }
 
-                await Task.Delay(retryDelaySeconds * 1000);
+                await Task.Delay(retryDelaySeconds * 1000, cancellationToken);
             }
 
             return (false, operationId, "Timed out waiting for operation completion.");
         }
 
+        /// <summary>
+        /// Refreshes the data of a semantic model and waits for the refresh to finish.
+        /// Fabric has no refresh endpoint for semantic models, so this uses the Power BI enhanced refresh API,
+        /// which accepts the same token. Cancelling stops the wait; the refresh keeps running in the workspace.
+        /// </summary>
+        private static async Task<(bool success, string error)> RefreshSemanticModelAsync(
+            HttpClient httpClient,
+            string workspaceId,
+            string itemId,
+            string accessToken,
+            IProgress<DeployProgress> progress = null,
+            CancellationToken cancellationToken = default)
+        {
+            var refreshesUrl = $"{PowerBiApiBase}/groups/{workspaceId}/datasets/{itemId}/refreshes";
+            progress?.Report(DeployProgress.Create(DeployProgress.Refreshing, "Refreshing semantic model..."));
+
+            using var request = new HttpRequestMessage(HttpMethod.Post, refreshesUrl);
+            request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", accessToken);
+            request.Content = new StringContent(
+                STJ.JsonSerializer.Serialize(new { type = "full", notifyOption = "NoNotification" }),
+                Encoding.UTF8,
+                "application/json");
+
+            var response = await httpClient.SendAsync(request, cancellationToken);
+            if (response.StatusCode != HttpStatusCode.Accepted)
+            {
+                var content = await response.Content.ReadAsStringAsync();
+                return (false, $"{response.StatusCode} - {content}");
+            }
+
+            // The refresh id is the last segment of the Location header, and also sent as the request id
+            var refreshId = response.Headers.Location?.ToString().TrimEnd('/').Split('/').LastOrDefault();
+            if (string.IsNullOrWhiteSpace(refreshId) && response.Headers.TryGetValues("x-ms-request-id", out var requestIdValues))
+            {
+                refreshId = requestIdValues.FirstOrDefault();
+            }
+
+            if (string.IsNullOrWhiteSpace(refreshId))
+            {
+                return (false, "Refresh accepted but its id was not returned by the API.");
+            }
+
+            for (int attempt = 0; attempt < MaxRefreshPolls; attempt++)
+            {
+                await Task.Delay(RefreshPollSeconds * 1000, cancellationToken);
+
+                using var statusRequest = new HttpRequestMessage(HttpMethod.Get, $"{refreshesUrl}/{refreshId}");
+                statusRequest.Headers.Authorization = new AuthenticationHeaderValue("Bearer", accessToken);
+
+                var statusResponse = await httpClient.SendAsync(statusRequest, cancellationToken);
+                var statusContent = await statusResponse.Content.ReadAsStringAsync();
+
+                if (!statusResponse.IsSuccessStatusCode)
+                {
+                    return (false, $"Failed to query refresh state: {statusResponse.StatusCode} - {statusContent}");
+                }
+
+                using var statusDoc = JsonDocument.Parse(statusContent);
+                var status = statusDoc.RootElement.TryGetProperty("status", out var statusElement)
+                    ? statusElement.GetString()
+                    : null;
+
+                // "status" stays "Unknown" while the refresh runs; "extendedStatus" tells queued from running
+                var extendedStatus = statusDoc.RootElement.TryGetProperty("extendedStatus", out var extendedElement)
+                    ? extendedElement.GetString()
+                    : null;
+                progress?.Report(DeployProgress.Create(
+                    DeployProgress.Refreshing,
+                    $"Refreshing semantic model ({extendedStatus ?? status ?? "unknown"})..."));
+
+                if (string.Equals(status, "Completed", StringComparison.OrdinalIgnoreCase))
+                {
+                    return (true, null);
+                }
+
+                if (string.Equals(status, "Failed", StringComparison.OrdinalIgnoreCase) ||
+                    string.Equals(status, "Cancelled", StringComparison.OrdinalIgnoreCase) ||
+                    string.Equals(status, "Disabled", StringComparison.OrdinalIgnoreCase))
+                {
+                    var errorMessage = $"Refresh {status.ToLowerInvariant()}.";
+                    if (statusDoc.RootElement.TryGetProperty("messages", out var messagesElement) &&
+                        messagesElement.ValueKind == JsonValueKind.Array)
+                    {
+                        var messages = messagesElement.EnumerateArray()
+                            .Select(m => m.TryGetProperty("message", out var messageElement) ? messageElement.GetString() : null)
+                            .Where(m => !string.IsNullOrWhiteSpace(m))
+                            .ToArray();
+                        if (messages.Length > 0)
+                        {
+                            errorMessage = string.Join(" ", messages);
+                        }
+                    }
+
+                    return (false, errorMessage);
+                }
+            }
+
+            return (false, "Timed out waiting for the refresh; it keeps running in the workspace.");
+        }
+
         private static string TryExtractOperationId(string location)
         {
             if (string.IsNullOrWhiteSpace(location))
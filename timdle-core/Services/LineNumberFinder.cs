@@ -22,6 +22,7 @@ namespace TmdlStudio.Services
 
                 bool found = itemType switch
                 {
+                    "table" => IsTableDeclaration(line, itemName),
                     "column" => IsColumnDeclaration(line, itemName),
                     "measure" => IsMeasureDeclaration(line, itemName),
                     "partition" => IsPartitionDeclaration(line, itemName),
@@ -40,6 +41,14 @@ namespace TmdlStudio.Services
             return null;
         }
 
+        private static bool IsTableDeclaration(string line, string name)
+        {
+            string pattern = NeedsQuotes(name)
+                ? $"table '{EscapeSingleQuotes(name)}'"
+                : $"table {name}";
+            return line == pattern || line.StartsWith(pattern + " ");
+        }
+
         private static bool IsColumnDeclaration(string line, string name)
         {
             string pattern = NeedsQuotes(name) 
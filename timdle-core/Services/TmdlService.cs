@@ -1,6 +1,8 @@
 using System;
+using System.Collections.Generic;
 using System.IO;
 using System.Linq;
+using System.Threading;
 using Microsoft.AnalysisServices.Tabular;
 using Microsoft.AnalysisServices.Tabular.Tmdl;
 using TmdlStudio.Models;
@@ -15,12 +17,20 @@ namespace TmdlStudio.Services
         /// </summary>
         /// <param name="path">Path to the TMDL folder.</param>
         /// <param name="authConfig">Authentication configuration.</param>
+        /// <param name="progress">Receives stage updates while the deploy runs.</param>
+        /// <param name="refresh">Refreshes the semantic model once the definition is deployed.</param>
+        /// <param name="cancellationToken">Stops the deploy; throws <see cref="OperationCanceledException"/> when it does.</param>
         /// <returns>Deploy result with success status and change summary.</returns>
-        public static DeployResult Deploy(string path, AuthConfig authConfig)
+        public static DeployResult Deploy(
+            string path,
+            AuthConfig authConfig,
+            IProgress<DeployProgress> progress = null,
+            bool refresh = false,
+            CancellationToken cancellationToken = default)
         {
             // Use Fabric REST API for deployment
             // This works cross-platform without requiring Windows-only components
-            return FabricApiService.DeployAsync(path, authConfig).GetAwaiter().GetResult();
+            return FabricApiService.DeployAsync(path, authConfig, progress, refresh, cancellationToken).GetAwaiter().GetResult();
         }
 
         public static Database LoadModel(string path)
@@ -34,6 +44,49 @@ namespace TmdlStudio.Services
             return LoadModel(path).Model;
         }
 
+        /// <summary>
+        /// Parses a single table file without deserializing the rest of the model.
+        /// The TMDL serializer only reads whole folders, so the table file is copied into a
+        /// temporary folder next to the database file and a bare model declaration.
+        /// </summary>
+        /// <param name="path">Path to the TMDL folder.</param>
+        /// <param name="tableFile">Path of the table file, relative to the TMDL folder.</param>
+        /// <returns>The table, with line numbers from the original file.</returns>
+        public static TableInfo GetTableStructure(string path, string tableFile)
+        {
+            var sourceFile = Path.Combine(path, tableFile);
+            if (!File.Exists(sourceFile))
+            {
+                throw new FileNotFoundException($"Table file does not exist: {tableFile}", sourceFile);
+            }
+
+            var tempFolder = Path.Combine(Path.GetTempPath(), $"timdle-{Guid.NewGuid():N}");
+            try
+            {
+                Directory.CreateDirectory(Path.Combine(tempFolder, "tables"));
+                File.Copy(sourceFile, Path.Combine(tempFolder, "tables", Path.GetFileName(sourceFile)));
+
+                var databaseFile = Path.Combine(path, "database.tmdl");
+                if (File.Exists(databaseFile))
+                {
+                    File.Copy(databaseFile, Path.Combine(tempFolder, "database.tmdl"));
+                }
+                File.WriteAllText(Path.Combine(tempFolder, "model.tmdl"), "model Model\n");
+
+                var tables = LoadModelObject(tempFolder).Tables;
+                if (tables.Count != 1)
+                {
+                    throw new InvalidOperationException($"Expected one table in {tableFile}, found {tables.Count}");
+                }
+
+                return ToTableInfo(tables[0], path);
+            }
+            finally
+            {
+                Directory.Delete(tempFolder, recursive: true);
+            }
+        }
+
         public static ModelStructure ToModelStructure(Database database, string path)
         {
             var model = database.Model;
@@ -50,7 +103,8 @@ namespace TmdlStudio.Services
                 Model = new ModelInfo
                 {
                     Name = model.Name,
-                    File = "model.tmdl"
+                    File = "model.tmdl",
+                    Annotations = ToAnnotations(model.Annotations)
                 },
                 Tables = model.Tables.Select(t => ToTableInfo(t, path)).ToArray(),
                 Relationships = model.Relationships.Select(r => ToRelationshipInfo(r, path)).ToArray(),
@@ -67,17 +121,31 @@ namespace TmdlStudio.Services
             {
                 Name = table.Name,
                 File = $"tables/{table.Name}.tmdl",
+                Description = table.Description,
+                IsHidden = table.IsHidden,
+                Annotations = ToAnnotations(table.Annotations),
+                LineNumber = LineNumberFinder.FindLineNumber(tableFilePath, table.Name, "table"),
                 Columns = table.Columns.Select(c => new ColumnInfo
                 {
                     Name = c.Name,
                     DataType = c.DataType.ToString(),
+                    Type = c.Type.ToString(),
                     IsHidden = c.IsHidden,
+                    Description = c.Description,
+                    DisplayFolder = c.DisplayFolder,
+                    Expression = (c as CalculatedColumn)?.Expression,
+                    Annotations = ToAnnotations(c.Annotations),
                     LineNumber = LineNumberFinder.FindLineNumber(tableFilePath, c.Name, "column")
                 }).ToArray(),
                 Measures = table.Measures.Select(m => new MeasureInfo
                 {
                     Name = m.Name,
                     FormatString = m.FormatString,
+                    IsHidden = m.IsHidden,
+                    Description = m.Description,
+                    DisplayFolder = m.DisplayFolder,
+                    Expression = m.Expression,
+                    Annotations = ToAnnotations(m.Annotations),
                     LineNumber = LineNumberFinder.FindLineNumber(tableFilePath, m.Name, "measure")
                 }).ToArray(),
                 Partitions = table.Partitions.Select(p => new PartitionInfo
@@ -98,12 +166,25 @@ namespace TmdlStudio.Services
                 Id = relationship.Name ?? string.Empty,
                 Name = GenerateRelationshipName(relationship),
                 File = "relationships.tmdl",
-                FromColumn = relationship.FromTable?.Name,
-                ToColumn = relationship.ToTable?.Name,
+                FromTable = relationship.FromTable?.Name,
+                FromColumn = (relationship as SingleColumnRelationship)?.FromColumn?.Name,
+                ToTable = relationship.ToTable?.Name,
+                ToColumn = (relationship as SingleColumnRelationship)?.ToColumn?.Name,
+                IsActive = relationship.IsActive,
                 LineNumber = LineNumberFinder.FindLineNumber(relationshipsFilePath, relationship.Name, "relationship")
             };
         }
 
+        private static Dictionary<string, string> ToAnnotations(AnnotationCollection annotations)
+        {
+            if (annotations == null || annotations.Count == 0)
+            {
+                return null;
+            }
+
+            return annotations.ToDictionary(a => a.Name, a => a.Value);
+        }
+
         private static string GenerateRelationshipName(Relationship relationship)
         {
             string fromTable = relationship.FromTable?.Name ?? "Unknown";
@@ -120,6 +201,7 @@ namespace TmdlStudio.Services
                 Name = expression.Name,
                 File = "expressions.tmdl",
                 Kind = expression.Kind.ToString(),
+                Expression = expression.Expression,
                 LineNumber = LineNumberFinder.FindLineNumber(expressionsFilePath, expression.Name, "expression")
             };
         }
@@ -157,11 +239,23 @@ namespace TmdlStudio.Services
                     return TmdlStudio.Models.ValidationResult.Error($"No TMDL files found in: {path}");
                 }
 
-                var model = LoadModelObject(path);
+                Model model;
+                try
+                {
+                    model = LoadModelObject(path);
+                }
+                catch (Exception ex)
+                {
+                    return TmdlStudio.Models.ValidationResult.Error(
+                        $"Validation failed: {ex.Message}",
+                        ValidationDiagnosticMapper.FromException(ex, path));
+                }
 
                 if (model.Tables.Count == 0)
                 {
-                    return TmdlStudio.Models.ValidationResult.Warning($"Model '{model.Name}' loaded but contains no tables");
+                    return TmdlStudio.Models.ValidationResult.Warning(
+                        $"Model '{model.Name}' loaded but contains no tables",
+                        ValidationDiagnosticMapper.EmptyModel(model.Name));
                 }
 
                 return TmdlStudio.Models.ValidationResult.Success($"Model '{model.Name}' validated. Tables: {model.Tables.Count}, Measures: {model.Tables.Sum(t => t.Measures.Count)}");
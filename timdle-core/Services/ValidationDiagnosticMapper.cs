@@ -0,0 +1,114 @@
+using System;
+using System.IO;
+using Microsoft.AnalysisServices.Tabular.Tmdl;
+using TmdlStudio.Models;
+
+namespace TmdlStudio.Services
+{
+    /// <summary>
+    /// Maps TMDL load failures to file/line diagnostics the editor can place.
+    /// </summary>
+    public static class ValidationDiagnosticMapper
+    {
+        public const string FormatErrorCode = "TMDL001";
+        public const string SerializationErrorCode = "TMDL002";
+        public const string LoadErrorCode = "TMDL003";
+        public const string EmptyModelCode = "TMDL100";
+
+        /// <summary>
+        /// Fallback file for diagnostics that are not tied to a specific document.
+        /// </summary>
+        public const string ModelFile = "model.tmdl";
+
+        public static ValidationDiagnostic FromException(Exception ex, string basePath)
+        {
+            switch (ex)
+            {
+                case TmdlFormatException format:
+                    return Create(FormatErrorCode, format.Message, format.Document, format.Line, format.LineText, basePath);
+                case TmdlSerializationException serialization:
+                    return Create(SerializationErrorCode, serialization.Message, serialization.Document, serialization.Line, serialization.LineText, basePath);
+                default:
+                    return new ValidationDiagnostic
+                    {
+                        File = ModelFile,
+                        Severity = "error",
+                        Code = LoadErrorCode,
+                        Message = ex.Message
+                    };
+            }
+        }
+
+        public static ValidationDiagnostic EmptyModel(string modelName)
+        {
+            return new ValidationDiagnostic
+            {
+                File = ModelFile,
+                Line = 1,
+                Column = 1,
+                Severity = "warning",
+                Code = EmptyModelCode,
+                Message = $"Model '{modelName}' contains no tables"
+            };
+        }
+
+        /// <summary>
+        /// Converts a TMDL document name into a forward-slash path relative to the model folder.
+        /// Documents are reported either as rooted paths or as extensionless names like "tables/Sales".
+        /// </summary>
+        public static string NormalizeDocumentPath(string document, string basePath)
+        {
+            if (string.IsNullOrWhiteSpace(document))
+            {
+                return ModelFile;
+            }
+
+            var relative = Path.IsPathRooted(document)
+                ? Path.GetRelativePath(basePath, document)
+                : document;
+
+            relative = relative.Replace('\\', '/').TrimStart('/');
+
+            if (!relative.EndsWith(".tmdl", StringComparison.OrdinalIgnoreCase))
+            {
+                relative += ".tmdl";
+            }
+
+            return relative;
+        }
+
+        /// <summary>
+        /// Returns the 1-based column of the first non-whitespace character, or 1 for blank lines.
+        /// </summary>
+        public static int GetColumn(string lineText)
+        {
+            if (string.IsNullOrEmpty(lineText))
+            {
+                return 1;
+            }
+
+            for (int i = 0; i < lineText.Length; i++)
+            {
+                if (!char.IsWhiteSpace(lineText[i]))
+                {
+                    return i + 1;
+                }
+            }
+
+            return 1;
+        }
+
+        private static ValidationDiagnostic Create(string code, string message, string document, int line, string lineText, string basePath)
+        {
+            return new ValidationDiagnostic
+            {
+                File = NormalizeDocumentPath(document, basePath),
+                Line = line > 0 ? line : (int?)null,
+                Column = GetColumn(lineText),
+                Severity = "error",
+                Code = code,
+                Message = message
+            };
+        }
+    }
+}